@@ -38,7 +38,7 @@ export default function LoginPage() {
     setIsLoading(true)
     try {
       const response = await apiClient.login(data)
-      login(response.token, response.user)
+      login(response.token, response.user, response.refreshToken)
       toast.success(`Welcome back, ${response.user.name}!`)
       router.push("/dashboard")
     } catch (error: any) {
@@ -51,7 +51,7 @@ export default function RegisterPage() {
     try {
       const { name, email, password } = data
       const response = await apiClient.register({ name, email, password })
-      login(response.token, response.user)
+      login(response.token, response.user, response.refreshToken)
       toast.success("Account created successfully!")
       router.push("/onboarding")
     } catch (error: any) {
@@ -0,0 +1,331 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import toast from "react-hot-toast"
+import {
+  Users, UserPlus, Trash2, Copy, RefreshCw, AlertCircle, Mail, Crown, Eye, Wrench
+} from "lucide-react"
+import { OrgRole } from "@/lib/api-client"
+import {
+  useOrganizations,
+  useOrganizationMembers,
+  useInviteMember,
+  useCancelInvitation,
+  useAcceptInvitation,
+  useUpdateMemberRole,
+  useRemoveMember,
+} from "@/hooks/api/useOrganizations"
+import { useAuth } from "@/contexts/AuthContext"
+
+const ROLES: { value: OrgRole; label: string; description: string; icon: typeof Crown }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manage bots, treasury deployment and members', icon: Crown },
+  { value: 'operator', label: 'Operator', description: 'Run bots, send tokens, vote and fund', icon: Wrench },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access to bots and analytics', icon: Eye },
+]
+
+export default function MembersPage() {
+  const { user } = useAuth()
+  const { data: orgData, isLoading: orgsLoading, error: orgsError, refetch } = useOrganizations()
+  const organizations = orgData?.organizations || []
+
+  const [selectedOrgId, setSelectedOrgId] = useState<string>('')
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: OrgRole }>({ email: '', role: 'viewer' })
+  const [inviteToken, setInviteToken] = useState<string | null>(null)
+  const [acceptToken, setAcceptToken] = useState('')
+
+  useEffect(() => {
+    if (!selectedOrgId && organizations.length > 0) {
+      setSelectedOrgId(organizations[0].id)
+    }
+  }, [organizations, selectedOrgId])
+
+  const { data: membersData, isLoading: membersLoading } = useOrganizationMembers(selectedOrgId)
+  const inviteMember = useInviteMember()
+  const cancelInvitation = useCancelInvitation()
+  const acceptInvitation = useAcceptInvitation()
+  const updateMemberRole = useUpdateMemberRole()
+  const removeMember = useRemoveMember()
+
+  const isOwner = membersData?.role === 'owner'
+
+  const handleInvite = async () => {
+    if (!inviteForm.email) {
+      toast.error('Enter an email address')
+      return
+    }
+
+    try {
+      const result = await inviteMember.mutateAsync({ orgId: selectedOrgId, ...inviteForm })
+      setInviteToken(result.token)
+      setInviteForm({ email: '', role: 'viewer' })
+      toast.success(`Invitation created for ${result.invitation.email}`)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to invite member')
+    }
+  }
+
+  const handleAccept = async () => {
+    try {
+      await acceptInvitation.mutateAsync(acceptToken.trim())
+      setAcceptToken('')
+      toast.success('Invitation accepted')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to accept invitation')
+    }
+  }
+
+  const handleRoleChange = async (userId: string, role: OrgRole) => {
+    try {
+      await updateMemberRole.mutateAsync({ orgId: selectedOrgId, userId, role })
+      toast.success('Role updated')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update role')
+    }
+  }
+
+  const handleRemove = async (userId: string, email: string) => {
+    const leaving = userId === user?.id
+    if (!confirm(leaving ? 'Leave this organization?' : `Remove ${email} from this organization?`)) {
+      return
+    }
+
+    try {
+      await removeMember.mutateAsync({ orgId: selectedOrgId, userId })
+      if (leaving) setSelectedOrgId('')
+      toast.success(leaving ? 'You left the organization' : 'Member removed')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove member')
+    }
+  }
+
+  if (orgsLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading organizations...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (orgsError) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="p-6 max-w-md">
+          <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-center mb-2">Error Loading Organizations</h2>
+          <p className="text-muted-foreground text-center mb-4">{(orgsError as Error).message}</p>
+          <button onClick={() => refetch()} className="btn-primary w-full">
+            Try Again
+          </button>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Members</h1>
+          <p className="text-muted-foreground">
+            Share bots with your team using owner, operator and viewer roles
+          </p>
+        </div>
+      </div>
+
+      {/* Organization Selection */}
+      {organizations.length > 1 && (
+        <div className="mb-6">
+          <label className="text-sm font-medium mb-2 block">Organization</label>
+          <select
+            value={selectedOrgId}
+            onChange={(e) => setSelectedOrgId(e.target.value)}
+            className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {organizations.map((org) => (
+              <option key={org.id} value={org.id}>
+                {org.name} ({org.role})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Member List */}
+        <Card className="p-6 lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold">Team Members</h3>
+            <Users className="w-5 h-5 text-primary" />
+          </div>
+
+          {membersLoading ? (
+            <RefreshCw className="w-6 h-6 animate-spin mx-auto text-primary" />
+          ) : (
+            <div className="space-y-3">
+              {membersData?.members.map((member) => (
+                <div key={member.userId} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                  <div>
+                    <div className="text-sm font-semibold">
+                      {member.email}
+                      {member.userId === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Joined {new Date(member.joinedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isOwner ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member.userId, e.target.value as OrgRole)}
+                        className="px-2 py-1 text-sm bg-background border border-border rounded-lg"
+                      >
+                        {ROLES.map((role) => (
+                          <option key={role.value} value={role.value}>{role.label}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs px-2 py-1 rounded bg-background capitalize">{member.role}</span>
+                    )}
+                    {(isOwner || member.userId === user?.id) && (
+                      <button
+                        onClick={() => handleRemove(member.userId, member.email)}
+                        className="btn-ghost p-2"
+                        title={member.userId === user?.id ? 'Leave organization' : 'Remove member'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {isOwner && (membersData?.invitations.length || 0) > 0 && (
+                <>
+                  <h4 className="text-sm font-medium text-muted-foreground pt-4">Pending Invitations</h4>
+                  {membersData?.invitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between p-3 border border-border rounded-lg">
+                      <div className="flex items-center gap-2">
+                        <Mail className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-sm">{invitation.email}</span>
+                        <span className="text-xs px-2 py-0.5 rounded bg-muted capitalize">{invitation.role}</span>
+                      </div>
+                      <button
+                        onClick={() => cancelInvitation.mutate({ orgId: selectedOrgId, invitationId: invitation.id })}
+                        className="btn-ghost text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <div className="space-y-6">
+          {/* Invite */}
+          {isOwner && (
+            <Card className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold">Invite Member</h3>
+                <UserPlus className="w-5 h-5 text-primary" />
+              </div>
+              <div className="space-y-3">
+                <input
+                  type="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                  placeholder="teammate@example.com"
+                  className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+                />
+                <select
+                  value={inviteForm.role}
+                  onChange={(e) => setInviteForm({ ...inviteForm, role: e.target.value as OrgRole })}
+                  className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role.value} value={role.value}>{role.label} - {role.description}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={inviteMember.isPending}
+                  className="btn-primary w-full flex items-center justify-center gap-2"
+                >
+                  <UserPlus className="w-4 h-4" />
+                  Create Invitation
+                </button>
+
+                {inviteToken && (
+                  <div className="p-3 bg-muted rounded-lg">
+                    <div className="text-xs text-muted-foreground mb-2">
+                      Share this invitation code. It is only shown once.
+                    </div>
+                    <code className="text-xs break-all block mb-2">{inviteToken}</code>
+                    <button
+                      onClick={() => navigator.clipboard.writeText(inviteToken)}
+                      className="btn-ghost w-full flex items-center justify-center gap-2 text-sm"
+                    >
+                      <Copy className="w-4 h-4" />
+                      Copy Code
+                    </button>
+                  </div>
+                )}
+              </div>
+            </Card>
+          )}
+
+          {/* Accept */}
+          <Card className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold">Join an Organization</h3>
+              <Mail className="w-5 h-5 text-primary" />
+            </div>
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={acceptToken}
+                onChange={(e) => setAcceptToken(e.target.value)}
+                placeholder="Invitation code"
+                className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary font-mono text-sm"
+              />
+              <button
+                onClick={handleAccept}
+                disabled={!acceptToken || acceptInvitation.isPending}
+                className="btn-ghost w-full border border-border"
+              >
+                Accept Invitation
+              </button>
+            </div>
+          </Card>
+
+          {/* Role reference */}
+          <Card className="p-6">
+            <h3 className="font-semibold mb-4">Roles</h3>
+            <div className="space-y-3">
+              {ROLES.map((role) => {
+                const Icon = role.icon
+                return (
+                  <div key={role.value} className="flex gap-3">
+                    <Icon className="w-4 h-4 text-primary mt-0.5" />
+                    <div>
+                      <div className="text-sm font-medium">{role.label}</div>
+                      <div className="text-xs text-muted-foreground">{role.description}</div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { Breadcrumb } from "@/components/ui/breadcrumb"
 import { useState, useEffect } from "react"
 import { useAuth } from "@/contexts/AuthContext"
 import { useRouter } from "next/navigation"
+import { usePlatformEvents } from "@/hooks/api/useEvents"
 
 export default function ProtectedLayout({
   children,
@@ -16,6 +17,9 @@ export default function ProtectedLayout({
   const { isAuthenticated, isLoading } = useAuth()
   const router = useRouter()
 
+  // Keep dashboard data current from the orchestrator event stream
+  usePlatformEvents()
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       router.push('/login')
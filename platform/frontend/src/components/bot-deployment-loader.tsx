@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Loader2, CheckCircle2, AlertCircle, Rocket, Shield, Database, Cpu, Link, Sparkles } from 'lucide-react'
 import { Progress } from '@/components/ui/progress'
 import apiClient from '@/lib/api-client'
+import { useDeploymentStatus } from '@/hooks/api/useEvents'
 
 interface DeploymentStep {
   id: string
@@ -31,15 +32,16 @@ export function BotDeploymentLoader({ botName, onComplete, botId }: BotDeploymen
   const [actualStage, setActualStage] = useState<string>('initializing')
   const [deploymentInfo, setDeploymentInfo] = useState<any>(null)
 
-  // Map backend stages to frontend steps (new architecture)
+  const [retrying, setRetrying] = useState(false)
+
+  // Map backend deployment job stages to frontend steps
   const stageToStepMap: Record<string, number> = {
-    'initializing': 0,
-    'generating_tenant_id': 0,
-    'creating_directories': 0,
-    'generating_wallet': 0,
-    'creating_docker_config': 1,
-    'starting_container': 2,
-    'finalizing': 3
+    'tenant_id': 0,
+    'directories': 0,
+    'wallet_seed': 0,
+    'mcp_registration': 1,
+    'eliza_registration': 2,
+    'dao_deploy': 3
   }
 
   const deploymentSteps: DeploymentStep[] = [
@@ -52,10 +54,10 @@ export function BotDeploymentLoader({ botName, onComplete, botId }: BotDeploymen
       status: 'pending'
     },
     {
-      id: 'docker',
-      label: 'Creating Container',
-      description: 'Building Docker container configuration',
-      icon: Cpu,
+      id: 'wallet',
+      label: 'Registering Wallet',
+      description: 'Creating your wallet on the Midnight MCP service',
+      icon: Shield,
       duration: 10,
       status: 'pending'
     },
@@ -81,85 +83,70 @@ export function BotDeploymentLoader({ botName, onComplete, botId }: BotDeploymen
   const totalDuration = steps.reduce((acc, step) => acc + step.duration, 0)
   const progress = Math.min((elapsedTime / totalDuration) * 100, 100)
 
-  // Poll deployment status from new endpoint
+  // Deployment progress is pushed over the event stream
+  const { data: deployment, refetch: refetchDeployment } = useDeploymentStatus(botId)
+
   useEffect(() => {
-    if (!botId) {
-      console.log('No botId provided, deployment tracking disabled')
-      return
-    }
+    if (!deployment) return
+    const response = deployment as any
     
-    let pollCount = 0
-    const maxPolls = 60 // Stop polling after 3 minutes (60 * 3s) - faster deployment
-    let statusInterval: NodeJS.Timeout
+    setDeploymentInfo(response)
     
-    const pollStatus = async () => {
-      pollCount++
+    // Update actual stage from backend
+    if (response.stage) {
+      setActualStage(response.stage)
       
-      // Stop polling after max attempts
-      if (pollCount > maxPolls) {
-        console.log('Deployment polling timeout reached after 6 minutes')
-        setError('Deployment is taking longer than expected. Please check the dashboard.')
-        return
-      }
-      
-      try {
-        const response = await apiClient.getBotDeploymentStatus(botId) as any
-        console.log(`Deployment poll #${pollCount}:`, response)
-        
-        setDeploymentInfo(response)
+      // Map backend stage to frontend step
+      const stepIndex = stageToStepMap[response.stage] ?? currentStepIndex
+      if (stepIndex !== currentStepIndex) {
+        setCurrentStepIndex(stepIndex)
         
-        // Update actual stage from backend
-        if (response.stage) {
-          setActualStage(response.stage)
-          
-          // Map backend stage to frontend step
-          const stepIndex = stageToStepMap[response.stage] ?? currentStepIndex
-          if (stepIndex !== currentStepIndex) {
-            setCurrentStepIndex(stepIndex)
-            
-            // Update step statuses based on actual progress
-            setSteps(prevSteps => {
-              const newSteps = [...prevSteps]
-              newSteps.forEach((step, index) => {
-                if (index < stepIndex) {
-                  step.status = 'completed'
-                } else if (index === stepIndex) {
-                  step.status = 'active'
-                } else {
-                  step.status = 'pending'
-                }
-              })
-              return newSteps
-            })
-          }
-        }
-        
-        // Check deployment status - redirect immediately when container is running
-        if (response.status === 'completed' || response.stage === 'finalizing' || response.containerStatus === 'running') {
-          console.log('Bot container is ready! Redirecting immediately for chat/MCP access')
-          setDeploymentComplete(true)
-          setSteps(prevSteps => prevSteps.map(step => ({ ...step, status: 'completed' as const })))
-          clearInterval(statusInterval)
-          setTimeout(() => onComplete?.(), 1000) // Faster redirect
-        } else if (response.status === 'failed') {
-          console.error('Deployment failed:', response.error)
-          setError(response.error || 'Deployment failed. Please try again.')
-          clearInterval(statusInterval)
-        }
-      } catch (err: any) {
-        console.warn('Failed to poll deployment status:', err)
-        // Continue polling even if one request fails
+        // Update step statuses based on actual progress
+        setSteps(prevSteps => {
+          const newSteps = [...prevSteps]
+          newSteps.forEach((step, index) => {
+            if (index < stepIndex) {
+              step.status = 'completed'
+            } else if (index === stepIndex) {
+              step.status = 'active'
+            } else {
+              step.status = 'pending'
+            }
+          })
+          return newSteps
+        })
       }
     }
     
-    // Poll every 3 seconds for real-time updates
-    statusInterval = setInterval(pollStatus, 3000)
-    pollStatus() // Initial poll
-    
-    return () => {
-      if (statusInterval) clearInterval(statusInterval)
+    // Check deployment status - redirect as soon as the bot is registered (DAO deployment continues in the background)
+    if (response.status === 'completed' || response.stage === 'dao_deploy' || response.containerStatus === 'running') {
+      console.log('Bot is ready! Redirecting immediately for chat/MCP access')
+      setDeploymentComplete(true)
+      setSteps(prevSteps => prevSteps.map(step => ({ ...step, status: 'completed' as const })))
+      const redirect = setTimeout(() => onComplete?.(), 1000) // Faster redirect
+      return () => clearTimeout(redirect)
+    } else if (response.status === 'failed' || response.status === 'cancelled') {
+      console.error('Deployment failed:', response.error)
+      setError(response.error || (response.status === 'cancelled' ? 'Deployment was cancelled.' : 'Deployment failed. Please try again.'))
+    } else {
+      setError(null)
     }
-  }, [botId, onComplete])
+  }, [deployment, onComplete])
+
+  // Restart a failed deployment from the stage it stopped at
+  const handleRetry = async () => {
+    if (!botId) return
+    setRetrying(true)
+    try {
+      await apiClient.retryBotDeployment(botId)
+      setError(null)
+      await refetchDeployment()
+    } catch (err: any) {
+      setError(err.message || 'Failed to retry deployment')
+    } finally {
+      setRetrying(false)
+    }
+  }
 
   // Timer effect
   useEffect(() => {
@@ -257,6 +244,16 @@ export function BotDeploymentLoader({ botName, onComplete, botId }: BotDeploymen
         </motion.div>
         <h2 className="text-2xl font-bold mb-2">Deployment Failed</h2>
         <p className="text-muted-foreground text-center max-w-md">{error}</p>
+        {botId && (
+          <button
+            onClick={handleRetry}
+            disabled={retrying}
+            className="btn-primary mt-6 flex items-center gap-2"
+          >
+            {retrying && <Loader2 className="w-4 h-4 animate-spin" />}
+            Retry Deployment
+          </button>
+        )}
       </div>
     )
   }
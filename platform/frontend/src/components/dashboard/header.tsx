@@ -1,10 +1,25 @@
 "use client"
 
+import { useState } from "react"
 import { Bell, Search, Moon, Sun } from "lucide-react"
 import { useTheme } from "next-themes"
+import { formatDistanceToNow } from "date-fns"
+import { useActivities, useMarkActivitiesRead, useUnreadActivityCount } from "@/hooks/api/useActivities"
+
+const SEVERITY_COLORS = {
+  info: "bg-blue-500",
+  success: "bg-green-500",
+  warning: "bg-yellow-500",
+  error: "bg-red-500",
+} as const
 
 export function DashboardHeader() {
   const { theme, setTheme } = useTheme()
+  const [notificationsOpen, setNotificationsOpen] = useState(false)
+  const { data: unread } = useUnreadActivityCount()
+  const { data: recent } = useActivities({ limit: 10 })
+  const markRead = useMarkActivitiesRead()
+  const unreadCount = unread?.count ?? 0
 
   return (
     <header className="glass-effect border-b px-6 py-4">
@@ -23,10 +38,56 @@ export function DashboardHeader() {
 
         {/* Actions */}
         <div className="flex items-center gap-4">
-          <button className="relative p-2 rounded-lg hover:bg-accent transition-colors">
-            <Bell className="w-5 h-5" />
-            <span className="absolute top-0 right-0 w-2 h-2 bg-red-500 rounded-full" />
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setNotificationsOpen(!notificationsOpen)}
+              className="relative p-2 rounded-lg hover:bg-accent transition-colors"
+            >
+              <Bell className="w-5 h-5" />
+              {unreadCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                  {unreadCount > 99 ? "99+" : unreadCount}
+                </span>
+              )}
+            </button>
+
+            {notificationsOpen && (
+              <div className="absolute right-0 mt-2 w-80 glass-card border border-border rounded-lg shadow-lg z-50">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                  <span className="font-medium text-sm">Notifications</span>
+                  {unreadCount > 0 && (
+                    <button
+                      onClick={() => markRead.mutate(undefined)}
+                      className="text-xs text-primary hover:underline"
+                    >
+                      Mark all read
+                    </button>
+                  )}
+                </div>
+                <div className="max-h-96 overflow-y-auto">
+                  {recent?.activities.length ? (
+                    recent.activities.map((activity) => (
+                      <div
+                        key={activity.id}
+                        className={`flex items-start gap-3 px-4 py-3 border-b border-border last:border-b-0 ${activity.read ? "" : "bg-accent/50"}`}
+                      >
+                        <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${SEVERITY_COLORS[activity.severity]}`} />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-sm">{activity.title}</p>
+                          <p className="text-xs text-muted-foreground truncate">{activity.description}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="px-4 py-6 text-sm text-center text-muted-foreground">No activity yet</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
           
           <button
             onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
@@ -18,6 +18,7 @@ import {
   ChevronDown,
   ChevronRight
 } from "lucide-react"
+import apiClient from "@/lib/api-client"
 
 interface BotInfo {
   id: string;
@@ -62,8 +63,13 @@ export function Sidebar() {
     fetchBots()
   }, [pathname])
   
-  const handleLogout = () => {
-    localStorage.removeItem('auth_token')
+  const handleLogout = async () => {
+    try {
+      // Revokes the session server-side and clears stored tokens
+      await apiClient.logout()
+    } catch (error) {
+      console.error('Logout failed:', error)
+    }
     localStorage.removeItem('userEmail')
     router.push('/login')
   }
@@ -98,6 +104,13 @@ export function Sidebar() {
       icon: Archive,
       description: "Treasury management"
     },
+    { 
+      id: "members", 
+      label: "Members", 
+      href: "/dashboard/members",
+      icon: Users,
+      description: "Organization members and roles"
+    },
   ]
 
   const bottomItems = [
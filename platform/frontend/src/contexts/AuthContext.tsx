@@ -14,8 +14,9 @@ interface AuthContextType {
   user: User | null
   isAuthenticated: boolean
   isLoading: boolean
-  login: (token: string, user: User) => void
-  logout: () => void
+  login: (token: string, user: User, refreshToken?: string) => void
+  logout: () => Promise<void>
+  logoutAllDevices: () => Promise<void>
   checkAuth: () => void
 }
 
@@ -28,13 +29,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const isAuthenticated = !!user
 
-  const login = (token: string, userData: User) => {
-    apiClient.setToken(token)
+  const login = (token: string, userData: User, refreshToken?: string) => {
+    apiClient.setToken(token, refreshToken)
     setUser(userData)
   }
 
-  const logout = () => {
-    apiClient.clearToken()
+  const logout = async () => {
+    try {
+      await apiClient.logout()
+    } catch (error) {
+      console.error('Logout request failed:', error)
+    }
+    setUser(null)
+    router.push('/')
+  }
+
+  const logoutAllDevices = async () => {
+    try {
+      await apiClient.logoutAllDevices()
+    } catch (error) {
+      console.error('Sign out of all devices failed:', error)
+    }
     setUser(null)
     router.push('/')
   }
@@ -63,6 +78,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   useEffect(() => {
     checkAuth()
+
+    // Refresh token rejected - the session is over
+    return apiClient.onSessionExpired(() => {
+      setUser(null)
+      router.push('/login')
+    })
   }, [])
 
   return (
@@ -72,6 +93,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       isLoading,
       login,
       logout,
+      logoutAllDevices,
       checkAuth
     }}>
       {children}
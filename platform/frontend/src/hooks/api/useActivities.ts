@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api-client';
+
+type ActivityFilters = { limit?: number; offset?: number; unread?: boolean; botId?: string };
+
+// Query Keys Factory
+export const activityKeys = {
+  all: ['activities'] as const,
+  lists: () => [...activityKeys.all, 'list'] as const,
+  list: (filters: ActivityFilters) => [...activityKeys.lists(), filters] as const,
+  unreadCount: () => [...activityKeys.all, 'unread-count'] as const,
+};
+
+// Get activities (kept current by the event stream, see usePlatformEvents)
+export const useActivities = (filters: ActivityFilters = {}) => {
+  return useQuery({
+    queryKey: activityKeys.list(filters),
+    queryFn: () => apiClient.getActivities(filters),
+  });
+};
+
+// Unread activity count (kept current by the event stream, see usePlatformEvents)
+export const useUnreadActivityCount = () => {
+  return useQuery({
+    queryKey: activityKeys.unreadCount(),
+    queryFn: () => apiClient.getUnreadActivityCount(),
+  });
+};
+
+// Mark activities as read mutation (all of them when no ids are given)
+export const useMarkActivitiesRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (activityIds?: string[]) => apiClient.markActivitiesRead(activityIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: activityKeys.all });
+    },
+  });
+};
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import apiClient from '@/lib/api-client';
+import apiClient, { type ContactInput, type PaymentScheduleInput, type TransactionHistoryFilters } from '@/lib/api-client';
 
 // Query Keys Factory
 export const botKeys = {
@@ -10,6 +10,12 @@ export const botKeys = {
   detail: (id: string) => [...botKeys.details(), id] as const,
   status: (id: string) => [...botKeys.detail(id), 'status'] as const,
   logs: (id: string) => [...botKeys.detail(id), 'logs'] as const,
+  deployment: (id: string) => [...botKeys.detail(id), 'deployment'] as const,
+  configVersions: (id: string) => [...botKeys.detail(id), 'config-versions'] as const,
+  approvals: (id: string) => [...botKeys.detail(id), 'approvals'] as const,
+  contacts: (id: string) => [...botKeys.detail(id), 'contacts'] as const,
+  schedules: (id: string) => [...botKeys.detail(id), 'schedules'] as const,
+  transactions: (id: string, filters?: TransactionHistoryFilters) => [...botKeys.detail(id), 'transactions', filters || {}] as const,
   chat: (id: string) => [...botKeys.detail(id), 'chat'] as const,
   chatHistory: (id: string, sessionId?: string) => [...botKeys.chat(id), sessionId || 'default'] as const,
 };
@@ -19,7 +25,7 @@ export const useBots = (filters?: { status?: string; search?: string }) => {
   return useQuery({
     queryKey: botKeys.list(JSON.stringify(filters || {})),
     queryFn: () => apiClient.getBots(),
-    refetchInterval: 30000, // Refetch every 30 seconds for real-time updates
+    // Status changes arrive over the event stream (usePlatformEvents)
   });
 };
 
@@ -38,7 +44,7 @@ export const useBotStatus = (botId: string) => {
     queryKey: botKeys.status(botId),
     queryFn: () => apiClient.getBotStatus(botId),
     enabled: !!botId,
-    refetchInterval: 10000, // Refetch every 10 seconds
+    // Refreshed by bot_status events (usePlatformEvents)
   });
 };
 
@@ -111,6 +117,168 @@ export const useUpdateBot = () => {
   });
 };
 
+// Configuration history, newest first (updates invalidate it through botKeys.detail)
+export const useBotConfigVersions = (botId: string) => {
+  return useQuery({
+    queryKey: botKeys.configVersions(botId),
+    queryFn: () => apiClient.getBotConfigVersions(botId),
+    enabled: !!botId,
+  });
+};
+
+// Roll back to an older configuration version
+export const useRollbackBotConfig = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, version }: { botId: string; version: number }) =>
+      apiClient.rollbackBotConfig(botId, version),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.detail(botId) });
+    },
+  });
+};
+
+// Get transfers waiting for the owner's approval
+export const useBotApprovals = (botId: string) => {
+  return useQuery({
+    queryKey: botKeys.approvals(botId),
+    queryFn: () => apiClient.getBotApprovals(botId),
+    enabled: !!botId,
+  });
+};
+
+// Approve a parked transfer
+export const useApproveTransfer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, transactionId }: { botId: string; transactionId: string }) =>
+      apiClient.approveTransfer(botId, transactionId),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.approvals(botId) });
+    },
+  });
+};
+
+// Reject a parked transfer
+export const useRejectTransfer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, transactionId, reason }: { botId: string; transactionId: string; reason?: string }) =>
+      apiClient.rejectTransfer(botId, transactionId, reason),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.approvals(botId) });
+    },
+  });
+};
+
+// Get the bot's address book
+export const useBotContacts = (botId: string) => {
+  return useQuery({
+    queryKey: botKeys.contacts(botId),
+    queryFn: () => apiClient.getBotContacts(botId),
+    enabled: !!botId,
+  });
+};
+
+// Add a contact to the address book
+export const useCreateContact = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, contact }: { botId: string; contact: ContactInput }) =>
+      apiClient.createContact(botId, contact),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.contacts(botId) });
+    },
+  });
+};
+
+// Update a contact
+export const useUpdateContact = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, contactId, changes }: { botId: string; contactId: string; changes: Partial<ContactInput> }) =>
+      apiClient.updateContact(botId, contactId, changes),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.contacts(botId) });
+    },
+  });
+};
+
+// Remove a contact
+export const useDeleteContact = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, contactId }: { botId: string; contactId: string }) =>
+      apiClient.deleteContact(botId, contactId),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.contacts(botId) });
+    },
+  });
+};
+
+// Get the bot's scheduled and recurring payments
+export const useBotSchedules = (botId: string) => {
+  return useQuery({
+    queryKey: botKeys.schedules(botId),
+    queryFn: () => apiClient.getBotSchedules(botId),
+    enabled: !!botId,
+  });
+};
+
+// Get a scheduled payment with its recent runs
+export const useBotSchedule = (botId: string, scheduleId: string) => {
+  return useQuery({
+    queryKey: [...botKeys.schedules(botId), scheduleId],
+    queryFn: () => apiClient.getBotSchedule(botId, scheduleId),
+    enabled: !!botId && !!scheduleId,
+  });
+};
+
+// Schedule a one-off or recurring payment
+export const useCreateSchedule = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, schedule }: { botId: string; schedule: PaymentScheduleInput }) =>
+      apiClient.createSchedule(botId, schedule),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.schedules(botId) });
+    },
+  });
+};
+
+// Pause, resume or cancel a scheduled payment
+export const useUpdateScheduleStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ botId, scheduleId, action }: { botId: string; scheduleId: string; action: 'pause' | 'resume' | 'cancel' }) =>
+      action === 'pause'
+        ? apiClient.pauseSchedule(botId, scheduleId)
+        : action === 'resume'
+          ? apiClient.resumeSchedule(botId, scheduleId)
+          : apiClient.cancelSchedule(botId, scheduleId),
+    onSuccess: (_, { botId }) => {
+      queryClient.invalidateQueries({ queryKey: botKeys.schedules(botId) });
+    },
+  });
+};
+
+// Get a page of the bot's transaction history
+export const useBotTransactions = (botId: string, filters?: TransactionHistoryFilters) => {
+  return useQuery({
+    queryKey: botKeys.transactions(botId, filters),
+    queryFn: () => apiClient.getBotTransactions(botId, filters),
+    enabled: !!botId,
+  });
+};
+
 // Delete bot mutation
 export const useDeleteBot = () => {
   const queryClient = useQueryClient();
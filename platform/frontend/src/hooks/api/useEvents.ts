@@ -0,0 +1,116 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import apiClient, { PlatformEvent } from '@/lib/api-client';
+import { botKeys } from './useBots';
+import { activityKeys } from './useActivities';
+
+type EventListener = (event: PlatformEvent) => void;
+
+const EVENT_TYPES: PlatformEvent['type'][] = ['deployment', 'activity', 'bot_status', 'transaction'];
+const RECONNECT_DELAY_MS = 3000;
+
+// One stream per tab, open while at least one component is listening
+const listeners = new Set<EventListener>();
+let source: EventSource | null = null;
+let connecting = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const openStream = async () => {
+  connecting = true;
+  try {
+    source = await apiClient.connectEventStream();
+  } catch (error) {
+    console.error('Event stream unavailable:', error);
+    source = null;
+  } finally {
+    connecting = false;
+  }
+  if (!source) return;
+
+  // Everyone stopped listening while the ticket was requested
+  if (listeners.size === 0) {
+    source.close();
+    source = null;
+    return;
+  }
+
+  EVENT_TYPES.forEach((type) => {
+    source!.addEventListener(type, (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as PlatformEvent;
+      listeners.forEach((listener) => listener(event));
+    });
+  });
+
+  source.onerror = () => {
+    // A ticket opens the stream once, so EventSource's own reconnect is refused;
+    // reopen with a fresh ticket (refreshing the session if needed)
+    if (source?.readyState !== EventSource.CLOSED) return;
+
+    source = null;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (listeners.size > 0) {
+        openStream();
+      }
+    }, RECONNECT_DELAY_MS);
+  };
+};
+
+const subscribe = (listener: EventListener) => {
+  listeners.add(listener);
+  if (!source && !connecting && !reconnectTimer) {
+    openStream();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      source?.close();
+      source = null;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+    }
+  };
+};
+
+// Listen to the orchestrator event stream and keep query caches current
+export const usePlatformEvents = (onEvent?: EventListener) => {
+  const queryClient = useQueryClient();
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    return subscribe((event) => {
+      switch (event.type) {
+        case 'deployment':
+          queryClient.setQueryData(botKeys.deployment(event.botId), event.deployment);
+          break;
+        case 'activity':
+          queryClient.invalidateQueries({ queryKey: activityKeys.all });
+          break;
+        case 'bot_status':
+          queryClient.invalidateQueries({ queryKey: botKeys.detail(event.botId) });
+          queryClient.invalidateQueries({ queryKey: botKeys.lists() });
+          break;
+        case 'transaction':
+          queryClient.invalidateQueries({ queryKey: botKeys.detail(event.botId) });
+          break;
+      }
+      onEventRef.current?.(event);
+    });
+  }, [queryClient]);
+};
+
+// Deployment progress: fetched once, then pushed by the event stream
+export const useDeploymentStatus = (botId?: string) => {
+  usePlatformEvents();
+
+  return useQuery({
+    queryKey: botKeys.deployment(botId || ''),
+    queryFn: () => apiClient.getBotDeploymentStatus(botId!),
+    enabled: !!botId,
+    staleTime: Infinity,
+  });
+};
@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient, { OrgRole } from '@/lib/api-client';
+import { botKeys } from './useBots';
+
+// Query Keys Factory
+export const organizationKeys = {
+  all: ['organizations'] as const,
+  lists: () => [...organizationKeys.all, 'list'] as const,
+  members: (orgId: string) => [...organizationKeys.all, orgId, 'members'] as const,
+};
+
+// Get organizations the user belongs to
+export const useOrganizations = () => {
+  return useQuery({
+    queryKey: organizationKeys.lists(),
+    queryFn: () => apiClient.getOrganizations(),
+  });
+};
+
+// Get members and pending invitations of an organization
+export const useOrganizationMembers = (orgId: string) => {
+  return useQuery({
+    queryKey: organizationKeys.members(orgId),
+    queryFn: () => apiClient.getOrganizationMembers(orgId),
+    enabled: !!orgId,
+  });
+};
+
+// Create organization mutation
+export const useCreateOrganization = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => apiClient.createOrganization(name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.lists() });
+    },
+  });
+};
+
+// Invite member mutation
+export const useInviteMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orgId, email, role }: { orgId: string; email: string; role: OrgRole }) =>
+      apiClient.inviteMember(orgId, email, role),
+    onSuccess: (_, { orgId }) => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.members(orgId) });
+    },
+  });
+};
+
+// Cancel invitation mutation
+export const useCancelInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orgId, invitationId }: { orgId: string; invitationId: string }) =>
+      apiClient.cancelInvitation(orgId, invitationId),
+    onSuccess: (_, { orgId }) => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.members(orgId) });
+    },
+  });
+};
+
+// Accept invitation mutation
+export const useAcceptInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (token: string) => apiClient.acceptInvitation(token),
+    onSuccess: () => {
+      // New organization brings its bots along
+      queryClient.invalidateQueries({ queryKey: organizationKeys.all });
+      queryClient.invalidateQueries({ queryKey: botKeys.lists() });
+    },
+  });
+};
+
+// Change member role mutation
+export const useUpdateMemberRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orgId, userId, role }: { orgId: string; userId: string; role: OrgRole }) =>
+      apiClient.updateMemberRole(orgId, userId, role),
+    onSuccess: (_, { orgId }) => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.members(orgId) });
+    },
+  });
+};
+
+// Remove member mutation
+export const useRemoveMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orgId, userId }: { orgId: string; userId: string }) =>
+      apiClient.removeMember(orgId, userId),
+    onSuccess: (_, { orgId }) => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.all });
+      queryClient.invalidateQueries({ queryKey: organizationKeys.members(orgId) });
+    },
+  });
+};
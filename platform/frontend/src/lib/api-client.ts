@@ -26,8 +26,13 @@ interface BotConfig {
   tier?: 'basic' | 'premium' | 'enterprise';
 }
 
-interface AuthResponse {
+interface AuthTokens {
   token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+interface AuthResponse extends AuthTokens {
   user: {
     id: string;
     email: string;
@@ -35,19 +40,223 @@ interface AuthResponse {
   };
 }
 
+export type OrgRole = 'owner' | 'operator' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrgRole;
+  memberCount?: number;
+  botCount?: number;
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: string;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: OrgRole;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface OrganizationMembersResponse {
+  members: OrganizationMember[];
+  invitations: OrganizationInvitation[];
+  role: OrgRole;
+}
+
+export type DeploymentJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface DeploymentProgress {
+  jobId: string;
+  status: DeploymentJobStatus;
+  stage: string;
+  stages: string[];
+  attempts: number;
+  maxAttempts: number;
+  error?: string;
+  tenantId?: string;
+  walletAddress?: string;
+  nextRunAt?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface Activity {
+  id: string;
+  userId: string;
+  botId?: string | null;
+  type: string;
+  title: string;
+  description: string;
+  metadata?: any;
+  severity: 'info' | 'warning' | 'error' | 'success';
+  read: boolean;
+  createdAt: string;
+  bot?: { id: string; name: string } | null;
+}
+
+export interface ConfigChange {
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+export interface BotConfigVersion {
+  id: string;
+  botId: string;
+  version: number;
+  features?: any;
+  platforms?: any;
+  config?: any;
+  changes: ConfigChange[];
+  reason: 'created' | 'baseline' | 'update' | 'rollback';
+  rolledBackFrom?: number | null;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+export interface TransactionUpdate {
+  id?: string;
+  kind: 'send' | 'token_send' | 'treasury_fund';
+  state: string;
+  txIdentifier?: string;
+  amount?: string;
+  toAddress?: string;
+  error?: string;
+}
+
+export interface PendingTransfer {
+  id: string;
+  state: string;
+  fromAddress: string;
+  toAddress: string;
+  amount: string;
+  metadata?: { token?: string; approvalThreshold?: string } | null;
+  createdAt: number;
+}
+
+export interface Contact {
+  id: string;
+  tenantId: string;
+  label: string;
+  address: string;
+  notes?: string;
+  tags: string[];
+  trusted: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ContactInput = Pick<Contact, 'label' | 'address'> & Partial<Pick<Contact, 'notes' | 'tags' | 'trusted'>>;
+
+export interface PaymentSchedule {
+  id: string;
+  tenantId: string;
+  toAddress: string;
+  amount: string;
+  token: string;
+  runAt?: number;
+  cron?: string;
+  endAt?: number;
+  maxRuns?: number;
+  runCount: number;
+  nextRunAt: number | null;
+  status: 'active' | 'paused' | 'completed' | 'cancelled';
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PaymentScheduleInput {
+  toAddress: string;
+  amount: string;
+  token?: string;
+  runAt?: string;
+  cron?: string;
+  endAt?: string;
+  maxRuns?: number;
+  description?: string;
+}
+
+export interface PaymentRun {
+  id: string;
+  scheduleId: string;
+  scheduledFor: number;
+  executedAt: number;
+  state: string;
+  transactionId?: string;
+  error?: string;
+}
+
+export interface TransactionHistoryEntry {
+  id: string;
+  txIdentifier?: string;
+  date: string;
+  type: string;
+  label: string;
+  dao: boolean;
+  state: string;
+  direction: 'outgoing' | 'incoming';
+  counterparty: string;
+  token: string;
+  symbol: string;
+  decimals: number;
+  amount: string;
+  netRecorded: string;  // Net of the recorded transactions in the token so far; not the wallet balance
+  errorMessage?: string;
+}
+
+export interface TransactionHistoryFilters {
+  startDate?: string;
+  endDate?: string;
+  type?: string;
+  state?: string;
+  token?: string;
+  counterparty?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type PlatformEvent =
+  | { type: 'deployment'; botId: string; deployment: DeploymentProgress }
+  | { type: 'activity'; activity: Activity }
+  | { type: 'bot_status'; botId: string; status: string }
+  | { type: 'transaction'; botId: string; transaction: TransactionUpdate };
+
+function historyParams(filters: TransactionHistoryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(name, String(value));
+  }
+  return params;
+}
+
 class ApiClient {
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredListeners = new Set<() => void>();
 
   constructor() {
-    // Check for token in localStorage
+    // Check for tokens in localStorage
     if (typeof window !== 'undefined') {
       this.token = localStorage.getItem('auth_token');
+      this.refreshToken = localStorage.getItem('refresh_token');
     }
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retryOnUnauthorized = true
   ): Promise<T> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -68,6 +277,13 @@ class ApiClient {
         timeout: 30000, // 30 second timeout
       });
 
+      // Access token expired or revoked - refresh once and replay the request
+      if (response.status === 401 && retryOnUnauthorized && this.refreshToken) {
+        if (await this.refreshAccessToken()) {
+          return this.request<T>(endpoint, options, false);
+        }
+      }
+
       if (!response.ok) {
         let errorMessage = `HTTP ${response.status}`;
         
@@ -96,20 +312,78 @@ class ApiClient {
     }
   }
 
-  setToken(token: string) {
+  setToken(token: string, refreshToken?: string) {
     this.token = token;
+    if (refreshToken) {
+      this.refreshToken = refreshToken;
+    }
     if (typeof window !== 'undefined') {
       localStorage.setItem('auth_token', token);
+      if (refreshToken) {
+        localStorage.setItem('refresh_token', refreshToken);
+      }
     }
   }
 
   clearToken() {
     this.token = null;
+    this.refreshToken = null;
     if (typeof window !== 'undefined') {
       localStorage.removeItem('auth_token');
+      localStorage.removeItem('refresh_token');
     }
   }
 
+  /**
+   * Rotate the refresh token for a new access token. Concurrent callers
+   * share one in-flight refresh. Returns false (and clears the session)
+   * if the refresh token is no longer valid.
+   */
+  async refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshToken) {
+      return false;
+    }
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        try {
+          const response = await fetch(`${API_BASE_URL}/token/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken: this.refreshToken }),
+          });
+
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+
+          const tokens: AuthTokens = await response.json();
+          this.setToken(tokens.token, tokens.refreshToken);
+          return true;
+        } catch (error) {
+          console.error('🔒 Session refresh failed:', error);
+          this.clearToken();
+          this.sessionExpiredListeners.forEach(listener => listener());
+          return false;
+        } finally {
+          this.refreshPromise = null;
+        }
+      })();
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Subscribe to session expiry (refresh token rejected)
+   */
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
   // Auth endpoints - Fixed to match orchestrator API
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
     const response = await this.request<AuthResponse>('/login', {
@@ -117,7 +391,7 @@ class ApiClient {
       body: JSON.stringify(credentials),
     });
     if (response.token) {
-      this.setToken(response.token);
+      this.setToken(response.token, response.refreshToken);
     }
     return response;
   }
@@ -128,14 +402,25 @@ class ApiClient {
       body: JSON.stringify(data),
     });
     if (response.token) {
-      this.setToken(response.token);
+      this.setToken(response.token, response.refreshToken);
     }
     return response;
   }
 
   async logout(): Promise<void> {
-    await this.request('/auth/logout', { method: 'POST' });
-    this.clearToken();
+    try {
+      await this.request('/logout', { method: 'POST' }, false);
+    } finally {
+      this.clearToken();
+    }
+  }
+
+  async logoutAllDevices(): Promise<void> {
+    try {
+      await this.request('/logout/all', { method: 'POST' });
+    } finally {
+      this.clearToken();
+    }
   }
 
   async getCurrentUser() {
@@ -212,7 +497,145 @@ class ApiClient {
   }
 
   async getBotDeploymentStatus(id: string) {
-    return this.request(`/bots/${id}/deployment-status`);
+    return this.request<DeploymentProgress & { bot?: any }>(`/bots/${id}/deployment-status`);
+  }
+
+  async retryBotDeployment(id: string) {
+    return this.request(`/bots/${id}/deployment/retry`, {
+      method: 'POST',
+    });
+  }
+
+  async cancelBotDeployment(id: string) {
+    return this.request(`/bots/${id}/deployment/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  async getBotConfigVersions(id: string) {
+    return this.request<{ versions: BotConfigVersion[] }>(`/bots/${id}/config/versions`);
+  }
+
+  async diffBotConfigVersions(id: string, from: number, to: number) {
+    return this.request<{ from: number; to: number; changes: ConfigChange[] }>(
+      `/bots/${id}/config/diff?from=${from}&to=${to}`
+    );
+  }
+
+  async rollbackBotConfig(id: string, version: number) {
+    return this.request<{ success: boolean; version: BotConfigVersion }>(`/bots/${id}/config/versions/${version}/rollback`, {
+      method: 'POST',
+    });
+  }
+
+  async exportBot(id: string, passphrase: string, includeSeed = false) {
+    return this.request<{ bundle: Record<string, any> }>(`/bots/${id}/export`, {
+      method: 'POST',
+      body: JSON.stringify({ passphrase, includeSeed }),
+    });
+  }
+
+  async importBot(bundle: Record<string, any>, passphrase: string, options: { name?: string; organizationId?: string } = {}) {
+    return this.request<{ success: boolean; bot: { id: string; name: string; deploymentId: string; status: string } }>('/bots/import', {
+      method: 'POST',
+      body: JSON.stringify({ bundle, passphrase, ...options }),
+    });
+  }
+
+  async getBotApprovals(id: string) {
+    return this.request<{ transfers: PendingTransfer[] }>(`/bots/${id}/approvals`);
+  }
+
+  async approveTransfer(id: string, transactionId: string) {
+    return this.request<{ success: boolean; transaction: PendingTransfer }>(`/bots/${id}/approvals/${transactionId}/approve`, {
+      method: 'POST',
+    });
+  }
+
+  async rejectTransfer(id: string, transactionId: string, reason?: string) {
+    return this.request<{ success: boolean; transaction: PendingTransfer }>(`/bots/${id}/approvals/${transactionId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async getBotContacts(id: string, tag?: string) {
+    const query = tag ? `?tag=${encodeURIComponent(tag)}` : '';
+    return this.request<{ contacts: Contact[] }>(`/bots/${id}/contacts${query}`);
+  }
+
+  async createContact(id: string, contact: ContactInput) {
+    return this.request<{ success: boolean; contact: Contact }>(`/bots/${id}/contacts`, {
+      method: 'POST',
+      body: JSON.stringify(contact),
+    });
+  }
+
+  async updateContact(id: string, contactId: string, changes: Partial<ContactInput>) {
+    return this.request<{ success: boolean; contact: Contact }>(`/bots/${id}/contacts/${contactId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteContact(id: string, contactId: string) {
+    return this.request<{ success: boolean }>(`/bots/${id}/contacts/${contactId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getBotSchedules(id: string) {
+    return this.request<{ schedules: PaymentSchedule[] }>(`/bots/${id}/schedules`);
+  }
+
+  async getBotSchedule(id: string, scheduleId: string) {
+    return this.request<{ schedule: PaymentSchedule; runs: PaymentRun[] }>(`/bots/${id}/schedules/${scheduleId}`);
+  }
+
+  async createSchedule(id: string, schedule: PaymentScheduleInput) {
+    return this.request<{ success: boolean; schedule: PaymentSchedule }>(`/bots/${id}/schedules`, {
+      method: 'POST',
+      body: JSON.stringify(schedule),
+    });
+  }
+
+  async pauseSchedule(id: string, scheduleId: string) {
+    return this.request<{ success: boolean; schedule: PaymentSchedule }>(`/bots/${id}/schedules/${scheduleId}/pause`, {
+      method: 'POST',
+    });
+  }
+
+  async resumeSchedule(id: string, scheduleId: string) {
+    return this.request<{ success: boolean; schedule: PaymentSchedule }>(`/bots/${id}/schedules/${scheduleId}/resume`, {
+      method: 'POST',
+    });
+  }
+
+  async cancelSchedule(id: string, scheduleId: string) {
+    return this.request<{ success: boolean; schedule: PaymentSchedule }>(`/bots/${id}/schedules/${scheduleId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getBotTransactions(id: string, filters: TransactionHistoryFilters = {}) {
+    return this.request<{ transactions: TransactionHistoryEntry[]; total: number; limit: number; offset: number }>(
+      `/bots/${id}/transactions?${historyParams(filters)}`
+    );
+  }
+
+  /**
+   * Download the filtered history as a CSV or JSON file for reconciliation
+   */
+  async exportBotTransactions(id: string, format: 'csv' | 'json', filters: TransactionHistoryFilters = {}): Promise<Blob> {
+    const params = historyParams({ ...filters, limit: undefined, offset: undefined });
+    params.set('format', format);
+    const response = await fetch(`${API_BASE_URL}/bots/${id}/transactions/export?${params}`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+    });
+    if (!response.ok) {
+      throw new Error(`Export failed: HTTP ${response.status}`);
+    }
+    return response.blob();
   }
 
   async toggleBotWebChat(id: string, enabled: boolean) {
@@ -222,6 +645,55 @@ class ApiClient {
     });
   }
 
+  // Organizations
+  async getOrganizations() {
+    return this.request<{ organizations: Organization[] }>('/organizations');
+  }
+
+  async createOrganization(name: string) {
+    return this.request<{ organization: Organization }>('/organizations', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async getOrganizationMembers(orgId: string) {
+    return this.request<OrganizationMembersResponse>(`/organizations/${orgId}/members`);
+  }
+
+  async inviteMember(orgId: string, email: string, role: OrgRole) {
+    return this.request<{ invitation: OrganizationInvitation; token: string }>(`/organizations/${orgId}/invitations`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async cancelInvitation(orgId: string, invitationId: string) {
+    return this.request(`/organizations/${orgId}/invitations/${invitationId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async acceptInvitation(token: string) {
+    return this.request('/invitations/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async updateMemberRole(orgId: string, userId: string, role: OrgRole) {
+    return this.request(`/organizations/${orgId}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeMember(orgId: string, userId: string) {
+    return this.request(`/organizations/${orgId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Chat
   async sendMessage(botId: string, message: string, sessionId?: string) {
     return this.request(`/bots/${botId}/chat`, {
@@ -235,22 +707,36 @@ class ApiClient {
     return this.request(`/bots/${botId}/chat/history${params}`);
   }
 
-  // WebSocket for real-time updates
-  connectWebSocket(onMessage: (data: any) => void) {
-    const ws = new WebSocket('ws://localhost:3002/ws');
-    
-    ws.onopen = () => {
-      if (this.token) {
-        ws.send(JSON.stringify({ type: 'auth', token: this.token }));
-      }
-    };
+  // Activities
+  async getActivities(params: { limit?: number; offset?: number; unread?: boolean; botId?: string } = {}) {
+    const query = new URLSearchParams();
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.offset) query.set('offset', String(params.offset));
+    if (params.unread) query.set('unread', 'true');
+    if (params.botId) query.set('botId', params.botId);
+    const qs = query.toString();
+    return this.request<{ activities: Activity[] }>(`/activities${qs ? `?${qs}` : ''}`);
+  }
 
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      onMessage(data);
-    };
+  async getUnreadActivityCount() {
+    return this.request<{ count: number }>('/activities/unread-count');
+  }
 
-    return ws;
+  async markActivitiesRead(activityIds?: string[]) {
+    return this.request('/activities/read', {
+      method: 'POST',
+      body: JSON.stringify({ activityIds }),
+    });
+  }
+
+  // Server-Sent Events for real-time updates. EventSource cannot send headers,
+  // so the stream is opened with a single-use ticket instead of the access token
+  async connectEventStream(): Promise<EventSource | null> {
+    if (!this.token) {
+      return null;
+    }
+    const { ticket } = await this.request<{ ticket: string; expiresIn: number }>('/events/ticket', { method: 'POST' });
+    return new EventSource(`${API_BASE_URL}/events?ticket=${encodeURIComponent(ticket)}`);
   }
 }
 
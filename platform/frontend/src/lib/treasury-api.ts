@@ -3,6 +3,8 @@
  * Handles all treasury and DAO-related API interactions
  */
 
+import apiClient from './api-client';
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002/api';
 
 export interface TreasuryProposal {
@@ -115,7 +117,8 @@ class TreasuryAPIService {
 
   private async request<T>(
     endpoint: string, 
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retryOnUnauthorized = true
   ): Promise<T> {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
@@ -131,6 +134,12 @@ class TreasuryAPIService {
       headers,
     });
 
+    // Share the session refresh with the main API client and replay once
+    if (response.status === 401 && retryOnUnauthorized && await apiClient.refreshAccessToken()) {
+      this.token = apiClient.getToken();
+      return this.request<T>(endpoint, options, false);
+    }
+
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Request failed' }));
       throw new Error(error.error || `HTTP error! status: ${response.status}`);
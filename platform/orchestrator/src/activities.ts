@@ -0,0 +1,28 @@
+import { DatabaseService } from './database';
+import { EventBus } from './events';
+import { WebhookService } from './webhooks';
+
+export type ActivityData = Parameters<DatabaseService['createActivity']>[0];
+
+/**
+ * Records activities and fans each one out to the user's event stream
+ * and webhook subscriptions.
+ */
+export class ActivityLog {
+  private db: DatabaseService;
+  private events: EventBus;
+  private webhooks: WebhookService;
+
+  constructor(db: DatabaseService, events: EventBus, webhooks: WebhookService) {
+    this.db = db;
+    this.events = events;
+    this.webhooks = webhooks;
+  }
+
+  async record(data: ActivityData): Promise<any> {
+    const activity = await this.db.createActivity(data);
+    this.events.publishToUser(data.userId, { type: 'activity', activity });
+    await this.webhooks.dispatch(activity);
+    return activity;
+  }
+}
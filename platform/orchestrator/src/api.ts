@@ -2,30 +2,62 @@ import express from 'express';
 import cors from 'cors';
 import * as dotenv from 'dotenv';
 import { ContainerManager } from './containerManager';
-import { AuthService } from './auth';
+import { AuthService, API_KEY_SCOPES, ApiKeyScope, ORG_ROLES, hasScope, isValidRole, isValidScope, roleAtLeast } from './auth';
 import { DatabaseService } from './database';
+import { QuotaService, QuotaExceededError } from './quotas';
+import { DeploymentQueue } from './deploymentQueue';
+import { EventBus, StreamTickets, TransactionUpdate } from './events';
+import { ActivityLog } from './activities';
+import { BotConfigHistory, diffConfig, redactChanges, snapshotOf, toConfigVersionResponse } from './configVersions';
+import { WebhookService, WebhookUrlError, WEBHOOK_EVENT_TYPES, assertPublicWebhookUrl, isWebhookEventType, toWebhookResponse } from './webhooks';
+import { TransactionWatcher, toTransactionUpdate } from './transactionWatcher';
 import { adminWallet } from './adminWallet';
+import { getSeedEncryption } from './seedEncryption';
+import { getServiceCredentials } from './serviceAuth';
+import { BotBundleError, assertValidPassphrase, openBotBundle, sealBotBundle } from './botBundle';
+import { TransferApprovals } from './approvals';
+import { PlacementError, TenantPlacementService } from './tenantPlacement';
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
-const containerManager = new ContainerManager();
 const db = new DatabaseService();
+const tenantPlacement = new TenantPlacementService(db);
+const containerManager = new ContainerManager(tenantPlacement);
 const authService = new AuthService(db);
+const quotaService = new QuotaService(db);
+const events = new EventBus(db);
+const streamTickets = new StreamTickets();
+const transactionWatcher = new TransactionWatcher(events, tenantPlacement);
+const webhooks = new WebhookService(db);
+const activityLog = new ActivityLog(db, events, webhooks);
+const deploymentQueue = new DeploymentQueue(db, containerManager, events, activityLog);
+const configHistory = new BotConfigHistory(db, containerManager);
+const transferApprovals = new TransferApprovals(db, activityLog, transactionWatcher, tenantPlacement);
 
 app.use(cors());
 app.use(express.json());
 
 // Middleware for authentication
 const authenticate = async (req: any, res: any, next: any) => {
-  const token = req.headers.authorization?.split(' ')[1];
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
   
   // If no token provided, check if we should use dev bypass
   if (!token) {
     return res.status(401).json({ error: 'No token provided' });
   }
   
+  // Scoped API keys (e.g. for CI) use "Authorization: ApiKey <key>"
+  if (scheme === 'ApiKey') {
+    try {
+      req.user = await authService.verifyApiKey(token);
+      return next();
+    } catch (error: any) {
+      return res.status(401).json({ error: error.message });
+    }
+  }
+  
   try {  
     // Validate real token (even in development!)
     const user = await authService.verifyToken(token);
@@ -36,6 +68,78 @@ const authenticate = async (req: any, res: any, next: any) => {
   }
 };
 
+// EventSource cannot send headers, so streams authenticate with a single-use ?ticket=
+const authenticateStream = (req: any, res: any, next: any) => {
+  const user = typeof req.query.ticket === 'string' ? streamTickets.redeem(req.query.ticket) : null;
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid or expired stream ticket' });
+  }
+  req.user = user;
+  next();
+};
+
+// Middleware requiring an API key scope (JWT sessions pass through)
+const requireScope = (scope: ApiKeyScope) => (req: any, res: any, next: any) => {
+  if (!hasScope(req.user, scope)) {
+    return res.status(403).json({ error: `API key missing required scope: ${scope}` });
+  }
+  next();
+};
+
+// Run a quota check, answering with the quota error if it fails
+const enforceQuota = async (res: any, check: () => Promise<void>): Promise<boolean> => {
+  try {
+    await check();
+    return true;
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      res.status(error.statusCode).json(error.toJSON());
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Follow a transaction started through the API and record it in the user's activity feed
+const trackTransaction = async (bot: any, userId: string, update: TransactionUpdate) => {
+  transactionWatcher.watch(bot, update);
+
+  const failed = update.state === 'failed';
+  const parked = update.state === 'pending_approval';
+  const transfer = `${update.amount || 'funds'}${update.toAddress ? ` to ${update.toAddress}` : ''}`;
+  await activityLog.record({
+    userId,
+    botId: bot.id,
+    type: 'transaction',
+    title: failed ? 'Transaction failed' : parked ? 'Transaction awaiting approval' : 'Transaction sent',
+    description: failed
+      ? update.error || 'Transaction failed'
+      : parked ? `Sending ${transfer} needs the bot owner's approval` : `Sent ${transfer}`,
+    metadata: update,
+    severity: failed ? 'error' : parked ? 'warning' : 'info'
+  });
+};
+
+// Pass the client's Idempotency-Key on to the wallet, so a retried send is not sent twice
+const idempotencyHeaders = (req: any): Record<string, string> => {
+  const key = req.header('Idempotency-Key');
+  return key ? { 'Idempotency-Key': key } : {};
+};
+
+// Change a bot's status and push it to everyone who can see the bot
+const setBotStatus = async (botId: string, status: string) => {
+  await db.updateBot(botId, { status });
+  await events.publishToBot(botId, { type: 'bot_status', botId, status });
+};
+
+// Middleware rejecting API keys, for account-level endpoints
+const requireSession = (req: any, res: any, next: any) => {
+  if (req.user?.apiKeyId) {
+    return res.status(403).json({ error: 'This endpoint requires a user session' });
+  }
+  next();
+};
+
 // ============ Public Endpoints ============
 
 /**
@@ -48,11 +152,17 @@ app.post('/api/register', async (req, res) => {
     // Create user in database
     const user = await db.createUser({ email, password });
     
-    // Generate auth token
-    const token = authService.generateToken(user.id);
+    // Every user starts as owner of their own organization
+    await db.getDefaultOrganization(user.id);
+    
+    // Start session and issue tokens
+    const tokens = await authService.createSession(user.id, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip
+    });
     
     res.json({ 
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
@@ -76,10 +186,13 @@ app.post('/api/login', async (req, res) => {
     const { email, password } = req.body;
     
     const user = await db.authenticateUser(email, password);
-    const token = authService.generateToken(user.id);
+    const tokens = await authService.createSession(user.id, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip
+    });
     
     res.json({ 
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
@@ -91,12 +204,68 @@ app.post('/api/login', async (req, res) => {
   }
 });
 
+/**
+ * Exchange refresh token for a new access/refresh token pair
+ */
+app.post('/api/token/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+    
+    const tokens = await authService.refreshSession(refreshToken);
+    res.json(tokens);
+  } catch (error: any) {
+    res.status(401).json({ error: error.message });
+  }
+});
+
+/**
+ * Logout (revoke current session)
+ */
+app.post('/api/logout', authenticate, requireSession, async (req, res) => {
+  try {
+    if (req.user!.sessionId) {
+      await authService.revokeSession(req.user!.sessionId);
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Sign out all devices (revoke every session of the user)
+ */
+app.post('/api/logout/all', authenticate, requireSession, async (req, res) => {
+  try {
+    const revoked = await authService.revokeAllSessions(req.user!.id);
+    res.json({ success: true, revoked });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get usage against the user's tier quotas
+ */
+app.get('/api/usage', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const usage = await quotaService.getUsage(req.user!.id);
+    res.json(usage);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ============ Activity/Notification Endpoints ============
 
 /**
  * Get user activities/notifications
  */
-app.get('/api/activities', authenticate, async (req, res) => {
+app.get('/api/activities', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
     const { limit, offset, unread, botId } = req.query;
     
@@ -116,7 +285,7 @@ app.get('/api/activities', authenticate, async (req, res) => {
 /**
  * Get activity statistics
  */
-app.get('/api/activities/stats', authenticate, async (req, res) => {
+app.get('/api/activities/stats', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
     const stats = await db.getActivityStats(req.user!.id);
     res.json(stats);
@@ -128,7 +297,7 @@ app.get('/api/activities/stats', authenticate, async (req, res) => {
 /**
  * Mark activities as read
  */
-app.post('/api/activities/read', authenticate, async (req, res) => {
+app.post('/api/activities/read', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
     const { activityIds } = req.body;
     await db.markActivitiesAsRead(req.user!.id, activityIds);
@@ -141,7 +310,7 @@ app.post('/api/activities/read', authenticate, async (req, res) => {
 /**
  * Get unread count
  */
-app.get('/api/activities/unread-count', authenticate, async (req, res) => {
+app.get('/api/activities/unread-count', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
     const count = await db.getUnreadActivityCount(req.user!.id);
     res.json({ count });
@@ -150,482 +319,367 @@ app.get('/api/activities/unread-count', authenticate, async (req, res) => {
   }
 });
 
-// ============ Protected Endpoints ============
+// ============ Event Stream ============
 
 /**
- * Create a new bot for the user (async deployment)
+ * Issue a ticket for opening the event stream, valid once for 30 seconds
+ */
+app.post('/api/events/ticket', authenticate, requireScope('bots:read'), (req, res) => {
+  res.json(streamTickets.issue(req.user!));
+});
+
+/**
+ * Server-Sent Events stream of deployment, activity, bot status and transaction events
+ */
+app.get('/api/events', authenticateStream, requireScope('bots:read'), (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable proxy buffering
+  });
+  res.write(`event: ready\ndata: ${JSON.stringify({ userId: req.user!.id })}\n\n`);
+  
+  const unsubscribe = events.subscribe(req.user!.id, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  
+  // Comment lines keep idle connections open through proxies
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+  
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// ============ Webhook Endpoints ============
+
+/**
+ * Subscribe a URL to signed activity webhooks. The signing secret is only returned once.
  */
-app.post('/api/bots', authenticate, async (req, res) => {
+app.post('/api/webhooks', authenticate, requireSession, async (req, res) => {
   try {
-    const { 
-      name,
-      features,      // { wallet: true, dao: false, marketplace: true }
-      platforms,     // { discord: { token: "xxx" }, telegram: { token: "yyy" } }
-      tier = 'basic'
-    } = req.body;
-    
-    // Generate deployment ID
-    const deploymentId = `deploy_${req.user!.id}_${Date.now()}`;
+    const { url, botId, eventTypes = [] } = req.body;
     
-    // Create bot record FIRST with 'deploying' status
-    const bot = await db.createBot({
-      userId: req.user!.id,
-      name,
-      tenantId: deploymentId, // Temporary ID until deployment completes
-      walletAddress: 'deploying...',
-      elizaPort: 0, // Will be set after deployment
-      features,
-      platforms,
-      status: 'deploying'
-    });
+    await assertPublicWebhookUrl(url);
     
-    // Start async deployment in background
-    const userConfig = {
-      userId: req.user!.id,
-      email: req.user!.email,
-      tier,
-      features,
-      platforms
-    };
+    if (!Array.isArray(eventTypes) || eventTypes.some((type: string) => !isWebhookEventType(type))) {
+      return res.status(400).json({ 
+        error: 'eventTypes must be an array of webhook event types',
+        availableEventTypes: WEBHOOK_EVENT_TYPES
+      });
+    }
     
-    // Start async deployment (returns immediately, deployment happens in background)
-    await containerManager.startAsyncDeployment(userConfig, deploymentId);
+    if (botId && !await authService.hasBotRole(req.user!.id, await db.getBot(botId), 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
     
-    // Return immediately to user
-    res.json({
-      success: true,
-      bot: {
-        id: bot.id,
-        name: bot.name,
-        deploymentId,
-        status: 'deploying',
-        features,
-        platforms: Object.keys(platforms),
-        message: 'Bot deployment started. This may take 3-5 minutes. Check status using GET /api/bots/:botId or GET /api/bots/:botId/deployment-status'
-      }
+    const { webhook, secret } = await webhooks.createSubscription({
+      userId: req.user!.id,
+      botId,
+      url,
+      eventTypes
     });
     
-    // Poll for deployment completion and update bot record (fire and forget)
-    const checkInterval = setInterval(async () => {
-      const deploymentProgress = containerManager.getDeploymentProgress(deploymentId);
-      
-      if (deploymentProgress?.status === 'completed') {
-        clearInterval(checkInterval);
-        // Update bot with real deployment info
-        try {
-          await db.updateBot(bot.id, {
-            tenantId: deploymentProgress.tenantId!,
-            walletAddress: deploymentProgress.walletAddress!,
-            elizaPort: containerManager.getSharedElizaPort(), // All bots use shared port
-            status: 'active'
-          });
-          console.log(`✅ Bot ${bot.id} (${bot.name}) deployment completed`);
-          console.log(`   Tenant ID: ${deploymentProgress.tenantId}`);
-          console.log(`   Wallet: ${deploymentProgress.walletAddress}`);
-          console.log(`   Shared Eliza Port: ${containerManager.getSharedElizaPort()}`);
-        } catch (updateError) {
-          console.error(`Failed to update bot ${bot.id}:`, updateError);
-        }
-      } else if (deploymentProgress?.status === 'failed') {
-        clearInterval(checkInterval);
-        try {
-          await db.updateBot(bot.id, {
-            status: 'failed'
-          });
-          console.error(`❌ Bot ${bot.id} (${bot.name}) deployment failed: ${deploymentProgress.error}`);
-        } catch (updateError) {
-          console.error(`Failed to update bot ${bot.id}:`, updateError);
-        }
-      }
-    }, 3000); // Check every 3 seconds
-    
-    // Safety timeout: stop checking after 10 minutes
-    setTimeout(() => {
-      clearInterval(checkInterval);
-      console.log(`⏱️ Deployment monitoring timeout for bot ${bot.id}`);
-    }, 600000);
-    
+    res.status(201).json({ webhook: toWebhookResponse(webhook), secret });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof WebhookUrlError ? 400 : 500).json({ error: error.message });
   }
 });
 
 /**
- * Get user's bots
+ * List user's webhook subscriptions
  */
-app.get('/api/bots', authenticate, async (req, res) => {
+app.get('/api/webhooks', authenticate, requireSession, async (req, res) => {
   try {
-    const bots = await db.getUserBots(req.user!.id);
-    
-    // Add real-time status for each bot
-    const botsWithStatus = await Promise.all(
-      bots.map(async (bot: any) => {
-        try {
-          // Check container status - skip for mock data in development
-          if (process.env.NODE_ENV === 'development' && bot.id.startsWith('bot-')) {
-            // Return mock status for development bots
-            return {
-              ...bot,
-              agentStatus: { status: 'healthy', uptime: '2h 30m', version: '1.0.0' },
-              containerStatus: bot.status === 'paused' ? 'paused' : 'running',
-              walletStatus: {
-                balance: { total: Math.random() * 1000 + 50 },
-                transactionCount: Math.floor(Math.random() * 100) + 1
-              }
-            };
-          }
-          
-          const response = await fetch(`http://localhost:${bot.elizaPort}/health`);
-          const agentStatus = await response.json();
-          
-          return {
-            ...bot,
-            agentStatus,
-            containerStatus: 'running'
-          };
-        } catch (error) {
-          return {
-            ...bot,
-            containerStatus: 'error'
-          };
-        }
-      })
-    );
-    
-    res.json({ bots: botsWithStatus });
+    const subscriptions = await db.getUserWebhooks(req.user!.id);
+    res.json({ 
+      webhooks: subscriptions.map(toWebhookResponse),
+      availableEventTypes: WEBHOOK_EVENT_TYPES
+    });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Get specific bot details
+ * Change a webhook's URL or event types, or pause/resume it
  */
-app.get('/api/bots/:botId', authenticate, async (req, res) => {
+app.patch('/api/webhooks/:webhookId', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
+    const webhook = await db.getUserWebhook(req.user!.id, req.params.webhookId);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
     
-    if (bot.userId !== req.user!.id) {
-      return res.status(403).json({ error: 'Unauthorized' });
+    const { url, eventTypes, active } = req.body;
+    const data: any = {};
+    
+    if (url !== undefined) {
+      await assertPublicWebhookUrl(url);
+      data.url = url;
     }
     
-    // If bot is still deploying, return deployment status
-    if (bot.status === 'deploying') {
-      const deploymentProgress = containerManager.getDeploymentProgress(bot.tenantId);
-      return res.json({
-        bot,
-        deploymentProgress: deploymentProgress || {
-          status: 'deploying',
-          stage: 'unknown',
-          message: 'Deployment in progress...'
-        }
-      });
+    if (eventTypes !== undefined) {
+      if (!Array.isArray(eventTypes) || eventTypes.some((type: string) => !isWebhookEventType(type))) {
+        return res.status(400).json({ 
+          error: 'eventTypes must be an array of webhook event types',
+          availableEventTypes: WEBHOOK_EVENT_TYPES
+        });
+      }
+      data.eventTypes = eventTypes;
     }
     
-    // Get wallet balance
-    try {
-      const balanceResponse = await fetch(`http://localhost:${bot.elizaPort}/wallet/balance`);
-      const balance = await balanceResponse.json();
-      
-      // Get transaction history
-      const txResponse = await fetch(`http://localhost:${bot.elizaPort}/wallet/transactions`);
-      const transactions: any = await txResponse.json();
-      
-      res.json({
-        bot,
-        wallet: {
-          balance,
-          transactions: Array.isArray(transactions) ? transactions.slice(0, 10) : [] // Last 10 transactions
-        }
-      });
-    } catch (error) {
-      // If container not ready yet, return bot info without wallet data
-      res.json({
-        bot,
-        wallet: {
-          status: 'initializing',
-          message: 'Wallet is being initialized...'
-        }
-      });
+    if (active !== undefined) {
+      data.active = !!active;
     }
+    
+    const updated = await db.updateWebhook(webhook.id, data);
+    res.json({ webhook: toWebhookResponse(updated) });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof WebhookUrlError ? 400 : 500).json({ error: error.message });
   }
 });
 
 /**
- * Get deployment status for a bot
+ * Delete a webhook subscription and its delivery log
  */
-app.get('/api/bots/:botId/deployment-status', authenticate, async (req, res) => {
+app.delete('/api/webhooks/:webhookId', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
+    const deleted = await db.deleteWebhook(req.user!.id, req.params.webhookId);
     
-    if (bot.userId !== req.user!.id) {
-      return res.status(403).json({ error: 'Unauthorized' });
+    if (!deleted) {
+      return res.status(404).json({ error: 'Webhook not found' });
     }
     
-    const deploymentProgress = containerManager.getDeploymentProgress(bot.tenantId);
-    
-    if (!deploymentProgress) {
-      // If no deployment progress, bot is either completed or never started
-      return res.json({
-        status: bot.status === 'active' ? 'completed' : 'unknown',
-        bot: {
-          id: bot.id,
-          status: bot.status,
-          walletAddress: bot.walletAddress,
-          elizaPort: bot.elizaPort
-        }
-      });
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delivery log of a webhook. ?status=dead lists the dead-lettered deliveries.
+ */
+app.get('/api/webhooks/:webhookId/deliveries', authenticate, requireSession, async (req, res) => {
+  try {
+    const webhook = await db.getUserWebhook(req.user!.id, req.params.webhookId);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
     }
     
-    res.json({
-      ...deploymentProgress,
-      bot: {
-        id: bot.id,
-        name: bot.name
-      }
+    const { status, limit, offset } = req.query;
+    const deliveries = await db.getWebhookDeliveries(webhook.id, {
+      status: status as string,
+      limit: limit ? parseInt(limit as string) : undefined,
+      offset: offset ? parseInt(offset as string) : undefined
     });
+    
+    res.json({ deliveries });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Execute bot command (proxy to container)
+ * Send a delivery again, e.g. after fixing the receiving endpoint
  */
-app.post('/api/bots/:botId/execute', authenticate, async (req, res) => {
+app.post('/api/webhooks/:webhookId/deliveries/:deliveryId/redeliver', authenticate, requireSession, async (req, res) => {
   try {
-    const { command, args } = req.body;
-    const bot = await db.getBot(req.params.botId);
+    const webhook = await db.getUserWebhook(req.user!.id, req.params.webhookId);
+    const delivery = webhook && await db.getWebhookDelivery(webhook.id, req.params.deliveryId);
     
-    if (bot.userId !== req.user!.id) {
-      return res.status(403).json({ error: 'Unauthorized' });
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
     }
     
-    // Map commands to wallet endpoints
-    const commandMap: any = {
-      'getBalance': { endpoint: '/wallet/balance', method: 'GET' },
-      'sendFunds': { endpoint: '/wallet/send', method: 'POST' },
-      'getTransactions': { endpoint: '/wallet/transactions', method: 'GET' },
-      'openElection': { endpoint: '/dao/open-election', method: 'POST' },
-      'castVote': { endpoint: '/dao/cast-vote', method: 'POST' },
-      'getDaoState': { endpoint: '/dao/state', method: 'GET' }
-    };
-    
-    const cmdInfo = commandMap[command];
-    if (!cmdInfo) {
-      return res.status(400).json({ error: 'Unknown command' });
+    if (delivery.status === 'pending') {
+      return res.status(409).json({ error: 'Delivery is still being attempted' });
     }
     
-    // Execute command against user's container
-    const url = `http://localhost:${bot.walletPort}${cmdInfo.endpoint}`;
-    const response = await fetch(url, {
-      method: cmdInfo.method,
-      headers: { 'Content-Type': 'application/json' },
-      body: cmdInfo.method === 'POST' ? JSON.stringify(args) : undefined
-    });
-    
-    const result = await response.json();
-    
-    // Log command execution
-    await db.logCommand({
-      botId: bot.id,
-      command,
-      args,
-      result,
-      timestamp: new Date()
-    });
-    
-    res.json({ success: true, result });
+    const updated = await webhooks.redeliver(delivery);
+    res.json({ success: true, delivery: updated });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// ============ API Key Endpoints ============
+
 /**
- * Update bot configuration
+ * Mint a scoped API key. The raw key is only returned once.
  */
-app.put('/api/bots/:botId', authenticate, async (req, res) => {
+app.post('/api/keys', authenticate, requireSession, async (req, res) => {
   try {
-    const { features, platforms } = req.body;
-    const bot = await db.getBot(req.params.botId);
+    const { name, scopes, expiresAt } = req.body;
     
-    if (bot.userId !== req.user!.id) {
-      return res.status(403).json({ error: 'Unauthorized' });
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return res.status(400).json({ 
+        error: 'scopes must be a non-empty array',
+        availableScopes: API_KEY_SCOPES
+      });
     }
     
-    // Update bot configuration in database
-    await db.updateBot(req.params.botId, { features, platforms });
-    
-    // Update container configuration and restart
-    const updatedConfig = {
-      userId: bot.userId,
-      email: req.user!.email,
-      tier: bot.tier || 'basic',
-      features: features || bot.features,
-      platforms: platforms || bot.platforms
-    };
+    const invalid = scopes.filter((scope: string) => !isValidScope(scope));
+    if (invalid.length > 0) {
+      return res.status(400).json({ 
+        error: `Invalid scopes: ${invalid.join(', ')}`,
+        availableScopes: API_KEY_SCOPES
+      });
+    }
     
-    await containerManager.updateUserContainer(bot.tenantId, updatedConfig);
+    const expiry = expiresAt ? new Date(expiresAt) : undefined;
+    if (expiry && isNaN(expiry.getTime())) {
+      return res.status(400).json({ error: 'expiresAt must be a valid date' });
+    }
     
-    res.json({ 
-      success: true, 
-      status: 'restarting',
-      message: 'Bot is restarting with new configuration' 
+    const { key, apiKey } = await authService.createApiKey(req.user!.id, {
+      name,
+      scopes,
+      expiresAt: expiry
     });
+    
+    res.status(201).json({ key, apiKey });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Stop bot
+ * List user's API keys
  */
-app.post('/api/bots/:botId/stop', authenticate, async (req, res) => {
+app.get('/api/keys', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
+    const keys = await db.getUserApiKeys(req.user!.id);
+    res.json({ keys, availableScopes: API_KEY_SCOPES });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Revoke an API key
+ */
+app.delete('/api/keys/:keyId', authenticate, requireSession, async (req, res) => {
+  try {
+    const revoked = await db.revokeApiKey(req.user!.id, req.params.keyId);
     
-    if (bot.userId !== req.user!.id) {
-      return res.status(403).json({ error: 'Unauthorized' });
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found' });
     }
     
-    await containerManager.stopUserBot(bot.tenantId);
-    await db.updateBot(req.params.botId, { status: 'stopped' });
-    
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// ============ Organization Endpoints ============
+
 /**
- * Test Discord bot token
+ * List organizations the user belongs to
  */
-app.post('/api/bots/test/discord', authenticate, async (req, res) => {
+app.get('/api/organizations', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
-    const { token } = req.body;
-    
-    if (!token) {
-      return res.status(400).json({ error: 'Discord token is required' });
-    }
-    
-    // Test the Discord token by fetching bot info
-    const response = await fetch('https://discord.com/api/v10/users/@me', {
-      headers: {
-        'Authorization': `Bot ${token}`,
-        'Content-Type': 'application/json'
-      }
-    });
-    
-    if (!response.ok) {
-      return res.json({ valid: false, error: 'Invalid Discord token' });
-    }
-    
-    const botInfo: any = await response.json();
-    
-    res.json({
-      valid: true,
-      username: botInfo.username,
-      discriminator: botInfo.discriminator,
-      id: botInfo.id,
-      avatar: botInfo.avatar
-    });
+    const organizations = await db.getUserOrganizations(req.user!.id);
+    res.json({ organizations });
   } catch (error: any) {
-    res.json({ valid: false, error: error.message });
+    res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Test Telegram bot token
+ * Create an organization (the creator becomes owner)
  */
-app.post('/api/bots/test/telegram', authenticate, async (req, res) => {
+app.post('/api/organizations', authenticate, requireSession, async (req, res) => {
   try {
-    const { token } = req.body;
-    
-    if (!token) {
-      return res.status(400).json({ error: 'Telegram token is required' });
-    }
-    
-    // Test the Telegram token by fetching bot info
-    const response = await fetch(`https://api.telegram.org/bot${token}/getMe`);
-    
-    if (!response.ok) {
-      return res.json({ valid: false, error: 'Invalid Telegram token' });
-    }
-    
-    const result: any = await response.json();
+    const { name } = req.body;
     
-    if (!result.ok) {
-      return res.json({ valid: false, error: 'Invalid Telegram token' });
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ error: 'name is required' });
     }
     
-    res.json({
-      valid: true,
-      username: result.result.username,
-      firstName: result.result.first_name,
-      id: result.result.id,
-      canJoinGroups: result.result.can_join_groups,
-      canReadAllGroupMessages: result.result.can_read_all_group_messages
-    });
+    const organization = await db.createOrganization(name.trim(), req.user!.id);
+    res.status(201).json({ organization: { ...organization, role: 'owner' } });
   } catch (error: any) {
-    res.json({ valid: false, error: error.message });
+    res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Start bot
+ * List organization members and pending invitations
  */
-app.post('/api/bots/:botId/start', authenticate, async (req, res) => {
+app.get('/api/organizations/:orgId/members', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
-    
-    if (bot.userId !== req.user!.id) {
+    const membership = await db.getMembership(req.params.orgId, req.user!.id);
+    if (!membership) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    await containerManager.startUserContainer(bot.tenantId);
-    await db.updateBot(req.params.botId, { status: 'running' });
+    const members = await db.getOrganizationMembers(req.params.orgId);
+    const invitations = membership.role === 'owner'
+      ? await db.getPendingInvitations(req.params.orgId)
+      : [];
     
-    res.json({ success: true });
+    res.json({ members, invitations, role: membership.role });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Pause bot (stops bot container but keeps wallet running)
+ * Invite a user to an organization (owners only)
  */
-app.post('/api/bots/:botId/pause', authenticate, async (req, res) => {
+app.post('/api/organizations/:orgId/invitations', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
+    const { email, role = 'viewer' } = req.body;
     
-    if (bot.userId !== req.user!.id) {
+    const membership = await db.getMembership(req.params.orgId, req.user!.id);
+    if (membership?.role !== 'owner') {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    await containerManager.pauseBotContainer(bot.tenantId);
-    await db.updateBot(req.params.botId, { status: 'paused' });
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'email is required' });
+    }
     
-    res.json({ success: true });
+    if (!isValidRole(role)) {
+      return res.status(400).json({ error: `role must be one of: ${ORG_ROLES.join(', ')}` });
+    }
+    
+    const { token, invitation } = await authService.createInvitation(req.params.orgId, req.user!.id, email, role);
+    
+    await activityLog.record({
+      userId: req.user!.id,
+      type: 'member_invited',
+      title: 'Member Invited',
+      description: `Invited ${invitation.email} as ${role}`,
+      metadata: { organizationId: req.params.orgId, invitationId: invitation.id, role },
+      severity: 'info'
+    });
+    
+    // The token is only returned once; share it with the invitee
+    res.status(201).json({ invitation, token });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Resume bot (restarts bot container)
+ * Cancel a pending invitation (owners only)
  */
-app.post('/api/bots/:botId/resume', authenticate, async (req, res) => {
+app.delete('/api/organizations/:orgId/invitations/:invitationId', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
-    
-    if (bot.userId !== req.user!.id) {
+    const membership = await db.getMembership(req.params.orgId, req.user!.id);
+    if (membership?.role !== 'owner') {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    await containerManager.resumeBotContainer(bot.tenantId);
-    await db.updateBot(req.params.botId, { status: 'running' });
+    const deleted = await db.deleteInvitation(req.params.orgId, req.params.invitationId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
     
     res.json({ success: true });
   } catch (error: any) {
@@ -634,41 +688,60 @@ app.post('/api/bots/:botId/resume', authenticate, async (req, res) => {
 });
 
 /**
- * Get bot status
+ * Accept an invitation
  */
-app.get('/api/bots/:botId/status', authenticate, async (req, res) => {
+app.post('/api/invitations/accept', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
+    const { token } = req.body;
     
-    if (bot.userId !== req.user!.id) {
-      return res.status(403).json({ error: 'Unauthorized' });
+    if (!token) {
+      return res.status(400).json({ error: 'token is required' });
     }
     
-    const status = await containerManager.getContainerStatus(bot.tenantId);
+    const membership = await authService.acceptInvitation(token, req.user!);
     
-    res.json({ 
-      status: bot.status,
-      containers: status
+    await activityLog.record({
+      userId: req.user!.id,
+      type: 'member_joined',
+      title: 'Joined Organization',
+      description: `You joined ${membership.organization.name} as ${membership.role}`,
+      metadata: { organizationId: membership.organizationId, role: membership.role },
+      severity: 'success'
     });
+    
+    res.json({ success: true, membership });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(400).json({ error: error.message });
   }
 });
 
 /**
- * Delete bot
+ * Change a member's role (owners only)
  */
-app.delete('/api/bots/:botId', authenticate, async (req, res) => {
+app.put('/api/organizations/:orgId/members/:userId', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
+    const { role } = req.body;
+    const { orgId, userId } = req.params;
     
-    if (bot.userId !== req.user!.id) {
+    const membership = await db.getMembership(orgId, req.user!.id);
+    if (membership?.role !== 'owner') {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    await containerManager.deleteUserContainer(bot.tenantId);
-    await db.deleteBot(req.params.botId);
+    if (!isValidRole(role)) {
+      return res.status(400).json({ error: `role must be one of: ${ORG_ROLES.join(', ')}` });
+    }
+    
+    const target = await db.getMembership(orgId, userId);
+    if (!target) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+    
+    if (target.role === 'owner' && role !== 'owner' && await db.countOrganizationOwners(orgId) <= 1) {
+      return res.status(400).json({ error: 'An organization must keep at least one owner' });
+    }
     
+    await db.updateMemberRole(orgId, userId, role);
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -676,255 +749,1510 @@ app.delete('/api/bots/:botId', authenticate, async (req, res) => {
 });
 
 /**
- * Get bot logs
+ * Remove a member (owners, or a member leaving)
  */
-app.get('/api/bots/:botId/logs', authenticate, async (req, res) => {
+app.delete('/api/organizations/:orgId/members/:userId', authenticate, requireSession, async (req, res) => {
   try {
-    const bot = await db.getBot(req.params.botId);
+    const { orgId, userId } = req.params;
     
-    if (bot.userId !== req.user!.id) {
+    const membership = await db.getMembership(orgId, req.user!.id);
+    const isSelf = userId === req.user!.id;
+    if (!membership || (!isSelf && membership.role !== 'owner')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const logs = await containerManager.getContainerLogs(bot.tenantId);
+    const target = isSelf ? membership : await db.getMembership(orgId, userId);
+    if (!target) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
     
-    res.json({ logs });
+    if (target.role === 'owner' && await db.countOrganizationOwners(orgId) <= 1) {
+      return res.status(400).json({ error: 'An organization must keep at least one owner' });
+    }
+    
+    await db.removeMember(orgId, userId);
+    
+    await activityLog.record({
+      userId: req.user!.id,
+      type: 'member_removed',
+      title: isSelf ? 'Left Organization' : 'Member Removed',
+      description: isSelf ? 'You left the organization' : `Removed member ${userId}`,
+      metadata: { organizationId: orgId, removedUserId: userId },
+      severity: 'warning'
+    });
+    
+    res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// ============ PLATFORM CONNECTION ENDPOINTS ============
+// ============ Protected Endpoints ============
 
 /**
- * Test Discord connection
+ * Create a new bot for the user (async deployment)
  */
-app.post('/api/bots/:botId/platforms/discord/test', authenticate, async (req, res) => {
+app.post('/api/bots', authenticate, requireScope('bots:write'), async (req, res) => {
   try {
-    const { token, serverId } = req.body;
-    const bot = await db.getBot(req.params.botId);
+    const { 
+      name,
+      features,      // { wallet: true, dao: false, marketplace: true }
+      platforms,     // { discord: { token: "xxx" }, telegram: { token: "yyy" } }
+      tier = 'basic',
+      organizationId // Optional, defaults to the user's own organization
+    } = req.body;
     
-    if (bot.userId !== req.user!.id) {
+    const organization = organizationId
+      ? { id: organizationId }
+      : await db.getDefaultOrganization(req.user!.id);
+    
+    const membership = await db.getMembership(organization.id, req.user!.id);
+    if (!roleAtLeast(membership?.role, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    // Simple validation for Discord token format
-    if (!token || !token.startsWith('M') || token.length < 50) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid Discord bot token format'
-      });
-    }
+    if (!await enforceQuota(res, () => quotaService.assertCanCreateBot(req.user!.id, features))) return;
     
-    // Test Discord API
-    try {
-      const response = await fetch('https://discord.com/api/v10/users/@me', {
-        headers: {
-          'Authorization': `Bot ${token}`
-        }
-      });
-      
-      if (response.ok) {
-        const botInfo: any = await response.json();
-        res.json({
-          success: true,
-          message: `Connected to Discord as ${botInfo.username}`,
-          botName: botInfo.username,
-          botId: botInfo.id
-        });
-      } else {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid Discord token - unable to authenticate'
-        });
+    // Generate deployment ID
+    const deploymentId = `deploy_${req.user!.id}_${Date.now()}`;
+    
+    // Create bot record FIRST with 'deploying' status
+    const bot = await db.createBot({
+      userId: req.user!.id,
+      organizationId: organization.id,
+      name,
+      tenantId: deploymentId, // Temporary ID until deployment completes
+      walletAddress: 'deploying...',
+      elizaPort: 0, // Will be set after deployment
+      features,
+      platforms,
+      status: 'deploying'
+    });
+    await configHistory.recordCreated(bot, req.user!.id);
+    
+    // Persist the deployment job; it runs in the background and survives restarts
+    const userConfig = {
+      userId: req.user!.id,
+      email: req.user!.email,
+      tier,
+      features,
+      platforms
+    };
+    
+    const job = await deploymentQueue.enqueue(bot.id, req.user!.id, userConfig);
+    
+    // Return immediately to user
+    res.json({
+      success: true,
+      bot: {
+        id: bot.id,
+        name: bot.name,
+        deploymentId: job.id,
+        status: 'deploying',
+        features,
+        platforms: Object.keys(platforms),
+        message: 'Bot deployment started. This may take 3-5 minutes. Check status using GET /api/bots/:botId or GET /api/bots/:botId/deployment-status'
       }
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        error: 'Failed to connect to Discord API'
-      });
-    }
+    });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
- * Test Telegram connection
+ * Get user's bots
  */
-app.post('/api/bots/:botId/platforms/telegram/test', authenticate, async (req, res) => {
+app.get('/api/bots', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
-    const { token } = req.body;
-    const bot = await db.getBot(req.params.botId);
-    
-    if (bot.userId !== req.user!.id) {
-      return res.status(403).json({ error: 'Unauthorized' });
-    }
+    const bots = await db.getUserBots(req.user!.id);
     
-    // Test Telegram API
-    try {
-      const response = await fetch(`https://api.telegram.org/bot${token}/getMe`);
-      
-      if (response.ok) {
-        const data: any = await response.json();
-        if (data.ok) {
-          res.json({
-            success: true,
-            message: `Connected to Telegram as ${data.result.username}`,
-            botName: data.result.username,
-            botId: data.result.id
-          });
-        } else {
-          res.status(400).json({
-            success: false,
-            error: 'Invalid Telegram token'
-          });
+    // Add real-time status for each bot
+    const botsWithStatus = await Promise.all(
+      bots.map(async (bot: any) => {
+        try {
+          // Check container status - skip for mock data in development
+          if (process.env.NODE_ENV === 'development' && bot.id.startsWith('bot-')) {
+            // Return mock status for development bots
+            return {
+              ...bot,
+              agentStatus: { status: 'healthy', uptime: '2h 30m', version: '1.0.0' },
+              containerStatus: bot.status === 'paused' ? 'paused' : 'running',
+              walletStatus: {
+                balance: { total: Math.random() * 1000 + 50 },
+                transactionCount: Math.floor(Math.random() * 100) + 1
+              }
+            };
+          }
+          
+          const response = await fetch(`http://localhost:${bot.elizaPort}/health`);
+          const agentStatus = await response.json();
+          
+          return {
+            ...bot,
+            agentStatus,
+            containerStatus: 'running'
+          };
+        } catch (error) {
+          return {
+            ...bot,
+            containerStatus: 'error'
+          };
         }
-      } else {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid Telegram token - unable to authenticate'
-        });
-      }
+      })
+    );
+    
+    res.json({ bots: botsWithStatus });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get specific bot details
+ */
+app.get('/api/bots/:botId', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    // If bot is still deploying, return deployment status
+    if (bot.status === 'deploying') {
+      const job = await db.getDeploymentJob(bot.id);
+      return res.json({
+        bot,
+        deploymentProgress: job ? deploymentQueue.toProgress(job) : {
+          status: 'deploying',
+          stage: 'unknown',
+          message: 'Deployment in progress...'
+        }
+      });
+    }
+    
+    // Get wallet balance
+    try {
+      const balanceResponse = await fetch(`http://localhost:${bot.elizaPort}/wallet/balance`);
+      const balance = await balanceResponse.json();
+      
+      // Get transaction history
+      const txResponse = await fetch(`http://localhost:${bot.elizaPort}/wallet/transactions`);
+      const transactions: any = await txResponse.json();
+      
+      res.json({
+        bot,
+        wallet: {
+          balance,
+          transactions: Array.isArray(transactions) ? transactions.slice(0, 10) : [] // Last 10 transactions
+        }
+      });
     } catch (error) {
-      res.status(400).json({
-        success: false,
-        error: 'Failed to connect to Telegram API'
+      // If container not ready yet, return bot info without wallet data
+      res.json({
+        bot,
+        wallet: {
+          status: 'initializing',
+          message: 'Wallet is being initialized...'
+        }
+      });
+    }
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get deployment status for a bot
+ */
+app.get('/api/bots/:botId/deployment-status', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const job = await db.getDeploymentJob(bot.id);
+    
+    if (!job) {
+      // If no deployment progress, bot is either completed or never started
+      return res.json({
+        status: bot.status === 'active' ? 'completed' : 'unknown',
+        bot: {
+          id: bot.id,
+          status: bot.status,
+          walletAddress: bot.walletAddress,
+          elizaPort: bot.elizaPort
+        }
       });
     }
+    
+    res.json({
+      ...deploymentQueue.toProgress(job),
+      bot: {
+        id: bot.id,
+        name: bot.name
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Retry a failed or cancelled deployment from the stage it stopped at
+ */
+app.post('/api/bots/:botId/deployment/retry', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const job = await db.getDeploymentJob(bot.id);
+    if (!job) {
+      return res.status(404).json({ error: 'No deployment found for this bot' });
+    }
+    
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      return res.status(409).json({ error: `Deployment is ${job.status}; only failed or cancelled deployments can be retried` });
+    }
+    
+    const updated = await deploymentQueue.retry(job);
+    res.json({ success: true, deployment: deploymentQueue.toProgress(updated) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Cancel a queued or running deployment
+ */
+app.post('/api/bots/:botId/deployment/cancel', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const job = await db.getDeploymentJob(bot.id);
+    if (!job) {
+      return res.status(404).json({ error: 'No deployment found for this bot' });
+    }
+    
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return res.status(409).json({ error: `Deployment is already ${job.status}` });
+    }
+    
+    const updated = await deploymentQueue.cancel(job);
+    res.json({ success: true, deployment: deploymentQueue.toProgress(updated) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Execute bot command (proxy to container)
+ */
+app.post('/api/bots/:botId/execute', authenticate, requireScope('bots:execute'), async (req, res) => {
+  try {
+    const { command, args } = req.body;
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    // Map commands to wallet endpoints
+    const commandMap: any = {
+      'getBalance': { endpoint: '/wallet/balance', method: 'GET', scope: 'wallet:read' },
+      'sendFunds': { endpoint: '/wallet/send', method: 'POST', scope: 'wallet:send' },
+      'getTransactions': { endpoint: '/wallet/transactions', method: 'GET', scope: 'wallet:read' },
+      'openElection': { endpoint: '/dao/open-election', method: 'POST', scope: 'dao:write' },
+      'castVote': { endpoint: '/dao/cast-vote', method: 'POST', scope: 'dao:write' },
+      'getDaoState': { endpoint: '/dao/state', method: 'GET', scope: 'treasury:read' }
+    };
+    
+    const cmdInfo = commandMap[command];
+    if (!cmdInfo) {
+      return res.status(400).json({ error: 'Unknown command' });
+    }
+    
+    if (!hasScope(req.user, cmdInfo.scope)) {
+      return res.status(403).json({ error: `API key missing required scope: ${cmdInfo.scope}` });
+    }
+    
+    if (command === 'sendFunds') {
+      if (!await enforceQuota(res, () => quotaService.assertDailyUsage(bot.userId, 'transfer'))) return;
+    }
+    
+    // Execute command against the bot's wallet
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, cmdInfo.endpoint, {
+      method: cmdInfo.method,
+      headers: { 'Content-Type': 'application/json', ...idempotencyHeaders(req) },
+      body: cmdInfo.method === 'POST' ? JSON.stringify(args) : undefined
+    });
+    
+    const result = await response.json();
+    
+    const transfer = command === 'sendFunds' && !args?.dryRun;
+    
+    if (transfer && response.ok) {
+      await quotaService.recordUsage(bot.userId, 'transfer', bot.id);
+    }
+    
+    if (transfer) {
+      await trackTransaction(bot, req.user!.id, toTransactionUpdate('send', result, response.ok));
+    }
+    
+    // Log command execution
+    await db.logCommand({
+      botId: bot.id,
+      command,
+      args,
+      result,
+      timestamp: new Date()
+    });
+    
+    res.json({ success: true, result });
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update bot configuration
+ */
+app.put('/api/bots/:botId', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const { features, platforms, config } = req.body;
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    // Store the change as a new configuration version and apply it
+    const version = await configHistory.update(bot, { features, platforms, config }, req.user!);
+    
+    res.json({ 
+      success: true, 
+      status: 'restarting',
+      configVersion: version.version,
+      message: 'Bot is restarting with new configuration' 
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * List a bot's configuration versions, newest first
+ */
+app.get('/api/bots/:botId/config/versions', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const { limit, offset } = req.query;
+    const versions = await db.getBotConfigVersions(bot.id, {
+      limit: limit ? parseInt(limit as string) : undefined,
+      offset: offset ? parseInt(offset as string) : undefined
+    });
+    
+    res.json({ versions: versions.map(toConfigVersionResponse) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get one configuration version
+ */
+app.get('/api/bots/:botId/config/versions/:version', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const version = await db.getBotConfigVersion(bot.id, parseInt(req.params.version));
+    if (!version) {
+      return res.status(404).json({ error: 'Configuration version not found' });
+    }
+    
+    res.json({ version: toConfigVersionResponse(version) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Diff two configuration versions (?from=1&to=3)
+ */
+app.get('/api/bots/:botId/config/diff', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+    if (isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ error: 'from and to must be version numbers' });
+    }
+    
+    const [fromVersion, toVersion] = await Promise.all([
+      db.getBotConfigVersion(bot.id, from),
+      db.getBotConfigVersion(bot.id, to)
+    ]);
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: 'Configuration version not found' });
+    }
+    
+    res.json({
+      from,
+      to,
+      changes: redactChanges(diffConfig(snapshotOf(fromVersion), snapshotOf(toVersion)))
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Roll the bot back to an older configuration version
+ */
+app.post('/api/bots/:botId/config/versions/:version/rollback', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const target = await db.getBotConfigVersion(bot.id, parseInt(req.params.version));
+    if (!target) {
+      return res.status(404).json({ error: 'Configuration version not found' });
+    }
+    
+    const version = await configHistory.rollback(bot, target, req.user!);
+    
+    res.json({ 
+      success: true, 
+      status: 'restarting',
+      version: toConfigVersionResponse(version),
+      message: `Bot is restarting with configuration version ${target.version}` 
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Export the bot as a passphrase-encrypted bundle for another orchestrator.
+ * The wallet seed is only included when includeSeed is set.
+ */
+app.post('/api/bots/:botId/export', authenticate, requireSession, async (req, res) => {
+  try {
+    const { passphrase, includeSeed = false } = req.body;
+    assertValidPassphrase(passphrase);
+    
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    if (bot.status === 'deploying' || bot.status === 'failed') {
+      return res.status(409).json({ error: `Cannot export a bot that is ${bot.status}` });
+    }
+    
+    const tenant = await containerManager.exportTenant(bot.tenantId, !!includeSeed);
+    const bundle = await sealBotBundle({
+      exportedAt: new Date().toISOString(),
+      source: { botId: bot.id, tenantId: bot.tenantId },
+      bot: {
+        name: bot.name,
+        description: bot.description,
+        tier: bot.tier || 'basic',
+        features: bot.features,
+        platforms: bot.platforms,
+        config: bot.config
+      },
+      walletAddress: bot.walletAddress,
+      ...tenant
+    }, passphrase);
+    
+    res.json({ bundle });
+  } catch (error: any) {
+    res.status(error instanceof BotBundleError ? 400 : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Import a bot bundle: creates the bot and deploys it with the bundled
+ * wallet seed, tokens and contracts. When the seed moves with the bundle,
+ * stop the source bot so two orchestrators don't drive the same wallet.
+ */
+app.post('/api/bots/import', authenticate, requireSession, async (req, res) => {
+  try {
+    const { bundle, passphrase, name, organizationId } = req.body;
+    const contents = await openBotBundle(bundle, passphrase);
+    
+    const organization = organizationId
+      ? { id: organizationId }
+      : await db.getDefaultOrganization(req.user!.id);
+    
+    const membership = await db.getMembership(organization.id, req.user!.id);
+    if (!roleAtLeast(membership?.role, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    if (!await enforceQuota(res, () => quotaService.assertCanCreateBot(req.user!.id, contents.bot.features))) return;
+    
+    const bot = await db.createBot({
+      userId: req.user!.id,
+      organizationId: organization.id,
+      name: name || contents.bot.name,
+      description: contents.bot.description,
+      tenantId: `import_${req.user!.id}_${Date.now()}`, // Temporary ID until deployment completes
+      walletAddress: 'deploying...',
+      elizaPort: 0,
+      features: contents.bot.features,
+      platforms: contents.bot.platforms,
+      config: contents.bot.config,
+      status: 'deploying'
+    });
+    await configHistory.recordCreated(bot, req.user!.id);
+    
+    // The job config is persisted, so the seed goes in sealed
+    const job = await deploymentQueue.enqueue(bot.id, req.user!.id, {
+      userId: req.user!.id,
+      email: req.user!.email,
+      tier: contents.bot.tier as any,
+      features: contents.bot.features,
+      platforms: contents.bot.platforms,
+      settings: contents.bot.config,
+      restore: {
+        walletSeed: contents.walletSeed ? await getSeedEncryption().encryptSeed(contents.walletSeed) : undefined,
+        tokens: contents.tokens,
+        contracts: contents.contracts
+      }
+    });
+    
+    res.status(201).json({
+      success: true,
+      bot: {
+        id: bot.id,
+        name: bot.name,
+        deploymentId: job.id,
+        status: 'deploying'
+      },
+      importedFrom: contents.source,
+      restored: {
+        walletSeed: !!contents.walletSeed,
+        tokens: contents.tokens.length,
+        contracts: !!contents.contracts
+      }
+    });
+  } catch (error: any) {
+    res.status(error instanceof BotBundleError ? 400 : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Stop bot
+ */
+app.post('/api/bots/:botId/stop', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await containerManager.stopUserBot(bot.tenantId);
+    await setBotStatus(req.params.botId, 'stopped');
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Test Discord bot token
+ */
+app.post('/api/bots/test/discord', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const { token } = req.body;
+    
+    if (!token) {
+      return res.status(400).json({ error: 'Discord token is required' });
+    }
+    
+    // Test the Discord token by fetching bot info
+    const response = await fetch('https://discord.com/api/v10/users/@me', {
+      headers: {
+        'Authorization': `Bot ${token}`,
+        'Content-Type': 'application/json'
+      }
+    });
+    
+    if (!response.ok) {
+      return res.json({ valid: false, error: 'Invalid Discord token' });
+    }
+    
+    const botInfo: any = await response.json();
+    
+    res.json({
+      valid: true,
+      username: botInfo.username,
+      discriminator: botInfo.discriminator,
+      id: botInfo.id,
+      avatar: botInfo.avatar
+    });
+  } catch (error: any) {
+    res.json({ valid: false, error: error.message });
+  }
+});
+
+/**
+ * Test Telegram bot token
+ */
+app.post('/api/bots/test/telegram', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const { token } = req.body;
+    
+    if (!token) {
+      return res.status(400).json({ error: 'Telegram token is required' });
+    }
+    
+    // Test the Telegram token by fetching bot info
+    const response = await fetch(`https://api.telegram.org/bot${token}/getMe`);
+    
+    if (!response.ok) {
+      return res.json({ valid: false, error: 'Invalid Telegram token' });
+    }
+    
+    const result: any = await response.json();
+    
+    if (!result.ok) {
+      return res.json({ valid: false, error: 'Invalid Telegram token' });
+    }
+    
+    res.json({
+      valid: true,
+      username: result.result.username,
+      firstName: result.result.first_name,
+      id: result.result.id,
+      canJoinGroups: result.result.can_join_groups,
+      canReadAllGroupMessages: result.result.can_read_all_group_messages
+    });
+  } catch (error: any) {
+    res.json({ valid: false, error: error.message });
+  }
+});
+
+/**
+ * Start bot
+ */
+app.post('/api/bots/:botId/start', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await containerManager.startUserContainer(bot.tenantId);
+    await setBotStatus(req.params.botId, 'running');
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Pause bot (stops bot container but keeps wallet running)
+ */
+app.post('/api/bots/:botId/pause', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await containerManager.pauseBotContainer(bot.tenantId);
+    await setBotStatus(req.params.botId, 'paused');
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Resume bot (restarts bot container)
+ */
+app.post('/api/bots/:botId/resume', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await containerManager.resumeBotContainer(bot.tenantId);
+    await setBotStatus(req.params.botId, 'running');
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get bot status
+ */
+app.get('/api/bots/:botId/status', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const status = await containerManager.getContainerStatus(bot.tenantId);
+    
+    res.json({ 
+      status: bot.status,
+      containers: status
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete bot
+ */
+app.delete('/api/bots/:botId', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await containerManager.deleteUserContainer(bot.tenantId);
+    await db.deleteBot(req.params.botId);
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get bot logs
+ */
+app.get('/api/bots/:botId/logs', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const logs = await containerManager.getContainerLogs(bot.tenantId);
+    
+    res.json({ logs });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============ PLATFORM CONNECTION ENDPOINTS ============
+
+/**
+ * Test Discord connection
+ */
+app.post('/api/bots/:botId/platforms/discord/test', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const { token, serverId } = req.body;
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    // Simple validation for Discord token format
+    if (!token || !token.startsWith('M') || token.length < 50) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Discord bot token format'
+      });
+    }
+    
+    // Test Discord API
+    try {
+      const response = await fetch('https://discord.com/api/v10/users/@me', {
+        headers: {
+          'Authorization': `Bot ${token}`
+        }
+      });
+      
+      if (response.ok) {
+        const botInfo: any = await response.json();
+        res.json({
+          success: true,
+          message: `Connected to Discord as ${botInfo.username}`,
+          botName: botInfo.username,
+          botId: botInfo.id
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid Discord token - unable to authenticate'
+        });
+      }
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Failed to connect to Discord API'
+      });
+    }
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Test Telegram connection
+ */
+app.post('/api/bots/:botId/platforms/telegram/test', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const { token } = req.body;
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    // Test Telegram API
+    try {
+      const response = await fetch(`https://api.telegram.org/bot${token}/getMe`);
+      
+      if (response.ok) {
+        const data: any = await response.json();
+        if (data.ok) {
+          res.json({
+            success: true,
+            message: `Connected to Telegram as ${data.result.username}`,
+            botName: data.result.username,
+            botId: data.result.id
+          });
+        } else {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid Telegram token'
+          });
+        }
+      } else {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid Telegram token - unable to authenticate'
+        });
+      }
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Failed to connect to Telegram API'
+      });
+    }
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get platform status for bot
+ */
+app.get('/api/bots/:botId/platforms/status', authenticate, requireScope('bots:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const status: any = {
+      discord: { configured: false, connected: false },
+      telegram: { configured: false, connected: false }
+    };
+    
+    // Check Discord
+    if (bot.platforms?.discord?.token) {
+      status.discord.configured = true;
+      try {
+        const response = await fetch('https://discord.com/api/v10/users/@me', {
+          headers: { 'Authorization': `Bot ${bot.platforms.discord.token}` }
+        });
+        status.discord.connected = response.ok;
+      } catch (error) {
+        status.discord.connected = false;
+      }
+    }
+    
+    // Check Telegram
+    if (bot.platforms?.telegram?.token) {
+      status.telegram.configured = true;
+      try {
+        const response = await fetch(`https://api.telegram.org/bot${bot.platforms.telegram.token}/getMe`);
+        const data: any = await response.json();
+        status.telegram.connected = data.ok === true;
+      } catch (error) {
+        status.telegram.connected = false;
+      }
+    }
+    
+    res.json({ platforms: status });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ============ MCP ACCESS ENDPOINTS ============
+
+const MCP_TOKEN_DEFAULT_TTL_HOURS = 24 * 30;
+const MCP_TOKEN_MAX_TTL_HOURS = 24 * 365;
+
+/**
+ * Issue a token for the bot's MCP endpoint, so any MCP client can drive the
+ * bot's hosted wallet. The token is only returned once and stays valid until
+ * it expires, it is revoked or the service key that signed it is pruned.
+ */
+app.post('/api/bots/:botId/mcp-token', authenticate, requireSession, async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    if (!bot.tenantId) {
+      return res.status(409).json({ error: 'Bot has no hosted wallet' });
+    }
+
+    const ttlHours = req.body?.expiresInHours === undefined ? MCP_TOKEN_DEFAULT_TTL_HOURS : Number(req.body.expiresInHours);
+    if (!Number.isFinite(ttlHours) || ttlHours <= 0 || ttlHours > MCP_TOKEN_MAX_TTL_HOURS) {
+      return res.status(400).json({ error: `expiresInHours must be between 0 and ${MCP_TOKEN_MAX_TTL_HOURS}` });
+    }
+
+    const url = `${await tenantPlacement.urlFor(bot.tenantId)}/mcp/${bot.tenantId}`;
+    const { token, tokenId, expiresAt } = getServiceCredentials().issueTenantToken(bot.tenantId, ttlHours * 60 * 60 * 1000);
+    await db.createMcpToken({ id: tokenId, botId: bot.id, tenantId: bot.tenantId, issuedBy: req.user!.id, expiresAt });
+
+    await activityLog.record({
+      userId: req.user!.id,
+      botId: bot.id,
+      type: 'mcp_token_issued',
+      title: 'MCP Token Issued',
+      description: `Issued an MCP access token for ${bot.name} valid until ${expiresAt.toISOString()}`,
+      metadata: { tokenId, expiresAt },
+      severity: 'info'
+    });
+
+    res.status(201).json({ url, sseUrl: `${url}/sse`, token, tokenId, expiresAt });
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * List the tokens issued for the bot's MCP endpoint (without the tokens themselves)
+ */
+app.get('/api/bots/:botId/mcp-tokens', authenticate, requireSession, async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const tokens = await db.getBotMcpTokens(bot.id);
+    res.json({ tokens });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Revoke a token of the bot's MCP endpoint. The MCP service refuses it from
+ * then on and ends the sessions opened with it; revoking again re-sends the
+ * revocation if the MCP service couldn't be reached the first time.
+ */
+app.delete('/api/bots/:botId/mcp-tokens/:tokenId', authenticate, requireSession, async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const token = await db.revokeMcpToken(bot.id, req.params.tokenId);
+    if (!token) {
+      return res.status(404).json({ error: 'MCP token not found' });
+    }
+
+    // Expired tokens are refused anyway
+    if (token.expiresAt > new Date()) {
+      const response = await tenantPlacement.fetch(token.tenantId, `/api/tenants/${token.tenantId}/mcp-tokens/revoked`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Tenant-ID': token.tenantId },
+        body: JSON.stringify({ tokenId: token.id, expiresAt: token.expiresAt })
+      });
+      if (!response.ok) {
+        return res.status(502).json({ error: `MCP service did not confirm the revocation (${response.status}); revoke again` });
+      }
+    }
+
+    await activityLog.record({
+      userId: req.user!.id,
+      botId: bot.id,
+      type: 'mcp_token_revoked',
+      title: 'MCP Token Revoked',
+      description: `Revoked an MCP access token for ${bot.name}`,
+      metadata: { tokenId: token.id },
+      severity: 'info'
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+// ============ TOKEN MANAGEMENT ENDPOINTS ============
+
+/**
+ * Register a new token for a bot
+ */
+app.post('/api/bots/:botId/tokens/register', authenticate, requireScope('bots:write'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'tokens'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/wallet/tokens/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(req.body)
+    });
+    
+    const result = await response.json();
+    res.json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get token balance
+ */
+app.get('/api/bots/:botId/tokens/:tokenName/balance', authenticate, requireScope('wallet:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'tokens'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, `/wallet/tokens/balance/${req.params.tokenName}`);
+    const result = await response.json();
+    res.json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Send tokens
+ */
+app.post('/api/bots/:botId/tokens/send', authenticate, requireScope('wallet:send'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'tokens'))) return;
+    if (!await enforceQuota(res, () => quotaService.assertDailyUsage(bot.userId, 'transfer'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/wallet/tokens/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...idempotencyHeaders(req) },
+      body: JSON.stringify(req.body)
+    });
+    
+    const result = await response.json();
+    
+    // A dry run only returns a preview; nothing was sent
+    if (req.body.dryRun) {
+      return res.json(result);
+    }
+    
+    if (response.ok) {
+      await quotaService.recordUsage(bot.userId, 'transfer', bot.id);
+    }
+    
+    await trackTransaction(bot, req.user!.id, toTransactionUpdate('token_send', result, response.ok));
+    
+    res.json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * List all wallet tokens
+ */
+app.get('/api/bots/:botId/tokens/list', authenticate, requireScope('wallet:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'tokens'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/wallet/tokens/list');
+    const result = await response.json();
+    res.json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+// ============ ADDRESS BOOK ENDPOINTS ============
+
+/**
+ * Forward an address book request to the bot's tenant on the MCP service
+ */
+async function forwardContactsRequest(bot: any, res: any, method: string, path = '', body?: any) {
+  const response = await tenantPlacement.fetch(bot.tenantId, `/api/tenants/${bot.tenantId}/contacts${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-Tenant-ID': bot.tenantId },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  res.status(response.status).json(await response.json());
+}
+
+/**
+ * List the bot's contacts, optionally filtered by ?tag=
+ */
+app.get('/api/bots/:botId/contacts', authenticate, requireScope('wallet:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const tag = typeof req.query.tag === 'string' ? `?tag=${encodeURIComponent(req.query.tag)}` : '';
+    await forwardContactsRequest(bot, res, 'GET', tag);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get a contact
+ */
+app.get('/api/bots/:botId/contacts/:contactId', authenticate, requireScope('wallet:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardContactsRequest(bot, res, 'GET', `/${req.params.contactId}`);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Add a contact (label, address, notes, tags, trusted)
+ */
+app.post('/api/bots/:botId/contacts', authenticate, requireScope('wallet:send'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardContactsRequest(bot, res, 'POST', '', req.body);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update a contact
+ */
+app.put('/api/bots/:botId/contacts/:contactId', authenticate, requireScope('wallet:send'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardContactsRequest(bot, res, 'PUT', `/${req.params.contactId}`, req.body);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Remove a contact
+ */
+app.delete('/api/bots/:botId/contacts/:contactId', authenticate, requireScope('wallet:send'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardContactsRequest(bot, res, 'DELETE', `/${req.params.contactId}`);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+// ============ SCHEDULED PAYMENT ENDPOINTS ============
+
+/**
+ * Forward a scheduled payment request to the bot's tenant on the MCP service
+ */
+async function forwardSchedulesRequest(bot: any, res: any, method: string, path = '', body?: any) {
+  const response = await tenantPlacement.fetch(bot.tenantId, `/api/wallet/${bot.tenantId}/schedules${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-Tenant-ID': bot.tenantId },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  res.status(response.status).json(await response.json());
+}
+
+/**
+ * List the bot's scheduled and recurring payments
+ */
+app.get('/api/bots/:botId/schedules', authenticate, requireScope('wallet:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardSchedulesRequest(bot, res, 'GET');
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get a scheduled payment with its most recent runs
+ */
+app.get('/api/bots/:botId/schedules/:scheduleId', authenticate, requireScope('wallet:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardSchedulesRequest(bot, res, 'GET', `/${req.params.scheduleId}`);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Schedule a payment (toAddress, amount, token, and runAt or cron, endAt, maxRuns)
+ */
+app.post('/api/bots/:botId/schedules', authenticate, requireScope('wallet:send'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardSchedulesRequest(bot, res, 'POST', '', req.body);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Pause a scheduled payment
+ */
+app.post('/api/bots/:botId/schedules/:scheduleId/pause', authenticate, requireScope('wallet:send'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    await forwardSchedulesRequest(bot, res, 'POST', `/${req.params.scheduleId}/pause`);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
- * Get platform status for bot
+ * Resume a paused scheduled payment
  */
-app.get('/api/bots/:botId/platforms/status', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/schedules/:scheduleId/resume', authenticate, requireScope('wallet:send'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const status: any = {
-      discord: { configured: false, connected: false },
-      telegram: { configured: false, connected: false }
-    };
-    
-    // Check Discord
-    if (bot.platforms?.discord?.token) {
-      status.discord.configured = true;
-      try {
-        const response = await fetch('https://discord.com/api/v10/users/@me', {
-          headers: { 'Authorization': `Bot ${bot.platforms.discord.token}` }
-        });
-        status.discord.connected = response.ok;
-      } catch (error) {
-        status.discord.connected = false;
-      }
-    }
-    
-    // Check Telegram
-    if (bot.platforms?.telegram?.token) {
-      status.telegram.configured = true;
-      try {
-        const response = await fetch(`https://api.telegram.org/bot${bot.platforms.telegram.token}/getMe`);
-        const data: any = await response.json();
-        status.telegram.connected = data.ok === true;
-      } catch (error) {
-        status.telegram.connected = false;
-      }
+    await forwardSchedulesRequest(bot, res, 'POST', `/${req.params.scheduleId}/resume`);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Cancel a scheduled payment
+ */
+app.delete('/api/bots/:botId/schedules/:scheduleId', authenticate, requireScope('wallet:send'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
+      return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    res.json({ platforms: status });
+    await forwardSchedulesRequest(bot, res, 'DELETE', `/${req.params.scheduleId}`);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
-// ============ TOKEN MANAGEMENT ENDPOINTS ============
+// ============ TRANSACTION HISTORY ENDPOINTS ============
 
 /**
- * Register a new token for a bot
+ * Fetch the bot's transaction history from its tenant on the MCP service,
+ * passing the history filters through from the query string
+ */
+async function fetchTransactionHistory(bot: any, query: Record<string, unknown>, path = '') {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (typeof value === 'string') params.set(name, value);
+  }
+  return tenantPlacement.fetch(bot.tenantId, `/api/wallet/${bot.tenantId}/transactions${path}?${params}`, {
+    headers: { 'X-Tenant-ID': bot.tenantId }
+  });
+}
+
+/**
+ * Page through the bot's transaction history
+ * Filters: startDate, endDate, type, state, token, counterparty; paging: limit, offset
  */
-app.post('/api/bots/:botId/tokens/register', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/transactions', authenticate, requireScope('wallet:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/wallet/tokens/register`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(req.body)
-    });
-    
-    const result = await response.json();
-    res.json(result);
+    const response = await fetchTransactionHistory(bot, req.query);
+    res.status(response.status).json(await response.json());
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
- * Get token balance
+ * Download the bot's transaction history as ?format=csv or json for reconciliation
  */
-app.get('/api/bots/:botId/tokens/:tokenName/balance', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/transactions/export', authenticate, requireScope('wallet:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/wallet/tokens/balance/${req.params.tokenName}`);
-    const result = await response.json();
-    res.json(result);
+    const response = await fetchTransactionHistory(bot, req.query, '/export');
+    for (const header of ['Content-Type', 'Content-Disposition']) {
+      const value = response.headers.get(header);
+      if (value) res.setHeader(header, value);
+    }
+    res.status(response.status).send(await response.text());
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
+// ============ TRANSFER APPROVAL ENDPOINTS ============
+
 /**
- * Send tokens
+ * List transfers parked because they exceed the bot's approval threshold
  */
-app.post('/api/bots/:botId/tokens/send', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/approvals', authenticate, requireScope('wallet:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/wallet/tokens/send`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(req.body)
-    });
+    const result = await transferApprovals.list(bot);
+    res.status(result.status).json(result.data);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Approve a parked transfer (bot owners only, from a user session)
+ */
+app.post('/api/bots/:botId/approvals/:transactionId/approve', authenticate, requireSession, async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
     
-    const result = await response.json();
-    res.json(result);
+    const result = await transferApprovals.approve(bot, req.params.transactionId, req.user!);
+    res.status(result.status).json(result.data);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
- * List all wallet tokens
+ * Reject a parked transfer (bot owners only, from a user session)
  */
-app.get('/api/bots/:botId/tokens/list', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/approvals/:transactionId/reject', authenticate, requireSession, async (req, res) => {
   try {
+    const { reason } = req.body;
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/wallet/tokens/list`);
-    const result = await response.json();
-    res.json(result);
+    const result = await transferApprovals.reject(bot, req.params.transactionId, req.user!, reason);
+    res.status(result.status).json(result.data);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
@@ -933,14 +2261,16 @@ app.get('/api/bots/:botId/tokens/list', authenticate, async (req, res) => {
 /**
  * Open DAO election
  */
-app.post('/api/bots/:botId/dao/open-election', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/dao/open-election', authenticate, requireScope('dao:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/dao/open-election`, {
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'dao'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/dao/open-election', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(req.body)
@@ -949,48 +2279,65 @@ app.post('/api/bots/:botId/dao/open-election', authenticate, async (req, res) =>
     const result = await response.json();
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Cast DAO vote
  */
-app.post('/api/bots/:botId/dao/cast-vote', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/dao/cast-vote', authenticate, requireScope('dao:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/dao/cast-vote`, {
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'dao'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/dao/cast-vote', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(req.body)
     });
     
-    const result = await response.json();
+    const result: any = await response.json();
+    
+    if (response.ok && result.success !== false) {
+      await activityLog.record({
+        userId: req.user!.id,
+        botId: bot.id,
+        type: 'vote_cast',
+        title: 'Vote cast',
+        description: `Voted on the open DAO election for ${bot.name}`,
+        metadata: req.body,
+        severity: 'info'
+      });
+    }
+    
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Get DAO state
  */
-app.get('/api/bots/:botId/dao/state', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/dao/state', authenticate, requireScope('treasury:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/dao/state`);
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'dao'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/dao/state');
     const result = await response.json();
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
@@ -999,14 +2346,16 @@ app.get('/api/bots/:botId/dao/state', authenticate, async (req, res) => {
 /**
  * Deploy DAO Treasury contracts to blockchain
  */
-app.post('/api/bots/:botId/treasury/deploy', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/treasury/deploy', authenticate, requireScope('treasury:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/treasury/deploy`, {
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'treasury'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/deploy', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(req.body)
@@ -1021,93 +2370,238 @@ app.post('/api/bots/:botId/treasury/deploy', authenticate, async (req, res) => {
         daoContracts: typedResult.contracts,
         treasuryAddress: typedResult.treasuryAddress
       });
+      await activityLog.record({
+        userId: req.user!.id,
+        botId: bot.id,
+        type: 'treasury_deployed',
+        title: 'Treasury deployed',
+        description: `DAO treasury contracts deployed for ${bot.name}`,
+        metadata: { contracts: typedResult.contracts, treasuryAddress: typedResult.treasuryAddress },
+        severity: 'success'
+      });
     }
     
     res.json(typedResult);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Create treasury proposal
  */
-app.post('/api/bots/:botId/treasury/proposals', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/treasury/proposals', authenticate, requireScope('treasury:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/treasury/create-proposal`, {
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'treasury'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/create-proposal', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(req.body)
     });
     
-    const result = await response.json();
+    const result: any = await response.json();
+    
+    if (response.ok && result.success !== false) {
+      await activityLog.record({
+        userId: req.user!.id,
+        botId: bot.id,
+        type: 'proposal_created',
+        title: 'Proposal created',
+        description: `New treasury proposal for ${bot.name}`,
+        metadata: { ...req.body, proposalId: result.proposalId },
+        severity: 'info'
+      });
+    }
+    
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Get treasury proposals
  */
-app.get('/api/bots/:botId/treasury/proposals', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/treasury/proposals', authenticate, requireScope('treasury:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/treasury/proposals`);
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'treasury'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/proposals');
     const result = await response.json();
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Fund DAO treasury
  */
-app.post('/api/bots/:botId/treasury/fund', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/treasury/fund', authenticate, requireScope('treasury:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/dao/fund-treasury`, {
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'treasury'))) return;
+    if (!await enforceQuota(res, () => quotaService.assertDailyUsage(bot.userId, 'transfer'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/dao/fund-treasury', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(req.body)
     });
     
     const result = await response.json();
+    
+    if (response.ok) {
+      await quotaService.recordUsage(bot.userId, 'transfer', bot.id);
+    }
+    
+    await trackTransaction(bot, req.user!.id, toTransactionUpdate('treasury_fund', result, response.ok));
+    
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Get treasury analytics
  */
-app.get('/api/bots/:botId/treasury/analytics', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/treasury/analytics', authenticate, requireScope('treasury:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/treasury/analytics`);
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'treasury'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/analytics');
     const result = await response.json();
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get the co-signer quorum required for treasury payouts
+ */
+app.get('/api/bots/:botId/treasury/payout-quorum', authenticate, requireScope('treasury:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/payout-quorum');
+    const result = await response.json();
+    res.status(response.status).json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Designate the co-signers and how many must sign each payout
+ */
+app.put('/api/bots/:botId/treasury/payout-quorum', authenticate, requireSession, async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
+      return res.status(403).json({ error: 'Only the bot owner can change the payout quorum' });
+    }
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/payout-quorum', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(req.body)
+    });
+    const result = await response.json();
+    res.status(response.status).json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get the co-signer signatures collected for a proposal's payout
+ */
+app.get('/api/bots/:botId/treasury/proposals/:proposalId/signatures', authenticate, requireScope('treasury:read'), async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, `/treasury/proposals/${req.params.proposalId}/signatures`);
+    const result = await response.json();
+    res.status(response.status).json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Sign off a proposal's payout as a co-signer. The signature covers the
+ * proposal id and amount and is made with the co-signer's own key.
+ */
+app.post('/api/bots/:botId/treasury/proposals/:proposalId/signatures', authenticate, requireSession, async (req, res) => {
+  try {
+    const bot = await db.getBot(req.params.botId);
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+    
+    const { signature } = req.body;
+    if (!signature) {
+      return res.status(400).json({ error: 'signature is required' });
+    }
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, `/treasury/proposals/${req.params.proposalId}/signatures`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ signerId: req.user!.id, signature })
+    });
+    const result: any = await response.json();
+    
+    if (response.ok) {
+      const { status } = result;
+      await activityLog.record({
+        userId: bot.userId,
+        botId: bot.id,
+        type: 'payout_signed',
+        title: 'Payout signed',
+        description: `${req.user!.email} signed the payout of proposal ${req.params.proposalId} (${status.signatures.length}/${status.threshold})`,
+        metadata: {
+          proposalId: req.params.proposalId,
+          amount: status.amount,
+          signerId: req.user!.id,
+          signature,
+          collected: status.signatures.length,
+          threshold: status.threshold
+        },
+        severity: status.satisfied ? 'success' : 'info'
+      });
+    }
+    
+    res.status(response.status).json(result);
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
@@ -1201,14 +2695,16 @@ app.post('/api/bots/test/telegram', async (req, res) => {
 /**
  * Register bot in marketplace
  */
-app.post('/api/bots/:botId/marketplace/register', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/marketplace/register', authenticate, requireScope('bots:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/marketplace/register`, {
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'marketplace'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/marketplace/register', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -1223,21 +2719,23 @@ app.post('/api/bots/:botId/marketplace/register', authenticate, async (req, res)
     const result = await response.json();
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Verify bot in marketplace
  */
-app.post('/api/bots/:botId/marketplace/verify', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/marketplace/verify', authenticate, requireScope('bots:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    const response = await fetch(`http://localhost:${bot.walletPort}/marketplace/verify`, {
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'marketplace'))) return;
+    
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/marketplace/verify', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(req.body)
@@ -1246,7 +2744,7 @@ app.post('/api/bots/:botId/marketplace/verify', authenticate, async (req, res) =
     const result = await response.json();
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
@@ -1255,15 +2753,15 @@ app.post('/api/bots/:botId/marketplace/verify', authenticate, async (req, res) =
 /**
  * Join existing DAO
  */
-app.post('/api/bots/:botId/contracts/join-dao', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/contracts/join-dao', authenticate, requireScope('treasury:write'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'owner')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
     // This would use MCP tools to join existing DAO
-    const response = await fetch(`http://localhost:${bot.walletPort}/contracts/join`, {
+    const response = await tenantPlacement.fetchWallet(bot.tenantId, '/contracts/join', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(req.body)
@@ -1272,17 +2770,17 @@ app.post('/api/bots/:botId/contracts/join-dao', authenticate, async (req, res) =
     const result = await response.json();
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
   }
 });
 
 /**
  * Get deployed contracts
  */
-app.get('/api/bots/:botId/contracts/deployed', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/contracts/deployed', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
@@ -1301,14 +2799,17 @@ app.get('/api/bots/:botId/contracts/deployed', authenticate, async (req, res) =>
 /**
  * Web Chat - Send message to bot (for web interface)
  */
-app.post('/api/bots/:botId/chat', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/chat', authenticate, requireScope('chat:write'), async (req, res) => {
   try {
     const { message, sessionId } = req.body;
     const bot = await db.getBot(req.params.botId);
     
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
+    
+    if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'webchat'))) return;
+    if (!await enforceQuota(res, () => quotaService.assertDailyUsage(bot.userId, 'chat_message'))) return;
 
     // Check if bot has web chat enabled
     if (!bot.platforms?.webChat?.enabled) {
@@ -1317,13 +2818,15 @@ app.post('/api/bots/:botId/chat', authenticate, async (req, res) => {
       });
     }
 
+    await quotaService.recordUsage(bot.userId, 'chat_message', bot.id);
+
     // Forward message to the shared Eliza service using tenant ID
     const sharedElizaUrl = process.env.SHARED_ELIZA_URL || 'http://localhost:3004';
     const tenantId = bot.tenantId; // Use the bot's tenant ID for routing
     const elizaUrl = `${sharedElizaUrl}/tenants/${tenantId}/chat`;
 
     try {
-      const response = await fetch(elizaUrl, {
+      const response = await getServiceCredentials().fetch(elizaUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -1357,10 +2860,8 @@ app.post('/api/bots/:botId/chat', authenticate, async (req, res) => {
       });
     } catch (error) {
       // If Eliza is not running, try to process through MCP directly
-      const mcpUrl = `http://localhost:${bot.walletPort}/agent/chat`;
-      
       try {
-        const mcpResponse = await fetch(mcpUrl, {
+        const mcpResponse = await tenantPlacement.fetchWallet(bot.tenantId, '/agent/chat', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -1395,11 +2896,11 @@ app.post('/api/bots/:botId/chat', authenticate, async (req, res) => {
 /**
  * Get chat history for a bot
  */
-app.get('/api/bots/:botId/chat/history', authenticate, async (req, res) => {
+app.get('/api/bots/:botId/chat/history', authenticate, requireScope('bots:read'), async (req, res) => {
   try {
     const bot = await db.getBot(req.params.botId);
     
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'viewer')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
 
@@ -1425,14 +2926,18 @@ app.get('/api/bots/:botId/chat/history', authenticate, async (req, res) => {
 /**
  * Enable/disable web chat for a bot
  */
-app.post('/api/bots/:botId/platforms/webchat/toggle', authenticate, async (req, res) => {
+app.post('/api/bots/:botId/platforms/webchat/toggle', authenticate, requireScope('bots:write'), async (req, res) => {
   try {
     const { enabled } = req.body;
     const bot = await db.getBot(req.params.botId);
     
-    if (bot.userId !== req.user!.id) {
+    if (!await authService.hasBotRole(req.user!.id, bot, 'operator')) {
       return res.status(403).json({ error: 'Unauthorized' });
     }
+    
+    if (enabled) {
+      if (!await enforceQuota(res, () => quotaService.assertFeature(bot.userId, 'webchat'))) return;
+    }
 
     // Update bot platforms configuration
     const platforms = bot.platforms || {};
@@ -1460,7 +2965,7 @@ app.post('/api/bots/:botId/platforms/webchat/toggle', authenticate, async (req,
 /**
  * Get admin wallet info (address, balance, etc.)
  */
-app.get('/api/admin/wallet', authenticate, async (req, res) => {
+app.get('/api/admin/wallet', authenticate, requireSession, async (req, res) => {
   try {
     // Check if user is admin (you may want to add proper admin role checking)
     if (req.user?.email !== process.env.ADMIN_EMAIL) {
@@ -1487,7 +2992,7 @@ app.get('/api/admin/wallet', authenticate, async (req, res) => {
 /**
  * Initialize admin wallet
  */
-app.post('/api/admin/wallet/initialize', authenticate, async (req, res) => {
+app.post('/api/admin/wallet/initialize', authenticate, requireSession, async (req, res) => {
   try {
     // Check if user is admin
     if (req.user?.email !== process.env.ADMIN_EMAIL) {
@@ -1510,7 +3015,7 @@ app.post('/api/admin/wallet/initialize', authenticate, async (req, res) => {
 /**
  * Fund a user wallet manually
  */
-app.post('/api/admin/wallet/fund', authenticate, async (req, res) => {
+app.post('/api/admin/wallet/fund', authenticate, requireSession, async (req, res) => {
   try {
     // Check if user is admin
     if (req.user?.email !== process.env.ADMIN_EMAIL) {
@@ -1534,6 +3039,97 @@ app.post('/api/admin/wallet/fund', authenticate, async (req, res) => {
   }
 });
 
+/**
+ * MCP Instance Management Endpoints
+ */
+
+/**
+ * List MCP instances with their health and the number of tenants placed on each
+ */
+app.get('/api/admin/mcp-instances', authenticate, requireSession, async (req, res) => {
+  try {
+    if (req.user?.email !== process.env.ADMIN_EMAIL) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    res.json({ instances: await tenantPlacement.listInstances() });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Register an MCP instance new tenants can be placed on
+ */
+app.post('/api/admin/mcp-instances', authenticate, requireSession, async (req, res) => {
+  try {
+    if (req.user?.email !== process.env.ADMIN_EMAIL) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const { id, url, capacity } = req.body;
+    const instance = await tenantPlacement.registerInstance({ id, url, capacity });
+    await tenantPlacement.checkHealth();
+    res.status(201).json({ instance });
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Change an MCP instance's capacity, or set its status back to active after a drain
+ */
+app.patch('/api/admin/mcp-instances/:instanceId', authenticate, requireSession, async (req, res) => {
+  try {
+    if (req.user?.email !== process.env.ADMIN_EMAIL) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const { capacity, status } = req.body;
+    const instance = await tenantPlacement.updateInstance(req.params.instanceId, { capacity, status });
+    res.json({ instance });
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Stop placing tenants on an MCP instance and move its tenants to the other instances
+ */
+app.post('/api/admin/mcp-instances/:instanceId/drain', authenticate, requireSession, async (req, res) => {
+  try {
+    if (req.user?.email !== process.env.ADMIN_EMAIL) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const result = await tenantPlacement.drain(req.params.instanceId);
+    res.json({ success: result.failed.length === 0, ...result });
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+/**
+ * Move a tenant's wallet to another MCP instance
+ */
+app.post('/api/admin/tenants/:tenantId/migrate', authenticate, requireSession, async (req, res) => {
+  try {
+    if (req.user?.email !== process.env.ADMIN_EMAIL) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const { instanceId } = req.body;
+    if (!instanceId) {
+      return res.status(400).json({ error: 'instanceId is required' });
+    }
+
+    const result = await tenantPlacement.migrate(req.params.tenantId, instanceId);
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
 /**
  * Health check endpoint
  */
@@ -1543,7 +3139,7 @@ app.get('/health', (req, res) => {
 
 // Environment variable validation
 function validateEnvironment(): void {
-  const required = ['DATABASE_URL', 'JWT_SECRET'];
+  const required = ['DATABASE_URL', 'JWT_SECRET', 'SEED_MASTER_KEY_FILE'];
   const missing = required.filter(key => !process.env[key]);
   if (missing.length > 0) {
     console.error(`Missing required environment variables: ${missing.join(', ')}`);
@@ -1612,6 +3208,10 @@ async function start() {
     // Validate environment
     validateEnvironment();
     
+    // Seeds are sealed with the shared key ring; refuse to start without it
+    console.log(`🔐 Seed master key: ${await getSeedEncryption().activeKeyId()}`);
+    console.log(`🔐 Service signing key: ${getServiceCredentials().activeKeyId()}`);
+    
     // Initialize database
     console.log('📦 Initializing database...');
     await db.initialize();
@@ -1624,6 +3224,14 @@ async function start() {
     console.log('📋 Loading existing containers...');
     await containerManager.loadActiveContainers();
     
+    // Resume deployments interrupted by a restart
+    const resumed = await deploymentQueue.resume();
+    console.log(`🔁 Resumed ${resumed} deployment job(s)`);
+    const pendingDeliveries = await webhooks.resume();
+    console.log(`🔁 Resumed ${pendingDeliveries} webhook delivery(ies)`);
+    await tenantPlacement.start();
+    transferApprovals.start();
+    
     // Initialize admin wallet
     console.log('💰 Initializing admin wallet...');
     await adminWallet.initialize();
@@ -0,0 +1,197 @@
+import { DatabaseService } from './database';
+import { ActivityLog } from './activities';
+import { TransactionWatcher } from './transactionWatcher';
+import { TenantPlacementService } from './tenantPlacement';
+import { getServiceCredentials } from './serviceAuth';
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.APPROVAL_SWEEP_INTERVAL_MS || '15000');
+
+export interface McpResponse {
+  ok: boolean;
+  status: number;
+  data: any;
+}
+
+/**
+ * Transfers the MCP service parked because they exceed a bot's approval
+ * threshold.
+ *
+ * The MCP keeps the queue; the orchestrator lets bot owners act on it and
+ * sweeps it periodically so every parked transfer produces one activity for
+ * the bot owner, whether the transfer came from the API or from the agent.
+ */
+export class TransferApprovals {
+  private db: DatabaseService;
+  private activities: ActivityLog;
+  private transactionWatcher: TransactionWatcher;
+  private placement: TenantPlacementService;
+  private notified = new Set<string>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    db: DatabaseService,
+    activities: ActivityLog,
+    transactionWatcher: TransactionWatcher,
+    placement: TenantPlacementService
+  ) {
+    this.db = db;
+    this.activities = activities;
+    this.transactionWatcher = transactionWatcher;
+    this.placement = placement;
+  }
+
+  /**
+   * Start sweeping the MCP approval queue
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Transfers of a bot that are waiting for approval
+   */
+  async list(bot: { tenantId: string }): Promise<McpResponse> {
+    return await this.request('GET', `/api/wallet/${bot.tenantId}/approvals`, bot.tenantId);
+  }
+
+  /**
+   * Approve a parked transfer; the MCP sends it in the background
+   */
+  async approve(bot: any, transactionId: string, user: { id: string; email: string }): Promise<McpResponse> {
+    const result = await this.request('POST', `/api/wallet/${bot.tenantId}/approvals/${transactionId}/approve`, bot.tenantId, {
+      approvedBy: user.email
+    });
+    if (!result.ok) return result;
+
+    const transaction = result.data.transaction;
+    this.transactionWatcher.watch(bot, {
+      id: transaction.id,
+      kind: transaction.metadata?.token && transaction.metadata.token !== 'native' ? 'token_send' : 'send',
+      state: transaction.state,
+      amount: transaction.amount,
+      toAddress: transaction.toAddress
+    });
+
+    await this.activities.record({
+      userId: user.id,
+      botId: bot.id,
+      type: 'transfer_approved',
+      title: 'Transfer approved',
+      description: `Approved sending ${transaction.amount} to ${transaction.toAddress}`,
+      metadata: { transactionId: transaction.id, amount: transaction.amount, toAddress: transaction.toAddress },
+      severity: 'success'
+    });
+
+    return result;
+  }
+
+  /**
+   * Reject a parked transfer; nothing is sent
+   */
+  async reject(bot: any, transactionId: string, user: { id: string; email: string }, reason?: string): Promise<McpResponse> {
+    const result = await this.request('POST', `/api/wallet/${bot.tenantId}/approvals/${transactionId}/reject`, bot.tenantId, {
+      rejectedBy: user.email,
+      reason
+    });
+    if (!result.ok) return result;
+
+    const transaction = result.data.transaction;
+    await this.activities.record({
+      userId: user.id,
+      botId: bot.id,
+      type: 'transfer_rejected',
+      title: 'Transfer rejected',
+      description: `Rejected sending ${transaction.amount} to ${transaction.toAddress}${reason ? `: ${reason}` : ''}`,
+      metadata: { transactionId: transaction.id, amount: transaction.amount, toAddress: transaction.toAddress, reason },
+      severity: 'warning'
+    });
+
+    return result;
+  }
+
+  /**
+   * Notify bot owners about transfers parked since the last sweep
+   */
+  async sweep(): Promise<number> {
+    let notified = 0;
+
+    try {
+      const pending = new Set<string>();
+      const tenants: any[] = [];
+
+      // Every instance reports the tenants it holds
+      for (const url of await this.placement.instanceUrls()) {
+        try {
+          const result = await this.request('GET', '/api/tenants/approvals', undefined, undefined, url);
+          if (result.ok) tenants.push(...(result.data.tenants || []));
+        } catch (error) {
+          console.error(`Failed to read pending transfer approvals from ${url}:`, error);
+        }
+      }
+
+      for (const { tenantId, transfers } of tenants) {
+        const bot = await this.db.getBotByTenantId(tenantId);
+        if (!bot) continue;
+
+        for (const transfer of transfers) {
+          pending.add(transfer.id);
+          if (this.notified.has(transfer.id)) continue;
+
+          // Survive restarts without notifying twice
+          if (!await this.db.hasActivityForTransaction('transfer_pending_approval', transfer.id)) {
+            await this.notifyOwner(bot, transfer);
+            notified++;
+          }
+        }
+      }
+
+      // Only remember transfers that are still parked
+      this.notified = pending;
+    } catch (error) {
+      console.error('Failed to sweep pending transfer approvals:', error);
+    }
+
+    return notified;
+  }
+
+  private async notifyOwner(bot: any, transfer: any): Promise<void> {
+    const token = transfer.metadata?.token && transfer.metadata.token !== 'native' ? transfer.metadata.token : 'tDUST';
+
+    await this.activities.record({
+      userId: bot.userId,
+      botId: bot.id,
+      type: 'transfer_pending_approval',
+      title: 'Transfer awaiting approval',
+      description: `${bot.name} wants to send ${transfer.amount} ${token} to ${transfer.toAddress}, above the approval threshold of ${transfer.metadata?.approvalThreshold} ${token}`,
+      metadata: {
+        transactionId: transfer.id,
+        token,
+        amount: transfer.amount,
+        toAddress: transfer.toAddress,
+        approvalThreshold: transfer.metadata?.approvalThreshold
+      },
+      severity: 'warning'
+    });
+  }
+
+  private async request(method: string, path: string, tenantId?: string, body?: any, baseUrl?: string): Promise<McpResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (tenantId) headers['X-Tenant-ID'] = tenantId;
+
+    const url = baseUrl || await this.placement.urlFor(tenantId!);
+    const response = await getServiceCredentials().fetch(`${url}${path}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    return { ok: response.ok, status: response.status, data: await response.json() };
+  }
+}
@@ -3,7 +3,60 @@ import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import { DatabaseService } from './database';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'midnight-os-secret-key-change-in-production';
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Read JWT secret at call time (dotenv is loaded after imports)
+ */
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * Scopes that can be granted to an API key.
+ * JWT sessions are not scoped and may call every endpoint.
+ */
+export const API_KEY_SCOPES = [
+  'bots:read',
+  'bots:write',
+  'bots:execute',
+  'wallet:read',
+  'wallet:send',
+  'dao:write',
+  'treasury:read',
+  'treasury:write',
+  'chat:write',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface AuthenticatedPrincipal {
+  id: string;
+  email: string;
+  scopes?: string[];
+  apiKeyId?: string;
+  sessionId?: string;
+}
+
+/**
+ * Organization roles, from least to most privileged.
+ * viewer: read-only; operator: run bots and move funds; owner: manage bots and members.
+ */
+export const ORG_ROLES = ['viewer', 'operator', 'owner'] as const;
+
+export type OrgRole = typeof ORG_ROLES[number];
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
 
 export interface User {
   id: string;
@@ -34,22 +87,31 @@ export class AuthService {
   }
 
   /**
-   * Generate JWT token for user
+   * Generate short-lived JWT access token bound to a session
    */
-  generateToken(userId: string): string {
+  generateToken(userId: string, sessionId: string): string {
     return jwt.sign(
-      { userId, iat: Date.now() },
-      JWT_SECRET,
-      { expiresIn: '7d' }
+      { userId, sid: sessionId },
+      getJwtSecret(),
+      { expiresIn: ACCESS_TOKEN_TTL } as jwt.SignOptions
     );
   }
 
   /**
-   * Verify JWT token
+   * Verify JWT access token and check its session has not been revoked
    */
-  async verifyToken(token: string): Promise<{ id: string; email: string }> {
+  async verifyToken(token: string): Promise<AuthenticatedPrincipal> {
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
+      const decoded = jwt.verify(token, getJwtSecret()) as any;
+      
+      if (!decoded.sid) {
+        throw new Error('Token has no session');
+      }
+      
+      const session = await this.db.getSession(decoded.sid);
+      if (!session || session.revokedAt || session.userId !== decoded.userId) {
+        throw new Error('Session revoked');
+      }
       
       // Fetch user from database
       const user = await this.db.getUser(decoded.userId);
@@ -57,16 +119,264 @@ export class AuthService {
         throw new Error('User not found');
       }
       
-      return { id: user.id, email: user.email };
+      return { id: user.id, email: user.email, sessionId: session.id };
     } catch (error) {
       throw new Error('Invalid token');
     }
   }
 
+  /**
+   * Start a new session and issue an access/refresh token pair
+   */
+  async createSession(userId: string, context?: { userAgent?: string; ipAddress?: string }): Promise<AuthTokens> {
+    const refreshToken = this.generateRefreshToken();
+    const session = await this.db.createSession({
+      userId,
+      refreshTokenHash: this.hashToken(refreshToken),
+      expiresAt: this.refreshTokenExpiry(),
+      userAgent: context?.userAgent,
+      ipAddress: context?.ipAddress
+    });
+
+    return {
+      token: this.generateToken(userId, session.id),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The refresh token is
+   * rotated; presenting an already rotated token revokes the whole session.
+   */
+  async refreshSession(refreshToken: string): Promise<AuthTokens> {
+    const found = await this.db.findSessionByRefreshHash(this.hashToken(refreshToken));
+    if (!found) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const { session, reused } = found;
+    if (reused) {
+      await this.db.revokeSession(session.id);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    if (session.revokedAt || session.expiresAt.getTime() < Date.now()) {
+      throw new Error('Session expired');
+    }
+
+    const nextRefreshToken = this.generateRefreshToken();
+    const rotated = await this.db.rotateSessionToken(
+      session.id,
+      session.refreshTokenHash,
+      this.hashToken(nextRefreshToken),
+      this.refreshTokenExpiry()
+    );
+    if (!rotated) {
+      // Another refresh with the same token got there first; its new token stays valid
+      throw new Error('Refresh token already used');
+    }
+
+    return {
+      token: this.generateToken(session.userId, session.id),
+      refreshToken: nextRefreshToken,
+      expiresIn: ACCESS_TOKEN_TTL
+    };
+  }
+
+  /**
+   * Revoke a single session (logout)
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.db.revokeSession(sessionId);
+  }
+
+  /**
+   * Revoke every session of a user (sign out all devices)
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    return this.db.revokeUserSessions(userId);
+  }
+
+  /**
+   * Resolve a user's role on a bot through its organization.
+   * Bots created before organizations existed belong to their creator.
+   */
+  async getBotRole(userId: string, bot: any): Promise<OrgRole | null> {
+    if (!bot) return null;
+
+    if (bot.organizationId) {
+      const membership = await this.db.getMembership(bot.organizationId, userId);
+      return membership && isValidRole(membership.role) ? membership.role : null;
+    }
+
+    return bot.userId === userId ? 'owner' : null;
+  }
+
+  /**
+   * Check that a user holds at least the required role on a bot
+   */
+  async hasBotRole(userId: string, bot: any, required: OrgRole): Promise<boolean> {
+    return roleAtLeast(await this.getBotRole(userId, bot), required);
+  }
+
+  /**
+   * Create an invitation to an organization. The raw token is only returned here.
+   */
+  async createInvitation(organizationId: string, invitedBy: string, email: string, role: OrgRole): Promise<{ token: string; invitation: any }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invitation = await this.db.createInvitation({
+      organizationId,
+      email: email.toLowerCase(),
+      role,
+      tokenHash: this.hashToken(token),
+      invitedBy,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    return { token, invitation };
+  }
+
+  /**
+   * Accept an invitation on behalf of the signed-in user
+   */
+  async acceptInvitation(token: string, user: { id: string; email: string }): Promise<any> {
+    const invitation = await this.db.getInvitationByTokenHash(this.hashToken(token));
+
+    if (!invitation || invitation.acceptedAt) {
+      throw new Error('Invalid invitation');
+    }
+
+    if (invitation.expiresAt.getTime() < Date.now()) {
+      throw new Error('Invitation expired');
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new Error('Invitation was sent to a different email address');
+    }
+
+    // Accepting an invitation never lowers a role, so a viewer invite can't demote an owner
+    const current = await this.db.getMembership(invitation.organizationId, user.id);
+    const role = current && roleAtLeast(current.role, invitation.role) ? current.role : invitation.role;
+
+    const membership = await this.db.acceptInvitation(invitation.id, user.id, role);
+    if (!membership) {
+      throw new Error('Invalid invitation');
+    }
+    return { ...membership, organization: { id: invitation.organization.id, name: invitation.organization.name } };
+  }
+
+  /**
+   * Generate opaque refresh token
+   */
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  private refreshTokenExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Hash opaque token for storage and lookup
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
   /**
    * Generate API key for service-to-service auth
    */
   generateApiKey(): string {
     return `mno_${Buffer.from(crypto.randomUUID()).toString('base64')}`;
   }
+
+  /**
+   * Hash API key for storage and lookup
+   */
+  hashApiKey(key: string): string {
+    return this.hashToken(key);
+  }
+
+  /**
+   * Mint a new scoped API key. The raw key is only returned here.
+   */
+  async createApiKey(userId: string, options: {
+    name?: string;
+    scopes: string[];
+    expiresAt?: Date;
+  }): Promise<{ key: string; apiKey: any }> {
+    const invalid = options.scopes.filter(scope => !isValidScope(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid scopes: ${invalid.join(', ')}`);
+    }
+
+    const key = this.generateApiKey();
+    const apiKey = await this.db.createApiKey({
+      userId,
+      keyHash: this.hashApiKey(key),
+      prefix: key.slice(0, 12),
+      name: options.name,
+      scopes: Array.from(new Set(options.scopes)),
+      expiresAt: options.expiresAt
+    });
+
+    return { key, apiKey };
+  }
+
+  /**
+   * Verify API key and record its usage
+   */
+  async verifyApiKey(key: string): Promise<AuthenticatedPrincipal> {
+    const apiKey = await this.db.getApiKeyByHash(this.hashApiKey(key));
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new Error('Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() < Date.now()) {
+      throw new Error('API key expired');
+    }
+
+    await this.db.touchApiKey(apiKey.id);
+
+    return {
+      id: apiKey.user.id,
+      email: apiKey.user.email,
+      scopes: apiKey.scopes,
+      apiKeyId: apiKey.id
+    };
+  }
+}
+
+/**
+ * Check whether a role name is one we know about
+ */
+export function isValidRole(role: string): role is OrgRole {
+  return (ORG_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Check whether a role grants at least the required role
+ */
+export function roleAtLeast(role: string | null | undefined, required: OrgRole): boolean {
+  if (!role || !isValidRole(role)) return false;
+  return ORG_ROLES.indexOf(role) >= ORG_ROLES.indexOf(required);
+}
+
+/**
+ * Check whether a scope name is one we know about
+ */
+export function isValidScope(scope: string): scope is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(scope);
+}
+
+/**
+ * Check whether a principal may use a scope. Principals without a scope
+ * list (JWT sessions) are allowed everything.
+ */
+export function hasScope(principal: { scopes?: string[] } | undefined, scope: ApiKeyScope): boolean {
+  if (!principal) return false;
+  if (!principal.scopes) return true;
+  return principal.scopes.includes(scope);
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import * as dotenv from 'dotenv';
+import { DatabaseService } from './database';
+
+/**
+ * Assign transactions recorded before they were kept per tenant to the tenant
+ * whose bot wallet sent them, inferred from the sending address. Rows sent
+ * from an address no bot owns are left to the single-tenant wallet.
+ *
+ * Usage: pnpm transactions:backfill
+ *
+ * MCP instances also assign a tenant's earlier transactions when they open its
+ * wallet, so this only needs to run once to cover dormant tenants.
+ */
+
+dotenv.config();
+
+async function main() {
+  const db = new DatabaseService();
+
+  await db.initialize();
+  const assigned = await db.assignTransactionTenants();
+  await db.disconnect();
+
+  console.log(`✓ Assigned ${assigned} transaction(s) to their tenants`);
+}
+
+main().catch(error => {
+  console.error('Transaction tenant backfill failed:', error);
+  process.exit(1);
+});
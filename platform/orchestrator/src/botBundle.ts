@@ -0,0 +1,180 @@
+import * as crypto from 'crypto';
+
+/**
+ * Portable bot bundles for moving a bot between orchestrators.
+ *
+ * The bundle is a JSON document whose payload is encrypted with AES-256-GCM
+ * under a key derived from a passphrase (scrypt), so it does not depend on
+ * either orchestrator's seed master key.
+ */
+
+export const BUNDLE_FORMAT = 'midnightos-bot-bundle';
+export const BUNDLE_VERSION = 1;
+
+const MIN_PASSPHRASE_LENGTH = 12;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const GCM_TAG_LENGTH = 16;
+const BOT_TIERS = ['basic', 'premium', 'enterprise'];
+
+export interface BundledToken {
+  name: string;
+  symbol: string;
+  contractAddress: string;
+  domainSeparator?: string;
+  description?: string;
+  decimals?: number;
+}
+
+export interface BundledContracts {
+  fundingToken: string;
+  voteToken: string;
+  daoVoting: string;
+  marketplace: string;
+  address?: string;
+}
+
+export interface BotBundleContents {
+  exportedAt: string;
+  source: { botId: string; tenantId: string };
+  bot: {
+    name: string;
+    description?: string | null;
+    tier: string;
+    features: any;
+    platforms: any;
+    config: any;          // Character overrides and other settings (Bot.config)
+  };
+  walletAddress?: string | null;
+  walletSeed?: string;    // Plaintext seed, only when the export asked for it
+  tokens: BundledToken[];
+  contracts: BundledContracts | null;
+}
+
+export interface EncryptedBotBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * A bundle or passphrase the caller supplied is unusable
+ */
+export class BotBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BotBundleError';
+  }
+}
+
+export function assertValidPassphrase(passphrase: any): void {
+  if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new BotBundleError(`passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, 32, { ...SCRYPT_PARAMS, maxmem: SCRYPT_MAXMEM }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+const isString = (value: any): value is string => typeof value === 'string';
+const isObject = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check the decrypted contents have the shape an import relies on
+ */
+function assertValidContents(contents: any): asserts contents is BotBundleContents {
+  const { bot, tokens, contracts } = contents ?? {};
+
+  if (!isObject(bot) || !isString(bot.name) || !bot.name) {
+    throw new BotBundleError('Bundle has no bot configuration');
+  }
+  if (!BOT_TIERS.includes(bot.tier)) {
+    throw new BotBundleError(`Bundle has an unknown bot tier: ${bot.tier}`);
+  }
+  if (!isObject(bot.features) || (bot.platforms != null && !isObject(bot.platforms)) || (bot.config != null && !isObject(bot.config))) {
+    throw new BotBundleError('Bundle has malformed bot settings');
+  }
+  if (contents.walletSeed !== undefined && !isString(contents.walletSeed)) {
+    throw new BotBundleError('Bundle has a malformed wallet seed');
+  }
+  if (!Array.isArray(tokens) || !tokens.every(token =>
+    isObject(token) && isString(token.name) && isString(token.symbol) && isString(token.contractAddress))) {
+    throw new BotBundleError('Bundle has malformed tokens');
+  }
+  if (contracts !== null && !(isObject(contracts) &&
+    ['fundingToken', 'voteToken', 'daoVoting', 'marketplace'].every(name => isString(contracts[name])))) {
+    throw new BotBundleError('Bundle has malformed contracts');
+  }
+}
+
+/**
+ * Encrypt bundle contents with a passphrase
+ */
+export async function sealBotBundle(contents: BotBundleContents, passphrase: string): Promise<EncryptedBotBundle> {
+  assertValidPassphrase(passphrase);
+
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', await deriveKey(passphrase, salt), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf8'), cipher.final()]);
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    kdf: { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  };
+}
+
+/**
+ * Decrypt a bundle; a wrong passphrase or tampered bundle fails authentication
+ */
+export async function openBotBundle(bundle: any, passphrase: string): Promise<BotBundleContents> {
+  assertValidPassphrase(passphrase);
+
+  if (bundle?.format !== BUNDLE_FORMAT || bundle?.cipher !== 'aes-256-gcm' || bundle?.kdf?.name !== 'scrypt') {
+    throw new BotBundleError('Not a MidnightOS bot bundle');
+  }
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new BotBundleError(`Unsupported bundle version ${bundle.version}`);
+  }
+  // The bundle's own parameters would let it demand arbitrary work from the server
+  const { N, r, p } = bundle.kdf;
+  if (N !== SCRYPT_PARAMS.N || r !== SCRYPT_PARAMS.r || p !== SCRYPT_PARAMS.p) {
+    throw new BotBundleError('Unsupported key derivation parameters');
+  }
+  if (![bundle.kdf.salt, bundle.iv, bundle.tag, bundle.ciphertext].every(isString)) {
+    throw new BotBundleError('Not a MidnightOS bot bundle');
+  }
+  const tag = Buffer.from(bundle.tag, 'base64');
+  if (tag.length !== GCM_TAG_LENGTH) {
+    throw new BotBundleError('Bundle authentication tag must be 16 bytes');
+  }
+
+  let contents: any;
+  try {
+    const key = await deriveKey(passphrase, Buffer.from(bundle.kdf.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(bundle.iv, 'base64'), { authTagLength: GCM_TAG_LENGTH });
+    decipher.setAuthTag(tag);
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(bundle.ciphertext, 'base64')), decipher.final()]);
+    contents = JSON.parse(plaintext.toString('utf8'));
+  } catch {
+    throw new BotBundleError('Could not decrypt bundle: wrong passphrase or corrupted bundle');
+  }
+
+  assertValidContents(contents);
+  return contents;
+}
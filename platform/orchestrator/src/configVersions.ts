@@ -0,0 +1,182 @@
+import { DatabaseService } from './database';
+import { ContainerManager } from './containerManager';
+
+/**
+ * The parts of a bot that are versioned
+ */
+export interface BotConfigSnapshot {
+  features: any;
+  platforms: any;
+  config: any;
+}
+
+export interface ConfigChange {
+  path: string;   // Dot path, e.g. 'platforms.discord.serverId'
+  before?: any;
+  after?: any;
+}
+
+const SECRET_KEY_PATTERN = /token|secret|password|key/i;
+const REDACTED = '[redacted]';
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Versioned fields of a bot or of a stored version
+ */
+export function snapshotOf(source: any): BotConfigSnapshot {
+  return {
+    features: source.features ?? null,
+    platforms: source.platforms ?? null,
+    config: source.config ?? null
+  };
+}
+
+/**
+ * Leaf-level differences between two configurations
+ */
+export function diffConfig(before: any, after: any, path = ''): ConfigChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].sort().flatMap(key => diffConfig(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path, before, after }];
+}
+
+/**
+ * Mask platform tokens and other credentials before returning configuration to clients
+ */
+export function redactSecrets(value: any, key = ''): any {
+  if (value === undefined || value === null) return value;
+  if (SECRET_KEY_PATTERN.test(key) && !isPlainObject(value)) return REDACTED;
+  if (Array.isArray(value)) return value.map(item => redactSecrets(item));
+  if (!isPlainObject(value)) return value;
+
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactSecrets(v, k)]));
+}
+
+export function redactChanges(changes: ConfigChange[]): ConfigChange[] {
+  return changes.map(change => {
+    const key = change.path.split('.').pop() || '';
+    return {
+      path: change.path,
+      before: redactSecrets(change.before, key),
+      after: redactSecrets(change.after, key)
+    };
+  });
+}
+
+/**
+ * Configuration version as returned by the API
+ */
+export function toConfigVersionResponse(version: any): any {
+  return {
+    ...version,
+    platforms: redactSecrets(version.platforms),
+    config: redactSecrets(version.config),
+    changes: redactChanges(version.changes || [])
+  };
+}
+
+/**
+ * Immutable configuration history of bots.
+ *
+ * Every change is stored as a new version together with what changed and who
+ * changed it. Rolling back appends a version that copies an older one and
+ * re-applies it to the shared Eliza server and the MCP tenant.
+ */
+export class BotConfigHistory {
+  private db: DatabaseService;
+  private containerManager: ContainerManager;
+
+  constructor(db: DatabaseService, containerManager: ContainerManager) {
+    this.db = db;
+    this.containerManager = containerManager;
+  }
+
+  /**
+   * Record the configuration a bot was created with
+   */
+  async recordCreated(bot: any, userId: string): Promise<any> {
+    return await this.db.createBotConfigVersion({
+      botId: bot.id,
+      ...snapshotOf(bot),
+      changes: [],
+      reason: 'created',
+      createdBy: userId
+    });
+  }
+
+  /**
+   * Store a new configuration version and apply it to the running bot.
+   * Returns the current version; nothing is recorded when the configuration is unchanged.
+   */
+  async update(
+    bot: any,
+    next: Partial<BotConfigSnapshot>,
+    user: { id: string; email: string },
+    options: { reason?: string; rolledBackFrom?: number } = {}
+  ): Promise<any> {
+    const current = snapshotOf(bot);
+    const target: BotConfigSnapshot = {
+      features: next.features !== undefined ? next.features : current.features,
+      platforms: next.platforms !== undefined ? next.platforms : current.platforms,
+      config: next.config !== undefined ? next.config : current.config
+    };
+    const changes = diffConfig(current, target);
+
+    let version = await this.ensureBaseline(bot);
+
+    if (changes.length > 0) {
+      // Json columns can't be set to a bare null; fields absent from every version stay unset
+      await this.db.updateBot(bot.id, Object.fromEntries(Object.entries(target).filter(([, value]) => value !== null)));
+      version = await this.db.createBotConfigVersion({
+        botId: bot.id,
+        ...target,
+        changes,
+        reason: options.reason || 'update',
+        rolledBackFrom: options.rolledBackFrom,
+        createdBy: user.id
+      });
+    }
+
+    await this.containerManager.updateUserContainer(bot.tenantId, {
+      userId: bot.userId,
+      email: user.email,
+      tier: bot.tier || 'basic',
+      features: target.features,
+      platforms: target.platforms,
+      settings: target.config
+    }, version.version);
+
+    return version;
+  }
+
+  /**
+   * Re-apply an older version as the newest one
+   */
+  async rollback(bot: any, target: any, user: { id: string; email: string }): Promise<any> {
+    return await this.update(bot, snapshotOf(target), user, {
+      reason: 'rollback',
+      rolledBackFrom: target.version
+    });
+  }
+
+  /**
+   * Bots created before versioning get their current configuration as version 1
+   */
+  private async ensureBaseline(bot: any): Promise<any> {
+    const latest = await this.db.getLatestBotConfigVersion(bot.id);
+    if (latest) return latest;
+
+    return await this.db.createBotConfigVersion({
+      botId: bot.id,
+      ...snapshotOf(bot),
+      changes: [],
+      reason: 'baseline'
+    });
+  }
+}
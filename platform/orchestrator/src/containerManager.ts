@@ -2,8 +2,12 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { PlatformContractDeployer } from './contractDeployer';
+import { getSeedEncryption } from './seedEncryption';
+import { getServiceCredentials } from './serviceAuth';
+import { BundledContracts, BundledToken } from './botBundle';
+import { TenantPlacementService } from './tenantPlacement';
 
-interface UserConfig {
+export interface UserConfig {
   userId: string;
   email: string;
   tier: 'basic' | 'premium' | 'enterprise';
@@ -18,16 +22,40 @@ interface UserConfig {
     slack?: { token: string };
     twitter?: { apiKey: string; apiSecret: string };
   };
+  settings?: Record<string, any>; // Free-form bot configuration (Bot.config)
+  restore?: RestoreData;          // Set when the bot is imported from a bundle
 }
 
-interface DeploymentProgress {
-  status: 'deploying' | 'completed' | 'failed';
-  stage: string;
-  error?: string;
+/**
+ * Tenant data carried over from another orchestrator by a bot import
+ */
+export interface RestoreData {
+  walletSeed?: string;            // Sealed with this orchestrator's master key
+  tokens?: BundledToken[];
+  contracts?: BundledContracts | null;
+}
+
+/**
+ * Deployment stages, in run order. Every stage can be re-run safely so a
+ * persisted job can resume after an orchestrator restart.
+ */
+export const DEPLOYMENT_STAGES = [
+  'tenant_id',
+  'directories',
+  'wallet_seed',
+  'mcp_registration',
+  'eliza_registration',
+  'dao_deploy'
+] as const;
+
+export type DeploymentStage = typeof DEPLOYMENT_STAGES[number];
+
+/**
+ * Values produced by deployment stages and carried between them
+ */
+export interface DeploymentState {
   tenantId?: string;
   walletAddress?: string;
-  startedAt: Date;
-  completedAt?: Date;
 }
 
 interface BotInfo {
@@ -52,129 +80,116 @@ export class ContainerManager {
   private baseDir = process.env.USER_DATA_PATH || path.join(process.cwd(), '../../user-data');
   private activeBots: Map<string, BotInfo> = new Map();
   private contractDeployer: PlatformContractDeployer;
-  private deploymentProgress: Map<string, DeploymentProgress> = new Map();
   private sharedElizaUrl = process.env.SHARED_ELIZA_URL || 'http://localhost:3004';
   private sharedElizaPort = 3004; // All bots use the shared server
+  private placement: TenantPlacementService; // Routes wallet calls to the MCP instance holding the tenant
 
-  constructor() {
+  constructor(placement: TenantPlacementService) {
+    this.placement = placement;
     console.log(`ContainerManager initialized (Multi-Tenant Mode)`);
     console.log(`Shared Eliza URL: ${this.sharedElizaUrl}`);
     this.contractDeployer = new PlatformContractDeployer(this.baseDir);
   }
 
   /**
-   * Start async deployment - returns immediately with deployment ID
+   * Run one deployment stage and return the state it produced.
+   * Scheduling, retries and persistence are handled by DeploymentQueue.
    */
-  async startAsyncDeployment(config: UserConfig, deploymentId: string): Promise<DeploymentProgress> {
-    // Initialize deployment progress tracking
-    const progress: DeploymentProgress = {
-      status: 'deploying',
-      stage: 'initializing',
-      startedAt: new Date()
-    };
-    this.deploymentProgress.set(deploymentId, progress);
-
-    // Start deployment in background (don't await)
-    this.createUserBot(config, deploymentId)
-      .then((botInfo) => {
-        // Update progress on success
-        const finalProgress: DeploymentProgress = {
-          status: 'completed',
-          stage: 'completed',
-          tenantId: botInfo.tenantId,
-          walletAddress: botInfo.walletAddress,
-          startedAt: progress.startedAt,
-          completedAt: new Date()
-        };
-        this.deploymentProgress.set(deploymentId, finalProgress);
-        console.log(`✅ Async deployment ${deploymentId} completed successfully`);
-      })
-      .catch((error) => {
-        // Update progress on failure
-        const failedProgress: DeploymentProgress = {
-          status: 'failed',
-          stage: 'failed',
-          error: error.message,
-          startedAt: progress.startedAt,
-          completedAt: new Date()
+  async runDeploymentStage(stage: DeploymentStage, config: UserConfig, state: DeploymentState): Promise<DeploymentState> {
+    if (stage === 'tenant_id') {
+      return { tenantId: state.tenantId || this.generateTenantId(config.userId) };
+    }
+
+    const tenantId = state.tenantId;
+    if (!tenantId) {
+      throw new Error(`Deployment stage ${stage} requires a tenant ID`);
+    }
+
+    switch (stage) {
+      case 'directories':
+        await this.createUserDirectories(tenantId);
+        return {};
+
+      case 'wallet_seed':
+        await this.generateWalletSeed(tenantId, config.restore?.walletSeed);
+        return {};
+
+      case 'mcp_registration':
+        await this.registerTenantWithMCP(tenantId);
+        await this.registerTokensWithMCP(tenantId, config.restore?.tokens || []);
+        return { walletAddress: await this.getWalletAddress(tenantId) };
+
+      case 'eliza_registration': {
+        // Register bot with shared Eliza service (no container needed!)
+        await this.registerBotWithSharedEliza(tenantId, config);
+
+        const botInfo: BotInfo = {
+          tenantId,
+          userId: config.userId,
+          walletAddress: state.walletAddress || 'pending',
+          status: 'active',
+          createdAt: new Date(),
+          features: config.features,
+          tier: config.tier
         };
-        this.deploymentProgress.set(deploymentId, failedProgress);
-        console.error(`❌ Async deployment ${deploymentId} failed:`, error);
-      });
 
-    return progress;
+        this.activeBots.set(tenantId, botInfo);
+        await this.saveBotInfo(botInfo);
+
+        console.log(`✅ Bot ${tenantId} ready on shared Eliza service (port ${this.sharedElizaPort})`);
+        return {};
+      }
+
+      case 'dao_deploy':
+        if (config.restore?.contracts) {
+          // Imported bots keep the contracts they already have on chain
+          await this.contractDeployer.importDeployedContracts(tenantId, config.restore.contracts);
+        } else if (this.needsDAO(config)) {
+          await this.deployDAO(tenantId);
+        }
+        return {};
+    }
   }
 
   /**
-   * Get deployment progress
+   * Undo what a stage did, for a stage that completed after its job was
+   * cancelled. The job stays at that stage, so a retry runs it again.
    */
-  getDeploymentProgress(deploymentId: string): DeploymentProgress | null {
-    return this.deploymentProgress.get(deploymentId) || null;
+  async rollbackDeploymentStage(stage: DeploymentStage, state: DeploymentState): Promise<void> {
+    const tenantId = state.tenantId;
+    if (!tenantId) return;
+
+    switch (stage) {
+      case 'directories':
+        await fs.rm(`${this.baseDir}/${tenantId}`, { recursive: true, force: true });
+        break;
+
+      case 'wallet_seed':
+        await fs.rm(`${this.baseDir}/${tenantId}/storage/seeds/${tenantId}/seed`, { force: true });
+        break;
+
+      case 'mcp_registration':
+        await this.unregisterTenantFromMCP(tenantId);
+        break;
+
+      case 'eliza_registration':
+        await this.unregisterBotFromSharedEliza(tenantId);
+        this.activeBots.delete(tenantId);
+        await fs.rm(`${this.baseDir}/${tenantId}/bot-info.json`, { force: true });
+        break;
+
+      case 'dao_deploy':
+        // Contracts already on chain stay there; the bot just doesn't use them
+        console.warn(`DAO contracts deployed for cancelled tenant ${tenantId} were left on chain`);
+        break;
+    }
   }
 
   /**
-   * Create a new user bot (registers with shared Eliza server)
+   * Whether the bot gets its own DAO contracts
    */
-  async createUserBot(config: UserConfig, deploymentId?: string): Promise<BotInfo> {
-    const updateProgress = (stage: string) => {
-      if (deploymentId) {
-        const current = this.deploymentProgress.get(deploymentId);
-        if (current) {
-          current.stage = stage;
-          this.deploymentProgress.set(deploymentId, current);
-        }
-      }
-    };
-
-    updateProgress('generating_tenant_id');
-    const tenantId = this.generateTenantId(config.userId);
-    
-    // 1. Create user directories
-    updateProgress('creating_directories');
-    await this.createUserDirectories(tenantId);
-    
-    // 2. Generate wallet seed
-    updateProgress('generating_wallet');
-    const walletSeed = await this.generateWalletSeed(tenantId);
-    
-    // 3. Register wallet with MCP service
-    updateProgress('registering_wallet');
-    await this.registerTenantWithMCP(tenantId);
-    
-    // 4. Get wallet address
-    updateProgress('fetching_wallet_address');
-    const walletAddress = await this.getWalletAddress(tenantId);
-    
-    // 5. Register bot with shared Eliza service (no container needed!)
-    updateProgress('registering_with_shared_eliza');
-    await this.registerBotWithSharedEliza(tenantId, config);
-    
-    // 6. Start DAO deployment in background if needed (non-blocking)
-    if (config.tier === 'premium' || config.tier === 'enterprise' || config.features?.dao) {
-      console.log(`Scheduling background DAO deployment for ${tenantId}...`);
-      this.deployDAOInBackground(tenantId).catch(error => {
-        console.error(`Background DAO deployment failed for ${tenantId}:`, error);
-      });
-    }
-    
-    // 7. Store bot info
-    updateProgress('finalizing');
-    const botInfo: BotInfo = {
-      tenantId,
-      userId: config.userId,
-      walletAddress,
-      status: 'active',
-      createdAt: new Date(),
-      features: config.features,
-      tier: config.tier
-    };
-    
-    this.activeBots.set(tenantId, botInfo);
-    await this.saveBotInfo(botInfo);
-    
-    console.log(`✅ Bot ${tenantId} ready on shared Eliza service (port ${this.sharedElizaPort})`);
-    
-    return botInfo;
+  private needsDAO(config: UserConfig): boolean {
+    return config.tier === 'premium' || config.tier === 'enterprise' || !!config.features?.dao;
   }
 
   /**
@@ -203,33 +218,43 @@ export class ContainerManager {
 
   /**
    * Generate wallet seed for user
-   * Generates a 64-character hex seed (32 bytes) as required by Midnight
+   * Generates a 64-character hex seed (32 bytes) as required by Midnight,
+   * unless an imported bot brings its own (already sealed) seed
    */
-  private async generateWalletSeed(tenantId: string): Promise<string> {
-    // Generate 32 bytes = 64 hex characters (matching Midnight requirements)
-    const seed = crypto.randomBytes(32).toString('hex');
+  private async generateWalletSeed(tenantId: string, restoredSeed?: string): Promise<string> {
     const seedPath = `${this.baseDir}/${tenantId}/storage/seeds/${tenantId}/seed`;
     
+    // Keep the seed from an earlier attempt; the wallet may already be registered with it
+    const existing = await fs.readFile(seedPath, 'utf-8').catch(() => null);
+    if (existing) {
+      return existing;
+    }
+    
+    // Generate 32 bytes = 64 hex characters (matching Midnight requirements)
+    const seed = restoredSeed || crypto.randomBytes(32).toString('hex');
+    
+    // Only the sealed envelope is persisted; the MCP service decrypts it when building the wallet
+    const sealedSeed = await getSeedEncryption().encryptSeed(seed);
+    
     await fs.mkdir(path.dirname(seedPath), { recursive: true });
-    await fs.writeFile(seedPath, seed, { mode: 0o600 }); // Secure file permissions
+    await fs.writeFile(seedPath, sealedSeed, { mode: 0o600 }); // Secure file permissions
     
-    console.log(`Generated seed for tenant ${tenantId}: ${seed.substring(0, 8)}... (length: ${seed.length})`);
-    return seed;
+    console.log(`${restoredSeed ? 'Restored' : 'Generated'} encrypted seed for tenant ${tenantId}`);
+    return sealedSeed;
   }
 
   /**
    * Register tenant with MCP service for wallet management
    */
   private async registerTenantWithMCP(tenantId: string): Promise<void> {
-    const mcpPort = process.env.MCP_PORT || '3001';
     const seedPath = `${this.baseDir}/${tenantId}/storage/seeds/${tenantId}/seed`;
     
     try {
-      // Read the seed for this tenant
+      // Read the sealed seed for this tenant (forwarded still encrypted)
       const seed = await fs.readFile(seedPath, 'utf-8');
       
-      // Register tenant with MCP
-      const response = await fetch(`http://localhost:${mcpPort}/api/wallet/register`, {
+      // Register tenant with the MCP instance it is placed on
+      const response = await this.placement.fetch(tenantId, '/api/wallet/register', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -246,24 +271,108 @@ export class ContainerManager {
       
       if (!response.ok) {
         const error = await response.text();
-        console.error(`Failed to register tenant ${tenantId} with MCP:`, error);
-      } else {
-        console.log(`✓ Tenant ${tenantId} registered with MCP service`);
+        // A retried stage finds the tenant already registered
+        if (!error.includes('already registered')) {
+          throw new Error(`MCP registration failed: ${response.status} ${error}`);
+        }
       }
+      
+      console.log(`✓ Tenant ${tenantId} registered with MCP service`);
     } catch (error) {
       console.error(`Error registering tenant with MCP:`, error);
-      // Non-critical - MCP may already have the tenant registered
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a tenant from the MCP instance it was registered with
+   */
+  private async unregisterTenantFromMCP(tenantId: string): Promise<void> {
+    const response = await this.placement.fetch(tenantId, `/api/wallet/${tenantId}`, {
+      method: 'DELETE',
+      headers: { 'x-tenant-id': tenantId }
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`MCP unregistration failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  /**
+   * Register tokens carried over by an imported bot
+   */
+  private async registerTokensWithMCP(tenantId: string, tokens: BundledToken[]): Promise<void> {
+    for (const token of tokens) {
+      const response = await this.placement.fetch(tenantId, `/api/wallet/${tenantId}/tokens/register`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Tenant-ID': tenantId
+        },
+        body: JSON.stringify(token)
+      });
+      
+      if (!response.ok) {
+        const error = await response.text();
+        // A retried stage finds the token already registered
+        if (!error.includes('already registered')) {
+          throw new Error(`Token ${token.name} registration failed: ${response.status} ${error}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Collect the tenant data that goes into an export bundle
+   */
+  async exportTenant(tenantId: string, includeSeed: boolean): Promise<{
+    walletSeed?: string;
+    tokens: BundledToken[];
+    contracts: BundledContracts | null;
+  }> {
+    const response = await this.placement.fetch(tenantId, `/api/wallet/${tenantId}/tokens/registry`, {
+      headers: { 'X-Tenant-ID': tenantId }
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to read registered tokens from MCP: ${response.status}`);
     }
+    const { tokens }: any = await response.json();
+    
+    const deployed = await this.contractDeployer.getDeployedContracts(tenantId);
+    const contracts = deployed && {
+      fundingToken: deployed.fundingToken,
+      voteToken: deployed.voteToken,
+      daoVoting: deployed.daoVoting,
+      marketplace: deployed.marketplace,
+      address: deployed.address
+    };
+    
+    let walletSeed: string | undefined;
+    if (includeSeed) {
+      const seedPath = `${this.baseDir}/${tenantId}/storage/seeds/${tenantId}/seed`;
+      walletSeed = await getSeedEncryption().decryptSeed(await fs.readFile(seedPath, 'utf-8'));
+    }
+    
+    return {
+      walletSeed,
+      tokens: (tokens || []).map((token: any) => ({
+        name: token.name,
+        symbol: token.symbol,
+        contractAddress: token.contractAddress,
+        domainSeparator: token.domainSeparator,
+        description: token.description,
+        decimals: token.decimals
+      })),
+      contracts
+    };
   }
 
   /**
    * Get wallet address for user from shared MCP service
    */
   private async getWalletAddress(tenantId: string): Promise<string> {
-    const mcpPort = process.env.MCP_PORT || '3001';
-    
     try {
-      const response = await fetch(`http://localhost:${mcpPort}/api/wallet/${tenantId}/address`, {
+      const response = await this.placement.fetch(tenantId, `/api/wallet/${tenantId}/address`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -289,7 +398,7 @@ export class ContainerManager {
    */
   private async registerBotWithSharedEliza(tenantId: string, config: UserConfig): Promise<void> {
     try {
-      const response = await fetch(`${this.sharedElizaUrl}/tenants/${tenantId}/bot`, {
+      const response = await getServiceCredentials().fetch(`${this.sharedElizaUrl}/tenants/${tenantId}/bot`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -300,6 +409,7 @@ export class ContainerManager {
           bio: 'MidnightOS AI Assistant for blockchain operations',
           features: config.features,
           platforms: config.platforms,
+          settings: config.settings,
           tier: config.tier
         })
       });
@@ -318,28 +428,33 @@ export class ContainerManager {
   }
 
   /**
-   * Deploy DAO contracts in background (non-blocking)
+   * Remove a bot from the shared Eliza service
    */
-  private async deployDAOInBackground(tenantId: string): Promise<void> {
-    try {
-      console.log(`Starting background DAO deployment for ${tenantId}...`);
-      
-      // Use network ID from environment
-      const networkId = process.env.NETWORK_ID === 'Undeployed' ? 'Undeployed' : 'TestNet';
-      const contractAddresses = await this.contractDeployer.deployContractsForTenant(tenantId, networkId as any);
-      await this.contractDeployer.updateTenantEnvironment(tenantId);
-      
-      console.log(`✅ Background DAO deployment completed for ${tenantId}`);
-      
-      // Optionally notify user that DAO features are now available
-      // This could be done via websocket or polling endpoint
-      
-    } catch (error) {
-      console.error(`❌ Background DAO deployment failed for ${tenantId}:`, error);
-      // DAO features will remain unavailable, but bot continues to work
+  private async unregisterBotFromSharedEliza(tenantId: string): Promise<void> {
+    const response = await getServiceCredentials().fetch(`${this.sharedElizaUrl}/tenants/${tenantId}/bot`, {
+      method: 'DELETE',
+      headers: { 'x-tenant-id': tenantId }
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Shared Eliza unregistration failed: ${response.status}`);
     }
   }
 
+  /**
+   * Deploy DAO contracts for a tenant
+   */
+  private async deployDAO(tenantId: string): Promise<void> {
+    console.log(`Starting DAO deployment for ${tenantId}...`);
+    
+    // Use network ID from environment
+    const networkId = process.env.NETWORK_ID === 'Undeployed' ? 'Undeployed' : 'TestNet';
+    await this.contractDeployer.deployContractsForTenant(tenantId, networkId as any);
+    await this.contractDeployer.updateTenantEnvironment(tenantId);
+    
+    console.log(`✅ DAO deployment completed for ${tenantId}`);
+  }
+
   /**
    * Stop user bot (just unregister from shared service)
    */
@@ -369,11 +484,10 @@ export class ContainerManager {
    */
   async getBotStatus(tenantId: string): Promise<any> {
     try {
-      // Check shared MCP service status
-      const mcpPort = process.env.MCP_PORT || '3001';
+      // Check the MCP instance holding the tenant
       let mcpStatus = 'unknown';
       try {
-        const response = await fetch(`http://localhost:${mcpPort}/health`);
+        const response = await this.placement.fetch(tenantId, '/health');
         mcpStatus = response.ok ? 'running' : 'error';
       } catch {
         mcpStatus = 'offline';
@@ -434,15 +548,38 @@ export class ContainerManager {
     }
   }
 
+  /**
+   * Push the tenant's configuration version to the MCP service
+   */
+  private async updateTenantConfigWithMCP(tenantId: string, config: UserConfig, configVersion?: number): Promise<void> {
+    const response = await this.placement.fetch(tenantId, `/api/tenants/${tenantId}/config`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Tenant-ID': tenantId
+      },
+      body: JSON.stringify({
+        version: configVersion,
+        tier: config.tier,
+        features: config.features
+      })
+    });
+    
+    if (!response.ok) {
+      throw new Error(`MCP tenant config update failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
   /**
    * Update user bot configuration
    */
-  async updateUserBot(tenantId: string, config: UserConfig): Promise<void> {
+  async updateUserBot(tenantId: string, config: UserConfig, configVersion?: number): Promise<void> {
     const botInfo = this.activeBots.get(tenantId);
     if (!botInfo) throw new Error('Bot not found');
     
-    // Update bot configuration in shared Eliza
+    // Update bot configuration in shared Eliza and the MCP tenant registration
     await this.registerBotWithSharedEliza(tenantId, config);
+    await this.updateTenantConfigWithMCP(tenantId, config, configVersion);
     
     // Update bot info
     botInfo.features = config.features;
@@ -493,8 +630,8 @@ export class ContainerManager {
     return this.deleteUserBot(tenantId);
   }
 
-  async updateUserContainer(tenantId: string, config: UserConfig): Promise<void> {
-    return this.updateUserBot(tenantId, config);
+  async updateUserContainer(tenantId: string, config: UserConfig, configVersion?: number): Promise<void> {
+    return this.updateUserBot(tenantId, config, configVersion);
   }
 
   async loadActiveContainers(): Promise<void> {
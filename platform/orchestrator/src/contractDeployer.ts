@@ -9,6 +9,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { adminWallet } from './adminWallet';
+import { getSeedEncryption } from './seedEncryption';
 
 const execAsync = promisify(exec);
 
@@ -47,10 +48,10 @@ export class PlatformContractDeployer {
       // Generate seed for tenant
       const seed = await this.generateSeed();
       
-      // Save seed to tenant storage
+      // Save sealed seed to tenant storage; the plaintext only lives in memory for deployment
       const seedPath = path.join(this.basePath, tenantId, 'storage/seeds', tenantId, 'seed');
       await fs.mkdir(path.dirname(seedPath), { recursive: true });
-      await fs.writeFile(seedPath, seed, { mode: 0o600 });
+      await fs.writeFile(seedPath, await getSeedEncryption().encryptSeed(seed), { mode: 0o600 });
 
       // Get user wallet address
       const userAddress = await this.getWalletAddress(seed, networkId);
@@ -143,6 +144,24 @@ export class PlatformContractDeployer {
     }
   }
 
+  /**
+   * Adopt contracts deployed for this bot on another orchestrator
+   */
+  async importDeployedContracts(
+    tenantId: string,
+    contracts: { fundingToken: string; voteToken: string; daoVoting: string; marketplace: string; address?: string }
+  ): Promise<void> {
+    await this.saveDeploymentConfig(tenantId, {
+      fundingToken: contracts.fundingToken,
+      voteToken: contracts.voteToken,
+      daoVoting: contracts.daoVoting,
+      marketplace: contracts.marketplace,
+      seed: await this.getSeedForTenant(tenantId),
+      address: contracts.address || ''
+    });
+    await this.updateTenantEnvironment(tenantId);
+  }
+
   /**
    * Generate DAO configuration string for environment variable
    */
@@ -317,6 +336,9 @@ export class PlatformContractDeployer {
     };
   }
 
+  /**
+   * Read the tenant's sealed seed (returned still encrypted)
+   */
   private async getSeedForTenant(tenantId: string): Promise<string> {
     const seedPath = path.join(this.basePath, tenantId, 'storage/seeds', tenantId, 'seed');
     return await fs.readFile(seedPath, 'utf-8');
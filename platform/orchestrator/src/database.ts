@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
+import { getSeedEncryption } from './seedEncryption';
 
 export class DatabaseService {
   private prisma: PrismaClient;
@@ -94,12 +95,16 @@ export class DatabaseService {
     const bot = await this.prisma.bot.create({
       data: {
         userId: data.userId,
+        organizationId: data.organizationId,
         name: data.name,
+        description: data.description,
         tenantId: data.tenantId,
         walletAddress: data.walletAddress,
+        walletSeed: data.walletSeed ? await getSeedEncryption().encryptSeed(data.walletSeed) : undefined,
         walletPort: data.elizaPort, // Map elizaPort to walletPort for database
         features: data.features,
         platforms: data.platforms,
+        config: data.config,
         status: data.status || 'pending',
       },
     });
@@ -112,8 +117,14 @@ export class DatabaseService {
    */
   async getUserBots(userId: string): Promise<any[]> {
     try {
+      // Bots of every organization the user belongs to, plus legacy bots without one
       const bots = await this.prisma.bot.findMany({
-        where: { userId },
+        where: {
+          OR: [
+            { organization: { memberships: { some: { userId } } } },
+            { organizationId: null, userId }
+          ]
+        },
       });
       
       return bots;
@@ -208,6 +219,29 @@ export class DatabaseService {
     return bot;
   }
 
+  async getBotByTenantId(tenantId: string): Promise<any> {
+    return await this.prisma.bot.findUnique({
+      where: { tenantId },
+    });
+  }
+
+  /**
+   * Get the users who can see a bot (its organization's members, or the creator of a legacy bot)
+   */
+  async getBotAudience(botId: string): Promise<string[]> {
+    const bot = await this.prisma.bot.findUnique({
+      where: { id: botId },
+      select: {
+        userId: true,
+        organization: { select: { memberships: { select: { userId: true } } } }
+      }
+    });
+
+    if (!bot) return [];
+    if (!bot.organization) return [bot.userId];
+    return bot.organization.memberships.map(m => m.userId);
+  }
+
   /**
    * Update bot
    */
@@ -222,9 +256,29 @@ export class DatabaseService {
       updateData.platforms = data.platforms;
     }
     
+    if (data.config !== undefined) {
+      updateData.config = data.config;
+    }
+    
     if (data.status !== undefined) {
       updateData.status = data.status;
     }
+
+    if (data.tenantId !== undefined) {
+      updateData.tenantId = data.tenantId;
+    }
+
+    if (data.walletAddress !== undefined) {
+      updateData.walletAddress = data.walletAddress;
+    }
+
+    if (data.elizaPort !== undefined) {
+      updateData.walletPort = data.elizaPort; // Map elizaPort to walletPort for database
+    }
+
+    if (data.walletSeed !== undefined) {
+      updateData.walletSeed = data.walletSeed ? await getSeedEncryption().encryptSeed(data.walletSeed) : null;
+    }
     
     if (Object.keys(updateData).length > 0) {
       await this.prisma.bot.update({
@@ -305,6 +359,17 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Whether an activity of this type was already recorded for an MCP transaction
+   */
+  async hasActivityForTransaction(type: string, transactionId: string): Promise<boolean> {
+    const activity = await this.prisma.activity.findFirst({
+      where: { type, metadata: { path: ['transactionId'], equals: transactionId } },
+      select: { id: true }
+    });
+    return !!activity;
+  }
+
   /**
    * Get user activities
    */
@@ -398,6 +463,895 @@ export class DatabaseService {
     };
   }
 
+  /**
+   * Create API key record (only the hash of the key is stored)
+   */
+  async createApiKey(data: {
+    userId: string;
+    keyHash: string;
+    prefix: string;
+    name?: string;
+    scopes: string[];
+    expiresAt?: Date;
+  }): Promise<any> {
+    return await this.prisma.apiKey.create({
+      data: {
+        userId: data.userId,
+        keyHash: data.keyHash,
+        prefix: data.prefix,
+        name: data.name,
+        scopes: data.scopes,
+        expiresAt: data.expiresAt
+      },
+      select: {
+        id: true,
+        prefix: true,
+        name: true,
+        scopes: true,
+        expiresAt: true,
+        createdAt: true
+      }
+    });
+  }
+
+  /**
+   * Get user's API keys (without hashes)
+   */
+  async getUserApiKeys(userId: string): Promise<any[]> {
+    return await this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        prefix: true,
+        name: true,
+        scopes: true,
+        lastUsed: true,
+        expiresAt: true,
+        revokedAt: true,
+        createdAt: true
+      }
+    });
+  }
+
+  /**
+   * Find API key by hash, including its owner
+   */
+  async getApiKeyByHash(keyHash: string): Promise<any> {
+    return await this.prisma.apiKey.findUnique({
+      where: { keyHash },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Record API key usage
+   */
+  async touchApiKey(keyId: string): Promise<void> {
+    await this.prisma.apiKey.update({
+      where: { id: keyId },
+      data: { lastUsed: new Date() }
+    });
+  }
+
+  /**
+   * Revoke API key
+   */
+  async revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+    const result = await this.prisma.apiKey.updateMany({
+      where: { id: keyId, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Record a tenant token issued for a bot's MCP endpoint (the token itself isn't stored)
+   */
+  async createMcpToken(data: {
+    id: string;
+    botId: string;
+    tenantId: string;
+    issuedBy: string;
+    expiresAt: Date;
+  }): Promise<any> {
+    return await this.prisma.mcpToken.create({ data });
+  }
+
+  /**
+   * Get the tenant tokens issued for a bot's MCP endpoint
+   */
+  async getBotMcpTokens(botId: string): Promise<any[]> {
+    return await this.prisma.mcpToken.findMany({
+      where: { botId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Revoke a tenant token of a bot
+   * @returns The token, also when it was already revoked; null if the bot has no such token
+   */
+  async revokeMcpToken(botId: string, tokenId: string): Promise<any | null> {
+    await this.prisma.mcpToken.updateMany({
+      where: { id: tokenId, botId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return await this.prisma.mcpToken.findFirst({
+      where: { id: tokenId, botId }
+    });
+  }
+
+  /**
+   * Create login session holding a refresh token hash
+   */
+  async createSession(data: {
+    userId: string;
+    refreshTokenHash: string;
+    expiresAt: Date;
+    userAgent?: string;
+    ipAddress?: string;
+  }): Promise<any> {
+    return await this.prisma.session.create({
+      data: {
+        userId: data.userId,
+        refreshTokenHash: data.refreshTokenHash,
+        expiresAt: data.expiresAt,
+        userAgent: data.userAgent,
+        ipAddress: data.ipAddress
+      }
+    });
+  }
+
+  /**
+   * Get session by ID
+   */
+  async getSession(sessionId: string): Promise<any> {
+    return await this.prisma.session.findUnique({
+      where: { id: sessionId }
+    });
+  }
+
+  /**
+   * Find session by current or previous refresh token hash
+   */
+  async findSessionByRefreshHash(tokenHash: string): Promise<{ session: any; reused: boolean } | null> {
+    const current = await this.prisma.session.findUnique({
+      where: { refreshTokenHash: tokenHash }
+    });
+    if (current) return { session: current, reused: false };
+
+    const previous = await this.prisma.session.findUnique({
+      where: { previousTokenHash: tokenHash }
+    });
+    if (previous) return { session: previous, reused: true };
+
+    return null;
+  }
+
+  /**
+   * Rotate session refresh token
+   * @returns false if the session no longer has the presented token (a concurrent refresh rotated it)
+   */
+  async rotateSessionToken(sessionId: string, currentTokenHash: string, newTokenHash: string, expiresAt: Date): Promise<boolean> {
+    // Only rotate from the token that was presented, so of two concurrent refreshes only one wins
+    const result = await this.prisma.session.updateMany({
+      where: { id: sessionId, refreshTokenHash: currentTokenHash, revokedAt: null },
+      data: {
+        previousTokenHash: currentTokenHash,
+        refreshTokenHash: newTokenHash,
+        expiresAt,
+        lastUsedAt: new Date()
+      }
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Revoke a single session
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  /**
+   * Revoke all of a user's sessions
+   */
+  async revokeUserSessions(userId: string): Promise<number> {
+    const result = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Create organization with the given user as owner
+   */
+  async createOrganization(name: string, ownerId: string): Promise<any> {
+    return await this.prisma.organization.create({
+      data: {
+        name,
+        memberships: {
+          create: { userId: ownerId, role: 'owner' }
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the user's default organization (oldest owned), creating one if needed
+   */
+  async getDefaultOrganization(userId: string): Promise<any> {
+    const membership = await this.prisma.membership.findFirst({
+      where: { userId, role: 'owner' },
+      orderBy: { createdAt: 'asc' },
+      include: { organization: true }
+    });
+
+    if (membership) return membership.organization;
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new Error('User not found');
+
+    return await this.createOrganization(`${user.email.split('@')[0]}'s organization`, userId);
+  }
+
+  /**
+   * Get organizations the user belongs to, with their role
+   */
+  async getUserOrganizations(userId: string): Promise<any[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        organization: {
+          include: {
+            _count: { select: { memberships: true, bots: true } }
+          }
+        }
+      }
+    });
+
+    return memberships.map(m => ({
+      id: m.organization.id,
+      name: m.organization.name,
+      role: m.role,
+      memberCount: m.organization._count.memberships,
+      botCount: m.organization._count.bots,
+      createdAt: m.organization.createdAt
+    }));
+  }
+
+  /**
+   * Get membership of a user in an organization
+   */
+  async getMembership(organizationId: string, userId: string): Promise<any> {
+    return await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } }
+    });
+  }
+
+  /**
+   * Get organization members
+   */
+  async getOrganizationMembers(organizationId: string): Promise<any[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    return memberships.map(m => ({
+      userId: m.user.id,
+      email: m.user.email,
+      role: m.role,
+      joinedAt: m.createdAt
+    }));
+  }
+
+  /**
+   * Count organization owners
+   */
+  async countOrganizationOwners(organizationId: string): Promise<number> {
+    return await this.prisma.membership.count({
+      where: { organizationId, role: 'owner' }
+    });
+  }
+
+  /**
+   * Change member role
+   */
+  async updateMemberRole(organizationId: string, userId: string, role: string): Promise<void> {
+    await this.prisma.membership.update({
+      where: { organizationId_userId: { organizationId, userId } },
+      data: { role }
+    });
+  }
+
+  /**
+   * Remove member from organization
+   */
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    const result = await this.prisma.membership.deleteMany({
+      where: { organizationId, userId }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Create organization invitation
+   */
+  async createInvitation(data: {
+    organizationId: string;
+    email: string;
+    role: string;
+    tokenHash: string;
+    invitedBy: string;
+    expiresAt: Date;
+  }): Promise<any> {
+    return await this.prisma.invitation.create({
+      data,
+      select: {
+        id: true,
+        organizationId: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true
+      }
+    });
+  }
+
+  /**
+   * Get pending invitations of an organization
+   */
+  async getPendingInvitations(organizationId: string): Promise<any[]> {
+    return await this.prisma.invitation.findMany({
+      where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        invitedBy: true,
+        expiresAt: true,
+        createdAt: true
+      }
+    });
+  }
+
+  /**
+   * Find invitation by token hash
+   */
+  async getInvitationByTokenHash(tokenHash: string): Promise<any> {
+    return await this.prisma.invitation.findUnique({
+      where: { tokenHash },
+      include: { organization: true }
+    });
+  }
+
+  /**
+   * Accept invitation and create (or update) the membership with the given role
+   * @returns The membership, or null if the invitation was already accepted
+   */
+  async acceptInvitation(invitationId: string, userId: string, role: string): Promise<any> {
+    return await this.prisma.$transaction(async (tx) => {
+      // Only the first of concurrent accepts claims the invitation
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitationId, acceptedAt: null },
+        data: { acceptedAt: new Date() }
+      });
+      if (claimed.count === 0) return null;
+
+      const invitation = await tx.invitation.findUniqueOrThrow({ where: { id: invitationId } });
+      return await tx.membership.upsert({
+        where: { organizationId_userId: { organizationId: invitation.organizationId, userId } },
+        create: { organizationId: invitation.organizationId, userId, role },
+        update: { role }
+      });
+    });
+  }
+
+  /**
+   * Delete pending invitation
+   */
+  async deleteInvitation(organizationId: string, invitationId: string): Promise<boolean> {
+    const result = await this.prisma.invitation.deleteMany({
+      where: { id: invitationId, organizationId, acceptedAt: null }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Count bots created by a user
+   */
+  async countUserBots(userId: string): Promise<number> {
+    return await this.prisma.bot.count({
+      where: { userId, status: { not: 'failed' } }
+    });
+  }
+
+  /**
+   * Record metered usage event
+   */
+  async recordUsage(data: { userId: string; kind: string; botId?: string }): Promise<void> {
+    await this.prisma.usageEvent.create({ data });
+  }
+
+  /**
+   * Count usage events of a kind since a point in time
+   */
+  async countUsageSince(userId: string, kind: string, since: Date): Promise<number> {
+    return await this.prisma.usageEvent.count({
+      where: { userId, kind, createdAt: { gte: since } }
+    });
+  }
+
+  /**
+   * Get bots that have a stored wallet seed
+   */
+  async getBotsWithWalletSeed(): Promise<{ id: string; walletSeed: string }[]> {
+    const bots = await this.prisma.bot.findMany({
+      where: { walletSeed: { not: null } },
+      select: { id: true, walletSeed: true }
+    });
+
+    return bots as { id: string; walletSeed: string }[];
+  }
+
+  /**
+   * Replace a bot's stored (already sealed) wallet seed
+   */
+  async setSealedWalletSeed(botId: string, sealedSeed: string): Promise<void> {
+    await this.prisma.bot.update({
+      where: { id: botId },
+      data: { walletSeed: sealedSeed }
+    });
+  }
+
+  /**
+   * Create the deployment job for a bot
+   */
+  async createDeploymentJob(data: { botId: string; userId: string; config: any }): Promise<any> {
+    return await this.prisma.deploymentJob.create({
+      data: {
+        botId: data.botId,
+        userId: data.userId,
+        config: data.config
+      }
+    });
+  }
+
+  /**
+   * Get a bot's deployment job
+   */
+  async getDeploymentJob(botId: string): Promise<any> {
+    return await this.prisma.deploymentJob.findUnique({
+      where: { botId }
+    });
+  }
+
+  /**
+   * Get deployment jobs that still have work to do
+   */
+  async getUnfinishedDeploymentJobs(): Promise<any[]> {
+    return await this.prisma.deploymentJob.findMany({
+      where: { status: { in: ['queued', 'running'] } },
+      orderBy: { nextRunAt: 'asc' }
+    });
+  }
+
+  /**
+   * Update a deployment job
+   */
+  async updateDeploymentJob(jobId: string, data: any): Promise<any> {
+    return await this.prisma.deploymentJob.update({
+      where: { id: jobId },
+      data
+    });
+  }
+
+  /**
+   * Update a deployment job only while it has the given status, so work
+   * finishing after a cancel doesn't bring the job back. Returns null if the
+   * status has changed.
+   */
+  async updateDeploymentJobInStatus(jobId: string, status: string, data: any): Promise<any | null> {
+    const { count } = await this.prisma.deploymentJob.updateMany({
+      where: { id: jobId, status },
+      data
+    });
+
+    if (count === 0) return null;
+
+    return await this.prisma.deploymentJob.findUnique({
+      where: { id: jobId }
+    });
+  }
+
+  /**
+   * Append the next configuration version of a bot
+   */
+  async createBotConfigVersion(data: {
+    botId: string;
+    features?: any;
+    platforms?: any;
+    config?: any;
+    changes: any[];
+    reason: string;
+    rolledBackFrom?: number;
+    createdBy?: string;
+  }): Promise<any> {
+    return await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.botConfigVersion.findFirst({
+        where: { botId: data.botId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      return await tx.botConfigVersion.create({
+        data: {
+          botId: data.botId,
+          version: (latest?.version || 0) + 1,
+          features: data.features ?? undefined,
+          platforms: data.platforms ?? undefined,
+          config: data.config ?? undefined,
+          changes: data.changes,
+          reason: data.reason,
+          rolledBackFrom: data.rolledBackFrom,
+          createdBy: data.createdBy
+        }
+      });
+    });
+  }
+
+  /**
+   * Get a bot's configuration history, newest first
+   */
+  async getBotConfigVersions(botId: string, options?: {
+    limit?: number;
+    offset?: number;
+  }): Promise<any[]> {
+    return await this.prisma.botConfigVersion.findMany({
+      where: { botId },
+      orderBy: { version: 'desc' },
+      take: options?.limit || 50,
+      skip: options?.offset || 0
+    });
+  }
+
+  /**
+   * Get one configuration version of a bot
+   */
+  async getBotConfigVersion(botId: string, version: number): Promise<any> {
+    return await this.prisma.botConfigVersion.findUnique({
+      where: { botId_version: { botId, version } }
+    });
+  }
+
+  /**
+   * Get the current configuration version of a bot
+   */
+  async getLatestBotConfigVersion(botId: string): Promise<any> {
+    return await this.prisma.botConfigVersion.findFirst({
+      where: { botId },
+      orderBy: { version: 'desc' }
+    });
+  }
+
+  /**
+   * Create a webhook subscription
+   */
+  async createWebhook(data: {
+    userId: string;
+    botId?: string;
+    url: string;
+    secret: string;
+    eventTypes: string[];
+  }): Promise<any> {
+    return await this.prisma.webhookSubscription.create({
+      data: {
+        userId: data.userId,
+        botId: data.botId,
+        url: data.url,
+        secret: data.secret,
+        eventTypes: data.eventTypes
+      }
+    });
+  }
+
+  /**
+   * Get a user's webhook subscriptions
+   */
+  async getUserWebhooks(userId: string): Promise<any[]> {
+    return await this.prisma.webhookSubscription.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Get a webhook subscription owned by a user
+   */
+  async getUserWebhook(userId: string, webhookId: string): Promise<any> {
+    return await this.prisma.webhookSubscription.findFirst({
+      where: { id: webhookId, userId }
+    });
+  }
+
+  /**
+   * Update a webhook subscription
+   */
+  async updateWebhook(webhookId: string, data: any): Promise<any> {
+    return await this.prisma.webhookSubscription.update({
+      where: { id: webhookId },
+      data
+    });
+  }
+
+  /**
+   * Delete a webhook subscription and its delivery log
+   */
+  async deleteWebhook(userId: string, webhookId: string): Promise<boolean> {
+    const result = await this.prisma.webhookSubscription.deleteMany({
+      where: { id: webhookId, userId }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Active subscriptions that should receive an activity
+   */
+  async getWebhooksForActivity(userId: string, botId: string | null, type: string): Promise<any[]> {
+    return await this.prisma.webhookSubscription.findMany({
+      where: {
+        userId,
+        active: true,
+        OR: [{ botId: null }, ...(botId ? [{ botId }] : [])],
+        AND: [{ OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: type } }] }]
+      }
+    });
+  }
+
+  /**
+   * Create a webhook delivery
+   */
+  async createWebhookDelivery(data: {
+    subscriptionId: string;
+    activityId?: string;
+    eventType: string;
+    payload: any;
+  }): Promise<any> {
+    return await this.prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: data.subscriptionId,
+        activityId: data.activityId,
+        eventType: data.eventType,
+        payload: data.payload
+      }
+    });
+  }
+
+  /**
+   * Update a webhook delivery
+   */
+  async updateWebhookDelivery(deliveryId: string, data: any): Promise<any> {
+    return await this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data
+    });
+  }
+
+  /**
+   * Get a delivery of a webhook subscription
+   */
+  async getWebhookDelivery(subscriptionId: string, deliveryId: string): Promise<any> {
+    return await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, subscriptionId },
+      include: { subscription: true }
+    });
+  }
+
+  /**
+   * Get the delivery log of a webhook subscription
+   */
+  async getWebhookDeliveries(subscriptionId: string, options?: {
+    status?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<any[]> {
+    const where: any = { subscriptionId };
+
+    if (options?.status) {
+      where.status = options.status;
+    }
+
+    return await this.prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: options?.limit || 50,
+      skip: options?.offset || 0
+    });
+  }
+
+  /**
+   * Get deliveries still waiting to be sent
+   */
+  async getPendingWebhookDeliveries(): Promise<any[]> {
+    return await this.prisma.webhookDelivery.findMany({
+      where: { status: 'pending' },
+      orderBy: { nextAttemptAt: 'asc' }
+    });
+  }
+
+  /**
+   * Get the registered MCP instances with the number of tenants placed on each
+   */
+  async getMcpInstances(): Promise<any[]> {
+    return await this.prisma.mcpInstance.findMany({
+      include: { _count: { select: { placements: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Get an MCP instance
+   */
+  async getMcpInstance(instanceId: string): Promise<any> {
+    return await this.prisma.mcpInstance.findUnique({
+      where: { id: instanceId }
+    });
+  }
+
+  /**
+   * Register an MCP instance, or update the URL and capacity of a known one
+   */
+  async upsertMcpInstance(data: { id: string; url: string; capacity?: number }): Promise<any> {
+    return await this.prisma.mcpInstance.upsert({
+      where: { id: data.id },
+      create: data,
+      update: { url: data.url, capacity: data.capacity }
+    });
+  }
+
+  /**
+   * Update an MCP instance
+   */
+  async updateMcpInstance(instanceId: string, data: any): Promise<any> {
+    return await this.prisma.mcpInstance.update({
+      where: { id: instanceId },
+      data
+    });
+  }
+
+  /**
+   * Get the instance a tenant is placed on
+   */
+  async getTenantPlacement(tenantId: string): Promise<any> {
+    return await this.prisma.tenantPlacement.findUnique({
+      where: { tenantId }
+    });
+  }
+
+  /**
+   * Get the tenants placed on an instance
+   */
+  async getTenantPlacements(instanceId: string): Promise<any[]> {
+    return await this.prisma.tenantPlacement.findMany({
+      where: { instanceId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Place a tenant on an instance, or change its placement
+   */
+  async setTenantPlacement(tenantId: string, data: { instanceId?: string; status?: string }): Promise<any> {
+    return await this.prisma.tenantPlacement.upsert({
+      where: { tenantId },
+      create: { tenantId, instanceId: data.instanceId!, status: data.status },
+      update: data
+    });
+  }
+
+  /**
+   * Change a tenant's placement only while it has the given status, so two
+   * migrations can't both claim a tenant. Returns null if the status has changed.
+   */
+  async updateTenantPlacementInStatus(
+    tenantId: string,
+    status: string,
+    data: { instanceId?: string; status?: string; migratingTo?: string | null }
+  ): Promise<any | null> {
+    const { count } = await this.prisma.tenantPlacement.updateMany({
+      where: { tenantId, status },
+      data
+    });
+
+    if (count === 0) return null;
+
+    return await this.prisma.tenantPlacement.findUnique({
+      where: { tenantId }
+    });
+  }
+
+  /**
+   * Get the placements that have been migrating since before the cutoff
+   */
+  async getStaleMigratingPlacements(cutoff: Date): Promise<any[]> {
+    return await this.prisma.tenantPlacement.findMany({
+      where: { status: 'migrating', updatedAt: { lt: cutoff } }
+    });
+  }
+
+  /**
+   * Place the given tenants on an instance unless they are already placed
+   */
+  async createMissingTenantPlacements(tenantIds: string[], instanceId: string): Promise<number> {
+    const result = await this.prisma.tenantPlacement.createMany({
+      data: tenantIds.map(tenantId => ({ tenantId, instanceId })),
+      skipDuplicates: true
+    });
+    return result.count;
+  }
+
+  /**
+   * Get the wallet tenant ids of all bots
+   */
+  async getBotTenantIds(): Promise<string[]> {
+    const bots = await this.prisma.bot.findMany({
+      where: { tenantId: { not: null } },
+      select: { tenantId: true }
+    });
+    return bots.map(bot => bot.tenantId!);
+  }
+
+  /**
+   * Assign transactions recorded without a tenant to the tenant of the bot
+   * whose wallet sent them
+   * @returns Number of transactions assigned
+   */
+  async assignTransactionTenants(): Promise<number> {
+    const bots = await this.prisma.bot.findMany({
+      where: { tenantId: { not: null }, walletAddress: { not: null } },
+      select: { tenantId: true, walletAddress: true }
+    });
+
+    let assigned = 0;
+    for (const bot of bots) {
+      const { count } = await this.prisma.transaction.updateMany({
+        where: { from: bot.walletAddress!, tenantId: null },
+        data: { tenantId: bot.tenantId }
+      });
+      assigned += count;
+    }
+    return assigned;
+  }
+
   /**
    * Cleanup resources on shutdown
    */
@@ -0,0 +1,304 @@
+import { DatabaseService } from './database';
+import { ContainerManager, DEPLOYMENT_STAGES, DeploymentStage, DeploymentState, UserConfig } from './containerManager';
+import { EventBus } from './events';
+import { ActivityLog } from './activities';
+
+export type DeploymentJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+const MAX_STAGE_ATTEMPTS = parseInt(process.env.DEPLOYMENT_MAX_STAGE_ATTEMPTS || '5');
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Exponential backoff for the nth failed attempt of a stage
+ */
+export function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * The bot is usable once it is registered with Eliza; DAO deployment runs after
+ */
+function isBotLive(stage: DeploymentStage): boolean {
+  return DEPLOYMENT_STAGES.indexOf(stage) > DEPLOYMENT_STAGES.indexOf('eliza_registration');
+}
+
+/**
+ * Persisted bot deployment jobs.
+ *
+ * Each job walks through DEPLOYMENT_STAGES, storing its position after every
+ * stage. A failed stage is retried with backoff; once it runs out of attempts
+ * the job fails and can be retried from the same stage. Unfinished jobs are
+ * picked up again by resume() when the orchestrator starts.
+ */
+export class DeploymentQueue {
+  private db: DatabaseService;
+  private containerManager: ContainerManager;
+  private events: EventBus;
+  private activities: ActivityLog;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private running: Set<string> = new Set();
+
+  constructor(db: DatabaseService, containerManager: ContainerManager, events: EventBus, activities: ActivityLog) {
+    this.db = db;
+    this.containerManager = containerManager;
+    this.events = events;
+    this.activities = activities;
+  }
+
+  /**
+   * Persist a deployment job for a bot and start it
+   */
+  async enqueue(botId: string, userId: string, config: UserConfig): Promise<any> {
+    const job = await this.db.createDeploymentJob({ botId, userId, config });
+    this.schedule(botId, 0);
+    return job;
+  }
+
+  /**
+   * Reschedule jobs left unfinished by a previous process
+   */
+  async resume(): Promise<number> {
+    const jobs = await this.db.getUnfinishedDeploymentJobs();
+
+    for (const job of jobs) {
+      this.schedule(job.botId, new Date(job.nextRunAt).getTime() - Date.now());
+    }
+
+    return jobs.length;
+  }
+
+  /**
+   * Restart a failed or cancelled job from the stage it stopped at
+   */
+  async retry(job: any): Promise<any> {
+    const updated = await this.saveJob(job.id, {
+      status: 'queued',
+      attempts: 0,
+      lastError: null,
+      nextRunAt: new Date(),
+      completedAt: null
+    });
+
+    if (!isBotLive(job.stage)) {
+      await this.updateBot(job.botId, { status: 'deploying' });
+    }
+
+    this.schedule(job.botId, 0);
+    return updated;
+  }
+
+  /**
+   * Stop a queued or running job. A stage already in flight finishes first
+   * and is then rolled back.
+   */
+  async cancel(job: any): Promise<any> {
+    clearTimeout(this.timers.get(job.botId));
+    this.timers.delete(job.botId);
+
+    const updated = await this.saveJob(job.id, {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+
+    if (!isBotLive(job.stage)) {
+      await this.updateBot(job.botId, { status: 'failed' });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Deployment progress as reported to clients
+   */
+  toProgress(job: any): any {
+    return {
+      jobId: job.id,
+      status: job.status as DeploymentJobStatus,
+      stage: job.stage,
+      stages: DEPLOYMENT_STAGES,
+      attempts: job.attempts,
+      maxAttempts: MAX_STAGE_ATTEMPTS,
+      error: job.lastError || undefined,
+      tenantId: job.tenantId || undefined,
+      walletAddress: job.walletAddress || undefined,
+      nextRunAt: job.status === 'queued' || job.status === 'running' ? job.nextRunAt : undefined,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt || undefined
+    };
+  }
+
+  /**
+   * Persist job changes and push the new progress to the bot's audience
+   */
+  private async saveJob(jobId: string, data: any): Promise<any> {
+    const job = await this.db.updateDeploymentJob(jobId, data);
+    await this.publishProgress(job);
+    return job;
+  }
+
+  /**
+   * Persist changes to a job that still has the given status. Returns null
+   * once the job has been cancelled, leaving it untouched.
+   */
+  private async saveJobInStatus(jobId: string, status: DeploymentJobStatus, data: any): Promise<any | null> {
+    const job = await this.db.updateDeploymentJobInStatus(jobId, status, data);
+    if (job) {
+      await this.publishProgress(job);
+    }
+    return job;
+  }
+
+  private async publishProgress(job: any): Promise<void> {
+    await this.events.publishToBot(job.botId, { type: 'deployment', botId: job.botId, deployment: this.toProgress(job) });
+  }
+
+  /**
+   * Update the bot record, announcing status changes
+   */
+  private async updateBot(botId: string, data: any): Promise<void> {
+    await this.db.updateBot(botId, data);
+    if (data.status) {
+      await this.events.publishToBot(botId, { type: 'bot_status', botId, status: data.status });
+    }
+  }
+
+  private schedule(botId: string, delayMs: number): void {
+    clearTimeout(this.timers.get(botId));
+
+    this.timers.set(botId, setTimeout(() => {
+      this.timers.delete(botId);
+      this.run(botId).catch(error => {
+        console.error(`❌ Deployment job for bot ${botId} crashed:`, error);
+      });
+    }, Math.max(0, delayMs)));
+  }
+
+  /**
+   * Run stages until the job completes, fails or needs to back off
+   */
+  private async run(botId: string): Promise<void> {
+    if (this.running.has(botId)) return;
+    this.running.add(botId);
+
+    try {
+      let job = await this.db.getDeploymentJob(botId);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+      if (job.status === 'queued') {
+        job = await this.saveJobInStatus(job.id, 'queued', { status: 'running' });
+        if (!job) return;
+      }
+
+      for (let index = DEPLOYMENT_STAGES.indexOf(job.stage); index < DEPLOYMENT_STAGES.length; index++) {
+        const stage = DEPLOYMENT_STAGES[index];
+
+        // Pick up a cancel that arrived while the previous stage ran
+        const current = await this.db.getDeploymentJob(botId);
+        if (current?.status !== 'running') return;
+
+        try {
+          const state = {
+            tenantId: job.tenantId || undefined,
+            walletAddress: job.walletAddress || undefined
+          };
+          const produced = await this.containerManager.runDeploymentStage(stage, job.config, state);
+
+          const nextStage = DEPLOYMENT_STAGES[index + 1];
+          const saved = await this.saveJobInStatus(job.id, 'running', {
+            ...produced,
+            stage: nextStage || stage,
+            attempts: 0,
+            lastError: null,
+            ...(nextStage ? {} : { status: 'completed', completedAt: new Date() })
+          });
+
+          // Cancelled while the stage ran
+          if (!saved) {
+            await this.rollbackStage(stage, job, { ...state, ...produced });
+            return;
+          }
+
+          job = saved;
+          await this.onStageCompleted(stage, job);
+        } catch (error: any) {
+          await this.onStageFailed(stage, job, error);
+          return;
+        }
+      }
+    } finally {
+      this.running.delete(botId);
+    }
+  }
+
+  private async onStageCompleted(stage: DeploymentStage, job: any): Promise<void> {
+    if (stage === 'tenant_id') {
+      // Replace the temporary tenant ID so cleanup works even if a later stage fails
+      await this.updateBot(job.botId, { tenantId: job.tenantId });
+    } else if (stage === 'eliza_registration') {
+      await this.updateBot(job.botId, {
+        tenantId: job.tenantId,
+        walletAddress: job.walletAddress,
+        elizaPort: this.containerManager.getSharedElizaPort(), // All bots use shared port
+        status: 'active'
+      });
+      await this.activities.record({
+        userId: job.userId,
+        botId: job.botId,
+        type: 'bot_created',
+        title: 'Bot deployed',
+        description: `Your bot is live with wallet ${job.walletAddress}`,
+        metadata: { tenantId: job.tenantId, walletAddress: job.walletAddress },
+        severity: 'success'
+      });
+      console.log(`✅ Bot ${job.botId} deployment completed`);
+      console.log(`   Tenant ID: ${job.tenantId}`);
+      console.log(`   Wallet: ${job.walletAddress}`);
+    }
+  }
+
+  /**
+   * Undo a stage that completed after its job was cancelled
+   */
+  private async rollbackStage(stage: DeploymentStage, job: any, state: DeploymentState): Promise<void> {
+    try {
+      await this.containerManager.rollbackDeploymentStage(stage, state);
+      console.log(`↩️ Rolled back deployment stage ${stage} of cancelled bot ${job.botId}`);
+    } catch (error: any) {
+      console.error(`❌ Rolling back deployment stage ${stage} of cancelled bot ${job.botId} failed: ${error.message}`);
+    }
+  }
+
+  private async onStageFailed(stage: DeploymentStage, job: any, error: any): Promise<void> {
+    const attempts = job.attempts + 1;
+
+    if (attempts < MAX_STAGE_ATTEMPTS) {
+      const delay = retryDelay(attempts);
+      const saved = await this.saveJobInStatus(job.id, 'running', {
+        attempts,
+        lastError: error.message,
+        nextRunAt: new Date(Date.now() + delay)
+      });
+      if (!saved) return;
+
+      console.warn(`⚠️ Deployment stage ${stage} failed for bot ${job.botId} (attempt ${attempts}/${MAX_STAGE_ATTEMPTS}), retrying in ${delay / 1000}s: ${error.message}`);
+      this.schedule(job.botId, delay);
+      return;
+    }
+
+    const saved = await this.saveJobInStatus(job.id, 'running', {
+      status: 'failed',
+      attempts,
+      lastError: error.message,
+      completedAt: new Date()
+    });
+    if (!saved) return;
+
+    // A failed DAO deployment leaves the bot running without DAO features
+    if (!isBotLive(stage)) {
+      await this.updateBot(job.botId, { status: 'failed' });
+    }
+
+    console.error(`❌ Deployment of bot ${job.botId} failed at stage ${stage}: ${error.message}`);
+  }
+}
@@ -0,0 +1,105 @@
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import { DatabaseService } from './database';
+
+/**
+ * Events pushed to clients over GET /api/events
+ */
+export type PlatformEvent =
+  | { type: 'deployment'; botId: string; deployment: any }
+  | { type: 'activity'; activity: any }
+  | { type: 'bot_status'; botId: string; status: string }
+  | { type: 'transaction'; botId: string; transaction: TransactionUpdate };
+
+export interface TransactionUpdate {
+  id?: string;            // MCP transaction id, when the MCP tracks one
+  kind: 'send' | 'token_send' | 'treasury_fund';
+  state: string;          // 'pending_approval', 'rejected', 'initiated', 'sent', 'completed', 'failed'
+  txIdentifier?: string;
+  amount?: string;
+  toAddress?: string;
+  error?: string;
+}
+
+export type PlatformEventListener = (event: PlatformEvent) => void;
+
+type StreamUser = NonNullable<Express.Request['user']>;
+
+const STREAM_TICKET_TTL_MS = 30 * 1000;
+
+/**
+ * Single-use tickets that open an event stream. EventSource cannot send
+ * headers, so clients exchange their credentials for a ticket that expires
+ * in seconds and put it in the stream URL instead of the token itself.
+ */
+export class StreamTickets {
+  private tickets = new Map<string, { user: StreamUser; expiresAt: number }>();
+
+  /**
+   * Issue a ticket for an authenticated user
+   */
+  issue(user: StreamUser): { ticket: string; expiresIn: number } {
+    this.sweep();
+    const ticket = crypto.randomBytes(32).toString('base64url');
+    this.tickets.set(ticket, { user, expiresAt: Date.now() + STREAM_TICKET_TTL_MS });
+    return { ticket, expiresIn: STREAM_TICKET_TTL_MS / 1000 };
+  }
+
+  /**
+   * Use up a ticket; returns its user, or null if it is unknown, used or expired
+   */
+  redeem(ticket: string): StreamUser | null {
+    const entry = this.tickets.get(ticket);
+    this.tickets.delete(ticket);
+    return entry && entry.expiresAt > Date.now() ? entry.user : null;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [ticket, entry] of this.tickets) {
+      if (entry.expiresAt <= now) this.tickets.delete(ticket);
+    }
+  }
+}
+
+/**
+ * In-process fan-out of platform events to connected users.
+ * Bot events reach every member of the bot's organization.
+ */
+export class EventBus {
+  private db: DatabaseService;
+  private emitter = new EventEmitter();
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+    this.emitter.setMaxListeners(0); // One listener per open stream
+  }
+
+  /**
+   * Listen for events addressed to a user; returns an unsubscribe function
+   */
+  subscribe(userId: string, listener: PlatformEventListener): () => void {
+    this.emitter.on(userId, listener);
+    return () => this.emitter.off(userId, listener);
+  }
+
+  /**
+   * Deliver an event to one user
+   */
+  publishToUser(userId: string, event: PlatformEvent): void {
+    this.emitter.emit(userId, event);
+  }
+
+  /**
+   * Deliver an event to everyone who can see a bot. Never throws; events are best-effort.
+   */
+  async publishToBot(botId: string, event: PlatformEvent): Promise<void> {
+    try {
+      for (const userId of await this.db.getBotAudience(botId)) {
+        this.emitter.emit(userId, event);
+      }
+    } catch (error) {
+      console.error(`Failed to publish ${event.type} event for bot ${botId}:`, error);
+    }
+  }
+}
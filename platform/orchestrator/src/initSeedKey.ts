@@ -0,0 +1,21 @@
+import * as dotenv from 'dotenv';
+import { LocalKeyProvider, getSeedMasterKeyFile } from './seedEncryption';
+
+/**
+ * Create the seed master key ring at SEED_MASTER_KEY_FILE. Run once per
+ * deployment; the MCP service reads the same ring. Refuses to replace an
+ * existing ring, since seeds sealed with its keys could no longer be opened.
+ *
+ * Usage: pnpm seeds:init
+ */
+
+dotenv.config();
+
+try {
+  const keyFile = getSeedMasterKeyFile();
+  const keyId = new LocalKeyProvider(keyFile).create();
+  console.log(`🔐 Created seed master key ${keyId} at ${keyFile}`);
+} catch (error) {
+  console.error('Seed key ring creation failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,174 @@
+import { DatabaseService } from './database';
+
+export type Tier = 'basic' | 'premium' | 'enterprise';
+
+export type Feature = 'wallet' | 'tokens' | 'dao' | 'treasury' | 'marketplace' | 'webchat';
+
+export type UsageKind = 'transfer' | 'chat_message';
+
+export interface TierPolicy {
+  maxBots: number | null;              // null = unlimited
+  maxDailyTransfers: number | null;
+  maxDailyChatMessages: number | null;
+  features: Feature[];
+}
+
+/**
+ * Quota policy per subscription tier. Edit here to change plan limits.
+ */
+export const TIER_POLICIES: Record<Tier, TierPolicy> = {
+  basic: {
+    maxBots: 1,
+    maxDailyTransfers: 10,
+    maxDailyChatMessages: 100,
+    features: ['wallet', 'tokens', 'webchat']
+  },
+  premium: {
+    maxBots: 5,
+    maxDailyTransfers: 100,
+    maxDailyChatMessages: 1000,
+    features: ['wallet', 'tokens', 'webchat', 'dao', 'treasury']
+  },
+  enterprise: {
+    maxBots: null,
+    maxDailyTransfers: null,
+    maxDailyChatMessages: null,
+    features: ['wallet', 'tokens', 'webchat', 'dao', 'treasury', 'marketplace']
+  }
+};
+
+/**
+ * Thrown when a request would exceed the caller's tier policy
+ */
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly quota: 'bots' | 'feature' | UsageKind,
+    public readonly tier: Tier,
+    public readonly details: { limit?: number; used?: number; feature?: Feature; resetsAt?: Date } = {}
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+
+  /** Feature gates are permission errors; counters are rate limits */
+  get statusCode(): number {
+    return this.quota === 'feature' ? 403 : 429;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      quota: this.quota,
+      tier: this.tier,
+      ...this.details
+    };
+  }
+}
+
+/**
+ * Start of the current UTC day; daily counters reset at midnight UTC
+ */
+function startOfDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export class QuotaService {
+  private db: DatabaseService;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  /**
+   * Resolve the policy for a user's tier (unknown tiers fall back to basic)
+   */
+  async getPolicy(userId: string): Promise<{ tier: Tier; policy: TierPolicy }> {
+    const user = await this.db.getUser(userId);
+    const tier: Tier = user?.tier in TIER_POLICIES ? user.tier : 'basic';
+    return { tier, policy: TIER_POLICIES[tier] };
+  }
+
+  /**
+   * Ensure the user may create another bot with the requested features
+   */
+  async assertCanCreateBot(userId: string, features: Record<string, boolean> = {}): Promise<void> {
+    const { tier, policy } = await this.getPolicy(userId);
+
+    const requested = Object.keys(features).filter(f => features[f]) as Feature[];
+    const blocked = requested.find(f => !policy.features.includes(f));
+    if (blocked) {
+      throw new QuotaExceededError(`Feature '${blocked}' is not available on the ${tier} tier`, 'feature', tier, { feature: blocked });
+    }
+
+    if (policy.maxBots !== null) {
+      const used = await this.db.countUserBots(userId);
+      if (used >= policy.maxBots) {
+        throw new QuotaExceededError(`The ${tier} tier allows ${policy.maxBots} bot(s)`, 'bots', tier, { limit: policy.maxBots, used });
+      }
+    }
+  }
+
+  /**
+   * Ensure a feature is included in the user's tier
+   */
+  async assertFeature(userId: string, feature: Feature): Promise<void> {
+    const { tier, policy } = await this.getPolicy(userId);
+
+    if (!policy.features.includes(feature)) {
+      throw new QuotaExceededError(`Feature '${feature}' is not available on the ${tier} tier`, 'feature', tier, { feature });
+    }
+  }
+
+  /**
+   * Ensure the daily allowance for a usage kind is not used up
+   */
+  async assertDailyUsage(userId: string, kind: UsageKind): Promise<void> {
+    const { tier, policy } = await this.getPolicy(userId);
+    const limit = kind === 'transfer' ? policy.maxDailyTransfers : policy.maxDailyChatMessages;
+    if (limit === null) return;
+
+    const since = startOfDay();
+    const used = await this.db.countUsageSince(userId, kind, since);
+    if (used >= limit) {
+      const label = kind === 'transfer' ? 'transfers' : 'chat messages';
+      throw new QuotaExceededError(`Daily limit of ${limit} ${label} reached for the ${tier} tier`, kind, tier, {
+        limit,
+        used,
+        resetsAt: new Date(since.getTime() + 24 * 60 * 60 * 1000)
+      });
+    }
+  }
+
+  /**
+   * Record metered usage
+   */
+  async recordUsage(userId: string, kind: UsageKind, botId?: string): Promise<void> {
+    await this.db.recordUsage({ userId, kind, botId });
+  }
+
+  /**
+   * Current usage against the user's policy
+   */
+  async getUsage(userId: string): Promise<any> {
+    const { tier, policy } = await this.getPolicy(userId);
+    const since = startOfDay();
+
+    const [bots, transfers, chatMessages] = await Promise.all([
+      this.db.countUserBots(userId),
+      this.db.countUsageSince(userId, 'transfer', since),
+      this.db.countUsageSince(userId, 'chat_message', since)
+    ]);
+
+    return {
+      tier,
+      features: policy.features,
+      resetsAt: new Date(since.getTime() + 24 * 60 * 60 * 1000),
+      usage: {
+        bots: { used: bots, limit: policy.maxBots },
+        dailyTransfers: { used: transfers, limit: policy.maxDailyTransfers },
+        dailyChatMessages: { used: chatMessages, limit: policy.maxDailyChatMessages }
+      }
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { DatabaseService } from './database';
+import { getSeedEncryption } from './seedEncryption';
+
+/**
+ * Rotate the seed master key and re-wrap every seed the orchestrator stores:
+ * Bot.walletSeed rows and tenant seed files under USER_DATA_PATH.
+ * Legacy plaintext seeds found along the way are sealed.
+ *
+ * Usage: pnpm seeds:rotate [--rewrap-only]
+ *
+ * Run the MCP service's `rotate-seed-key --rewrap-only` afterwards so its
+ * own seed files move to the new key as well.
+ */
+
+dotenv.config();
+
+async function main() {
+  const rewrapOnly = process.argv.includes('--rewrap-only');
+  const seedEncryption = getSeedEncryption();
+  const db = new DatabaseService();
+
+  if (!rewrapOnly) {
+    const keyId = await seedEncryption.rotateMasterKey();
+    console.log(`🔐 New active seed master key: ${keyId}`);
+  }
+
+  let rewrapped = 0;
+
+  // Bot.walletSeed
+  await db.initialize();
+  for (const bot of await db.getBotsWithWalletSeed()) {
+    const sealed = await seedEncryption.rewrapSeed(bot.walletSeed);
+    if (sealed !== bot.walletSeed) {
+      await db.setSealedWalletSeed(bot.id, sealed);
+      rewrapped++;
+    }
+  }
+  await db.disconnect();
+
+  // Tenant seed files: <USER_DATA_PATH>/<tenantId>/storage/seeds/<tenantId>/seed
+  const baseDir = process.env.USER_DATA_PATH || path.join(process.cwd(), '../../user-data');
+  const tenants = await fs.readdir(baseDir).catch(() => [] as string[]);
+
+  for (const tenantId of tenants) {
+    const seedPath = path.join(baseDir, tenantId, 'storage/seeds', tenantId, 'seed');
+    const current = await fs.readFile(seedPath, 'utf-8').catch(() => null);
+    if (current === null) continue;
+
+    const sealed = await seedEncryption.rewrapSeed(current);
+    if (sealed !== current) {
+      await fs.writeFile(`${seedPath}.tmp`, sealed, { mode: 0o600 });
+      await fs.rename(`${seedPath}.tmp`, seedPath);
+      rewrapped++;
+    }
+  }
+
+  console.log(`✓ Re-wrapped ${rewrapped} seed(s)`);
+}
+
+main().catch(error => {
+  console.error('Seed key rotation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import * as dotenv from 'dotenv';
+import { getServiceKeys } from './serviceAuth';
+
+/**
+ * Rotate the key the orchestrator signs service calls with. The previous
+ * keys stay valid so calls signed before the rotation are still accepted.
+ *
+ * Usage: pnpm service-keys:rotate [--prune]
+ *
+ * Once every service reads the new key ring, run with --prune to stop
+ * accepting every key but the active one.
+ */
+
+dotenv.config();
+
+function main() {
+  const prune = process.argv.includes('--prune');
+  const keys = getServiceKeys();
+
+  if (prune) {
+    const removed = keys.prune();
+    console.log(`✓ Retired ${removed.length} service signing key(s)${removed.length ? `: ${removed.join(', ')}` : ''}`);
+    return;
+  }
+
+  const keyId = keys.rotate();
+  console.log(`🔐 New active service signing key: ${keyId}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Service key rotation failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Envelope encryption for wallet seeds.
+ *
+ * Every seed is encrypted with its own random data key (AES-256-GCM). The data
+ * key is encrypted ("wrapped") by a KeyProvider and stored next to the
+ * ciphertext. Rotating the master key only re-wraps data keys.
+ *
+ * Sealed values look like `enc:v1:<base64url JSON>` so they can live in the
+ * same DB columns and files that used to hold plaintext seeds. The MCP service
+ * reads the same format (services/midnight-mcp/src/utils/seed-encryption.ts).
+ */
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+
+interface SeedEnvelope {
+  keyId: string;        // Master key that wrapped the data key
+  wrappedKey: string;   // Data key encrypted by the key provider (base64)
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * Wraps and unwraps data keys. Mirrors the encrypt/decrypt data key calls of
+ * a KMS so a hosted provider can replace the local master key file.
+ */
+export interface KeyProvider {
+  wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: string }>;
+  unwrapKey(keyId: string, wrappedKey: string): Promise<Buffer>;
+  /** Create a new master key and make it the active one; returns its id */
+  rotate(): Promise<string>;
+  activeKeyId(): Promise<string>;
+}
+
+interface KeyRing {
+  activeKeyId: string;
+  keys: Record<string, string>; // keyId -> base64 256-bit key
+}
+
+/**
+ * Master keys kept in a local key ring file (mode 0600). Old keys stay in the
+ * ring so data wrapped before a rotation can still be read.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private keyFile: string;
+
+  constructor(keyFile: string) {
+    this.keyFile = keyFile;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: string }> {
+    const ring = this.loadRing();
+    const masterKey = Buffer.from(ring.keys[ring.activeKeyId], 'base64');
+    return { keyId: ring.activeKeyId, wrappedKey: aesEncrypt(masterKey, dataKey) };
+  }
+
+  async unwrapKey(keyId: string, wrappedKey: string): Promise<Buffer> {
+    const ring = this.loadRing();
+    const key = ring.keys[keyId];
+    if (!key) {
+      throw new Error(`Master key ${keyId} not found in ${this.keyFile}`);
+    }
+    return aesDecrypt(Buffer.from(key, 'base64'), wrappedKey);
+  }
+
+  async rotate(): Promise<string> {
+    const ring = this.loadRing();
+    const keyId = newKeyId();
+    ring.keys[keyId] = crypto.randomBytes(32).toString('base64');
+    ring.activeKeyId = keyId;
+    this.saveRing(ring);
+    return keyId;
+  }
+
+  async activeKeyId(): Promise<string> {
+    return this.loadRing().activeKeyId;
+  }
+
+  /**
+   * Create the key ring with its first master key. Never replaces an existing
+   * ring: seeds sealed with its keys could no longer be opened.
+   */
+  create(): string {
+    if (fs.existsSync(this.keyFile)) {
+      throw new Error(`Seed master key ring already exists at ${this.keyFile}`);
+    }
+    const keyId = newKeyId();
+    this.saveRing({ activeKeyId: keyId, keys: { [keyId]: crypto.randomBytes(32).toString('base64') } });
+    return keyId;
+  }
+
+  private loadRing(): KeyRing {
+    if (!fs.existsSync(this.keyFile)) {
+      throw new Error(`Seed master key ring not found at ${this.keyFile}; create it with \`pnpm seeds:init\` or point SEED_MASTER_KEY_FILE at the shared ring`);
+    }
+    return JSON.parse(fs.readFileSync(this.keyFile, 'utf-8'));
+  }
+
+  private saveRing(ring: KeyRing): void {
+    fs.mkdirSync(path.dirname(this.keyFile), { recursive: true, mode: 0o700 });
+    const tmpFile = `${this.keyFile}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(ring, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpFile, this.keyFile);
+  }
+}
+
+export class SeedEncryption {
+  private provider: KeyProvider;
+
+  constructor(provider: KeyProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Check whether a stored value is a sealed envelope
+   */
+  isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Seal a plaintext seed. Already sealed values are returned unchanged.
+   */
+  async encryptSeed(seed: string): Promise<string> {
+    if (this.isEncrypted(seed)) return seed;
+
+    const dataKey = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(seed, 'utf-8'), cipher.final()]);
+    const { keyId, wrappedKey } = await this.provider.wrapKey(dataKey);
+
+    return encodeEnvelope({
+      keyId,
+      wrappedKey,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    });
+  }
+
+  /**
+   * Open a sealed seed. Legacy plaintext values are returned as-is.
+   */
+  async decryptSeed(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) return value.trim();
+
+    const envelope = decodeEnvelope(value);
+    const dataKey = await this.provider.unwrapKey(envelope.keyId, envelope.wrappedKey);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf-8');
+  }
+
+  /**
+   * Re-wrap a sealed seed's data key with the active master key.
+   * Plaintext values are sealed. The seed ciphertext is not touched.
+   */
+  async rewrapSeed(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) return this.encryptSeed(value.trim());
+
+    const envelope = decodeEnvelope(value);
+    if (envelope.keyId === await this.provider.activeKeyId()) return value;
+
+    const dataKey = await this.provider.unwrapKey(envelope.keyId, envelope.wrappedKey);
+    const { keyId, wrappedKey } = await this.provider.wrapKey(dataKey);
+    return encodeEnvelope({ ...envelope, keyId, wrappedKey });
+  }
+
+  /**
+   * Create a new active master key
+   */
+  async rotateMasterKey(): Promise<string> {
+    return this.provider.rotate();
+  }
+
+  /**
+   * Active master key; fails when the key ring can't be read
+   */
+  async activeKeyId(): Promise<string> {
+    return this.provider.activeKeyId();
+  }
+}
+
+function newKeyId(): string {
+  return `mk_${new Date().toISOString().slice(0, 10).replace(/-/g, '')}_${crypto.randomBytes(4).toString('hex')}`;
+}
+
+function aesEncrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function aesDecrypt(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, 12));
+  decipher.setAuthTag(raw.subarray(12, 28));
+  return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+}
+
+function encodeEnvelope(envelope: SeedEnvelope): string {
+  return ENVELOPE_PREFIX + Buffer.from(JSON.stringify(envelope)).toString('base64url');
+}
+
+function decodeEnvelope(value: string): SeedEnvelope {
+  return JSON.parse(Buffer.from(value.slice(ENVELOPE_PREFIX.length), 'base64url').toString('utf-8'));
+}
+
+let seedEncryption: SeedEncryption | null = null;
+
+/**
+ * Key ring file of the configured key provider. There is no default: a ring
+ * created in the wrong place would strand every seed sealed so far.
+ */
+export function getSeedMasterKeyFile(): string {
+  const keyFile = process.env.SEED_MASTER_KEY_FILE;
+  if (!keyFile) {
+    throw new Error('SEED_MASTER_KEY_FILE is not configured');
+  }
+  return keyFile;
+}
+
+/**
+ * Shared SeedEncryption using the configured key provider.
+ * The orchestrator and MCP service must point at the same key ring.
+ */
+export function getSeedEncryption(): SeedEncryption {
+  if (!seedEncryption) {
+    seedEncryption = new SeedEncryption(new LocalKeyProvider(getSeedMasterKeyFile()));
+  }
+  return seedEncryption;
+}
@@ -0,0 +1,244 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Signed credentials for calls to the MCP tenant routes and the shared Eliza
+ * service's /tenants routes.
+ *
+ * Each request carries an HMAC-SHA256 signature over its method, path and
+ * query, a timestamp, a random nonce and a hash of its body, made with the
+ * active key of a service key ring the orchestrator issues. The services read
+ * the same ring and reject requests that are unsigned, signed with an unknown
+ * key, outside the replay window or seen before
+ * (services/midnight-mcp/src/utils/service-auth.ts).
+ *
+ * Rotating adds a new active key and keeps the old ones valid until they are
+ * pruned, so calls signed just before a rotation are still accepted.
+ *
+ * The same ring signs the tenant tokens bot owners hand to MCP clients of a
+ * bot's wallet (the /mcp/:tenantId endpoint). Each token has an id, so one
+ * token can be revoked on its own; pruning the key tokens were signed with
+ * revokes all of them.
+ *
+ * Ring keys aren't used directly: a key is derived from each one per purpose.
+ * The Eliza service signs its own calls to the MCP service, so it gets a copy
+ * of the ring holding only the request signing keys (SERVICE_REQUEST_KEY_FILE),
+ * which can't be used to issue tenant tokens.
+ */
+
+export const SERVICE_KEY_ID_HEADER = 'X-Service-Key-Id';
+export const SERVICE_TIMESTAMP_HEADER = 'X-Service-Timestamp';
+export const SERVICE_NONCE_HEADER = 'X-Service-Nonce';
+export const SERVICE_SIGNATURE_HEADER = 'X-Service-Signature';
+
+export const TENANT_TOKEN_PREFIX = 'mcpt';
+
+export type ServiceKeyPurpose = 'service-request' | 'tenant-token';
+
+interface ServiceKeyRing {
+  activeKeyId: string;
+  keys: Record<string, string>; // keyId -> base64 256-bit key
+}
+
+/**
+ * The key a ring key signs with for one purpose; the services derive the same one
+ */
+export function purposeKey(secret: Buffer, purpose: ServiceKeyPurpose): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), `midnightos:${purpose}`, 32));
+}
+
+/**
+ * Service signing keys kept in a local key ring file (mode 0600)
+ */
+export class ServiceKeys {
+  /**
+   * @param requestKeyFile Where to keep the copy of the ring holding only the
+   * request signing keys, for services that sign calls but mustn't issue tenant tokens
+   */
+  constructor(
+    private readonly keyFile: string,
+    private readonly requestKeyFile?: string
+  ) {}
+
+  activeKey(purpose: ServiceKeyPurpose): { keyId: string; secret: Buffer } {
+    const ring = this.loadRing();
+    return { keyId: ring.activeKeyId, secret: purposeKey(Buffer.from(ring.keys[ring.activeKeyId], 'base64'), purpose) };
+  }
+
+  /**
+   * Create a new signing key and make it the active one
+   * @returns The new key id
+   */
+  rotate(): string {
+    const ring = this.loadRing();
+    const keyId = newKeyId();
+    ring.keys[keyId] = crypto.randomBytes(32).toString('base64');
+    ring.activeKeyId = keyId;
+    this.saveRing(ring);
+    return keyId;
+  }
+
+  /**
+   * Stop accepting every key but the active one
+   * @returns Ids of the removed keys
+   */
+  prune(): string[] {
+    const ring = this.loadRing();
+    const removed = Object.keys(ring.keys).filter(keyId => keyId !== ring.activeKeyId);
+    if (removed.length === 0) return [];
+
+    this.saveRing({ activeKeyId: ring.activeKeyId, keys: { [ring.activeKeyId]: ring.keys[ring.activeKeyId] } });
+    return removed;
+  }
+
+  private loadRing(): ServiceKeyRing {
+    if (!fs.existsSync(this.keyFile)) {
+      const keyId = newKeyId();
+      const ring: ServiceKeyRing = { activeKeyId: keyId, keys: { [keyId]: crypto.randomBytes(32).toString('base64') } };
+      this.saveRing(ring);
+      console.log(`🔐 Created service signing key ${keyId} at ${this.keyFile}`);
+      return ring;
+    }
+
+    const ring: ServiceKeyRing = JSON.parse(fs.readFileSync(this.keyFile, 'utf-8'));
+    if (this.requestKeyFile && !fs.existsSync(this.requestKeyFile)) {
+      this.saveRequestKeys(ring);
+    }
+    return ring;
+  }
+
+  private saveRing(ring: ServiceKeyRing): void {
+    writeKeyFile(this.keyFile, ring);
+    this.saveRequestKeys(ring);
+  }
+
+  private saveRequestKeys(ring: ServiceKeyRing): void {
+    if (!this.requestKeyFile) return;
+
+    const keys = Object.fromEntries(Object.entries(ring.keys).map(([keyId, key]) => (
+      [keyId, purposeKey(Buffer.from(key, 'base64'), 'service-request').toString('base64')]
+    )));
+    writeKeyFile(this.requestKeyFile, { activeKeyId: ring.activeKeyId, keys });
+  }
+}
+
+function writeKeyFile(keyFile: string, ring: ServiceKeyRing): void {
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true, mode: 0o700 });
+  const tmpFile = `${keyFile}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(ring, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpFile, keyFile);
+}
+
+/**
+ * The string a request signature covers; the services build the same one
+ */
+export function canonicalRequest(method: string, pathAndQuery: string, timestamp: string, nonce: string, body = ''): string {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  return [method.toUpperCase(), pathAndQuery, timestamp, nonce, bodyHash].join('\n');
+}
+
+/**
+ * Signs the orchestrator's requests to other services
+ */
+export class ServiceCredentials {
+  constructor(
+    private readonly keys: ServiceKeys,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Id of the key calls are signed with; creates the key ring if there is none
+   */
+  activeKeyId(): string {
+    return this.keys.activeKey('service-request').keyId;
+  }
+
+  /**
+   * Headers that authenticate a request
+   * @param url Full URL of the request; its path and query are signed
+   * @param body The exact body sent, if any
+   */
+  sign(method: string, url: string, body?: string): Record<string, string> {
+    const { keyId, secret } = this.keys.activeKey('service-request');
+    const { pathname, search } = new URL(url);
+    const timestamp = String(this.now());
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const signature = crypto.createHmac('sha256', secret)
+      .update(canonicalRequest(method, `${pathname}${search}`, timestamp, nonce, body))
+      .digest('hex');
+
+    return {
+      [SERVICE_KEY_ID_HEADER]: keyId,
+      [SERVICE_TIMESTAMP_HEADER]: timestamp,
+      [SERVICE_NONCE_HEADER]: nonce,
+      [SERVICE_SIGNATURE_HEADER]: signature
+    };
+  }
+
+  /**
+   * Bearer token for one tenant's MCP endpoint on the MCP service
+   * Format: mcpt.<keyId>.<base64url payload>.<base64url signature>
+   * @param ttlMs How long the token is accepted
+   * @returns The token and its id (jti), which revokes it
+   */
+  issueTenantToken(tenantId: string, ttlMs: number): { token: string; tokenId: string; expiresAt: Date } {
+    const { keyId, secret } = this.keys.activeKey('tenant-token');
+    const tokenId = crypto.randomUUID();
+    const expiresAt = new Date(this.now() + ttlMs);
+    const payload = Buffer.from(JSON.stringify({ tenantId, jti: tokenId, exp: expiresAt.getTime() })).toString('base64url');
+    const signature = crypto.createHmac('sha256', secret)
+      .update(tenantTokenMessage(keyId, payload))
+      .digest('base64url');
+
+    return { token: [TENANT_TOKEN_PREFIX, keyId, payload, signature].join('.'), tokenId, expiresAt };
+  }
+
+  /**
+   * fetch() with the request signed
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const body = typeof init.body === 'string' ? init.body : undefined;
+    return await fetch(url, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string>), ...this.sign(init.method || 'GET', url, body) }
+    });
+  }
+}
+
+/**
+ * The string a tenant token signature covers; kept apart from request
+ * signatures so one can't be passed off as the other
+ */
+export function tenantTokenMessage(keyId: string, payload: string): string {
+  return [TENANT_TOKEN_PREFIX, keyId, payload].join('\n');
+}
+
+function newKeyId(): string {
+  return `sk_${new Date().toISOString().slice(0, 10).replace(/-/g, '')}_${crypto.randomBytes(4).toString('hex')}`;
+}
+
+let serviceCredentials: ServiceCredentials | null = null;
+
+/**
+ * The configured key ring and its copy with only the request signing keys.
+ * The MCP service must point at the same key ring and the Eliza service at the copy.
+ */
+export function getServiceKeys(): ServiceKeys {
+  const keyDir = path.join(os.homedir(), '.midnightos');
+  return new ServiceKeys(
+    process.env.SERVICE_KEY_FILE || path.join(keyDir, 'service-keys.json'),
+    process.env.SERVICE_REQUEST_KEY_FILE || path.join(keyDir, 'service-request-keys.json')
+  );
+}
+
+/**
+ * Shared ServiceCredentials using the configured key ring
+ */
+export function getServiceCredentials(): ServiceCredentials {
+  if (!serviceCredentials) {
+    serviceCredentials = new ServiceCredentials(getServiceKeys());
+  }
+  return serviceCredentials;
+}
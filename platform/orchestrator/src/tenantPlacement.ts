@@ -0,0 +1,472 @@
+import * as crypto from 'crypto';
+import { DatabaseService } from './database';
+import { ServiceCredentials, getServiceCredentials } from './serviceAuth';
+
+const HEALTH_INTERVAL_MS = parseInt(process.env.MCP_HEALTH_INTERVAL_MS || '30000');
+const HEALTH_TIMEOUT_MS = 2000;
+// A migration still unsettled after this long is taken to have been interrupted
+const MIGRATION_TIMEOUT_MS = parseInt(process.env.MCP_MIGRATION_TIMEOUT_MS || '300000');
+const DEFAULT_CAPACITY = 100;
+
+export const INSTANCE_STATUSES = ['active', 'draining'] as const;
+export type InstanceStatus = typeof INSTANCE_STATUSES[number];
+
+export interface McpInstanceInfo {
+  id: string;
+  url: string;
+  capacity: number;
+  status: InstanceStatus;
+  healthy: boolean;
+  tenants: number;
+  lastHeartbeatAt?: Date | null;
+  lastError?: string | null;
+}
+
+/**
+ * A placement request can't be satisfied
+ */
+export class PlacementError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'PlacementError';
+  }
+}
+
+/**
+ * MCP instances configured through MCP_INSTANCES ("id=url,id=url"), or the
+ * local instance when it is unset
+ */
+export function configuredInstances(): Array<{ id: string; url: string }> {
+  const configured = (process.env.MCP_INSTANCES || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [id, url] = entry.split(/=(.*)/);
+      return { id: id.trim(), url: (url || '').trim().replace(/\/+$/, '') };
+    })
+    .filter(instance => instance.id && instance.url);
+
+  return configured.length > 0
+    ? configured
+    : [{ id: 'default', url: `http://localhost:${process.env.MCP_PORT || '3001'}` }];
+}
+
+/**
+ * Pick the instance a new tenant goes to by rendezvous hashing.
+ *
+ * Every tenant ranks the instances the same way, so the choice is stable and
+ * adding or removing an instance only changes it for the tenants that ranked
+ * that instance first. Draining, unhealthy and full instances are skipped.
+ */
+export function assignInstance(tenantId: string, instances: McpInstanceInfo[]): McpInstanceInfo | null {
+  let best: McpInstanceInfo | null = null;
+  let bestScore = '';
+
+  for (const instance of instances) {
+    if (instance.status !== 'active' || !instance.healthy || instance.tenants >= instance.capacity) continue;
+
+    const score = crypto.createHash('sha256').update(`${tenantId}:${instance.id}`).digest('hex');
+    if (score > bestScore) {
+      best = instance;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function toInstanceInfo(row: any): McpInstanceInfo {
+  return {
+    id: row.id,
+    url: row.url,
+    capacity: row.capacity,
+    status: row.status,
+    healthy: row.healthy,
+    tenants: row._count?.placements ?? 0,
+    lastHeartbeatAt: row.lastHeartbeatAt,
+    lastError: row.lastError
+  };
+}
+
+/**
+ * Places wallet tenants on MCP instances and routes calls for a tenant to the
+ * instance that holds its wallet.
+ *
+ * A tenant is assigned an instance the first time it is used and keeps it
+ * until it is migrated. Migration asks the old instance to close the wallet
+ * and hand over its state, then imports that on the new one; calls for the
+ * tenant are refused while it moves. A migration interrupted by a restart is
+ * settled once it times out, on whichever instance holds the tenant.
+ */
+export class TenantPlacementService {
+  private db: DatabaseService;
+  private instances = new Map<string, McpInstanceInfo>();
+  private placements = new Map<string, string>(); // tenantId -> instance id, settled placements only
+  private migrating = new Set<string>(); // Tenants this process is moving
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    db: DatabaseService,
+    private readonly credentials: ServiceCredentials = getServiceCredentials(),
+    private readonly migrationTimeoutMs: number = MIGRATION_TIMEOUT_MS
+  ) {
+    this.db = db;
+  }
+
+  /**
+   * Register the configured instances and start checking their health
+   */
+  async start(): Promise<void> {
+    const configured = configuredInstances();
+    for (const instance of configured) {
+      await this.db.upsertMcpInstance(instance);
+    }
+
+    // Tenants registered before sharding all live on the first instance
+    const placed = await this.db.createMissingTenantPlacements(await this.db.getBotTenantIds(), configured[0].id);
+    if (placed > 0) {
+      console.log(`Placed ${placed} existing tenants on MCP instance ${configured[0].id}`);
+    }
+
+    await this.checkHealth();
+    await this.recoverStaleMigrations();
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkHealth()
+        .then(() => this.recoverStaleMigrations())
+        .catch(error => console.error('MCP instance health check failed:', error));
+    }, HEALTH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Registered instances with the number of tenants placed on each
+   */
+  async listInstances(): Promise<McpInstanceInfo[]> {
+    const rows = await this.db.getMcpInstances();
+    this.instances = new Map(rows.map(row => [row.id, toInstanceInfo(row)]));
+    return Array.from(this.instances.values());
+  }
+
+  /**
+   * Register an instance, or change the URL or capacity of a known one
+   */
+  async registerInstance(data: { id?: any; url?: any; capacity?: any }): Promise<McpInstanceInfo> {
+    if (typeof data.id !== 'string' || !/^[\w.-]{1,64}$/.test(data.id)) {
+      throw new PlacementError('id must be 1-64 letters, digits, dots, dashes or underscores', 400);
+    }
+    if (typeof data.url !== 'string' || !/^https?:\/\/[^\s/]+/.test(data.url)) {
+      throw new PlacementError('url must be an http(s) URL', 400);
+    }
+    if (data.capacity !== undefined && (!Number.isInteger(data.capacity) || data.capacity < 1)) {
+      throw new PlacementError('capacity must be a positive integer', 400);
+    }
+
+    await this.db.upsertMcpInstance({
+      id: data.id,
+      url: data.url.replace(/\/+$/, ''),
+      capacity: data.capacity ?? (await this.db.getMcpInstance(data.id) ? undefined : DEFAULT_CAPACITY)
+    });
+    return (await this.listInstances()).find(instance => instance.id === data.id)!;
+  }
+
+  /**
+   * Change the capacity of an instance, or put a drained instance back in rotation
+   */
+  async updateInstance(instanceId: string, data: { capacity?: any; status?: any }): Promise<McpInstanceInfo> {
+    if (!await this.db.getMcpInstance(instanceId)) {
+      throw new PlacementError(`MCP instance ${instanceId} not found`, 404);
+    }
+    if (data.capacity !== undefined && (!Number.isInteger(data.capacity) || data.capacity < 1)) {
+      throw new PlacementError('capacity must be a positive integer', 400);
+    }
+    if (data.status !== undefined && !INSTANCE_STATUSES.includes(data.status)) {
+      throw new PlacementError(`status must be one of: ${INSTANCE_STATUSES.join(', ')}`, 400);
+    }
+
+    await this.db.updateMcpInstance(instanceId, { capacity: data.capacity, status: data.status });
+    return (await this.listInstances()).find(instance => instance.id === instanceId)!;
+  }
+
+  /**
+   * Base URLs of all registered instances, for calls that cover every tenant
+   */
+  async instanceUrls(): Promise<string[]> {
+    return (await this.listInstances()).map(instance => instance.url);
+  }
+
+  /**
+   * Base URL of the instance holding a tenant's wallet, placing the tenant if it is new
+   * @throws PlacementError while the tenant is being migrated or when no instance can take it
+   */
+  async urlFor(tenantId: string): Promise<string> {
+    let instanceId = this.placements.get(tenantId);
+
+    if (!instanceId) {
+      const placement = await this.db.getTenantPlacement(tenantId);
+      if (placement?.status === 'migrating') {
+        throw new PlacementError(`Tenant ${tenantId} is being moved to another MCP instance; retry shortly`, 503);
+      }
+      instanceId = placement ? placement.instanceId as string : await this.place(tenantId);
+      this.placements.set(tenantId, instanceId);
+    }
+
+    const instance = this.instances.get(instanceId)
+      || (await this.listInstances()).find(candidate => candidate.id === instanceId);
+    if (!instance) {
+      throw new PlacementError(`MCP instance ${instanceId} is not registered`, 503);
+    }
+    return instance.url;
+  }
+
+  /**
+   * Call the instance holding a tenant's wallet, signed with the service credentials
+   */
+  async fetch(tenantId: string, path: string, init: RequestInit = {}): Promise<Response> {
+    return await this.credentials.fetch(`${await this.urlFor(tenantId)}${path}`, init);
+  }
+
+  /**
+   * Call one of the routes of a tenant's own wallet, such as /treasury/payout-quorum,
+   * on the instance holding it
+   */
+  async fetchWallet(tenantId: string, walletPath: string, init: RequestInit = {}): Promise<Response> {
+    return await this.fetch(tenantId, `/api/wallet/${tenantId}${walletPath}`, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string>), 'X-Tenant-ID': tenantId }
+    });
+  }
+
+  private async place(tenantId: string): Promise<string> {
+    const instance = assignInstance(tenantId, await this.listInstances());
+    if (!instance) {
+      throw new PlacementError('No MCP instance can take another tenant', 503);
+    }
+
+    await this.db.setTenantPlacement(tenantId, { instanceId: instance.id, status: 'active' });
+    instance.tenants++;
+    console.log(`Placed tenant ${tenantId} on MCP instance ${instance.id}`);
+    return instance.id;
+  }
+
+  /**
+   * Probe every instance and record whether it is reachable
+   * Unhealthy instances keep their tenants but are not given new ones
+   */
+  async checkHealth(): Promise<void> {
+    for (const instance of await this.listInstances()) {
+      let error: string | null = null;
+      try {
+        const response = await fetch(`${instance.url}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+        if (!response.ok) error = `Health check returned status ${response.status}`;
+      } catch (cause: any) {
+        error = cause.message || 'Health check failed';
+      }
+
+      const healthy = !error;
+      if (healthy !== instance.healthy) {
+        console.log(`MCP instance ${instance.id} is ${healthy ? 'healthy again' : `unhealthy: ${error}`}`);
+      }
+      instance.healthy = healthy;
+      await this.db.updateMcpInstance(instance.id, {
+        healthy,
+        lastError: error,
+        ...(healthy ? { lastHeartbeatAt: new Date() } : {})
+      });
+    }
+  }
+
+  /**
+   * Move a tenant's wallet to another instance.
+   * If the target refuses the tenant it is handed back to the instance it came from.
+   */
+  async migrate(tenantId: string, targetInstanceId: string): Promise<{ tenantId: string; from: string; to: string }> {
+    const placement = await this.db.getTenantPlacement(tenantId);
+    if (!placement) {
+      throw new PlacementError(`Tenant ${tenantId} is not placed on any MCP instance`, 404);
+    }
+    if (placement.status === 'migrating') {
+      throw new PlacementError(`Tenant ${tenantId} is already being moved`, 409);
+    }
+
+    await this.listInstances();
+    const source = this.instances.get(placement.instanceId);
+    const target = this.instances.get(targetInstanceId);
+    if (!source || !target) {
+      throw new PlacementError(`MCP instance ${source ? targetInstanceId : placement.instanceId} not found`, 404);
+    }
+    if (source.id === target.id) {
+      throw new PlacementError(`Tenant ${tenantId} is already on MCP instance ${target.id}`, 409);
+    }
+    if (target.status !== 'active' || !target.healthy || target.tenants >= target.capacity) {
+      throw new PlacementError(`MCP instance ${target.id} can't take another tenant`, 409);
+    }
+
+    // Only one migration can claim the tenant, however many are started at once
+    const claimed = await this.db.updateTenantPlacementInStatus(tenantId, 'active', {
+      status: 'migrating',
+      migratingTo: target.id
+    });
+    if (!claimed || claimed.instanceId !== source.id) {
+      if (claimed) await this.settle(tenantId, claimed.instanceId);
+      throw new PlacementError(`Tenant ${tenantId} is already being moved`, 409);
+    }
+    this.placements.delete(tenantId);
+    this.migrating.add(tenantId);
+
+    try {
+      return await this.move(tenantId, source, target);
+    } finally {
+      this.migrating.delete(tenantId);
+    }
+  }
+
+  private async move(
+    tenantId: string,
+    source: McpInstanceInfo,
+    target: McpInstanceInfo
+  ): Promise<{ tenantId: string; from: string; to: string }> {
+    try {
+      const bundle = await this.call(source.url, 'POST', `/api/tenants/${tenantId}/drain`, tenantId);
+      try {
+        await this.call(target.url, 'POST', '/api/tenants/import', tenantId, bundle);
+      } catch (error) {
+        await this.call(source.url, 'POST', '/api/tenants/import', tenantId, bundle).catch(rollbackError => {
+          // The source still has the tenant stored and adopts it again on restart
+          console.error(`Failed to hand tenant ${tenantId} back to MCP instance ${source.id}:`, rollbackError);
+        });
+        throw error;
+      }
+    } catch (error: any) {
+      await this.settle(tenantId, source.id);
+      throw new PlacementError(`Failed to move tenant ${tenantId} to MCP instance ${target.id}: ${error.message}`, 502);
+    }
+
+    await this.settle(tenantId, target.id);
+    console.log(`Moved tenant ${tenantId} from MCP instance ${source.id} to ${target.id}`);
+    return { tenantId, from: source.id, to: target.id };
+  }
+
+  /**
+   * End a migration with the tenant on the given instance
+   */
+  private async settle(tenantId: string, instanceId: string): Promise<void> {
+    const settled = await this.db.updateTenantPlacementInStatus(tenantId, 'migrating', {
+      instanceId,
+      status: 'active',
+      migratingTo: null
+    });
+    if (settled) {
+      this.placements.set(tenantId, instanceId);
+    }
+  }
+
+  /**
+   * Settle migrations that were interrupted, e.g. by a restart, on the
+   * instance that holds the tenant now. The target is preferred as it only
+   * holds the tenant once the import succeeded. When neither instance holds it
+   * the tenant stays with the source, which still has it stored and adopts it
+   * again on restart.
+   */
+  async recoverStaleMigrations(): Promise<void> {
+    const stale = await this.db.getStaleMigratingPlacements(new Date(Date.now() - this.migrationTimeoutMs));
+
+    for (const placement of stale) {
+      const { tenantId, instanceId: sourceId, migratingTo: targetId } = placement;
+      if (this.migrating.has(tenantId)) continue;
+
+      try {
+        const onTarget = targetId ? await this.holds(targetId, tenantId) : false;
+        const onSource = onTarget ? false : await this.holds(sourceId, tenantId);
+        if (onTarget === null || (!onTarget && onSource === null)) {
+          // An instance couldn't be asked; try again on the next check
+          continue;
+        }
+
+        const instanceId = onTarget ? targetId : sourceId;
+        await this.settle(tenantId, instanceId);
+        if (onTarget || onSource) {
+          console.log(`Recovered interrupted migration of tenant ${tenantId}: it is on MCP instance ${instanceId}`);
+        } else {
+          console.error(`Recovered interrupted migration of tenant ${tenantId}: neither MCP instance holds it; ` +
+            `it is back on ${instanceId} once that instance restarts`);
+        }
+      } catch (error) {
+        console.error(`Failed to recover interrupted migration of tenant ${tenantId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether an instance holds a tenant, or null if the instance can't tell
+   */
+  private async holds(instanceId: string, tenantId: string): Promise<boolean | null> {
+    const instance = this.instances.get(instanceId) || (await this.listInstances()).find(candidate => candidate.id === instanceId);
+    if (!instance) return false;
+
+    try {
+      const response = await this.credentials.fetch(`${instance.url}/api/tenants/${tenantId}/metadata`, {
+        headers: { 'X-Tenant-ID': tenantId },
+        signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS)
+      });
+      if (response.ok) return true;
+      return response.status === 404 ? false : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stop placing tenants on an instance and move its tenants to the others
+   */
+  async drain(instanceId: string): Promise<{
+    moved: Array<{ tenantId: string; to: string }>;
+    failed: Array<{ tenantId: string; error: string }>;
+  }> {
+    if (!await this.db.getMcpInstance(instanceId)) {
+      throw new PlacementError(`MCP instance ${instanceId} not found`, 404);
+    }
+    await this.db.updateMcpInstance(instanceId, { status: 'draining' });
+
+    const moved: Array<{ tenantId: string; to: string }> = [];
+    const failed: Array<{ tenantId: string; error: string }> = [];
+
+    for (const { tenantId } of await this.db.getTenantPlacements(instanceId)) {
+      const target = assignInstance(tenantId, await this.listInstances());
+      if (!target) {
+        failed.push({ tenantId, error: 'No MCP instance can take another tenant' });
+        continue;
+      }
+
+      try {
+        await this.migrate(tenantId, target.id);
+        moved.push({ tenantId, to: target.id });
+      } catch (error: any) {
+        failed.push({ tenantId, error: error.message });
+      }
+    }
+
+    console.log(`Drained MCP instance ${instanceId}: ${moved.length} tenants moved, ${failed.length} failed`);
+    return { moved, failed };
+  }
+
+  private async call(baseUrl: string, method: string, path: string, tenantId: string, body?: any): Promise<any> {
+    const response = await this.credentials.fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-Tenant-ID': tenantId },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `${baseUrl} returned status ${response.status}`);
+    }
+    return data;
+  }
+}
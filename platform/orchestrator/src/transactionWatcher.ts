@@ -0,0 +1,86 @@
+import { EventBus, TransactionUpdate } from './events';
+import { TenantPlacementService } from './tenantPlacement';
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLLS = 120; // Give up after 10 minutes
+const FINAL_STATES = ['completed', 'failed', 'rejected'];
+
+/**
+ * Build a transaction update from the response of a send endpoint
+ */
+export function toTransactionUpdate(kind: TransactionUpdate['kind'], result: any, ok: boolean): TransactionUpdate {
+  const failed = !ok || result?.success === false;
+
+  return {
+    id: result?.id || result?.transactionId,
+    kind,
+    state: failed ? 'failed' : result?.state || (result?.txIdentifier ? 'sent' : 'initiated'),
+    txIdentifier: result?.txIdentifier,
+    amount: result?.amount,
+    toAddress: result?.toAddress,
+    error: failed ? result?.error || 'Transaction failed' : undefined
+  };
+}
+
+/**
+ * Follows transactions started through the API until they settle on the MCP
+ * service, publishing every state change as a 'transaction' event.
+ */
+export class TransactionWatcher {
+  private events: EventBus;
+  private placement: TenantPlacementService;
+
+  constructor(events: EventBus, placement: TenantPlacementService) {
+    this.events = events;
+    this.placement = placement;
+  }
+
+  /**
+   * Announce a transaction and keep polling it until it completes or fails
+   */
+  watch(bot: { id: string; tenantId: string }, update: TransactionUpdate): void {
+    this.events.publishToBot(bot.id, { type: 'transaction', botId: bot.id, transaction: update });
+
+    if (!update.id || FINAL_STATES.includes(update.state)) return;
+    this.poll(bot, update, 1);
+  }
+
+  private poll(bot: { id: string; tenantId: string }, last: TransactionUpdate, count: number): void {
+    setTimeout(async () => {
+      const transaction = await this.fetchTransaction(bot.tenantId, last.id!);
+      let current = last;
+
+      if (transaction && transaction.state !== last.state) {
+        current = {
+          ...last,
+          state: transaction.state,
+          txIdentifier: transaction.txIdentifier || last.txIdentifier,
+          error: transaction.errorMessage || undefined
+        };
+        await this.events.publishToBot(bot.id, { type: 'transaction', botId: bot.id, transaction: current });
+      }
+
+      if (!FINAL_STATES.includes(current.state) && count < MAX_POLLS) {
+        this.poll(bot, current, count + 1);
+      }
+    }, POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Read the transaction record from the MCP service
+   */
+  private async fetchTransaction(tenantId: string, transactionId: string): Promise<any | null> {
+    try {
+      const response = await this.placement.fetch(tenantId, `/api/wallet/${tenantId}/transactions/${transactionId}`, {
+        headers: { 'X-Tenant-ID': tenantId }
+      });
+      if (!response.ok) return null;
+
+      const status: any = await response.json();
+      return status.transaction || null;
+    } catch (error) {
+      console.error(`Failed to fetch transaction ${transactionId} for ${tenantId}:`, error);
+      return null;
+    }
+  }
+}
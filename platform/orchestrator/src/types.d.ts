@@ -6,6 +6,9 @@ declare global {
       user?: {
         id: string;
         email: string;
+        scopes?: string[];  // Set when authenticated with an API key
+        apiKeyId?: string;
+        sessionId?: string; // Set when authenticated with a session access token
       };
     }
   }
@@ -0,0 +1,350 @@
+import * as crypto from 'crypto';
+import * as dns from 'dns/promises';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { DatabaseService } from './database';
+
+/**
+ * Activity types that can be delivered to webhooks
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'bot_created',
+  'treasury_deployed',
+  'proposal_created',
+  'vote_cast',
+  'transaction',
+  'transfer_pending_approval',
+  'payout_signed'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+const MAX_DELIVERY_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+export function isWebhookEventType(type: string): type is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Error for webhook URLs the orchestrator won't deliver to
+ */
+export class WebhookUrlError extends Error {}
+
+// Loopback, private, link-local, multicast and reserved ranges
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+// NAT64 addresses reach an IPv4 host through the gateway
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * The IPv4 host an IPv4-mapped IPv6 address reaches, whether written as
+ * ::ffff:127.0.0.1 or ::ffff:7f00:1; null for any other address
+ */
+function mappedIPv4(address: string): string | null {
+  let normalized: string;
+  try {
+    normalized = new URL(`http://[${address}]`).hostname;
+  } catch {
+    return null;
+  }
+  const mapped = normalized.match(/^\[::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})\]$/);
+  if (!mapped) return null;
+
+  const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+function isPublicAddress(address: string): boolean {
+  if (!net.isIPv6(address)) {
+    return !NON_PUBLIC_ADDRESSES.check(address, 'ipv4');
+  }
+  const mapped = mappedIPv4(address);
+  return mapped ? !NON_PUBLIC_ADDRESSES.check(mapped, 'ipv4') : !NON_PUBLIC_ADDRESSES.check(address, 'ipv6');
+}
+
+/**
+ * Host lookup for webhook connections that fails unless every address the
+ * host resolves to is public. The connection is made to the address checked
+ * here, so a host can't pass the check and then resolve to a private address.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true, verbatim: true }).then(addresses => {
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      throw new WebhookUrlError(`Webhook host ${hostname} resolves to a private or loopback address`);
+    }
+    const usable = options.family ? addresses.filter(({ family }) => family === options.family) : addresses;
+    if (options.all) {
+      callback(null, usable);
+    } else if (usable.length > 0) {
+      callback(null, usable[0].address, usable[0].family);
+    } else {
+      throw new WebhookUrlError(`Webhook host ${hostname} has no IPv${options.family} address`);
+    }
+  }).catch(error => callback(error, '', 0));
+};
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * POST a webhook payload, connecting only to public addresses. Redirects are
+ * not followed, since one could point at a private address.
+ * @returns The status the endpoint responded with
+ */
+export function postWebhook(url: string, { headers, body }: WebhookRequest): Promise<{ status: number }> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    }, response => {
+      response.resume(); // The response body isn't used
+      resolve({ status: response.statusCode ?? 0 });
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Check that a webhook URL is http(s) and that its host only resolves to
+ * public addresses, so subscriptions can't reach the orchestrator's network
+ */
+export async function assertPublicWebhookUrl(url: any): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError('url must be a valid http(s) URL');
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new WebhookUrlError('url must be a valid http(s) URL');
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await dns.lookup(host, { all: true, verbatim: true }).catch(() => {
+    throw new WebhookUrlError(`Cannot resolve webhook host ${host}`);
+  });
+
+  if (addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new WebhookUrlError(`Webhook host ${host} resolves to a private or loopback address`);
+  }
+}
+
+/**
+ * Exponential backoff for the nth failed delivery attempt
+ */
+export function webhookRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Signature sent in X-MidnightOS-Signature. Receivers recompute it over
+ * `${X-MidnightOS-Timestamp}.${raw body}` with their subscription secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Subscription as returned by the API (the secret is only shown on creation)
+ */
+export function toWebhookResponse(webhook: any): any {
+  const { secret, ...rest } = webhook;
+  return rest;
+}
+
+/**
+ * Signed outbound webhooks for activities.
+ *
+ * Every matching subscription gets a persisted delivery. Failed deliveries are
+ * retried with backoff and end up dead-lettered after MAX_DELIVERY_ATTEMPTS;
+ * dead deliveries stay in the log until redelivered. Pending deliveries are
+ * picked up again by resume() when the orchestrator starts.
+ */
+export class WebhookService {
+  private db: DatabaseService;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(db: DatabaseService, private readonly post: typeof postWebhook = postWebhook) {
+    this.db = db;
+  }
+
+  /**
+   * Create a subscription with a fresh signing secret
+   */
+  async createSubscription(data: {
+    userId: string;
+    botId?: string;
+    url: string;
+    eventTypes: string[];
+  }): Promise<{ webhook: any; secret: string }> {
+    const secret = `whsec_${crypto.randomBytes(32).toString('base64url')}`;
+    const webhook = await this.db.createWebhook({ ...data, secret });
+    return { webhook, secret };
+  }
+
+  /**
+   * Queue deliveries of an activity to the subscriptions that want it.
+   * Never throws; webhooks must not break the action that produced the activity.
+   */
+  async dispatch(activity: any): Promise<void> {
+    if (!isWebhookEventType(activity.type)) return;
+
+    try {
+      const subscriptions = await this.db.getWebhooksForActivity(activity.userId, activity.botId || null, activity.type);
+
+      for (const subscription of subscriptions) {
+        const delivery = await this.db.createWebhookDelivery({
+          subscriptionId: subscription.id,
+          activityId: activity.id,
+          eventType: activity.type,
+          payload: {
+            event: activity.type,
+            activity: {
+              id: activity.id,
+              type: activity.type,
+              botId: activity.botId || null,
+              title: activity.title,
+              description: activity.description,
+              metadata: activity.metadata || null,
+              severity: activity.severity,
+              createdAt: activity.createdAt
+            }
+          }
+        });
+        this.schedule(delivery, 0);
+      }
+    } catch (error) {
+      console.error(`Failed to queue webhooks for activity ${activity.id}:`, error);
+    }
+  }
+
+  /**
+   * Reschedule deliveries left pending by a previous process
+   */
+  async resume(): Promise<number> {
+    const deliveries = await this.db.getPendingWebhookDeliveries();
+
+    for (const delivery of deliveries) {
+      this.schedule(delivery, new Date(delivery.nextAttemptAt).getTime() - Date.now());
+    }
+
+    return deliveries.length;
+  }
+
+  /**
+   * Send a delivery again from scratch, typically one from the dead-letter list
+   */
+  async redeliver(delivery: any): Promise<any> {
+    const updated = await this.db.updateWebhookDelivery(delivery.id, {
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: new Date()
+    });
+    this.schedule(updated, 0);
+    return updated;
+  }
+
+  private schedule(delivery: any, delayMs: number): void {
+    clearTimeout(this.timers.get(delivery.id));
+
+    this.timers.set(delivery.id, setTimeout(() => {
+      this.timers.delete(delivery.id);
+      this.attempt(delivery.subscriptionId, delivery.id).catch(error => {
+        console.error(`❌ Webhook delivery ${delivery.id} crashed:`, error);
+      });
+    }, Math.max(0, delayMs)));
+  }
+
+  /**
+   * POST the signed payload once and record the outcome
+   */
+  private async attempt(subscriptionId: string, deliveryId: string): Promise<void> {
+    // Reload: the subscription may have been paused or deleted since scheduling
+    const delivery = await this.db.getWebhookDelivery(subscriptionId, deliveryId);
+    if (!delivery || delivery.status !== 'pending' || !delivery.subscription.active) return;
+
+    const { subscription } = delivery;
+    const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Re-checked on every attempt, since the host may resolve differently now
+      await assertPublicWebhookUrl(subscription.url);
+
+      const response = await this.post(subscription.url, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'MidnightOS-Webhooks/1.0',
+          'X-MidnightOS-Event': delivery.eventType,
+          'X-MidnightOS-Delivery': delivery.id,
+          'X-MidnightOS-Timestamp': String(timestamp),
+          'X-MidnightOS-Signature': signWebhookPayload(subscription.secret, timestamp, body)
+        },
+        body
+      });
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (err: any) {
+      error = err.message;
+    }
+
+    if (!error) {
+      await this.db.updateWebhookDelivery(delivery.id, {
+        status: 'delivered',
+        attempts,
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date()
+      });
+      return;
+    }
+
+    if (attempts < MAX_DELIVERY_ATTEMPTS) {
+      const delay = webhookRetryDelay(attempts);
+      const updated = await this.db.updateWebhookDelivery(delivery.id, {
+        attempts,
+        responseStatus,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + delay)
+      });
+      this.schedule(updated, delay);
+      return;
+    }
+
+    await this.db.updateWebhookDelivery(delivery.id, {
+      status: 'dead',
+      attempts,
+      responseStatus,
+      lastError: error
+    });
+    console.warn(`⚠️ Webhook delivery ${delivery.id} to ${subscription.url} dead-lettered after ${attempts} attempts: ${error}`);
+  }
+}
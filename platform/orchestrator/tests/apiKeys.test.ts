@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { AuthService, hasScope, isValidScope } from '../src/auth';
+
+describe('Scoped API keys', () => {
+  let authService: AuthService;
+  let mockDatabase: any;
+  let keys: Map<string, any>;
+
+  beforeEach(() => {
+    keys = new Map();
+
+    mockDatabase = {
+      createApiKey: jest.fn(async (data: any) => {
+        const record = {
+          id: `key_${keys.size + 1}`,
+          ...data,
+          lastUsed: null,
+          revokedAt: null,
+          user: { id: data.userId, email: 'ci@example.com' },
+        };
+        keys.set(data.keyHash, record);
+        return { id: record.id, prefix: data.prefix, name: data.name, scopes: data.scopes };
+      }),
+      getApiKeyByHash: jest.fn(async (keyHash: string) => keys.get(keyHash) || null),
+      touchApiKey: jest.fn(async (keyId: string) => {
+        for (const record of keys.values()) {
+          if (record.id === keyId) record.lastUsed = new Date();
+        }
+      }),
+    };
+
+    authService = new AuthService(mockDatabase);
+  });
+
+  it('should only store the hash of a minted key', async () => {
+    const { key, apiKey } = await authService.createApiKey('user_1', {
+      name: 'ci',
+      scopes: ['bots:execute', 'wallet:read'],
+    });
+
+    expect(key).toMatch(/^mno_/);
+    expect(apiKey.prefix).toBe(key.slice(0, 12));
+    expect(keys.has(key)).toBe(false);
+    expect(keys.has(authService.hashApiKey(key))).toBe(true);
+  });
+
+  it('should reject unknown scopes', async () => {
+    await expect(
+      authService.createApiKey('user_1', { scopes: ['bots:read', 'root'] })
+    ).rejects.toThrow('Invalid scopes: root');
+  });
+
+  it('should resolve a key to its owner and scopes and record usage', async () => {
+    const { key } = await authService.createApiKey('user_1', { scopes: ['bots:execute'] });
+
+    const principal = await authService.verifyApiKey(key);
+
+    expect(principal).toEqual({
+      id: 'user_1',
+      email: 'ci@example.com',
+      scopes: ['bots:execute'],
+      apiKeyId: 'key_1',
+    });
+    expect(mockDatabase.touchApiKey).toHaveBeenCalledWith('key_1');
+  });
+
+  it('should reject revoked and expired keys', async () => {
+    const { key: revokedKey } = await authService.createApiKey('user_1', { scopes: ['bots:read'] });
+    keys.get(authService.hashApiKey(revokedKey)).revokedAt = new Date();
+
+    const { key: expiredKey } = await authService.createApiKey('user_1', {
+      scopes: ['bots:read'],
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(authService.verifyApiKey(revokedKey)).rejects.toThrow('Invalid API key');
+    await expect(authService.verifyApiKey(expiredKey)).rejects.toThrow('API key expired');
+    await expect(authService.verifyApiKey('mno_unknown')).rejects.toThrow('Invalid API key');
+  });
+
+  it('should only restrict principals that carry scopes', () => {
+    expect(hasScope({ scopes: ['wallet:read'] }, 'wallet:read')).toBe(true);
+    expect(hasScope({ scopes: ['wallet:read'] }, 'wallet:send')).toBe(false);
+    expect(hasScope({}, 'wallet:send')).toBe(true);
+    expect(hasScope(undefined, 'bots:read')).toBe(false);
+    expect(isValidScope('treasury:write')).toBe(true);
+    expect(isValidScope('treasury:admin')).toBe(false);
+  });
+});
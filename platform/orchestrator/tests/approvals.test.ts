@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { TransferApprovals } from '../src/approvals';
+
+describe('Transfer approval queue', () => {
+  let approvals: TransferApprovals;
+  let mockDatabase: any;
+  let mockActivities: any;
+  let mockWatcher: any;
+  let mockPlacement: any;
+  let fetchMock: jest.Mock;
+  const originalFetch = global.fetch;
+
+  const bot = { id: 'bot_1', userId: 'owner_1', name: 'Treasury Bot', tenantId: 'owner_1_tenant' };
+  const owner = { id: 'owner_1', email: 'owner@example.com' };
+  const transfer = {
+    id: 'tx_1',
+    state: 'pending_approval',
+    toAddress: 'mn_addr_recipient',
+    amount: '250',
+    metadata: { token: 'native', approvalThreshold: '100' }
+  };
+
+  const respond = (status: number, data: any) => ({ ok: status < 400, status, json: async () => data });
+
+  beforeEach(() => {
+    mockDatabase = {
+      getBotByTenantId: jest.fn(async () => bot),
+      hasActivityForTransaction: jest.fn(async () => false),
+    };
+    mockActivities = { record: jest.fn() };
+    mockWatcher = { watch: jest.fn() };
+    mockPlacement = {
+      urlFor: jest.fn(async () => 'http://mcp-1:3001'),
+      instanceUrls: jest.fn(async () => ['http://mcp-1:3001'])
+    };
+
+    fetchMock = jest.fn(async () => respond(200, { tenants: [{ tenantId: bot.tenantId, transfers: [transfer] }] }));
+    global.fetch = fetchMock as any;
+
+    approvals = new TransferApprovals(mockDatabase, mockActivities, mockWatcher, mockPlacement);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should notify the bot owner once per parked transfer', async () => {
+    expect(await approvals.sweep()).toBe(1);
+    expect(await approvals.sweep()).toBe(0);
+
+    expect(mockActivities.record).toHaveBeenCalledTimes(1);
+    expect(mockActivities.record).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'owner_1',
+      botId: 'bot_1',
+      type: 'transfer_pending_approval',
+      metadata: expect.objectContaining({ transactionId: 'tx_1', token: 'tDUST', approvalThreshold: '100' })
+    }));
+  });
+
+  it('should not notify again after a restart', async () => {
+    mockDatabase.hasActivityForTransaction.mockImplementation(async () => true);
+
+    expect(await approvals.sweep()).toBe(0);
+    expect(mockActivities.record).not.toHaveBeenCalled();
+  });
+
+  it('should sweep every MCP instance', async () => {
+    mockPlacement.instanceUrls.mockImplementation(async () => ['http://mcp-1:3001', 'http://mcp-2:3001']);
+    fetchMock.mockImplementation(async (url: any) => url.startsWith('http://mcp-2')
+      ? respond(200, { tenants: [{ tenantId: bot.tenantId, transfers: [{ ...transfer, id: 'tx_2' }] }] })
+      : respond(200, { tenants: [] }));
+
+    expect(await approvals.sweep()).toBe(1);
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+      'http://mcp-1:3001/api/tenants/approvals',
+      'http://mcp-2:3001/api/tenants/approvals'
+    ]);
+  });
+
+  it('should forward an approval and follow the transaction', async () => {
+    fetchMock.mockImplementation(async () => respond(200, { success: true, transaction: { ...transfer, state: 'initiated' } }));
+
+    const result = await approvals.approve(bot, 'tx_1', owner);
+
+    const [url, request] = fetchMock.mock.calls[0] as any[];
+    expect(url).toBe('http://mcp-1:3001/api/wallet/owner_1_tenant/approvals/tx_1/approve');
+    expect(mockPlacement.urlFor).toHaveBeenCalledWith('owner_1_tenant');
+    expect(JSON.parse(request.body)).toEqual({ approvedBy: 'owner@example.com' });
+    expect(result.status).toBe(200);
+    expect(mockWatcher.watch).toHaveBeenCalledWith(bot, expect.objectContaining({ id: 'tx_1', kind: 'send', state: 'initiated' }));
+    expect(mockActivities.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'transfer_approved', userId: 'owner_1' }));
+  });
+
+  it('should pass MCP refusals through without recording anything', async () => {
+    const violation = { code: 'SPENDING_POLICY_VIOLATION', rule: 'daily_limit', message: 'would exceed the daily limit' };
+    fetchMock.mockImplementation(async () => respond(403, violation));
+
+    const result = await approvals.approve(bot, 'tx_1', owner);
+
+    expect(result).toEqual({ ok: false, status: 403, data: violation });
+    expect(mockWatcher.watch).not.toHaveBeenCalled();
+    expect(mockActivities.record).not.toHaveBeenCalled();
+  });
+});
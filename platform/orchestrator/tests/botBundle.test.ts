@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { BotBundleContents, BotBundleError, openBotBundle, sealBotBundle } from '../src/botBundle';
+
+describe('Bot export bundles', () => {
+  const passphrase = 'correct horse battery staple';
+
+  const contents: BotBundleContents = {
+    exportedAt: '2025-01-01T00:00:00.000Z',
+    source: { botId: 'bot_1', tenantId: 'user_1_tenant' },
+    bot: {
+      name: 'Treasury Bot',
+      tier: 'premium',
+      features: { wallet: true, dao: true, marketplace: false },
+      platforms: { discord: { token: 'discord-secret', serverId: 'srv_1' } },
+      config: { character: { bio: 'Keeps the books' } }
+    },
+    walletAddress: 'mn_addr_1',
+    walletSeed: 'a'.repeat(64),
+    tokens: [{ name: 'dao_vote', symbol: 'DVT', contractAddress: '0200ab', domainSeparator: 'dega_dao_vote', decimals: 6 }],
+    contracts: { fundingToken: 'ft', voteToken: 'vt', daoVoting: 'dv', marketplace: 'mk' }
+  };
+
+  it('should round-trip contents without exposing them in the bundle', async () => {
+    const bundle = await sealBotBundle(contents, passphrase);
+
+    expect(bundle).toMatchObject({ format: 'midnightos-bot-bundle', version: 1, cipher: 'aes-256-gcm' });
+    expect(JSON.stringify(bundle)).not.toContain('discord-secret');
+    expect(JSON.stringify(bundle)).not.toContain(contents.walletSeed);
+    await expect(openBotBundle(bundle, passphrase)).resolves.toEqual(contents);
+  });
+
+  it('should reject a wrong passphrase or a tampered bundle', async () => {
+    const bundle = await sealBotBundle(contents, passphrase);
+    const tampered = { ...bundle, ciphertext: Buffer.from('x' + Buffer.from(bundle.ciphertext, 'base64').toString('binary'), 'binary').toString('base64') };
+
+    await expect(openBotBundle(bundle, 'not the passphrase')).rejects.toThrow(BotBundleError);
+    await expect(openBotBundle(tampered, passphrase)).rejects.toThrow('wrong passphrase or corrupted bundle');
+  });
+
+  it('should refuse short passphrases and foreign documents', async () => {
+    await expect(sealBotBundle(contents, 'short')).rejects.toThrow(BotBundleError);
+    await expect(openBotBundle({ format: 'something-else' }, passphrase)).rejects.toThrow('Not a MidnightOS bot bundle');
+    await expect(openBotBundle({ ...await sealBotBundle(contents, passphrase), version: 2 }, passphrase)).rejects.toThrow('Unsupported bundle version 2');
+  });
+
+  it('should refuse key derivation parameters and tags it did not issue', async () => {
+    const bundle = await sealBotBundle(contents, passphrase);
+    const truncatedTag = Buffer.from(bundle.tag, 'base64').subarray(0, 4).toString('base64');
+
+    await expect(openBotBundle({ ...bundle, kdf: { ...bundle.kdf, N: 2 ** 20 } }, passphrase)).rejects.toThrow('Unsupported key derivation parameters');
+    await expect(openBotBundle({ ...bundle, kdf: { ...bundle.kdf, p: 16 } }, passphrase)).rejects.toThrow('Unsupported key derivation parameters');
+    await expect(openBotBundle({ ...bundle, tag: truncatedTag }, passphrase)).rejects.toThrow('authentication tag must be 16 bytes');
+  });
+
+  it('should refuse bundles whose contents an import cannot use', async () => {
+    const malformed = [
+      { ...contents, tokens: undefined },
+      { ...contents, tokens: [{ name: 'dao_vote' }] },
+      { ...contents, contracts: { fundingToken: 'ft' } },
+      { ...contents, bot: { ...contents.bot, tier: 'platinum' } },
+      { ...contents, walletSeed: 42 }
+    ];
+
+    for (const bad of malformed) {
+      const bundle = await sealBotBundle(bad as any, passphrase);
+      await expect(openBotBundle(bundle, passphrase)).rejects.toThrow(BotBundleError);
+    }
+  });
+});
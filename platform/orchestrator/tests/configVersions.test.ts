@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { BotConfigHistory, diffConfig, redactChanges } from '../src/configVersions';
+
+describe('Versioned bot configuration', () => {
+  let history: BotConfigHistory;
+  let mockDatabase: any;
+  let mockContainerManager: any;
+  let versions: any[];
+  let bot: any;
+  const user = { id: 'user_1', email: 'owner@example.com' };
+
+  beforeEach(() => {
+    versions = [];
+    bot = {
+      id: 'bot_1',
+      userId: 'user_1',
+      tenantId: 'user_1_tenant',
+      features: { wallet: true, dao: false, marketplace: false },
+      platforms: { discord: { token: 'discord-secret', serverId: 'srv_1' } },
+      config: null
+    };
+
+    mockDatabase = {
+      getLatestBotConfigVersion: jest.fn(async () => versions[versions.length - 1] || null),
+      createBotConfigVersion: jest.fn(async (data: any) => {
+        const version = { ...data, version: versions.length + 1 };
+        versions.push(version);
+        return version;
+      }),
+      updateBot: jest.fn(async (_id: string, data: any) => {
+        bot = { ...bot, ...data };
+      }),
+    };
+
+    mockContainerManager = {
+      updateUserContainer: jest.fn(),
+    };
+
+    history = new BotConfigHistory(mockDatabase, mockContainerManager);
+  });
+
+  it('should diff nested configuration down to changed leaves', () => {
+    const changes = diffConfig(
+      { features: { wallet: true, dao: false }, platforms: { discord: { token: 'a', serverId: 's1' } } },
+      { features: { wallet: true, dao: true }, platforms: { discord: { token: 'b', serverId: 's1' } } }
+    );
+
+    expect(changes).toEqual([
+      { path: 'features.dao', before: false, after: true },
+      { path: 'platforms.discord.token', before: 'a', after: 'b' }
+    ]);
+    expect(redactChanges(changes)[1]).toEqual({ path: 'platforms.discord.token', before: '[redacted]', after: '[redacted]' });
+  });
+
+  it('should record a baseline and the change, then apply it', async () => {
+    const version = await history.update(bot, { features: { wallet: true, dao: true, marketplace: false } }, user);
+
+    expect(versions.map(v => v.reason)).toEqual(['baseline', 'update']);
+    expect(version).toMatchObject({
+      version: 2,
+      createdBy: 'user_1',
+      changes: [{ path: 'features.dao', before: false, after: true }]
+    });
+    expect(mockDatabase.updateBot).toHaveBeenCalledWith('bot_1', expect.not.objectContaining({ config: null }));
+    expect(mockContainerManager.updateUserContainer).toHaveBeenCalledWith('user_1_tenant', expect.objectContaining({
+      features: { wallet: true, dao: true, marketplace: false },
+      platforms: bot.platforms
+    }), 2);
+  });
+
+  it('should not add a version when nothing changed', async () => {
+    await history.recordCreated(bot, 'user_1');
+    const version = await history.update(bot, { features: { ...bot.features } }, user);
+
+    expect(versions).toHaveLength(1);
+    expect(version.version).toBe(1);
+    expect(mockContainerManager.updateUserContainer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll back by re-applying an older version as a new one', async () => {
+    await history.recordCreated(bot, 'user_1');
+    await history.update(bot, { platforms: { telegram: { token: 'tg-secret' } } }, user);
+
+    const version = await history.rollback(bot, versions[0], user);
+
+    expect(version).toMatchObject({ version: 3, reason: 'rollback', rolledBackFrom: 1 });
+    expect(bot.platforms).toEqual({ discord: { token: 'discord-secret', serverId: 'srv_1' } });
+    expect(mockContainerManager.updateUserContainer).toHaveBeenLastCalledWith('user_1_tenant', expect.objectContaining({
+      platforms: { discord: { token: 'discord-secret', serverId: 'srv_1' } }
+    }), 3);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { DeploymentQueue, retryDelay } from '../src/deploymentQueue';
+
+describe('Deployment job queue', () => {
+  let queue: DeploymentQueue;
+  let mockDatabase: any;
+  let mockContainerManager: any;
+  let mockEvents: any;
+  let mockActivities: any;
+  let job: any;
+  let failingStage: string | null;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    failingStage = null;
+    job = {
+      id: 'job_1',
+      botId: 'bot_1',
+      userId: 'user_1',
+      config: { userId: 'user_1', tier: 'basic', features: {}, platforms: {} },
+      status: 'queued',
+      stage: 'tenant_id',
+      attempts: 0
+    };
+
+    mockDatabase = {
+      getDeploymentJob: jest.fn(async () => job),
+      updateDeploymentJob: jest.fn(async (_id: string, data: any) => (job = { ...job, ...data })),
+      updateDeploymentJobInStatus: jest.fn(async (_id: string, status: string, data: any) =>
+        job.status === status ? (job = { ...job, ...data }) : null),
+      updateBot: jest.fn(),
+    };
+
+    mockContainerManager = {
+      getSharedElizaPort: () => 3004,
+      runDeploymentStage: jest.fn(async (stage: string) => {
+        if (stage === failingStage) throw new Error(`${stage} unavailable`);
+        if (stage === 'tenant_id') return { tenantId: 'user_1_tenant' };
+        if (stage === 'mcp_registration') return { walletAddress: 'mn_addr_1' };
+        return {};
+      }),
+      rollbackDeploymentStage: jest.fn(),
+    };
+
+    mockEvents = { publishToBot: jest.fn() };
+    mockActivities = { record: jest.fn() };
+
+    queue = new DeploymentQueue(mockDatabase, mockContainerManager, mockEvents, mockActivities);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should run every stage and activate the bot', async () => {
+    await (queue as any).run('bot_1');
+
+    expect(mockContainerManager.runDeploymentStage).toHaveBeenCalledTimes(6);
+    expect(job).toMatchObject({ status: 'completed', tenantId: 'user_1_tenant', walletAddress: 'mn_addr_1' });
+    expect(mockDatabase.updateBot).toHaveBeenCalledWith('bot_1', expect.objectContaining({
+      tenantId: 'user_1_tenant',
+      walletAddress: 'mn_addr_1',
+      elizaPort: 3004,
+      status: 'active'
+    }));
+    expect(mockEvents.publishToBot).toHaveBeenCalledWith('bot_1', { type: 'bot_status', botId: 'bot_1', status: 'active' });
+    expect(mockEvents.publishToBot).toHaveBeenCalledWith('bot_1', expect.objectContaining({
+      type: 'deployment',
+      deployment: expect.objectContaining({ status: 'completed' })
+    }));
+    expect(mockActivities.record).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user_1',
+      botId: 'bot_1',
+      type: 'bot_created'
+    }));
+  });
+
+  it('should back off and keep the failed stage for the next attempt', async () => {
+    failingStage = 'mcp_registration';
+    await (queue as any).run('bot_1');
+
+    expect(job).toMatchObject({ status: 'running', stage: 'mcp_registration', attempts: 1, lastError: 'mcp_registration unavailable' });
+    expect(jest.getTimerCount()).toBe(1);
+    expect(retryDelay(1)).toBeLessThan(retryDelay(2));
+  });
+
+  it('should fail the bot when a stage runs out of attempts', async () => {
+    failingStage = 'eliza_registration';
+    job = { ...job, status: 'running', stage: 'eliza_registration', tenantId: 'user_1_tenant', attempts: 4 };
+    await (queue as any).run('bot_1');
+
+    expect(job.status).toBe('failed');
+    expect(mockDatabase.updateBot).toHaveBeenCalledWith('bot_1', { status: 'failed' });
+  });
+
+  it('should leave the bot active when only the DAO deployment fails', async () => {
+    failingStage = 'dao_deploy';
+    job = { ...job, status: 'running', stage: 'dao_deploy', tenantId: 'user_1_tenant', attempts: 4 };
+    await (queue as any).run('bot_1');
+
+    expect(job.status).toBe('failed');
+    expect(mockDatabase.updateBot).not.toHaveBeenCalled();
+  });
+
+  it('should roll back a stage that completes after the job was cancelled', async () => {
+    job = { ...job, status: 'running', stage: 'eliza_registration', tenantId: 'user_1_tenant', walletAddress: 'mn_addr_1' };
+    mockContainerManager.runDeploymentStage.mockImplementationOnce(async () => {
+      await queue.cancel(job);
+      return {};
+    });
+
+    await (queue as any).run('bot_1');
+
+    expect(job).toMatchObject({ status: 'cancelled', stage: 'eliza_registration' });
+    expect(mockContainerManager.rollbackDeploymentStage).toHaveBeenCalledWith('eliza_registration', {
+      tenantId: 'user_1_tenant',
+      walletAddress: 'mn_addr_1'
+    });
+    expect(mockDatabase.updateBot).not.toHaveBeenCalledWith('bot_1', expect.objectContaining({ status: 'active' }));
+    expect(mockActivities.record).not.toHaveBeenCalled();
+  });
+
+  it('should not retry or fail a stage that fails after the job was cancelled', async () => {
+    failingStage = 'mcp_registration';
+    job = { ...job, status: 'running', stage: 'mcp_registration', tenantId: 'user_1_tenant' };
+    mockContainerManager.runDeploymentStage.mockImplementationOnce(async () => {
+      await queue.cancel(job);
+      throw new Error('mcp_registration unavailable');
+    });
+
+    await (queue as any).run('bot_1');
+
+    expect(job).toMatchObject({ status: 'cancelled', attempts: 0 });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should resume a retried job from the stage it stopped at', async () => {
+    job = { ...job, status: 'failed', stage: 'eliza_registration', tenantId: 'user_1_tenant', walletAddress: 'mn_addr_1', attempts: 5 };
+    await queue.retry(job);
+
+    expect(job).toMatchObject({ status: 'queued', attempts: 0 });
+    expect(mockDatabase.updateBot).toHaveBeenCalledWith('bot_1', { status: 'deploying' });
+
+    await (queue as any).run('bot_1');
+    expect(mockContainerManager.runDeploymentStage.mock.calls.map((call: any[]) => call[0]))
+      .toEqual(['eliza_registration', 'dao_deploy']);
+    expect(job.status).toBe('completed');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { AuthService, roleAtLeast } from '../src/auth';
+
+describe('Organization roles', () => {
+  let authService: AuthService;
+  let memberships: Map<string, string>;
+  let invitation: any;
+
+  beforeEach(() => {
+    invitation = {
+      id: 'invitation_1',
+      organizationId: 'org_1',
+      organization: { id: 'org_1', name: 'Acme' },
+      email: 'owner@example.com',
+      role: 'viewer',
+      acceptedAt: null,
+      expiresAt: new Date(Date.now() + 60000)
+    };
+
+    memberships = new Map([
+      ['org_1:owner_1', 'owner'],
+      ['org_1:operator_1', 'operator'],
+      ['org_1:viewer_1', 'viewer'],
+    ]);
+
+    const mockDatabase: any = {
+      getMembership: jest.fn(async (organizationId: string, userId: string) => {
+        const role = memberships.get(`${organizationId}:${userId}`);
+        return role ? { organizationId, userId, role } : null;
+      }),
+      getInvitationByTokenHash: jest.fn(async () => invitation),
+      acceptInvitation: jest.fn(async (invitationId: string, userId: string, role: string) => {
+        if (invitation.acceptedAt) return null;
+        invitation.acceptedAt = new Date();
+        memberships.set(`${invitation.organizationId}:${userId}`, role);
+        return { organizationId: invitation.organizationId, userId, role };
+      }),
+    };
+
+    authService = new AuthService(mockDatabase);
+  });
+
+  it('should order roles from viewer to owner', () => {
+    expect(roleAtLeast('owner', 'operator')).toBe(true);
+    expect(roleAtLeast('operator', 'operator')).toBe(true);
+    expect(roleAtLeast('viewer', 'operator')).toBe(false);
+    expect(roleAtLeast('admin', 'viewer')).toBe(false);
+    expect(roleAtLeast(null, 'viewer')).toBe(false);
+  });
+
+  it('should resolve bot access through organization membership', async () => {
+    const bot = { id: 'bot_1', userId: 'owner_1', organizationId: 'org_1' };
+
+    // A viewer can read analytics but not send tokens
+    expect(await authService.hasBotRole('viewer_1', bot, 'viewer')).toBe(true);
+    expect(await authService.hasBotRole('viewer_1', bot, 'operator')).toBe(false);
+
+    expect(await authService.hasBotRole('operator_1', bot, 'operator')).toBe(true);
+    expect(await authService.hasBotRole('operator_1', bot, 'owner')).toBe(false);
+    expect(await authService.hasBotRole('owner_1', bot, 'owner')).toBe(true);
+    expect(await authService.hasBotRole('stranger', bot, 'viewer')).toBe(false);
+  });
+
+  it('should treat the creator of a bot without organization as owner', async () => {
+    const legacyBot = { id: 'bot_2', userId: 'user_1', organizationId: null };
+
+    expect(await authService.getBotRole('user_1', legacyBot)).toBe('owner');
+    expect(await authService.getBotRole('user_2', legacyBot)).toBeNull();
+    expect(await authService.getBotRole('user_1', null)).toBeNull();
+  });
+
+  it('should not lower the role of a member who accepts an invitation', async () => {
+    const membership = await authService.acceptInvitation('token', { id: 'owner_1', email: 'owner@example.com' });
+
+    expect(membership.role).toBe('owner');
+    expect(memberships.get('org_1:owner_1')).toBe('owner');
+  });
+
+  it('should raise the role of a member invited with a higher role', async () => {
+    invitation.email = 'viewer@example.com';
+    invitation.role = 'operator';
+
+    const membership = await authService.acceptInvitation('token', { id: 'viewer_1', email: 'viewer@example.com' });
+
+    expect(membership.role).toBe('operator');
+  });
+
+  it('should only let an invitation be accepted once', async () => {
+    invitation.email = 'new@example.com';
+
+    const results = await Promise.allSettled([
+      authService.acceptInvitation('token', { id: 'user_new', email: 'new@example.com' }),
+      authService.acceptInvitation('token', { id: 'user_new', email: 'new@example.com' })
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ServiceCredentials, ServiceKeys } from '../src/serviceAuth';
+import { PlacementError, TenantPlacementService } from '../src/tenantPlacement';
+import { ServiceKeyRing, ServiceRequestVerifier } from '../../../services/midnight-mcp/src/utils/service-auth';
+
+describe('Treasury payout quorum API', () => {
+  let app: express.Application;
+  let mcp: Server;
+  let mcpUrl: string;
+  let keyDir: string;
+  let quorum: { signers: string[]; threshold: number };
+  let received: any[];
+
+  const bot = { id: 'bot_1', userId: 'owner_1', tenantId: 'owner_1_tenant' };
+
+  beforeEach(async () => {
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'service-keys-'));
+    const keyFile = path.join(keyDir, 'service-keys.json');
+    const credentials = new ServiceCredentials(new ServiceKeys(keyFile, path.join(keyDir, 'service-request-keys.json')));
+    credentials.activeKeyId(); // Creates the key ring both services read
+
+    // The MCP service checks the service credentials on every tenant route
+    quorum = { signers: ['owner_1'], threshold: 1 };
+    received = [];
+    const verifier = new ServiceRequestVerifier(new ServiceKeyRing(keyFile));
+    const wallet = express();
+    wallet.use(express.json({ verify: (req, _res, buf) => { (req as any).rawBody = buf; } }));
+    wallet.use('/api/wallet', (req, res, next) => {
+      try {
+        verifier.verify({ method: req.method, path: req.originalUrl, headers: req.headers, body: (req as any).rawBody });
+        next();
+      } catch (error: any) {
+        res.status(401).json({ error: 'Invalid service credentials', message: error.message });
+      }
+    });
+    wallet.get('/api/wallet/:tenantId/treasury/payout-quorum', (req, res) => {
+      received.push({ method: 'GET', tenantId: req.params.tenantId, header: req.headers['x-tenant-id'] });
+      res.json(quorum);
+    });
+    wallet.put('/api/wallet/:tenantId/treasury/payout-quorum', (req, res) => {
+      received.push({ method: 'PUT', tenantId: req.params.tenantId, header: req.headers['x-tenant-id'], body: req.body });
+      quorum = req.body;
+      res.json({ success: true, quorum });
+    });
+    mcp = await new Promise<Server>(resolve => {
+      const server = wallet.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    mcpUrl = `http://127.0.0.1:${(mcp.address() as AddressInfo).port}`;
+
+    const mockDatabase: any = {
+      getMcpInstances: async () => [{ id: 'mcp-1', url: mcpUrl, capacity: 100, status: 'active', healthy: true, _count: { placements: 1 } }],
+      getTenantPlacement: async () => ({ tenantId: bot.tenantId, instanceId: 'mcp-1', status: 'active' })
+    };
+    const tenantPlacement = new TenantPlacementService(mockDatabase, credentials);
+
+    app = express();
+    app.use(express.json());
+    app.use((req: any, _res, next) => {
+      req.user = { id: req.headers['x-user-id'] };
+      next();
+    });
+
+    app.get('/api/bots/:botId/treasury/payout-quorum', async (req, res) => {
+      try {
+        const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/payout-quorum');
+        const result = await response.json();
+        res.status(response.status).json(result);
+      } catch (error: any) {
+        res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+      }
+    });
+
+    app.put('/api/bots/:botId/treasury/payout-quorum', async (req: any, res) => {
+      try {
+        if (req.user.id !== bot.userId) {
+          return res.status(403).json({ error: 'Only the bot owner can change the payout quorum' });
+        }
+
+        const response = await tenantPlacement.fetchWallet(bot.tenantId, '/treasury/payout-quorum', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(req.body)
+        });
+        const result = await response.json();
+        res.status(response.status).json(result);
+      } catch (error: any) {
+        res.status(error instanceof PlacementError ? error.statusCode : 500).json({ error: error.message });
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => mcp.close(resolve));
+    fs.rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  it('should change the quorum on the bot\'s tenant with signed service credentials', async () => {
+    const response = await request(app)
+      .put(`/api/bots/${bot.id}/treasury/payout-quorum`)
+      .set('X-User-Id', 'owner_1')
+      .send({ signers: ['owner_1', 'cosigner_1'], threshold: 2 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, quorum: { signers: ['owner_1', 'cosigner_1'], threshold: 2 } });
+    expect(received).toEqual([{
+      method: 'PUT',
+      tenantId: bot.tenantId,
+      header: bot.tenantId,
+      body: { signers: ['owner_1', 'cosigner_1'], threshold: 2 }
+    }]);
+  });
+
+  it('should read the quorum from the bot\'s tenant', async () => {
+    const response = await request(app).get(`/api/bots/${bot.id}/treasury/payout-quorum`).set('X-User-Id', 'viewer_1');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ signers: ['owner_1'], threshold: 1 });
+    expect(received).toEqual([{ method: 'GET', tenantId: bot.tenantId, header: bot.tenantId }]);
+  });
+
+  it('should be refused by the MCP service without service credentials', async () => {
+    const response = await fetch(`${mcpUrl}/api/wallet/${bot.tenantId}/treasury/payout-quorum`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'X-Tenant-ID': bot.tenantId },
+      body: JSON.stringify({ signers: ['intruder'], threshold: 1 })
+    });
+
+    expect(response.status).toBe(401);
+    expect(received).toEqual([]);
+    expect(quorum).toEqual({ signers: ['owner_1'], threshold: 1 });
+  });
+});
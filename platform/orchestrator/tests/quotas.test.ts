@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { QuotaService, QuotaExceededError, TIER_POLICIES } from '../src/quotas';
+
+describe('Tier quota policy', () => {
+  let quotaService: QuotaService;
+  let mockDatabase: any;
+
+  beforeEach(() => {
+    mockDatabase = {
+      getUser: jest.fn(async (userId: string) => ({ id: userId, tier: userId.split('_')[0] })),
+      countUserBots: jest.fn(async () => 1),
+      countUsageSince: jest.fn(async () => 0),
+      recordUsage: jest.fn(),
+    };
+
+    quotaService = new QuotaService(mockDatabase);
+  });
+
+  it('should block bot creation over the tier limit', async () => {
+    const error = await quotaService.assertCanCreateBot('basic_1', { wallet: true }).catch(e => e);
+    expect(error.statusCode).toBe(429);
+    expect(error.toJSON()).toMatchObject({ quota: 'bots', tier: 'basic', limit: 1, used: 1 });
+
+    await expect(quotaService.assertCanCreateBot('premium_1', { wallet: true })).resolves.toBeUndefined();
+  });
+
+  it('should block features outside the tier', async () => {
+    const error = await quotaService.assertCanCreateBot('premium_1', { wallet: true, marketplace: true })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.statusCode).toBe(403);
+    expect(error.toJSON()).toMatchObject({ quota: 'feature', tier: 'premium', feature: 'marketplace' });
+
+    await expect(quotaService.assertFeature('enterprise_1', 'marketplace')).resolves.toBeUndefined();
+  });
+
+  it('should enforce daily transfer and chat limits', async () => {
+    mockDatabase.countUsageSince.mockImplementation(async (_: string, kind: string) =>
+      kind === 'transfer' ? TIER_POLICIES.basic.maxDailyTransfers : 0
+    );
+
+    const error = await quotaService.assertDailyUsage('basic_1', 'transfer').catch(e => e);
+    expect(error.toJSON()).toMatchObject({ quota: 'transfer', limit: 10, used: 10 });
+    expect(error.toJSON().resetsAt).toBeInstanceOf(Date);
+
+    await expect(quotaService.assertDailyUsage('basic_1', 'chat_message')).resolves.toBeUndefined();
+    await expect(quotaService.assertDailyUsage('enterprise_1', 'transfer')).resolves.toBeUndefined();
+  });
+
+  it('should fall back to the basic tier for unknown tiers', async () => {
+    const usage = await quotaService.getUsage('legacy_1');
+
+    expect(usage.tier).toBe('basic');
+    expect(usage.usage.bots).toEqual({ used: 1, limit: 1 });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SeedEncryption, LocalKeyProvider } from '../src/seedEncryption';
+
+describe('Seed envelope encryption', () => {
+  const seed = 'a1'.repeat(32);
+  let keyDir: string;
+  let seedEncryption: SeedEncryption;
+
+  beforeEach(() => {
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-keys-'));
+    const provider = new LocalKeyProvider(path.join(keyDir, 'ring.json'));
+    provider.create();
+    seedEncryption = new SeedEncryption(provider);
+  });
+
+  afterEach(() => {
+    fs.rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  it('should seal and open a seed', async () => {
+    const sealed = await seedEncryption.encryptSeed(seed);
+
+    expect(sealed.startsWith('enc:v1:')).toBe(true);
+    expect(sealed).not.toContain(seed);
+    expect(await seedEncryption.encryptSeed(sealed)).toBe(sealed);
+    expect(await seedEncryption.decryptSeed(sealed)).toBe(seed);
+  });
+
+  it('should not create or replace a key ring implicitly', async () => {
+    const missing = new SeedEncryption(new LocalKeyProvider(path.join(keyDir, 'missing.json')));
+
+    await expect(missing.encryptSeed(seed)).rejects.toThrow('Seed master key ring not found');
+    expect(fs.existsSync(path.join(keyDir, 'missing.json'))).toBe(false);
+    expect(() => new LocalKeyProvider(path.join(keyDir, 'ring.json')).create()).toThrow('already exists');
+  });
+
+  it('should pass legacy plaintext seeds through', async () => {
+    expect(await seedEncryption.decryptSeed(`${seed}\n`)).toBe(seed);
+  });
+
+  it('should re-wrap seeds after a master key rotation', async () => {
+    const sealed = await seedEncryption.encryptSeed(seed);
+    await seedEncryption.rotateMasterKey();
+
+    const rewrapped = await seedEncryption.rewrapSeed(sealed);
+    expect(rewrapped).not.toBe(sealed);
+    expect(await seedEncryption.rewrapSeed(rewrapped)).toBe(rewrapped);
+    expect(await seedEncryption.decryptSeed(rewrapped)).toBe(seed);
+  });
+});
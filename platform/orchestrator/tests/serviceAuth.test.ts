@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceCredentials, ServiceKeys, canonicalRequest, purposeKey, tenantTokenMessage } from '../src/serviceAuth';
+
+describe('Service credentials', () => {
+  const NOW = Date.parse('2026-03-02T08:30:00Z');
+  let keyDir: string;
+  let keyFile: string;
+  let requestKeyFile: string;
+  let keys: ServiceKeys;
+  let credentials: ServiceCredentials;
+  const originalFetch = global.fetch;
+
+  const ring = () => JSON.parse(fs.readFileSync(keyFile, 'utf-8'));
+  const ringKey = (keyId: string) => Buffer.from(ring().keys[keyId], 'base64');
+
+  beforeEach(() => {
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'service-keys-'));
+    keyFile = path.join(keyDir, 'service-keys.json');
+    requestKeyFile = path.join(keyDir, 'service-request-keys.json');
+    keys = new ServiceKeys(keyFile, requestKeyFile);
+    credentials = new ServiceCredentials(keys, () => NOW);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  it('should sign the method, path, query and body of a request', () => {
+    const body = JSON.stringify({ amount: '5' });
+    const headers = credentials.sign('post', 'http://mcp-1:3001/api/wallet/tenant_a/send?dryRun=true', body);
+    const { activeKeyId } = ring();
+
+    const expected = crypto.createHmac('sha256', purposeKey(ringKey(activeKeyId), 'service-request'))
+      .update(canonicalRequest('POST', '/api/wallet/tenant_a/send?dryRun=true', String(NOW), headers['X-Service-Nonce'], body))
+      .digest('hex');
+
+    expect(headers).toMatchObject({ 'X-Service-Key-Id': activeKeyId, 'X-Service-Timestamp': String(NOW) });
+    expect(headers['X-Service-Signature']).toBe(expected);
+    expect(credentials.sign('POST', 'http://mcp-1:3001/api/wallet/tenant_a/send', body)['X-Service-Nonce'])
+      .not.toBe(headers['X-Service-Nonce']);
+  });
+
+  it('should keep old keys valid after a rotation until they are pruned', () => {
+    const first = credentials.activeKeyId();
+    const second = keys.rotate();
+
+    expect(second).not.toBe(first);
+    expect(credentials.sign('GET', 'http://mcp-1:3001/api/tenants/stats')['X-Service-Key-Id']).toBe(second);
+    expect(Object.keys(ring().keys)).toEqual([first, second]);
+
+    expect(keys.prune()).toEqual([first]);
+    expect(ring()).toEqual({ activeKeyId: second, keys: { [second]: expect.any(String) } });
+    expect(keys.prune()).toEqual([]);
+  });
+
+  it('should give services that sign calls only the request signing keys', () => {
+    const first = credentials.activeKeyId();
+    const second = keys.rotate();
+    const requestKeys = () => JSON.parse(fs.readFileSync(requestKeyFile, 'utf-8'));
+
+    expect(requestKeys()).toEqual({
+      activeKeyId: second,
+      keys: {
+        [first]: purposeKey(ringKey(first), 'service-request').toString('base64'),
+        [second]: purposeKey(ringKey(second), 'service-request').toString('base64')
+      }
+    });
+    expect(purposeKey(ringKey(second), 'tenant-token')).not.toEqual(purposeKey(ringKey(second), 'service-request'));
+
+    keys.prune();
+    expect(Object.keys(requestKeys().keys)).toEqual([second]);
+
+    // Rings created before the copy existed get one when next read
+    fs.rmSync(requestKeyFile);
+    credentials.activeKeyId();
+    expect(requestKeys().activeKeyId).toBe(second);
+  });
+
+  it('should issue tenant tokens signed with the active key', () => {
+    const { token, tokenId, expiresAt } = credentials.issueTenantToken('tenant_a', 60 * 60 * 1000);
+    const [prefix, keyId, payload, signature] = token.split('.');
+
+    expect(prefix).toBe('mcpt');
+    expect(keyId).toBe(credentials.activeKeyId());
+    expect(JSON.parse(Buffer.from(payload, 'base64url').toString()))
+      .toEqual({ tenantId: 'tenant_a', jti: tokenId, exp: NOW + 60 * 60 * 1000 });
+    expect(credentials.issueTenantToken('tenant_a', 60 * 60 * 1000).tokenId).not.toBe(tokenId);
+    expect(expiresAt).toEqual(new Date(NOW + 60 * 60 * 1000));
+    expect(signature).toBe(crypto.createHmac('sha256', purposeKey(ringKey(keyId), 'tenant-token'))
+      .update(tenantTokenMessage(keyId, payload))
+      .digest('base64url'));
+  });
+
+  it('should add the signature to the headers of a fetch', async () => {
+    const fetchMock = jest.fn(async () => ({ ok: true }));
+    global.fetch = fetchMock as any;
+
+    await credentials.fetch('http://eliza:3004/tenants/tenant_a/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"message":"hi"}'
+    });
+
+    const [, init] = fetchMock.mock.calls[0] as any[];
+    expect(init.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      'X-Service-Key-Id': credentials.activeKeyId(),
+      'X-Service-Signature': expect.any(String)
+    });
+    expect(init.body).toBe('{"message":"hi"}');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { AuthService } from '../src/auth';
+
+describe('Session tokens', () => {
+  let authService: AuthService;
+  let mockDatabase: any;
+  let sessions: Map<string, any>;
+
+  beforeEach(() => {
+    sessions = new Map();
+
+    mockDatabase = {
+      getUser: jest.fn(async (userId: string) => ({ id: userId, email: 'user@example.com' })),
+      createSession: jest.fn(async (data: any) => {
+        const session = { id: `session_${sessions.size + 1}`, revokedAt: null, previousTokenHash: null, ...data };
+        sessions.set(session.id, session);
+        return session;
+      }),
+      getSession: jest.fn(async (sessionId: string) => sessions.get(sessionId) || null),
+      findSessionByRefreshHash: jest.fn(async (tokenHash: string) => {
+        for (const session of sessions.values()) {
+          if (session.refreshTokenHash === tokenHash) return { session: { ...session }, reused: false };
+          if (session.previousTokenHash === tokenHash) return { session: { ...session }, reused: true };
+        }
+        return null;
+      }),
+      rotateSessionToken: jest.fn(async (sessionId: string, currentHash: string, tokenHash: string, expiresAt: Date) => {
+        const session = sessions.get(sessionId);
+        if (session.refreshTokenHash !== currentHash || session.revokedAt) return false;
+        session.previousTokenHash = currentHash;
+        session.refreshTokenHash = tokenHash;
+        session.expiresAt = expiresAt;
+        return true;
+      }),
+      revokeSession: jest.fn(async (sessionId: string) => {
+        sessions.get(sessionId).revokedAt = new Date();
+      }),
+      revokeUserSessions: jest.fn(async (userId: string) => {
+        let count = 0;
+        for (const session of sessions.values()) {
+          if (session.userId === userId && !session.revokedAt) {
+            session.revokedAt = new Date();
+            count++;
+          }
+        }
+        return count;
+      }),
+    };
+
+    authService = new AuthService(mockDatabase);
+  });
+
+  it('should issue an access token bound to a new session', async () => {
+    const tokens = await authService.createSession('user_1');
+
+    const principal = await authService.verifyToken(tokens.token);
+
+    expect(principal).toEqual({ id: 'user_1', email: 'user@example.com', sessionId: 'session_1' });
+    expect(tokens.refreshToken).toBeDefined();
+  });
+
+  it('should rotate the refresh token on use', async () => {
+    const first = await authService.createSession('user_1');
+    const second = await authService.refreshSession(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    await expect(authService.verifyToken(second.token)).resolves.toMatchObject({ id: 'user_1' });
+  });
+
+  it('should revoke the session when a rotated refresh token is reused', async () => {
+    const first = await authService.createSession('user_1');
+    const second = await authService.refreshSession(first.refreshToken);
+
+    await expect(authService.refreshSession(first.refreshToken)).rejects.toThrow('Refresh token reuse detected');
+    await expect(authService.verifyToken(second.token)).rejects.toThrow('Invalid token');
+    await expect(authService.refreshSession(second.refreshToken)).rejects.toThrow('Session expired');
+  });
+
+  it('should keep the session when two refreshes race with the same token', async () => {
+    const first = await authService.createSession('user_1');
+
+    const results = await Promise.allSettled([
+      authService.refreshSession(first.refreshToken),
+      authService.refreshSession(first.refreshToken)
+    ]);
+
+    const [winner, loser] = results[0].status === 'fulfilled' ? results : [results[1], results[0]];
+    expect(winner.status).toBe('fulfilled');
+    expect(loser).toMatchObject({ status: 'rejected', reason: new Error('Refresh token already used') });
+    const next = (winner as PromiseFulfilledResult<any>).value;
+    await expect(authService.refreshSession(next.refreshToken)).resolves.toMatchObject({ expiresIn: expect.anything() });
+  });
+
+  it('should reject access tokens of revoked sessions', async () => {
+    const laptop = await authService.createSession('user_1');
+    const phone = await authService.createSession('user_1');
+
+    await authService.revokeSession('session_1');
+    await expect(authService.verifyToken(laptop.token)).rejects.toThrow('Invalid token');
+    await expect(authService.verifyToken(phone.token)).resolves.toMatchObject({ sessionId: 'session_2' });
+
+    expect(await authService.revokeAllSessions('user_1')).toBe(1);
+    await expect(authService.verifyToken(phone.token)).rejects.toThrow('Invalid token');
+  });
+
+  it('should refuse to sign tokens without a configured secret', async () => {
+    const secret = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+
+    try {
+      await expect(authService.createSession('user_1')).rejects.toThrow('JWT_SECRET is not configured');
+    } finally {
+      process.env.JWT_SECRET = secret;
+    }
+  });
+});
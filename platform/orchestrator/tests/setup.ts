@@ -10,6 +10,8 @@ process.env.USER_DATA_PATH = './test-data/users';
 process.env.PORT_RANGE_START = '5000';
 process.env.PORT_RANGE_END = '5100';
 process.env.OPENAI_API_KEY = 'test_openai_key';
+process.env.SERVICE_KEY_FILE = './test-data/service-keys.json';
+process.env.SERVICE_REQUEST_KEY_FILE = './test-data/service-request-keys.json';
 
 // Mock Docker commands for testing
 jest.mock('child_process', () => ({
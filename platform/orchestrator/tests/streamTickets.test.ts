@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { StreamTickets } from '../src/events';
+
+describe('Event stream tickets', () => {
+  let tickets: StreamTickets;
+  const user = { id: 'user_1', email: 'user@example.com', sessionId: 'session_1' };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tickets = new StreamTickets();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open the stream for the ticket\'s user only once', () => {
+    const { ticket, expiresIn } = tickets.issue(user);
+
+    expect(expiresIn).toBe(30);
+    expect(tickets.redeem(ticket)).toEqual(user);
+    expect(tickets.redeem(ticket)).toBeNull();
+  });
+
+  it('should reject expired and unknown tickets', () => {
+    const { ticket } = tickets.issue(user);
+    jest.advanceTimersByTime(30 * 1000);
+
+    expect(tickets.redeem(ticket)).toBeNull();
+    expect(tickets.redeem('not-a-ticket')).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpInstanceInfo, PlacementError, TenantPlacementService, assignInstance } from '../src/tenantPlacement';
+
+describe('Tenant placement across MCP instances', () => {
+  let placement: TenantPlacementService;
+  let mockDatabase: any;
+  let instances: Map<string, any>;
+  let placements: Map<string, any>;
+  let fetchMock: jest.Mock;
+  const originalFetch = global.fetch;
+
+  const instance = (id: string, overrides: Partial<McpInstanceInfo> = {}): McpInstanceInfo => ({
+    id,
+    url: `http://${id}:3001`,
+    capacity: 100,
+    status: 'active',
+    healthy: true,
+    tenants: 0,
+    ...overrides
+  });
+
+  const respond = (status: number, data: any) => ({ ok: status < 400, status, json: async () => data });
+  const bundle = { tenant: { tenantId: 'tenant_a', sealedSeed: 'enc:v1:seed' }, walletState: '{}', spendLedger: [] };
+
+  beforeEach(() => {
+    instances = new Map([
+      ['mcp-1', { id: 'mcp-1', url: 'http://mcp-1:3001', capacity: 100, status: 'active', healthy: true }],
+      ['mcp-2', { id: 'mcp-2', url: 'http://mcp-2:3001', capacity: 100, status: 'active', healthy: true }]
+    ]);
+    placements = new Map();
+
+    const count = (id: string) => Array.from(placements.values()).filter(p => p.instanceId === id).length;
+    mockDatabase = {
+      getMcpInstances: jest.fn(async () =>
+        Array.from(instances.values()).map(row => ({ ...row, _count: { placements: count(row.id) } }))),
+      getMcpInstance: jest.fn(async (id: string) => instances.get(id) || null),
+      updateMcpInstance: jest.fn(async (id: string, data: any) => Object.assign(instances.get(id), data)),
+      getTenantPlacement: jest.fn(async (tenantId: string) => placements.get(tenantId) || null),
+      getTenantPlacements: jest.fn(async (id: string) => Array.from(placements.values()).filter(p => p.instanceId === id)),
+      setTenantPlacement: jest.fn(async (tenantId: string, data: any) => {
+        placements.set(tenantId, { tenantId, status: 'active', ...placements.get(tenantId), ...data });
+      }),
+      updateTenantPlacementInStatus: jest.fn(async (tenantId: string, status: string, data: any) => {
+        const current = placements.get(tenantId);
+        if (current?.status !== status) return null;
+        placements.set(tenantId, { ...current, ...data, updatedAt: new Date() });
+        return { ...placements.get(tenantId) };
+      }),
+      getStaleMigratingPlacements: jest.fn(async (cutoff: Date) => Array.from(placements.values())
+        .filter(p => p.status === 'migrating' && p.updatedAt < cutoff))
+    };
+
+    fetchMock = jest.fn(async (url: any) => url.endsWith('/drain') ? respond(200, bundle) : respond(201, { success: true }));
+    global.fetch = fetchMock as any;
+
+    placement = new TenantPlacementService(mockDatabase, undefined, 60000);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should assign each tenant the same instance every time', () => {
+    const all = [instance('mcp-1'), instance('mcp-2'), instance('mcp-3')];
+    const tenants = Array.from({ length: 30 }, (_, i) => `tenant_${i}`);
+    const chosen = tenants.map(tenantId => assignInstance(tenantId, all)!.id);
+
+    expect(tenants.map(tenantId => assignInstance(tenantId, [...all].reverse())!.id)).toEqual(chosen);
+    expect(new Set(chosen).size).toBe(3);
+
+    // Removing an instance only moves the tenants that were on it
+    const remaining = all.filter(candidate => candidate.id !== 'mcp-3');
+    tenants.forEach((tenantId, i) => {
+      if (chosen[i] !== 'mcp-3') expect(assignInstance(tenantId, remaining)!.id).toBe(chosen[i]);
+    });
+  });
+
+  it('should skip full, draining and unhealthy instances', () => {
+    expect(assignInstance('tenant_a', [
+      instance('full', { tenants: 100 }),
+      instance('draining', { status: 'draining' }),
+      instance('down', { healthy: false })
+    ])).toBeNull();
+    expect(assignInstance('tenant_a', [instance('full', { tenants: 100 }), instance('open')])!.id).toBe('open');
+  });
+
+  it('should place a new tenant once and route its calls there', async () => {
+    const url = await placement.urlFor('tenant_a');
+
+    expect(await placement.urlFor('tenant_a')).toBe(url);
+    expect(mockDatabase.setTenantPlacement).toHaveBeenCalledTimes(1);
+    expect(url).toBe(instances.get(placements.get('tenant_a').instanceId).url);
+
+    await placement.fetch('tenant_a', '/api/wallet/tenant_a/address');
+    expect(fetchMock).toHaveBeenCalledWith(`${url}/api/wallet/tenant_a/address`, {
+      headers: expect.objectContaining({ 'X-Service-Signature': expect.any(String) })
+    });
+  });
+
+  it('should refuse calls for a tenant that is being moved', async () => {
+    placements.set('tenant_a', { tenantId: 'tenant_a', instanceId: 'mcp-1', status: 'migrating' });
+
+    await expect(placement.urlFor('tenant_a')).rejects.toMatchObject({ statusCode: 503 });
+  });
+
+  it('should move a tenant by draining it and importing it on the target', async () => {
+    placements.set('tenant_a', { tenantId: 'tenant_a', instanceId: 'mcp-1', status: 'active' });
+    expect(await placement.urlFor('tenant_a')).toBe('http://mcp-1:3001');
+
+    expect(await placement.migrate('tenant_a', 'mcp-2')).toEqual({ tenantId: 'tenant_a', from: 'mcp-1', to: 'mcp-2' });
+
+    const [drainUrl] = fetchMock.mock.calls[0] as any[];
+    const [importUrl, request] = fetchMock.mock.calls[1] as any[];
+    expect(drainUrl).toBe('http://mcp-1:3001/api/tenants/tenant_a/drain');
+    expect(importUrl).toBe('http://mcp-2:3001/api/tenants/import');
+    expect(JSON.parse(request.body)).toEqual(bundle);
+    expect(placements.get('tenant_a')).toMatchObject({ instanceId: 'mcp-2', status: 'active', migratingTo: null });
+    expect(await placement.urlFor('tenant_a')).toBe('http://mcp-2:3001');
+  });
+
+  it('should let only one of two concurrent migrations claim a tenant', async () => {
+    placements.set('tenant_a', { tenantId: 'tenant_a', instanceId: 'mcp-1', status: 'active' });
+    instances.set('mcp-3', { id: 'mcp-3', url: 'http://mcp-3:3001', capacity: 100, status: 'active', healthy: true });
+
+    const results = await Promise.allSettled([placement.migrate('tenant_a', 'mcp-2'), placement.migrate('tenant_a', 'mcp-3')]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason)
+      .toMatchObject({ statusCode: 409 });
+    expect(fetchMock.mock.calls.filter(([url]: any) => url.endsWith('/drain'))).toHaveLength(1);
+  });
+
+  it('should settle an interrupted migration on the instance holding the tenant', async () => {
+    const longAgo = new Date(Date.now() - 5 * 60000);
+    placements.set('tenant_a', { tenantId: 'tenant_a', instanceId: 'mcp-1', status: 'migrating', migratingTo: 'mcp-2', updatedAt: longAgo });
+    placements.set('tenant_b', { tenantId: 'tenant_b', instanceId: 'mcp-1', status: 'migrating', migratingTo: 'mcp-2', updatedAt: longAgo });
+    placements.set('tenant_c', { tenantId: 'tenant_c', instanceId: 'mcp-1', status: 'migrating', migratingTo: 'mcp-2', updatedAt: new Date() });
+    fetchMock.mockImplementation(async (url: any) =>
+      url === 'http://mcp-2:3001/api/tenants/tenant_a/metadata' || url === 'http://mcp-1:3001/api/tenants/tenant_b/metadata'
+        ? respond(200, {})
+        : respond(404, { error: 'not found' }));
+
+    await placement.recoverStaleMigrations();
+
+    expect(placements.get('tenant_a')).toMatchObject({ instanceId: 'mcp-2', status: 'active', migratingTo: null });
+    expect(placements.get('tenant_b')).toMatchObject({ instanceId: 'mcp-1', status: 'active', migratingTo: null });
+    expect(placements.get('tenant_c')).toMatchObject({ status: 'migrating' });
+    expect(await placement.urlFor('tenant_a')).toBe('http://mcp-2:3001');
+  });
+
+  it('should leave an interrupted migration alone while an instance can\'t be asked', async () => {
+    placements.set('tenant_a', {
+      tenantId: 'tenant_a', instanceId: 'mcp-1', status: 'migrating', migratingTo: 'mcp-2', updatedAt: new Date(0)
+    });
+    fetchMock.mockImplementation(async () => { throw new Error('connect ECONNREFUSED'); });
+
+    await placement.recoverStaleMigrations();
+
+    expect(placements.get('tenant_a')).toMatchObject({ instanceId: 'mcp-1', status: 'migrating' });
+  });
+
+  it('should hand the tenant back when the target refuses it', async () => {
+    placements.set('tenant_a', { tenantId: 'tenant_a', instanceId: 'mcp-1', status: 'active' });
+    fetchMock.mockImplementation(async (url: any) => {
+      if (url.endsWith('/drain')) return respond(200, bundle);
+      return url.startsWith('http://mcp-2') ? respond(500, { error: 'disk full' }) : respond(201, { success: true });
+    });
+
+    await expect(placement.migrate('tenant_a', 'mcp-2')).rejects.toThrow(PlacementError);
+
+    expect(fetchMock.mock.calls[2][0]).toBe('http://mcp-1:3001/api/tenants/import');
+    expect(placements.get('tenant_a')).toMatchObject({ instanceId: 'mcp-1', status: 'active' });
+  });
+
+  it('should move every tenant off a drained instance', async () => {
+    placements.set('tenant_a', { tenantId: 'tenant_a', instanceId: 'mcp-1', status: 'active' });
+    placements.set('tenant_b', { tenantId: 'tenant_b', instanceId: 'mcp-1', status: 'active' });
+
+    const result = await placement.drain('mcp-1');
+
+    expect(result).toEqual({
+      moved: [{ tenantId: 'tenant_a', to: 'mcp-2' }, { tenantId: 'tenant_b', to: 'mcp-2' }],
+      failed: []
+    });
+    expect(instances.get('mcp-1').status).toBe('draining');
+    expect(await placement.urlFor('tenant_new')).toBe('http://mcp-2:3001');
+  });
+});
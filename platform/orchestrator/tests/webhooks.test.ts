@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as dns from 'dns/promises';
+import {
+  WebhookService,
+  WebhookUrlError,
+  assertPublicWebhookUrl,
+  postWebhook,
+  signWebhookPayload,
+  webhookRetryDelay
+} from '../src/webhooks';
+
+jest.mock('dns/promises', () => ({
+  lookup: jest.fn(async () => [{ address: '93.184.216.34', family: 4 }])
+}));
+
+describe('Signed outbound webhooks', () => {
+  let webhooks: WebhookService;
+  let mockDatabase: any;
+  let delivery: any;
+  let postMock: jest.Mock;
+
+  const subscription = {
+    id: 'wh_1',
+    userId: 'user_1',
+    url: 'https://hooks.example.com/midnight',
+    secret: 'whsec_test',
+    active: true
+  };
+
+  const activity = {
+    id: 'act_1',
+    userId: 'user_1',
+    botId: 'bot_1',
+    type: 'treasury_deployed',
+    title: 'Treasury deployed',
+    description: 'DAO treasury contracts deployed',
+    severity: 'success',
+    createdAt: new Date('2025-01-01T00:00:00Z')
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    mockDatabase = {
+      getWebhooksForActivity: jest.fn(async () => [subscription]),
+      createWebhookDelivery: jest.fn(async (data: any) => {
+        delivery = { id: 'dlv_1', ...data, status: 'pending', attempts: 0 };
+        return delivery;
+      }),
+      getWebhookDelivery: jest.fn(async () => ({ ...delivery, subscription })),
+      updateWebhookDelivery: jest.fn(async (_id: string, data: any) => (delivery = { ...delivery, ...data })),
+    };
+
+    postMock = jest.fn(async () => ({ status: 200 }));
+
+    webhooks = new WebhookService(mockDatabase, postMock as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should deliver an HMAC-signed payload', async () => {
+    await webhooks.dispatch(activity);
+    await (webhooks as any).attempt('wh_1', 'dlv_1');
+
+    const [url, request] = postMock.mock.calls[0] as any[];
+    const timestamp = request.headers['X-MidnightOS-Timestamp'];
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`${timestamp}.${request.body}`).digest('hex');
+
+    expect(url).toBe(subscription.url);
+    expect(request.headers['X-MidnightOS-Event']).toBe('treasury_deployed');
+    expect(request.headers['X-MidnightOS-Signature']).toBe(`sha256=${expected}`);
+    expect(signWebhookPayload('whsec_test', Number(timestamp), request.body)).toBe(`sha256=${expected}`);
+    expect(JSON.parse(request.body)).toMatchObject({ id: 'dlv_1', event: 'treasury_deployed', activity: { id: 'act_1' } });
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+  });
+
+  it('should not queue deliveries for activity types outside the webhook events', async () => {
+    await webhooks.dispatch({ ...activity, type: 'member_joined' });
+
+    expect(mockDatabase.getWebhooksForActivity).not.toHaveBeenCalled();
+    expect(mockDatabase.createWebhookDelivery).not.toHaveBeenCalled();
+  });
+
+  it('should back off after a failed delivery', async () => {
+    postMock.mockImplementation(async () => ({ status: 503 }));
+    await webhooks.dispatch(activity);
+    jest.clearAllTimers();
+
+    await (webhooks as any).attempt('wh_1', 'dlv_1');
+
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503 });
+    expect(jest.getTimerCount()).toBe(1);
+    expect(webhookRetryDelay(1)).toBeLessThan(webhookRetryDelay(2));
+  });
+
+  it('should dead-letter a delivery that runs out of attempts and redeliver it on request', async () => {
+    postMock.mockImplementation(async () => { throw new Error('connect ECONNREFUSED'); });
+    await webhooks.dispatch(activity);
+    jest.clearAllTimers();
+    delivery = { ...delivery, attempts: 7 };
+
+    await (webhooks as any).attempt('wh_1', 'dlv_1');
+    expect(delivery).toMatchObject({ status: 'dead', attempts: 8, lastError: 'connect ECONNREFUSED' });
+    expect(jest.getTimerCount()).toBe(0);
+
+    await webhooks.redeliver(delivery);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 0, lastError: null });
+    expect(jest.getTimerCount()).toBe(1);
+  });
+
+  it('should refuse URLs that reach loopback, private or link-local addresses', async () => {
+    const lookup = dns.lookup as unknown as jest.Mock;
+
+    await expect(assertPublicWebhookUrl('ftp://hooks.example.com')).rejects.toThrow(WebhookUrlError);
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.10', '169.254.169.254', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      lookup.mockImplementationOnce(async () => [{ address, family: address.includes(':') ? 6 : 4 }]);
+      await expect(assertPublicWebhookUrl('https://hooks.example.com')).rejects.toThrow('private or loopback');
+    }
+    await expect(assertPublicWebhookUrl('https://hooks.example.com')).resolves.toBeUndefined();
+  });
+
+  it('should refuse IPv4-mapped and NAT64 addresses of private hosts in any notation', async () => {
+    const lookup = dns.lookup as unknown as jest.Mock;
+    const { lookup: resolve } = jest.requireActual<typeof dns>('dns/promises');
+
+    for (const url of ['http://[::ffff:7f00:1]/hook', 'http://[::ffff:127.0.0.1]/hook', 'http://[0:0:0:0:0:ffff:a00:7]/hook']) {
+      lookup.mockImplementationOnce(resolve as any);
+      await expect(assertPublicWebhookUrl(url)).rejects.toThrow('private or loopback');
+    }
+    lookup.mockImplementationOnce(async () => [{ address: '64:ff9b::a9fe:a9fe', family: 6 }]);
+    await expect(assertPublicWebhookUrl('https://hooks.example.com')).rejects.toThrow('private or loopback');
+
+    lookup.mockImplementationOnce(resolve as any);
+    await expect(assertPublicWebhookUrl('http://[::ffff:5db8:d822]/hook')).resolves.toBeUndefined();
+  });
+
+  it('should not deliver to a host that has started resolving to a private address', async () => {
+    (dns.lookup as unknown as jest.Mock).mockImplementationOnce(async () => [{ address: '10.0.0.7', family: 4 }]);
+    await webhooks.dispatch(activity);
+    jest.clearAllTimers();
+
+    await (webhooks as any).attempt('wh_1', 'dlv_1');
+
+    expect(postMock).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(delivery.lastError).toContain('private or loopback');
+  });
+
+  it('should not connect to a private address the host resolves to after passing the check', async () => {
+    (dns.lookup as unknown as jest.Mock).mockImplementationOnce(async () => [{ address: '127.0.0.1', family: 4 }]);
+
+    await expect(postWebhook('http://rebinding.example.com/hook', { headers: {}, body: '{}' }))
+      .rejects.toThrow('private or loopback');
+  });
+});
@@ -2,18 +2,55 @@ import express from 'express';
 import cors from 'cors';
 import { elizaLogger } from '@elizaos/core';
 import { character as baseCharacter } from './character.ts';
+import { ServiceAuthError, SERVICE_KEY_ID_HEADER, verifyServiceRequest } from './service-auth.ts';
 
 const app = express();
 const PORT = process.env.PORT || 3004;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({
+  // Service credentials sign the body as sent
+  verify: (req, _res, buf) => { (req as any).rawBody = buf; }
+}));
 
 // Multi-tenant storage (simplified approach)
 const tenantConfigs = new Map<string, any>();
 const conversations = new Map<string, any[]>();
 
+// Require the signed service credentials the orchestrator issues; rejected calls are security events
+const requireServiceCredentials = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  try {
+    (req as any).serviceKeyId = verifyServiceRequest({
+      method: req.method,
+      path: req.originalUrl,
+      headers: req.headers,
+      body: (req as any).rawBody
+    });
+    next();
+  } catch (error) {
+    if (!(error instanceof ServiceAuthError)) {
+      return next(error);
+    }
+
+    elizaLogger.warn(`SECURITY_EVENT: Rejected service call to ${req.method} ${req.originalUrl}: ${error.message}`, {
+      type: 'security_event',
+      method: req.method,
+      path: req.originalUrl,
+      reason: error.message,
+      keyId: req.headers[SERVICE_KEY_ID_HEADER],
+      ip: req.ip
+    });
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid service credentials',
+      message: error.message
+    });
+  }
+};
+
+app.use(['/tenants', '/admin'], requireServiceCredentials);
+
 // Validate tenant middleware
 const validateTenant = (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const tenantId = req.params.tenantId;
@@ -110,6 +147,27 @@ app.get('/tenants/:tenantId/bot', validateTenant, async (req, res) => {
   }
 });
 
+// Remove bot for tenant (deployment cancelled)
+app.delete('/tenants/:tenantId/bot', validateTenant, async (req, res) => {
+  const tenantId = (req as any).tenantId;
+
+  if (!tenantConfigs.delete(tenantId)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Bot not found for this tenant'
+    });
+  }
+
+  for (const key of conversations.keys()) {
+    if (key.startsWith(`${tenantId}:`)) {
+      conversations.delete(key);
+    }
+  }
+
+  elizaLogger.info(`Bot removed for tenant: ${tenantId}`);
+  res.json({ success: true });
+});
+
 // Chat endpoint for specific tenant - Uses intelligent response system
 app.post('/tenants/:tenantId/chat', validateTenant, async (req, res) => {
   try {
@@ -12,6 +12,7 @@ import {
   type State,
   logger,
 } from '@elizaos/core';
+import { signServiceRequest } from './service-auth.ts';
 
 /**
  * MidnightOS Blockchain Plugin
@@ -116,40 +117,70 @@ const sendTransactionAction: Action = {
       
       // Parse the message for amount and recipient
       const amountMatch = text.match(/(\d+(?:\.\d+)?)/);
-      const toMatch = text.match(/to\s+(\S+)/i);
+      // The recipient is an address or a contact name from the address book ("to Alice Smith")
+      const toMatch = text.match(/\bto\s+(.+?)\s*[.!?]*$/i);
       
       if (!amountMatch || !toMatch) {
         return {
-          text: 'Please specify amount and recipient (e.g., "send 100 tokens to alice.wallet")',
+          text: 'Please specify amount and recipient (e.g., "send 100 tokens to Alice")',
           values: { success: false },
           success: false,
         };
       }
 
-      const isShielded = text.toLowerCase().includes('private') || 
-                        text.toLowerCase().includes('shielded');
+      // The character id is the tenant id of the bot's wallet
+      const tenantId = runtime.character.id;
+      const mcpUrl = process.env.WALLET_MCP_URL || 'http://localhost:3001';
+      const sendUrl = `${mcpUrl}/api/wallet/${tenantId}/send`;
+      const body = JSON.stringify({ toAddress: toMatch[1], amount: amountMatch[1] });
+      // Keyed by the message, so handling the same message again can't send twice
+      const response = await fetch(sendUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Tenant-ID': String(tenantId),
+          ...(message.id ? { 'Idempotency-Key': `eliza-${message.id}` } : {}),
+          ...signServiceRequest('POST', sendUrl, body)
+        },
+        body
+      });
+      const result: any = await response.json();
+
+      if (!response.ok) {
+        // Spending policy violations come back with a readable message
+        await callback({
+          text: `I couldn't send ${amountMatch[1]} tokens to ${toMatch[1]}: ${result.message || result.error || 'the wallet refused the transfer'}`,
+          actions: ['SEND_TRANSACTION'],
+          source: message.content.source,
+        });
+        return {
+          text: 'Transaction refused',
+          values: { success: false, amount: amountMatch[1], to: toMatch[1] },
+          data: { error: result },
+          success: false,
+        };
+      }
 
+      const awaitingApproval = result.state === 'pending_approval';
       const responseContent: Content = {
-        text: `Preparing ${isShielded ? 'shielded' : 'transparent'} transaction of ${amountMatch[1]} tokens to ${toMatch[1]}...`,
+        text: awaitingApproval
+          ? result.message
+          : `Sent ${amountMatch[1]} tokens to ${toMatch[1]} (transaction ${result.txIdentifier || result.id}).`,
         actions: ['SEND_TRANSACTION'],
         source: message.content.source,
         data: {
           mcpTool: 'wallet',
           mcpMethod: 'sendTransaction',
-          params: {
-            to: toMatch[1],
-            amount: parseFloat(amountMatch[1]),
-            shielded: isShielded
-          }
+          result
         }
       };
 
       await callback(responseContent);
 
       return {
-        text: 'Transaction initiated',
-        values: { success: true, amount: amountMatch[1], to: toMatch[1] },
-        data: { mcpCall: 'wallet:sendTransaction' },
+        text: awaitingApproval ? 'Transaction awaiting approval' : 'Transaction initiated',
+        values: { success: true, amount: amountMatch[1], to: toMatch[1], state: result.state },
+        data: { mcpCall: 'wallet:sendTransaction', transactionId: result.id },
         success: true,
       };
     } catch (error) {
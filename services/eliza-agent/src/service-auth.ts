@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Signed service credentials between the orchestrator, this service and the
+ * MCP wallet service (platform/orchestrator/src/serviceAuth.ts).
+ *
+ * Requests carry an HMAC-SHA256 signature over their method, path and query,
+ * timestamp, a nonce and a hash of the body, made with a request signing key
+ * the orchestrator issues. Incoming calls are accepted when they are signed
+ * with one of those keys, their timestamp is within the replay window and
+ * their nonce hasn't been seen within that window; outgoing calls to the MCP
+ * tenant routes are signed with the active key.
+ *
+ * This service only gets the request signing keys (SERVICE_REQUEST_KEY_FILE),
+ * not the orchestrator's key ring, so it can't issue tenant tokens.
+ */
+
+export const SERVICE_KEY_ID_HEADER = 'x-service-key-id';
+export const SERVICE_TIMESTAMP_HEADER = 'x-service-timestamp';
+export const SERVICE_NONCE_HEADER = 'x-service-nonce';
+export const SERVICE_SIGNATURE_HEADER = 'x-service-signature';
+
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+
+export class ServiceAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceAuthError';
+  }
+}
+
+interface ServiceKeyRingFile {
+  activeKeyId: string;
+  keys: Record<string, string>; // keyId -> base64 256-bit key
+}
+
+/**
+ * The request signing key file, re-read when the orchestrator rotates the keys
+ */
+class ServiceKeyRing {
+  private ring: ServiceKeyRingFile = { activeKeyId: '', keys: {} };
+  private modifiedAt = -1;
+
+  constructor(private readonly keyFile: string) {}
+
+  secret(keyId: string): Buffer | null {
+    const key = this.load().keys[keyId];
+    return key ? Buffer.from(key, 'base64') : null;
+  }
+
+  activeKey(): { keyId: string; secret: Buffer } {
+    const { activeKeyId, keys } = this.load();
+    return { keyId: activeKeyId, secret: Buffer.from(keys[activeKeyId], 'base64') };
+  }
+
+  private load(): ServiceKeyRingFile {
+    let modifiedAt: number;
+    try {
+      modifiedAt = fs.statSync(this.keyFile).mtimeMs;
+    } catch {
+      throw new ServiceAuthError(`Service request keys ${this.keyFile} not found`);
+    }
+
+    if (modifiedAt !== this.modifiedAt) {
+      this.ring = JSON.parse(fs.readFileSync(this.keyFile, 'utf-8'));
+      this.modifiedAt = modifiedAt;
+    }
+    return this.ring;
+  }
+}
+
+const keyRing = new ServiceKeyRing(
+  process.env.SERVICE_REQUEST_KEY_FILE || path.join(os.homedir(), '.midnightos', 'service-request-keys.json')
+);
+const windowMs = parseInt(process.env.SERVICE_AUTH_WINDOW_MS || String(DEFAULT_WINDOW_MS));
+const seenNonces = new Map<string, number>(); // nonce -> when it leaves the window
+
+function canonicalRequest(method: string, pathAndQuery: string, timestamp: string, nonce: string, body: Buffer | string = ''): string {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  return [method.toUpperCase(), pathAndQuery, timestamp, nonce, bodyHash].join('\n');
+}
+
+/**
+ * Check an incoming request's service credentials
+ * @returns Id of the key the request was signed with
+ * @throws ServiceAuthError if the credentials are missing or not valid
+ */
+export function verifyServiceRequest(request: {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: Buffer;
+}): string {
+  const header = (name: string) => {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const keyId = header(SERVICE_KEY_ID_HEADER);
+  const timestamp = header(SERVICE_TIMESTAMP_HEADER);
+  const nonce = header(SERVICE_NONCE_HEADER);
+  const signature = header(SERVICE_SIGNATURE_HEADER);
+
+  if (!keyId || !timestamp || !nonce || !signature) {
+    throw new ServiceAuthError('Missing service credentials');
+  }
+
+  const secret = keyRing.secret(keyId);
+  if (!secret) {
+    throw new ServiceAuthError(`Unknown service key ${keyId}`);
+  }
+
+  const now = Date.now();
+  const issuedAt = Number(timestamp);
+  if (!Number.isFinite(issuedAt) || Math.abs(now - issuedAt) > windowMs) {
+    throw new ServiceAuthError('Service credentials are outside the replay window');
+  }
+
+  const expected = crypto.createHmac('sha256', secret)
+    .update(canonicalRequest(request.method, request.path, timestamp, nonce, request.body))
+    .digest();
+  const given = Buffer.from(signature, 'hex');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    throw new ServiceAuthError('Invalid service signature');
+  }
+
+  for (const [seenNonce, expiresAt] of seenNonces) {
+    if (expiresAt < now) seenNonces.delete(seenNonce);
+  }
+  if (seenNonces.has(nonce)) {
+    throw new ServiceAuthError('Service request was already used');
+  }
+  seenNonces.set(nonce, issuedAt + windowMs);
+
+  return keyId;
+}
+
+/**
+ * Headers that authenticate an outgoing request to another service
+ * @param url Full URL of the request; its path and query are signed
+ * @param body The exact body sent, if any
+ */
+export function signServiceRequest(method: string, url: string, body?: string): Record<string, string> {
+  const { keyId, secret } = keyRing.activeKey();
+  const { pathname, search } = new URL(url);
+  const timestamp = String(Date.now());
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const signature = crypto.createHmac('sha256', secret)
+    .update(canonicalRequest(method, `${pathname}${search}`, timestamp, nonce, body))
+    .digest('hex');
+
+  return {
+    [SERVICE_KEY_ID_HEADER]: keyId,
+    [SERVICE_TIMESTAMP_HEADER]: timestamp,
+    [SERVICE_NONCE_HEADER]: nonce,
+    [SERVICE_SIGNATURE_HEADER]: signature
+  };
+}
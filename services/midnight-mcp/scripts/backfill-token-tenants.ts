@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+
+/**
+ * Give tenants the token registrations made before tokens were registered per
+ * tenant. Those rows have no tenant, so tenant wallets no longer see them; this
+ * copies them into each tenant's registry and leaves the originals to the
+ * single-tenant wallet. Safe to run again: tokens a tenant already has are kept.
+ * Usage: pnpm backfill-token-tenants [tenantId...]
+ *
+ * Without tenant ids, every registered tenant gets the tokens. Run it once after
+ * the schema update that added Token.tenantId.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { TokenRegistryDatabase } from '../src/wallet/db/TokenRegistryDatabase.js';
+
+async function main() {
+  const prisma = new PrismaClient();
+  const requested = process.argv.slice(2);
+  const tenantIds = requested.length > 0
+    ? requested
+    : (await (prisma as any).tenant.findMany({ select: { tenantId: true } })).map((tenant: any) => tenant.tenantId);
+
+  let copied = 0;
+  for (const tenantId of tenantIds) {
+    const count = await new TokenRegistryDatabase(tenantId, prisma).adoptUnscopedTokens();
+    console.log(`${tenantId}: copied ${count} token(s)`);
+    copied += count;
+  }
+  await prisma.$disconnect();
+
+  console.log(`Copied ${copied} token(s) to ${tenantIds.length} tenant(s)`);
+}
+
+main().catch(error => {
+  console.error('Token tenant backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+#!/usr/bin/env tsx
+
+/**
+ * Create the seed master key ring at SEED_MASTER_KEY_FILE, for an MCP service
+ * running without the orchestrator. Refuses to replace an existing ring.
+ * Usage: pnpm init-seed-key
+ *
+ * When the orchestrator runs too, create the ring there (pnpm seeds:init) and
+ * point both services at the same file.
+ */
+
+import { LocalKeyProvider, getSeedMasterKeyFile } from '../src/utils/seed-encryption.js';
+
+try {
+  const keyFile = getSeedMasterKeyFile();
+  const keyId = new LocalKeyProvider(keyFile).create();
+  console.log(`Created seed master key ${keyId} at ${keyFile}`);
+} catch (error) {
+  console.error('Seed key ring creation failed:', error);
+  process.exit(1);
+}
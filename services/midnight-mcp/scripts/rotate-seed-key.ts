@@ -0,0 +1,48 @@
+#!/usr/bin/env tsx
+
+/**
+ * Rotate the seed master key and re-wrap the agent seed files in .storage/seeds.
+ * Legacy plaintext seed files are sealed.
+ * Usage: pnpm rotate-seed-key [--rewrap-only]
+ *
+ * When the orchestrator shares the key ring, rotate there (pnpm seeds:rotate)
+ * and run this with --rewrap-only.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getSeedEncryption } from '../src/utils/seed-encryption.js';
+
+async function main() {
+  const rewrapOnly = process.argv.includes('--rewrap-only');
+  const seedEncryption = getSeedEncryption();
+
+  if (!rewrapOnly) {
+    const keyId = await seedEncryption.rotateMasterKey();
+    console.log(`New active seed master key: ${keyId}`);
+  }
+
+  const seedsDir = path.resolve(process.cwd(), '.storage', 'seeds');
+  const agents = fs.existsSync(seedsDir) ? fs.readdirSync(seedsDir) : [];
+  let rewrapped = 0;
+
+  for (const agentId of agents) {
+    const seedPath = path.join(seedsDir, agentId, 'seed');
+    if (!fs.existsSync(seedPath)) continue;
+
+    const current = fs.readFileSync(seedPath, 'utf-8');
+    const sealed = await seedEncryption.rewrapSeed(current);
+    if (sealed !== current) {
+      fs.writeFileSync(`${seedPath}.tmp`, sealed, { mode: 0o600 });
+      fs.renameSync(`${seedPath}.tmp`, seedPath);
+      rewrapped++;
+    }
+  }
+
+  console.log(`Re-wrapped ${rewrapped} seed(s)`);
+}
+
+main().catch(error => {
+  console.error('Seed key rotation failed:', error);
+  process.exit(1);
+});
@@ -5,15 +5,20 @@
 
 import { Request, Response } from 'express';
 import { DaoTreasuryManager } from '../integrations/dao-treasury-manager.js';
+import { PayoutQuorumError, type PayoutQuorumErrorCode } from '../integrations/payout-quorum.js';
 import { WalletServiceMCP } from '../mcp/index.js';
 import { createLogger } from '../logger/index.js';
+import { config as appConfig } from '../config.js';
 
 class TreasuryController {
   private logger = createLogger('treasury-controller');
   private treasuryManager?: DaoTreasuryManager;
   private walletService: WalletServiceMCP;
 
-  constructor(walletService: WalletServiceMCP) {
+  /**
+   * @param walletId Whose payout quorum the routes use; a tenant id when serving a tenant's wallet
+   */
+  constructor(walletService: WalletServiceMCP, private readonly walletId: string = appConfig.agentId) {
     this.walletService = walletService;
   }
 
@@ -22,7 +27,10 @@ class TreasuryController {
       const config = {
         fundingTokenAddress: process.env.FUNDING_TOKEN_ADDRESS || '',
         daoVoteTokenAddress: process.env.DAO_VOTE_TOKEN_ADDRESS || '',
-        daoVotingAddress: process.env.DAO_VOTING_ADDRESS
+        daoVotingAddress: process.env.DAO_VOTING_ADDRESS,
+        walletId: this.walletId,
+        // {"threshold": 2, "cosigners": [{"id": "...", "publicKey": "..."}]}
+        payoutQuorum: process.env.TREASURY_PAYOUT_QUORUM ? JSON.parse(process.env.TREASURY_PAYOUT_QUORUM) : undefined
       };
 
       const providers = await this.walletService.getProviders();
@@ -245,6 +253,15 @@ class TreasuryController {
         message: 'Payout executed successfully'
       });
     } catch (error: any) {
+      if (error instanceof PayoutQuorumError) {
+        this.logger.warn(`Payout refused: ${error.message}`);
+        res.status(this.quorumErrorStatus(error.code)).json({
+          error: error.code === 'QUORUM_UNAVAILABLE' ? 'Payout quorum unavailable' : 'Payout quorum not met',
+          code: error.code,
+          details: error.message
+        });
+        return;
+      }
       this.logger.error('Error executing payout:', error);
       res.status(500).json({
         error: 'Failed to execute payout',
@@ -252,6 +269,156 @@ class TreasuryController {
       });
     }
   }
+
+  /**
+   * GET /treasury/payout-quorum
+   */
+  async getPayoutQuorum(req: Request, res: Response): Promise<void> {
+    try {
+      await this.initializeTreasuryManager();
+
+      res.json({
+        success: true,
+        quorum: await this.treasuryManager!.getPayoutQuorum()
+      });
+    } catch (error: any) {
+      if (error instanceof PayoutQuorumError) {
+        res.status(this.quorumErrorStatus(error.code)).json({
+          error: 'Payout quorum unavailable',
+          code: error.code,
+          details: error.message
+        });
+        return;
+      }
+      this.logger.error('Error fetching payout quorum:', error);
+      res.status(500).json({
+        error: 'Failed to fetch payout quorum',
+        details: error.message
+      });
+    }
+  }
+
+  /**
+   * PUT /treasury/payout-quorum
+   */
+  async setPayoutQuorum(req: Request, res: Response): Promise<void> {
+    try {
+      await this.initializeTreasuryManager();
+
+      const quorum = await this.treasuryManager!.configurePayoutQuorum(req.body);
+
+      res.json({
+        success: true,
+        quorum
+      });
+    } catch (error: any) {
+      if (error instanceof PayoutQuorumError) {
+        res.status(this.quorumErrorStatus(error.code)).json({
+          error: 'Invalid payout quorum',
+          code: error.code,
+          details: error.message
+        });
+        return;
+      }
+      this.logger.error('Error setting payout quorum:', error);
+      res.status(500).json({
+        error: 'Failed to set payout quorum',
+        details: error.message
+      });
+    }
+  }
+
+  /**
+   * POST /treasury/proposals/:proposalId/signatures
+   */
+  async signPayout(req: Request, res: Response): Promise<void> {
+    try {
+      await this.initializeTreasuryManager();
+
+      const { proposalId } = req.params;
+      const { signerId, signature } = req.body;
+
+      if (!signerId || !signature) {
+        res.status(400).json({
+          error: 'Missing required fields: signerId, signature'
+        });
+        return;
+      }
+
+      const result = await this.treasuryManager!.signPayout(proposalId, signerId, signature);
+
+      res.json({
+        success: true,
+        signature: result.signature,
+        status: result.status
+      });
+    } catch (error: any) {
+      if (error instanceof PayoutQuorumError) {
+        res.status(this.quorumErrorStatus(error.code)).json({
+          error: 'Signature refused',
+          code: error.code,
+          details: error.message
+        });
+        return;
+      }
+      if (error.message === 'Proposal not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      this.logger.error('Error signing payout:', error);
+      res.status(500).json({
+        error: 'Failed to sign payout',
+        details: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /treasury/proposals/:proposalId/signatures
+   */
+  async getPayoutSignatures(req: Request, res: Response): Promise<void> {
+    try {
+      await this.initializeTreasuryManager();
+
+      const status = await this.treasuryManager!.getPayoutStatus(req.params.proposalId);
+
+      res.json({
+        success: true,
+        status
+      });
+    } catch (error: any) {
+      if (error instanceof PayoutQuorumError) {
+        res.status(this.quorumErrorStatus(error.code)).json({
+          error: 'Payout quorum unavailable',
+          code: error.code,
+          details: error.message
+        });
+        return;
+      }
+      if (error.message === 'Proposal not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      this.logger.error('Error fetching payout signatures:', error);
+      res.status(500).json({
+        error: 'Failed to fetch payout signatures',
+        details: error.message
+      });
+    }
+  }
+
+  private quorumErrorStatus(code: PayoutQuorumErrorCode): number {
+    switch (code) {
+      case 'INVALID_QUORUM_CONFIG':
+        return 400;
+      case 'ALREADY_SIGNED':
+        return 409;
+      case 'QUORUM_UNAVAILABLE':
+        return 503;
+      default:
+        return 403;
+    }
+  }
 }
 
 export { TreasuryController };
\ No newline at end of file
@@ -3,11 +3,23 @@
 import { Request, Response, NextFunction } from 'express';
 import { WalletServiceMCP } from '../mcp/index.js';
 import { createLogger } from '../logger/index.js';
+import { AddressBook } from '../wallet/address-book.js';
+import { PaymentScheduler } from '../wallet/payment-scheduler.js';
+import { IDEMPOTENCY_KEY_HEADER } from '../wallet/idempotency.js';
+import { config } from '../config.js';
 
 export class WalletController {
   private logger = createLogger('wallet-controller');
+  private addressBook = new AddressBook();
 
-  constructor(private readonly walletService: WalletServiceMCP) {}
+  /**
+   * @param ownerId Whose contacts and scheduled payments the routes use; a tenant id when serving a tenant's wallet
+   */
+  constructor(
+    private readonly walletService: WalletServiceMCP,
+    private readonly paymentScheduler: PaymentScheduler = new PaymentScheduler(),
+    private readonly ownerId: string = config.agentId
+  ) {}
 
   async getStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -81,7 +93,7 @@ export class WalletController {
 
   async sendToken(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { tokenName, toAddress, amount } = req.body;
+      const { tokenName, toAddress, amount, dryRun } = req.body;
       if (!tokenName || !toAddress || !amount) {
         res.status(400).json({
           error: 'Missing required parameters: tokenName, toAddress, and amount'
@@ -89,7 +101,11 @@ export class WalletController {
         return;
       }
 
-      const result = await this.walletService.sendToken(tokenName, toAddress, amount);
+      // Accepts a contact name from this agent's address book in place of the address
+      const recipient = await this.addressBook.resolve(this.ownerId, toAddress);
+      const result = dryRun
+        ? await this.walletService.previewSendToken(tokenName, recipient.address, amount)
+        : await this.walletService.sendToken(tokenName, recipient.address, amount, req.header(IDEMPOTENCY_KEY_HEADER));
       res.json(result);
     } catch (error) {
       this.logger.error('Error sending token:', error);
@@ -175,14 +191,17 @@ export class WalletController {
 
   async sendFunds(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { destinationAddress, amount } = req.body;
+      const { destinationAddress, amount, dryRun } = req.body;
       if (!destinationAddress || !amount) {
         res.status(400).json({
           error: 'Missing required parameters: destinationAddress and amount'
         });
         return;
       }
-      const result = await this.walletService.sendFunds(destinationAddress, amount);
+      const recipient = await this.addressBook.resolve(this.ownerId, destinationAddress);
+      const result = dryRun
+        ? await this.walletService.previewSendFunds(recipient.address, amount)
+        : await this.walletService.sendFunds(recipient.address, amount, req.header(IDEMPOTENCY_KEY_HEADER));
       res.json(result);
     } catch (error) {
       this.logger.error('Error sending funds:', error);
@@ -192,7 +211,7 @@ export class WalletController {
 
   async send(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { destinationAddress, amount, token } = req.body;
+      const { destinationAddress, amount, token, dryRun } = req.body;
       if (!destinationAddress || !amount) {
         res.status(400).json({
           error: 'Missing required parameters: destinationAddress and amount'
@@ -206,13 +225,19 @@ export class WalletController {
         token.toLowerCase() === 'tdust' || 
         token.toLowerCase() === 'dust';
 
+      const recipient = await this.addressBook.resolve(this.ownerId, destinationAddress);
+
       let result;
       if (isNativeToken) {
         // Send native tokens
-        result = await this.walletService.sendFunds(destinationAddress, amount);
+        result = dryRun
+          ? await this.walletService.previewSendFunds(recipient.address, amount)
+          : await this.walletService.sendFunds(recipient.address, amount, req.header(IDEMPOTENCY_KEY_HEADER));
       } else {
         // Send shielded tokens
-        result = await this.walletService.sendToken(token, destinationAddress, amount);
+        result = dryRun
+          ? await this.walletService.previewSendToken(token, recipient.address, amount)
+          : await this.walletService.sendToken(token, recipient.address, amount, req.header(IDEMPOTENCY_KEY_HEADER));
       }
 
       res.json(result);
@@ -222,6 +247,73 @@ export class WalletController {
     }
   }
 
+  async createSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { toAddress } = req.body;
+      if (!toAddress) {
+        res.status(400).json({
+          error: 'Missing required parameter: toAddress'
+        });
+        return;
+      }
+
+      const recipient = await this.addressBook.resolve(this.ownerId, toAddress);
+      const schedule = await this.paymentScheduler.create(this.ownerId, { ...req.body, toAddress: recipient.address });
+      res.status(201).json(schedule);
+    } catch (error) {
+      this.logger.error('Error scheduling payment:', error);
+      next(error);
+    }
+  }
+
+  async listSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedules = await this.paymentScheduler.list(this.ownerId);
+      res.json({ schedules });
+    } catch (error) {
+      this.logger.error('Error listing payment schedules:', error);
+      next(error);
+    }
+  }
+
+  async getSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+      const schedule = await this.paymentScheduler.get(this.ownerId, scheduleId);
+      const runs = await this.paymentScheduler.getRuns(this.ownerId, scheduleId);
+      res.json({ schedule, runs });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async pauseSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await this.paymentScheduler.pause(this.ownerId, req.params.scheduleId);
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resumeSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await this.paymentScheduler.resume(this.ownerId, req.params.scheduleId);
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async cancelSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await this.paymentScheduler.cancel(this.ownerId, req.params.scheduleId);
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async verifyTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { identifier } = req.body;
@@ -268,7 +360,7 @@ export class WalletController {
 
   async getPendingTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const transactions = this.walletService.getPendingTransactions();
+      const transactions = await this.walletService.getPendingTransactions();
       res.json(transactions);
     } catch (error) {
       this.logger.error('Error getting pending transactions:', error);
@@ -355,14 +447,16 @@ export class WalletController {
 
   async castDaoVote(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { voteType } = req.body;
+      const { voteType, dryRun } = req.body;
       if (!voteType) {
         res.status(400).json({
           error: 'Missing required parameter: voteType (yes, no, or absence)'
         });
         return;
       }
-      const result = await this.walletService.castDaoVote(voteType);
+      const result = dryRun
+        ? await this.walletService.previewCastDaoVote(voteType)
+        : await this.walletService.castDaoVote(voteType);
       res.json(result);
     } catch (error) {
       this.logger.error('Error casting DAO vote:', error);
@@ -372,14 +466,16 @@ export class WalletController {
 
   async fundDaoTreasury(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { amount } = req.body;
+      const { amount, dryRun } = req.body;
       if (!amount) {
         res.status(400).json({
           error: 'Missing required parameter: amount'
         });
         return;
       }
-      const result = await this.walletService.fundDaoTreasury(amount);
+      const result = dryRun
+        ? await this.walletService.previewFundDaoTreasury(amount)
+        : await this.walletService.fundDaoTreasury(amount);
       res.json(result);
     } catch (error) {
       this.logger.error('Error funding DAO treasury:', error);
@@ -389,7 +485,9 @@ export class WalletController {
 
   async payoutDaoProposal(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const result = await this.walletService.payoutDaoProposal();
+      const result = req.body?.dryRun
+        ? await this.walletService.previewPayoutDaoProposal()
+        : await this.walletService.payoutDaoProposal();
       res.json(result);
     } catch (error) {
       this.logger.error('Error paying out DAO proposal:', error);
@@ -417,6 +515,16 @@ export class WalletController {
     }
   }
 
+  async getDaoElectionState(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.walletService.getDaoElectionState();
+      res.json(result);
+    } catch (error) {
+      this.logger.error('Error getting DAO election state:', error);
+      next(error);
+    }
+  }
+
   async getDaoConfigTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const template = this.walletService.getDaoConfigTemplate();
@@ -21,12 +21,23 @@ type FundingShieldTokenPrivateState = any;
 import { deployContract, findDeployedContract } from '@midnight-ntwrk/midnight-js-contracts';
 import { type Logger } from 'pino';
 import { CoinInfo, QualifiedCoinInfo } from '@midnight-ntwrk/ledger';
+import { AuditTrailService } from '../audit/audit-trail-service.js';
+import { AuditEventType, AuditSeverity } from '../audit/types.js';
+import { config as serviceConfig } from '../config.js';
+import {
+  PayoutQuorum,
+  type PayoutQuorumConfig,
+  type PayoutQuorumStatus,
+  type PayoutSignature
+} from './payout-quorum.js';
 
 export interface TreasuryConfig {
   fundingTokenAddress: string;
   daoVoteTokenAddress: string;
   daoVotingAddress?: string;
   minVotesForApproval?: number;
+  payoutQuorum?: PayoutQuorumConfig;  // Used until a quorum is stored for the wallet
+  walletId?: string;  // Whose payout quorum applies; defaults to this agent's wallet
 }
 
 export interface TreasuryState {
@@ -68,6 +79,7 @@ export class DaoTreasuryManager {
   private fundingTokenContract?: any;
   private config: TreasuryConfig;
   private proposals: Map<string, TreasuryProposal> = new Map();
+  private payoutQuorum: PayoutQuorum;
 
   constructor(
     logger: Logger,
@@ -77,6 +89,7 @@ export class DaoTreasuryManager {
     this.logger = logger;
     this.providers = providers;
     this.config = config;
+    this.payoutQuorum = new PayoutQuorum(config.walletId ?? serviceConfig.agentId, config.payoutQuorum);
   }
 
   /**
@@ -293,10 +306,14 @@ export class DaoTreasuryManager {
       throw new Error('DAO voting contract not initialized');
     }
 
+    const approvedProposal = this.getLatestApprovedProposal();
+
+    // Co-signers must sign off before the circuit moves any funds
+    await this.payoutQuorum.assertSatisfied(approvedProposal?.id, approvedProposal?.amount ?? 0n);
+
     const finalizedTx = await this.daoVotingContract.callTx.payout_approved_proposal();
     
     // Update proposal status
-    const approvedProposal = this.getLatestApprovedProposal();
     if (approvedProposal) {
       approvedProposal.status = 'paid';
     }
@@ -321,6 +338,67 @@ export class DaoTreasuryManager {
     return finalizedTx.public;
   }
 
+  /**
+   * Current co-signer quorum, or null when payouts need no sign-off
+   */
+  getPayoutQuorum(): Promise<PayoutQuorumConfig | null> {
+    return this.payoutQuorum.getConfig();
+  }
+
+  /**
+   * Set the co-signers and how many of them must sign a payout
+   */
+  async configurePayoutQuorum(config: unknown): Promise<PayoutQuorumConfig> {
+    const quorum = await this.payoutQuorum.configure(config);
+    this.logger.info(`Payout quorum set to ${quorum.threshold} of ${quorum.cosigners.length} co-signers`);
+    return quorum;
+  }
+
+  /**
+   * Record a co-signer's signature over an approved proposal's id and amount
+   */
+  async signPayout(proposalId: string, signerId: string, signature: string): Promise<{ signature: PayoutSignature; status: PayoutQuorumStatus }> {
+    const proposal = this.proposals.get(proposalId);
+    if (!proposal) {
+      throw new Error('Proposal not found');
+    }
+    if (proposal.status !== 'approved') {
+      throw new Error(`Proposal ${proposalId} is ${proposal.status}; only approved proposals can be signed for payout`);
+    }
+
+    const record = await this.payoutQuorum.sign(proposalId, proposal.amount, signerId, signature);
+    const status = await this.payoutQuorum.getStatus(proposalId, proposal.amount);
+
+    AuditTrailService.getInstance().logEvent(
+      AuditEventType.SECURITY_EVENT,
+      `Co-signer ${signerId} signed payout of proposal ${proposalId}`,
+      AuditSeverity.HIGH,
+      { userId: signerId, source: 'dao-treasury-manager' },
+      {
+        proposalId,
+        amount: record.amount,
+        recipient: proposal.recipient,
+        signature: record.signature,
+        collected: status.signatures.length,
+        threshold: status.threshold
+      }
+    );
+
+    this.logger.info(`Payout of proposal ${proposalId} signed by ${signerId} (${status.signatures.length}/${status.threshold})`);
+    return { signature: record, status };
+  }
+
+  /**
+   * Signatures collected for a proposal's payout
+   */
+  async getPayoutStatus(proposalId: string): Promise<PayoutQuorumStatus> {
+    const proposal = this.proposals.get(proposalId);
+    if (!proposal) {
+      throw new Error('Proposal not found');
+    }
+    return this.payoutQuorum.getStatus(proposalId, proposal.amount);
+  }
+
   /**
    * Get all proposals
    */
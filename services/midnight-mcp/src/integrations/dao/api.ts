@@ -12,10 +12,11 @@ import {
 export { VoteType };
 import { assertIsContractAddress } from "@midnight-ntwrk/midnight-js-utils";
 import { DaoVoting, witnesses } from "./contract/index.js";
-import { findDeployedContract, deployContract, FinalizedCallTxData } from "@midnight-ntwrk/midnight-js-contracts";
+import { findDeployedContract, deployContract, createUnprovenCallTx, FinalizedCallTxData } from "@midnight-ntwrk/midnight-js-contracts";
 import { BalancedTransaction, createBalancedTx, FinalizedTxData, MidnightProvider, UnbalancedTransaction, WalletProvider } from "@midnight-ntwrk/midnight-js-types";
 import { Wallet } from "@midnight-ntwrk/wallet-api";
 import { Transaction, TransactionId } from "@midnight-ntwrk/zswap";
+import { type UnprovenTransaction } from "@midnight-ntwrk/ledger";
 import { Resource } from "@midnight-ntwrk/wallet";
 import { getLedgerNetworkId, getZswapNetworkId } from "@midnight-ntwrk/midnight-js-network-id";
 import { Transaction as ZswapTransaction } from '@midnight-ntwrk/zswap';
@@ -25,7 +26,7 @@ import { NodeZkConfigProvider } from "@midnight-ntwrk/midnight-js-node-zk-config
 import { httpClientProofProvider } from "@midnight-ntwrk/midnight-js-http-client-proof-provider";
 import { config } from "../../config.js";
 import path from "path";
-import { firstValueFrom } from 'rxjs';
+import { firstValueFrom, map, type Observable } from 'rxjs';
 import { createLogger } from "../../logger/index.js";
 
 const logger = createLogger('dao-voting-api');
@@ -105,6 +106,18 @@ export const getDaoVotingLedgerState = async (
   return state;
 };
 
+/**
+ * Ledger state of a DAO voting contract, on every block that changes it
+ */
+export const watchDaoVotingLedgerState = (
+  providers: DaoVotingProviders,
+  contractAddress: ContractAddress,
+): Observable<DaoVotingState> => {
+  assertIsContractAddress(contractAddress);
+  return (providers.publicDataProvider.contractStateObservable(contractAddress, { type: 'latest' }) as Observable<any>)
+    .pipe(map((contractState: any) => (DaoVoting as any).ledger(contractState.data) as DaoVotingState));
+};
+
 export const joinDaoVotingContract = async (
   providers: DaoVotingProviders,
   contractAddress: string,
@@ -201,6 +214,26 @@ export const cancelPayout = async (
   return finalizedTxData.public;
 };
 
+/**
+ * Run a circuit locally against the current ledger state, without proving or submitting it
+ * @throws The circuit's failed assertion, e.g. "failed assert: election closed"
+ */
+export const simulateCall = async (
+  providers: DaoVotingProviders,
+  contractAddress: ContractAddress,
+  circuitId: 'cast_vote' | 'fund_treasury' | 'payout_approved_proposal',
+  ...args: unknown[]
+): Promise<{ unprovenTx: UnprovenTransaction }> => {
+  logger.info(`Simulating ${circuitId}...`);
+  const callTxData = await createUnprovenCallTx(providers as any, {
+    contract: daoVotingContractInstance,
+    circuitId,
+    contractAddress,
+    args,
+  } as any);
+  return { unprovenTx: callTxData.private.unprovenTx };
+};
+
 export const getElectionStatus = async (
   providers: DaoVotingProviders,
   contractAddress: ContractAddress,
@@ -84,5 +84,9 @@ export interface DaoVotingState {
     nonce: Uint8Array;
     mt_index: bigint;
   };
+  has_voted: {
+    member(key: Uint8Array): boolean;
+  };
+  treasury_coin_color: Uint8Array;
   dao_vote_coin_color: Uint8Array;
 }
@@ -17,7 +17,9 @@ export {
   cancelPayout,
   getElectionStatus,
   getDaoVotingLedgerState,
+  watchDaoVotingLedgerState,
   displayDaoVotingState,
+  simulateCall,
   pad,
   VoteType
 } from './api.js';
@@ -0,0 +1,282 @@
+/**
+ * Treasury Payout Quorum
+ *
+ * Off-chain M-of-N sign-off required before an approved proposal is paid out
+ * of the DAO treasury. Each co-signer holds an Ed25519 key and signs the
+ * proposal id together with the payout amount, so a signature can't be reused
+ * for a different proposal or an altered amount.
+ */
+
+import { createPublicKey, verify, type KeyObject } from 'crypto';
+import { PayoutQuorumDatabase } from '../wallet/db/PayoutQuorumDatabase.js';
+
+export interface PayoutCosigner {
+  id: string;         // Platform user id of the co-signer
+  publicKey: string;  // Ed25519 public key, PEM or base64 DER (SPKI)
+}
+
+export interface PayoutQuorumConfig {
+  threshold: number;  // Signatures needed (M)
+  cosigners: PayoutCosigner[];  // Designated co-signers (N)
+}
+
+export interface PayoutSignature {
+  proposalId: string;
+  amount: string;
+  signerId: string;
+  signature: string;  // Base64 Ed25519 signature over payoutMessage()
+  signedAt: Date;
+}
+
+export interface PayoutQuorumStatus {
+  proposalId: string;
+  amount: string;
+  threshold: number;
+  signatures: PayoutSignature[];
+  satisfied: boolean;
+}
+
+export interface PayoutQuorumState {
+  config: PayoutQuorumConfig | null;
+  signatures: PayoutSignature[];
+}
+
+/**
+ * Where a wallet's co-signer set and collected signatures are kept
+ */
+export interface PayoutQuorumStore {
+  load(walletId: string): Promise<PayoutQuorumState>;
+  saveConfig(walletId: string, config: PayoutQuorumConfig | null): Promise<void>;
+  addSignature(walletId: string, signature: PayoutSignature): Promise<void>;
+}
+
+export type PayoutQuorumErrorCode =
+  | 'QUORUM_UNAVAILABLE'
+  | 'INVALID_QUORUM_CONFIG'
+  | 'UNKNOWN_COSIGNER'
+  | 'INVALID_SIGNATURE'
+  | 'ALREADY_SIGNED'
+  | 'QUORUM_NOT_MET';
+
+/**
+ * A payout sign-off was refused or the quorum is not satisfied
+ */
+export class PayoutQuorumError extends Error {
+  constructor(public readonly code: PayoutQuorumErrorCode, message: string) {
+    super(message);
+    this.name = 'PayoutQuorumError';
+  }
+}
+
+/**
+ * The message co-signers sign for a payout
+ */
+export function payoutMessage(proposalId: string, amount: bigint | string): string {
+  return `midnightos:treasury-payout:${proposalId}:${amount.toString()}`;
+}
+
+function parsePublicKey(publicKey: string): KeyObject {
+  const key = publicKey.includes('BEGIN PUBLIC KEY')
+    ? createPublicKey(publicKey)
+    : createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error('not an Ed25519 key');
+  }
+  return key;
+}
+
+/**
+ * Check a co-signer set and parse its keys
+ * @throws PayoutQuorumError INVALID_QUORUM_CONFIG when the configuration is malformed
+ */
+function validateConfig(input: unknown): { config: PayoutQuorumConfig; keys: Map<string, KeyObject> } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new PayoutQuorumError('INVALID_QUORUM_CONFIG', 'Quorum configuration must be an object');
+  }
+  const { threshold, cosigners } = input as PayoutQuorumConfig;
+
+  if (!Array.isArray(cosigners) || cosigners.length === 0) {
+    throw new PayoutQuorumError('INVALID_QUORUM_CONFIG', 'cosigners must be a non-empty array');
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > cosigners.length) {
+    throw new PayoutQuorumError('INVALID_QUORUM_CONFIG', `threshold must be an integer between 1 and ${cosigners.length}`);
+  }
+
+  const keys = new Map<string, KeyObject>();
+  for (const cosigner of cosigners) {
+    if (!cosigner || typeof cosigner.id !== 'string' || typeof cosigner.publicKey !== 'string') {
+      throw new PayoutQuorumError('INVALID_QUORUM_CONFIG', 'Each co-signer needs an id and a publicKey');
+    }
+    if (keys.has(cosigner.id)) {
+      throw new PayoutQuorumError('INVALID_QUORUM_CONFIG', `Co-signer ${cosigner.id} is listed twice`);
+    }
+    try {
+      keys.set(cosigner.id, parsePublicKey(cosigner.publicKey));
+    } catch (error) {
+      throw new PayoutQuorumError('INVALID_QUORUM_CONFIG', `Public key of co-signer ${cosigner.id} is invalid: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    config: {
+      threshold,
+      cosigners: cosigners.map(({ id, publicKey }) => ({ id, publicKey }))
+    },
+    keys
+  };
+}
+
+/**
+ * Co-signer set and the signatures collected per proposal of a wallet.
+ *
+ * Both are persisted, so a restart doesn't drop the sign-off requirement. Until
+ * the stored state has been loaded every payout is refused; when nothing is
+ * stored yet the initial configuration (if any) is stored instead. With no
+ * configuration every payout goes through, as before.
+ */
+export class PayoutQuorum {
+  private config: PayoutQuorumConfig | null = null;
+  private keys = new Map<string, KeyObject>();
+  private signatures = new Map<string, PayoutSignature[]>();
+  private loading?: Promise<void>;
+
+  /**
+   * @param walletId Whose quorum this is; a tenant id, or the agent id for this agent's wallet
+   * @param initial Configuration to start from when none is stored yet
+   */
+  constructor(
+    private readonly walletId: string,
+    private readonly initial?: PayoutQuorumConfig,
+    private readonly store: PayoutQuorumStore = new PayoutQuorumDatabase(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Load the stored state once; a failed load is retried on the next call
+   * @throws PayoutQuorumError QUORUM_UNAVAILABLE when the stored state can't be read
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const state = await this.store.load(this.walletId);
+        const stored = state.config ?? this.initial;
+        const { config, keys } = stored ? validateConfig(stored) : { config: null, keys: new Map<string, KeyObject>() };
+        if (!state.config && config) {
+          await this.store.saveConfig(this.walletId, config);
+        }
+
+        const signatures = new Map<string, PayoutSignature[]>();
+        for (const record of state.signatures) {
+          signatures.set(record.proposalId, [...(signatures.get(record.proposalId) || []), record]);
+        }
+        this.config = config;
+        this.keys = keys;
+        this.signatures = signatures;
+      })().catch(error => {
+        this.loading = undefined;
+        throw error instanceof PayoutQuorumError && error.code === 'QUORUM_UNAVAILABLE'
+          ? error
+          : new PayoutQuorumError('QUORUM_UNAVAILABLE', `Payout quorum of wallet ${this.walletId} could not be loaded: ${(error as Error).message}`);
+      });
+    }
+    return this.loading;
+  }
+
+  async getConfig(): Promise<PayoutQuorumConfig | null> {
+    await this.load();
+    return this.config;
+  }
+
+  /**
+   * Replace the co-signer set; collected signatures of removed co-signers stop counting
+   */
+  async configure(input: unknown): Promise<PayoutQuorumConfig> {
+    await this.load();
+    const { config, keys } = validateConfig(input);
+
+    await this.store.saveConfig(this.walletId, config);
+    this.config = config;
+    this.keys = keys;
+    return this.config;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await this.store.saveConfig(this.walletId, null);
+    this.config = null;
+    this.keys.clear();
+  }
+
+  /**
+   * Verify and record a co-signer's signature for a payout
+   * @throws PayoutQuorumError when the signer is not a co-signer, already signed or the signature does not verify
+   */
+  async sign(proposalId: string, amount: bigint, signerId: string, signature: string): Promise<PayoutSignature> {
+    await this.load();
+    const key = this.keys.get(signerId);
+    if (!key) {
+      throw new PayoutQuorumError('UNKNOWN_COSIGNER', `${signerId} is not a designated co-signer`);
+    }
+
+    const collected = this.signatures.get(proposalId) || [];
+    if (collected.some(existing => existing.signerId === signerId && existing.amount === amount.toString())) {
+      throw new PayoutQuorumError('ALREADY_SIGNED', `${signerId} already signed the payout of proposal ${proposalId}`);
+    }
+
+    const valid = verify(null, Buffer.from(payoutMessage(proposalId, amount)), key, Buffer.from(signature, 'base64'));
+    if (!valid) {
+      throw new PayoutQuorumError('INVALID_SIGNATURE', `Signature of ${signerId} does not match proposal ${proposalId} and amount ${amount}`);
+    }
+
+    const record: PayoutSignature = {
+      proposalId,
+      amount: amount.toString(),
+      signerId,
+      signature,
+      signedAt: new Date(this.now())
+    };
+    await this.store.addSignature(this.walletId, record);
+    this.signatures.set(proposalId, [...(this.signatures.get(proposalId) || []), record]);
+    return record;
+  }
+
+  /**
+   * Signatures counting towards the payout of a proposal
+   */
+  async getStatus(proposalId: string, amount: bigint): Promise<PayoutQuorumStatus> {
+    await this.load();
+    const signatures = (this.signatures.get(proposalId) || [])
+      .filter(record => record.amount === amount.toString() && this.keys.has(record.signerId));
+
+    return {
+      proposalId,
+      amount: amount.toString(),
+      threshold: this.config?.threshold ?? 0,
+      signatures,
+      satisfied: !this.config || signatures.length >= this.config.threshold
+    };
+  }
+
+  /**
+   * @param proposalId The proposal about to be paid out, if one is known
+   * @throws PayoutQuorumError when the quorum can't be loaded, or one is configured and not yet reached
+   */
+  async assertSatisfied(proposalId: string | undefined, amount: bigint): Promise<void> {
+    await this.load();
+    if (!this.config) {
+      return;
+    }
+    if (proposalId === undefined) {
+      throw new PayoutQuorumError('QUORUM_NOT_MET', 'No approved proposal to check co-signer signatures against');
+    }
+
+    const status = await this.getStatus(proposalId, amount);
+    if (!status.satisfied) {
+      throw new PayoutQuorumError(
+        'QUORUM_NOT_MET',
+        `Payout of proposal ${proposalId} needs ${status.threshold} co-signer signatures, ${status.signatures.length} collected`
+      );
+    }
+  }
+}
@@ -87,7 +87,7 @@ export const TREASURY_TOOLS: Tool[] = [
   },
   {
     name: 'payoutApprovedProposal',
-    description: 'Execute payout for an approved treasury proposal',
+    description: 'Execute payout for an approved treasury proposal. When a co-signer quorum is configured, the required co-signer signatures must have been collected first',
     inputSchema: {
       type: 'object',
       properties: {}
@@ -2,16 +2,23 @@ import { WalletManager, WalletConfig, TestnetRemoteConfig } from '../wallet/inde
 import { setNetworkId, NetworkId } from '@midnight-ntwrk/midnight-js-network-id';
 import { createLogger } from '../logger/index.js';
 import type { Logger } from 'pino';
+import type { Observable } from 'rxjs';
 import { SeedManager } from '../utils/seed-manager.js';
+import { SpendingPolicyError } from '../wallet/spending-policy.js';
+import { IdempotencyError } from '../wallet/idempotency.js';
 import { 
   WalletStatus, 
   WalletBalances, 
   SendFundsResult as WalletSendFundsResult,
   TransactionVerificationResult,
   InitiateTransactionResult,
+  PendingApprovalResult,
   TransactionStatusResult,
   TransactionRecord,
-  TransactionState
+  TransactionState,
+  TransactionPreview,
+  DaoElectionState,
+  WalletChange
 } from '../types/wallet.js';
 
 /**
@@ -62,6 +69,17 @@ export class WalletServiceError extends Error {
  * @returns A formatted response with appropriate error message
  */
 export function handleWalletServiceError(error: unknown) {
+  if (error instanceof SpendingPolicyError) {
+    // Tell the agent which rule blocked the transfer
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify(error.toJSON(), null, 2)
+      }],
+      isError: true
+    };
+  }
+
   if (error instanceof WalletServiceError) {
     const message = ERROR_MESSAGES[error.type] || error.message || 'An unexpected error occurred.';
     return { 
@@ -134,8 +152,9 @@ export class WalletServiceMCP {
    * @param seed The seed for the wallet
    * @param walletFilename filename to restore wallet from
    * @param externalConfig Optional external configuration for connecting to a proof server
+   * @param wallet An already open wallet to serve, such as a tenant's, instead of opening one
    */
-  constructor(networkId: NetworkId, seed: string, walletFilename: string, externalConfig?: WalletConfig) {
+  constructor(networkId: NetworkId, seed: string, walletFilename: string, externalConfig?: WalletConfig, wallet?: WalletManager) {
     // Set network ID if provided
     if (networkId) {
       setNetworkId(networkId);
@@ -149,7 +168,7 @@ export class WalletServiceMCP {
     this.externalConfig = externalConfig || new TestnetRemoteConfig();
     
     // Initialize WalletManager with network ID, seed, filename, and optional external config
-    this.wallet = new WalletManager(networkId, seed, walletFilename, externalConfig);
+    this.wallet = wallet ?? new WalletManager(networkId, seed, walletFilename, externalConfig);
     
     this.logger.info('Wallet Service initialized, wallet synchronization started in background');
   }
@@ -205,42 +224,65 @@ export class WalletServiceMCP {
    * 
    * @param destinationAddress Address to send the funds to
    * @param amount Amount of funds to send as a string (decimal value)
+   * @param idempotencyKey Optional key; a retry with the same key gets the first response back
    * @returns Transaction initiation details including ID, state, and amount
    * @throws WalletServiceError if wallet is not ready or transaction initialization fails
    */
-  public async sendFunds(destinationAddress: string, amount: string): Promise<InitiateTransactionResult> {
+  public async sendFunds(destinationAddress: string, amount: string, idempotencyKey?: string): Promise<InitiateTransactionResult> {
     if (!this.isReady()) {
       throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
     }
     
     try {
       // Use initiateSendFunds instead of sendFunds
-      const result = await this.wallet.initiateSendFunds(destinationAddress, amount);
+      const result = await this.wallet.initiateSendFunds(destinationAddress, amount, idempotencyKey);
       
       return result;
     } catch (error) {
       this.logger.error('Failed to send funds', error);
+      if (error instanceof SpendingPolicyError || error instanceof IdempotencyError) throw error;
       throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to submit transaction');
     }
   }
   
+  /**
+   * Dry run of sendFunds: build and check the transfer without submitting it
+   * @param destinationAddress Address to send the funds to
+   * @param amount Amount of funds to send as a string (decimal value)
+   * @returns Preview of the checks the transaction would pass or fail
+   */
+  public async previewSendFunds(destinationAddress: string, amount: string): Promise<TransactionPreview> {
+    if (!this.isReady()) {
+      throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
+    }
+    
+    try {
+      return await this.wallet.previewSendFunds(destinationAddress, amount);
+    } catch (error) {
+      this.logger.error('Error previewing transfer:', error);
+      throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to preview transfer');
+    }
+  }
+  
   /**
    * Send funds and wait for the transaction to be submitted
    * This method is blocking and waits for the transaction to be fully processed
    * 
    * @param destinationAddress Address to send the funds to
    * @param amount Amount of funds to send as a string (decimal value)
-   * @returns Transaction details including identifier, sync status, and amount sent
+   * @returns Transaction details including identifier, sync status, and amount sent,
+   *          or the parked transfer when the amount needs the bot owner's approval
    * @throws WalletServiceError if wallet is not ready, has insufficient funds, or transaction fails
    * @deprecated Use sendFunds for non-blocking transactions
    */
-  public async sendFundsAndWait(destinationAddress: string, amount: string): Promise<WalletSendFundsResult> {
+  public async sendFundsAndWait(destinationAddress: string, amount: string): Promise<WalletSendFundsResult | PendingApprovalResult> {
     if (!this.isReady()) {
       throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
     }
     
     try {
       const result = await this.wallet.sendFunds(destinationAddress, amount);
+      if (!('txIdentifier' in result)) return result;
       
       return {
         txIdentifier: result.txIdentifier,
@@ -249,6 +291,7 @@ export class WalletServiceMCP {
       };
     } catch (error) {
       this.logger.error('Failed to send funds', error);
+      if (error instanceof SpendingPolicyError) throw error;
       throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to submit transaction');
     }
   }
@@ -458,21 +501,43 @@ export class WalletServiceMCP {
    * @param tokenName Token name
    * @param toAddress Recipient address
    * @param amount Amount to send
+   * @param idempotencyKey Optional key; a retry with the same key gets the first response back
    * @returns Transaction result
    */
-  public async sendToken(tokenName: string, toAddress: string, amount: string) {
+  public async sendToken(tokenName: string, toAddress: string, amount: string, idempotencyKey?: string) {
     if (!this.isReady()) {
       throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
     }
     
     try {
-      return await this.wallet.sendToken(tokenName, toAddress, amount);
+      return await this.wallet.sendToken(tokenName, toAddress, amount, idempotencyKey);
     } catch (error) {
       this.logger.error('Error sending token:', error);
+      if (error instanceof SpendingPolicyError || error instanceof IdempotencyError) throw error;
       throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to send token');
     }
   }
 
+  /**
+   * Dry run of sendToken: build and check the transfer without submitting it
+   * @param tokenName Token name
+   * @param toAddress Recipient address
+   * @param amount Amount to send
+   * @returns Preview of the checks the transaction would pass or fail
+   */
+  public async previewSendToken(tokenName: string, toAddress: string, amount: string): Promise<TransactionPreview> {
+    if (!this.isReady()) {
+      throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
+    }
+    
+    try {
+      return await this.wallet.previewSendToken(tokenName, toAddress, amount);
+    } catch (error) {
+      this.logger.error('Error previewing token transfer:', error);
+      throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to preview token transfer');
+    }
+  }
+
   /**
    * List all registered tokens with their balances
    * @returns Array of token balances
@@ -576,6 +641,24 @@ export class WalletServiceMCP {
     }
   }
 
+  /**
+   * Dry run of castDaoVote: check the vote against the contract state without casting it
+   * @param voteType Type of vote ('yes', 'no', or 'absence' - case-insensitive)
+   * @returns Preview of the checks the transaction would pass or fail
+   */
+  public async previewCastDaoVote(voteType: string): Promise<TransactionPreview> {
+    if (!this.isReady()) {
+      throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
+    }
+    
+    try {
+      return await this.wallet.previewCastDaoVote(voteType);
+    } catch (error) {
+      this.logger.error('Error previewing DAO vote:', error);
+      throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to preview DAO vote');
+    }
+  }
+
   /**
    * Fund the DAO treasury with tokens
    * @param amount Amount to fund the treasury
@@ -594,6 +677,24 @@ export class WalletServiceMCP {
     }
   }
 
+  /**
+   * Dry run of fundDaoTreasury: check the funding against the contract state without sending it
+   * @param amount Amount to fund the treasury
+   * @returns Preview of the checks the transaction would pass or fail
+   */
+  public async previewFundDaoTreasury(amount: string): Promise<TransactionPreview> {
+    if (!this.isReady()) {
+      throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
+    }
+    
+    try {
+      return await this.wallet.previewFundDaoTreasury(amount);
+    } catch (error) {
+      this.logger.error('Error previewing DAO treasury funding:', error);
+      throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to preview DAO treasury funding');
+    }
+  }
+
   /**
    * Payout an approved proposal from the DAO treasury
    * @returns Transaction result
@@ -611,6 +712,23 @@ export class WalletServiceMCP {
     }
   }
 
+  /**
+   * Dry run of payoutDaoProposal: check the payout against the contract state without paying it out
+   * @returns Preview of the checks the transaction would pass or fail
+   */
+  public async previewPayoutDaoProposal(): Promise<TransactionPreview> {
+    if (!this.isReady()) {
+      throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
+    }
+    
+    try {
+      return await this.wallet.previewPayoutDaoProposal();
+    } catch (error) {
+      this.logger.error('Error previewing DAO payout:', error);
+      throw new WalletServiceError(WalletServiceErrorType.TX_SUBMISSION_FAILED, 'Failed to preview DAO payout');
+    }
+  }
+
   /**
    * Get the current status of the DAO election
    * @returns Election status
@@ -653,6 +771,31 @@ export class WalletServiceMCP {
     return this.wallet.getDaoConfigTemplate();
   }
 
+  /**
+   * Get the state of the DAO election
+   * @returns Election state, votes and treasury balance
+   */
+  public async getDaoElectionState(): Promise<DaoElectionState> {
+    if (!this.isReady()) {
+      throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Wallet is not ready');
+    }
+    
+    try {
+      return await this.wallet.getDaoElectionState();
+    } catch (error) {
+      this.logger.error('Error getting DAO election state:', error);
+      throw new WalletServiceError(WalletServiceErrorType.WALLET_NOT_READY, 'Failed to get DAO election state');
+    }
+  }
+
+  /**
+   * Changes to the wallet's balances, its transactions and the DAO election
+   * @returns Stream of changes, completing when the wallet is closed
+   */
+  public changes(): Observable<WalletChange> {
+    return this.wallet.changes();
+  }
+
   /**
    * Get the wallet providers for contract deployment
    */
@@ -0,0 +1,267 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  McpError,
+  ErrorCode,
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Observable, Subscription } from 'rxjs';
+import { WalletServiceError as MidnightMCPError, formatError } from './index.js';
+import { ALL_TOOLS, handleToolCall, type ToolContext } from '../tools.js';
+import {
+  handleListResources,
+  handleListResourceTemplates,
+  handleReadResource,
+  isResourceChangedBy,
+  readResourceContent
+} from '../resources.js';
+import { handleGetPrompt, handleListPrompts } from '../prompts.js';
+import { httpClient } from '../utils/http-client.js';
+import type { WalletChange } from '../types/wallet.js';
+
+/**
+ * The Midnight MCP server: the wallet tools, resources and prompts, for one wallet.
+ * The stdio server serves this agent's wallet; the /mcp/:tenantId endpoint
+ * serves a tenant's wallet with its own tool context.
+ */
+
+export interface McpServerOptions extends ToolContext {
+  log: (...args: unknown[]) => void;
+  // Changes to the wallet; when given, clients can subscribe to resources and are told when they change
+  changes?: () => Promise<Observable<WalletChange>>;
+}
+
+/**
+ * Create an MCP server with the tool and resource handlers set up
+ * @param options Wallet the tools act on; resources are read live from it when a client is given
+ */
+export function createMcpServer({ log, changes, ...context }: McpServerOptions): Server {
+  const server = new Server({
+    name: "midnight-mcp-server",
+    version: "1.0.0"
+  }, {
+    capabilities: {
+      resources: changes ? { subscribe: true } : {},
+      tools: {},
+      prompts: {}
+    }
+  });
+
+  const resumeFollowing = changes ? setupSubscriptionHandlers(server, log, changes) : undefined;
+  setupRequestHandlers(server, log, context, resumeFollowing);
+  return server;
+}
+
+/**
+ * Helper function to handle errors uniformly
+ */
+function handleError(log: McpServerOptions['log'], context: string, error: unknown): never {
+  log(`Error ${context}:`, error);
+
+  if (error instanceof McpError) {
+    throw error;
+  }
+
+  // Handle Midnight MCP errors
+  if (error instanceof MidnightMCPError) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Midnight MCP Error (${error.type}): ${error.message}`
+    );
+  }
+
+  throw new McpError(
+    ErrorCode.InternalError,
+    `${context}: ${formatError(error)}`
+  );
+}
+
+/**
+ * Set up server request handlers
+ */
+function setupRequestHandlers(
+  server: Server,
+  log: McpServerOptions['log'],
+  context: ToolContext,
+  onRead?: () => void
+) {
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    try {
+      const toolName = request.params.name;
+      const toolArgs = request.params.arguments;
+
+      log(`Tool call received: ${toolName}`);
+      return await handleToolCall(toolName, toolArgs, log, context);
+    } catch (error) {
+      /* istanbul ignore next */
+      return handleError(log, "handling tool call", error);
+    }
+  });
+
+  // Handle resource listing
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    try {
+      return { resources: handleListResources() };
+    } catch (error) {
+      /* istanbul ignore next */
+      return handleError(log, "listing resources", error);
+    }
+  });
+
+  // Handle resource template listing
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    try {
+      return { resourceTemplates: handleListResourceTemplates() };
+    } catch (error) {
+      /* istanbul ignore next */
+      return handleError(log, "listing resource templates", error);
+    }
+  });
+
+  // Handle resource reading
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      const resourceUri = request.params.uri;
+      if (context.client) {
+        const contents = await readResourceContent(resourceUri, context.client);
+        onRead?.();
+        return { contents };
+      }
+
+      const resource = handleReadResource(resourceUri);
+
+      /* istanbul ignore next */
+      return {
+        contents: [{
+          uri: resourceUri,
+          mimeType: resource.mimeType || "application/json",
+          text: JSON.stringify(resource)
+        }]
+      };
+    } catch (error) {
+      /* istanbul ignore next */
+      return handleError(log, "reading resource", error);
+    }
+  });
+
+  // Handle tool listing
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    try {
+      return { tools: ALL_TOOLS };
+    } catch (error) {
+      /* istanbul ignore next */
+      return handleError(log, "listing tools", error);
+    }
+  });
+
+  // Handle prompt listing
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    try {
+      return { prompts: handleListPrompts() };
+    } catch (error) {
+      /* istanbul ignore next */
+      return handleError(log, "listing prompts", error);
+    }
+  });
+
+  // Handle prompt rendering, with the same wallet the tools use
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      log(`Prompt requested: ${request.params.name}`);
+      return await handleGetPrompt(request.params.name, request.params.arguments, context.client ?? httpClient);
+    } catch (error) {
+      return handleError(log, "getting prompt", error);
+    }
+  });
+}
+
+/**
+ * Set up resource subscriptions: while a client is subscribed to a resource,
+ * it is sent notifications/resources/updated whenever a wallet change can
+ * alter the resource's content.
+ *
+ * The wallet's changes are only followed while there are subscriptions. They
+ * end when the wallet is closed (a tenant's wallet is closed when idle), and
+ * are followed again on the next subscribe or read.
+ * @returns Callback for resource reads, to follow the changes again
+ */
+function setupSubscriptionHandlers(
+  server: Server,
+  log: McpServerOptions['log'],
+  changes: NonNullable<McpServerOptions['changes']>
+): () => void {
+  const subscribed = new Set<string>();
+  let following: Promise<Subscription> | undefined;
+
+  const notify = (change: WalletChange) => {
+    for (const uri of subscribed) {
+      if (isResourceChangedBy(uri, change)) {
+        server.sendResourceUpdated({ uri }).catch(error => log(`Error notifying update of ${uri}:`, error));
+      }
+    }
+  };
+
+  const follow = (): Promise<Subscription> => {
+    if (following) return following;
+
+    const current: Promise<Subscription> = changes().then(walletChanges => walletChanges.subscribe({
+      next: notify,
+      error: (error) => {
+        log("Stopped following wallet changes:", error);
+        forget();
+      },
+      complete: () => forget()
+    }));
+    const forget = () => {
+      if (following === current) following = undefined;
+    };
+    current.catch(forget);
+    following = current;
+    return current;
+  };
+
+  const stopFollowing = () => {
+    following?.then(subscription => subscription.unsubscribe(), () => undefined);
+    following = undefined;
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    try {
+      const resourceUri = request.params.uri;
+      handleReadResource(resourceUri);
+      await follow();
+      subscribed.add(resourceUri);
+      return {};
+    } catch (error) {
+      return handleError(log, "subscribing to resource", error);
+    }
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri);
+    if (subscribed.size === 0) {
+      stopFollowing();
+    }
+    return {};
+  });
+
+  server.onclose = () => {
+    subscribed.clear();
+    stopFollowing();
+  };
+
+  // Follow the wallet's changes again when a read reopens it for a subscribed client
+  return () => {
+    if (subscribed.size > 0) {
+      follow().catch(error => log("Error following wallet changes:", error));
+    }
+  };
+}
@@ -0,0 +1,177 @@
+import { McpError, ErrorCode, Prompt, GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import type { WalletApiClient } from './utils/http-client.js';
+
+/**
+ * Prompt templates for treasury and governance workflows. Each prompt is
+ * rendered with the wallet's live treasury, DAO and transaction data, so every
+ * MCP client starts the workflow from the same grounded facts.
+ */
+
+type PromptArguments = Record<string, string | undefined>;
+
+interface PromptTemplate {
+  prompt: Prompt;
+  // Wallet API paths whose current content the prompt is grounded in, by section title
+  sources: (args: PromptArguments) => Record<string, string>;
+  instructions: (args: PromptArguments) => string;
+}
+
+const TREASURY_ANALYTICS = 'Treasury analytics';
+const TREASURY_PROPOSALS = 'Treasury proposals';
+const DAO_STATE = 'DAO election state';
+const PENDING_TRANSACTIONS = 'Pending transactions';
+const WALLET_BALANCE = 'Wallet balance';
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    prompt: {
+      name: "weekly-treasury-report",
+      description: "Weekly report on the DAO treasury: funds, proposals and governance activity",
+      arguments: [
+        { name: "weekEnding", description: "Last day of the week the report covers (YYYY-MM-DD); defaults to today" },
+        { name: "audience", description: "Who the report is for, e.g. 'DAO members' or 'finance committee'" }
+      ]
+    },
+    sources: () => ({
+      [TREASURY_ANALYTICS]: '/treasury/analytics',
+      [TREASURY_PROPOSALS]: '/treasury/proposals',
+      [DAO_STATE]: '/dao/election-state'
+    }),
+    instructions: ({ weekEnding, audience }) => [
+      `Write the weekly treasury report for the week ending ${weekEnding ?? new Date().toISOString().slice(0, 10)}` +
+        (audience ? `, written for ${audience}.` : '.'),
+      'Cover the treasury value and flows, the proposals by status with their amounts and recipients, ' +
+        'the proposal approval rate and voter turnout, and whether an election is open.',
+      'Close with anything that needs attention this week, such as approved proposals awaiting payout. ' +
+        'Only state figures found in the data below; amounts are in the smallest token unit.'
+    ].join('\n')
+  },
+  {
+    prompt: {
+      name: "draft-funding-proposal",
+      description: "Draft a treasury funding proposal, checked against the treasury's funds and open proposals",
+      arguments: [
+        { name: "purpose", description: "What the funds are for", required: true },
+        { name: "amount", description: "Amount to request, in the smallest token unit", required: true },
+        { name: "recipient", description: "Address that would receive the funds" }
+      ]
+    },
+    sources: () => ({
+      [TREASURY_ANALYTICS]: '/treasury/analytics',
+      [TREASURY_PROPOSALS]: '/treasury/proposals',
+      [DAO_STATE]: '/dao/election-state'
+    }),
+    instructions: ({ purpose, amount, recipient }) => [
+      `Draft a funding proposal requesting ${amount} for: ${purpose}.`,
+      recipient ? `The funds would be paid to ${recipient}.` : 'No recipient was given; leave a placeholder for it.',
+      'Write a title, a short description of the work and its benefit to the DAO, the amount, and how success will be measured.',
+      'Check the request against the data below: say whether the treasury can cover it alongside the proposals already ' +
+        'pending or approved, point out any overlapping proposal, and note whether an election is open to vote on it.',
+      'Do not submit the proposal; it is created with the createTreasuryProposal tool once the user approves the draft.'
+    ].join('\n')
+  },
+  {
+    prompt: {
+      name: "explain-election-result",
+      description: "Explain the current DAO election: the votes, the outcome and what happens next",
+      arguments: []
+    },
+    sources: () => ({
+      [DAO_STATE]: '/dao/election-state',
+      [TREASURY_PROPOSALS]: '/treasury/proposals'
+    }),
+    instructions: () => [
+      'Explain the current DAO election in plain language.',
+      'Give the yes, no and absent votes as counts and as shares of the total, say whether the election is still open, ' +
+        'and whether the proposal being voted on passes as things stand.',
+      'Relate the election to the matching treasury proposal if there is one, and say what happens next: ' +
+        'closing the election, paying out an approved proposal, or nothing.'
+    ].join('\n')
+  },
+  {
+    prompt: {
+      name: "reconcile-pending-transactions",
+      description: "Go through the wallet's pending transactions and work out which are stuck",
+      arguments: [
+        { name: "olderThanMinutes", description: "Only flag transactions pending for longer than this; defaults to 30" }
+      ]
+    },
+    sources: () => ({
+      [PENDING_TRANSACTIONS]: '/wallet/pending-transactions',
+      [WALLET_BALANCE]: '/wallet/balance'
+    }),
+    instructions: ({ olderThanMinutes }) => [
+      'Reconcile the pending transactions of this wallet.',
+      `For each transaction, give its amount, recipient, state and how long it has been pending (now is ${new Date().toISOString()}; ` +
+        'createdAt and updatedAt are milliseconds since the epoch).',
+      `Flag the transactions pending for more than ${olderThanMinutes ?? '30'} minutes and check each one with the ` +
+        'getTransactionStatus tool before drawing conclusions.',
+      'Compare the total pending amount with the pending balance, and recommend what to do with each flagged transaction. ' +
+        'Do not resend funds without the user confirming.'
+    ].join('\n')
+  }
+];
+
+/**
+ * List of all available prompts
+ */
+export const PROMPTS: Prompt[] = PROMPT_TEMPLATES.map(template => template.prompt);
+
+/**
+ * Handle list prompts request
+ */
+export function handleListPrompts(): Prompt[] {
+  return PROMPTS;
+}
+
+/**
+ * Current content of a wallet API path, or why it couldn't be read
+ */
+async function readSource(client: WalletApiClient, path: string): Promise<string> {
+  try {
+    return '```json\n' + JSON.stringify(await client.get(path), null, 2) + '\n```';
+  } catch (error) {
+    return `Unavailable: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Render a prompt with the wallet's current data
+ * @param name The prompt name
+ * @param args The prompt arguments
+ * @param client The wallet API to read the data from
+ * @returns The prompt as a user message; data that can't be read is marked unavailable
+ */
+export async function handleGetPrompt(
+  name: string,
+  args: PromptArguments = {},
+  client: WalletApiClient
+): Promise<GetPromptResult> {
+  const template = PROMPT_TEMPLATES.find(t => t.prompt.name === name);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+  }
+
+  const missing = (template.prompt.arguments ?? []).filter(arg => arg.required && !args[arg.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required argument${missing.length > 1 ? 's' : ''} for ${name}: ${missing.map(arg => arg.name).join(', ')}`
+    );
+  }
+
+  const sections = await Promise.all(
+    Object.entries(template.sources(args)).map(async ([title, path]) => `## ${title}\n${await readSource(client, path)}`)
+  );
+
+  return {
+    description: template.prompt.description,
+    messages: [{
+      role: "user",
+      content: {
+        type: "text",
+        text: `${template.instructions(args)}\n\n# Current wallet data\n\n${sections.join('\n\n')}`
+      }
+    }]
+  };
+}
@@ -1,5 +1,7 @@
 /* istanbul ignore file */
-import { McpError, ErrorCode, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { McpError, ErrorCode, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import type { WalletApiClient } from './utils/http-client.js';
+import type { WalletChange } from './types/wallet.js';
 
 /**
  * Simple logging function
@@ -69,6 +71,28 @@ export const PENDING_TRANSACTIONS_RESOURCE: Resource = {
   mimeType: "application/json"
 };
 
+/**
+ * Define DAO state resource
+ */
+export const DAO_STATE_RESOURCE: Resource = {
+  uri: "midnight://dao-state",
+  name: "DAO State",
+  description: "Election state, votes and treasury balance of the configured DAO voting contract",
+  mimeType: "application/json"
+};
+
+/**
+ * Define per-token balance resource template
+ */
+export const TOKEN_BALANCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: "midnight://token-balance/{tokenName}",
+  name: "Token Balance",
+  description: "Balance of a registered token in the Midnight wallet",
+  mimeType: "application/json"
+};
+
+const TOKEN_BALANCE_PREFIX = "midnight://token-balance/";
+
 /**
  * List of all available resources
  */
@@ -78,6 +102,15 @@ export const RESOURCES = [
   WALLET_ADDRESS_RESOURCE,
   WALLET_BALANCE_RESOURCE,
   TRANSACTIONS_RESOURCE,
+  PENDING_TRANSACTIONS_RESOURCE,
+  DAO_STATE_RESOURCE,
+];
+
+/**
+ * List of all available resource templates
+ */
+export const RESOURCE_TEMPLATES = [
+  TOKEN_BALANCE_TEMPLATE,
 ];
 
 /**
@@ -88,6 +121,24 @@ export function handleListResources(): Resource[] {
   return RESOURCES;
 }
 
+/**
+ * Handle list resource templates request
+ */
+export function handleListResourceTemplates(): ResourceTemplate[] {
+  log("Handling list resource templates request");
+  return RESOURCE_TEMPLATES;
+}
+
+/**
+ * Name of the token a token balance resource URI is for
+ * @returns The token name, or null if the URI isn't a token balance
+ */
+function tokenNameOf(resourceUri: string): string | null {
+  if (!resourceUri.startsWith(TOKEN_BALANCE_PREFIX)) return null;
+  const tokenName = decodeURIComponent(resourceUri.slice(TOKEN_BALANCE_PREFIX.length));
+  return tokenName && !tokenName.includes("/") ? tokenName : null;
+}
+
 /**
  * Handle read resource request
  * @param resourceUri The resource URI to read
@@ -97,6 +148,16 @@ export function handleListResources(): Resource[] {
 export function handleReadResource(resourceUri: string): Resource {
     log(`Handling read resource request for ${resourceUri}`);
     
+    const tokenName = tokenNameOf(resourceUri);
+    if (tokenName) {
+      return {
+        uri: resourceUri,
+        name: `${tokenName} Balance`,
+        description: `Balance of ${tokenName} in the Midnight wallet`,
+        mimeType: TOKEN_BALANCE_TEMPLATE.mimeType
+      };
+    }
+
     const resource = RESOURCES.find((r) => r.uri === resourceUri);
     
     if (!resource) {
@@ -107,4 +168,58 @@ export function handleReadResource(resourceUri: string): Resource {
     }
     
     return resource;
-  }
\ No newline at end of file
+  }
+
+/**
+ * Wallet API paths serving the live content of each resource
+ */
+const RESOURCE_PATHS: Record<string, string> = {
+  [WALLET_STATUS_RESOURCE.uri]: '/wallet/status',
+  [WALLET_ADDRESS_RESOURCE.uri]: '/wallet/address',
+  [WALLET_BALANCE_RESOURCE.uri]: '/wallet/balance',
+  [TRANSACTIONS_RESOURCE.uri]: '/wallet/transactions',
+  [PENDING_TRANSACTIONS_RESOURCE.uri]: '/wallet/pending-transactions',
+  [DAO_STATE_RESOURCE.uri]: '/dao/election-state'
+};
+
+/**
+ * Resources whose content each kind of wallet change can alter
+ */
+const CHANGED_RESOURCES: Record<WalletChange['kind'], string[]> = {
+  'balance': [WALLET_STATUS_RESOURCE.uri, WALLET_BALANCE_RESOURCE.uri],
+  'transaction': [TRANSACTIONS_RESOURCE.uri, PENDING_TRANSACTIONS_RESOURCE.uri],
+  'dao-election': [DAO_STATE_RESOURCE.uri]
+};
+
+/**
+ * Whether a change to the wallet can alter a resource's content
+ * @param resourceUri The resource URI
+ * @param change The wallet change
+ */
+export function isResourceChangedBy(resourceUri: string, change: WalletChange): boolean {
+  if (tokenNameOf(resourceUri)) {
+    return change.kind === 'balance';
+  }
+  return CHANGED_RESOURCES[change.kind].includes(resourceUri);
+}
+
+/**
+ * Read a resource's current content from a wallet
+ * @param resourceUri The resource URI to read
+ * @param client The wallet API to read from
+ * @returns The resource contents; the wallet information resource describes itself
+ */
+export async function readResourceContent(resourceUri: string, client: WalletApiClient) {
+  const resource = handleReadResource(resourceUri);
+  const tokenName = tokenNameOf(resourceUri);
+  const path = tokenName
+    ? `/wallet/tokens/balance/${encodeURIComponent(tokenName)}`
+    : RESOURCE_PATHS[resourceUri];
+  const content = path ? await client.get(path) : resource;
+
+  return [{
+    uri: resourceUri,
+    mimeType: resource.mimeType || "application/json",
+    text: JSON.stringify(content, null, 2)
+  }];
+}
@@ -0,0 +1,315 @@
+/**
+ * MCP endpoints of tenant wallets
+ *
+ * Serves the wallet tools and resources of a tenant's wallet to any MCP
+ * client, over Streamable HTTP at /mcp/:tenantId and over the older HTTP+SSE
+ * transport at /mcp/:tenantId/sse (messages posted to /mcp/:tenantId/messages).
+ * Clients authenticate with a tenant token the orchestrator issues for the
+ * bot, sent as a bearer token on every request. They can subscribe to the
+ * wallet's resources to be notified when its balances, transactions or DAO
+ * election change.
+ *
+ * A tenant can only have so many sessions open at once. Sessions that go
+ * without a request for too long, or whose token is revoked, are closed.
+ */
+
+import { randomUUID } from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../mcp/server.js';
+import type { WalletServiceMCP } from '../mcp/index.js';
+import type { MultiTenantWalletService } from '../wallet/multi-tenant-service.js';
+import type { PaymentScheduler } from '../wallet/payment-scheduler.js';
+import { tenantWalletRoutes, type WalletRoute } from './wallet.routes.js';
+import { HttpError } from '../utils/http-client.js';
+import { RouteClient } from '../utils/route-client.js';
+import {
+  ServiceAuthError,
+  ServiceRequestVerifier,
+  getServiceRequestVerifier,
+  type RevokedTenantTokenStore
+} from '../utils/service-auth.js';
+import { RevokedTenantTokenDatabase } from '../wallet/db/RevokedTenantTokenDatabase.js';
+import { AuditTrailService } from '../audit/audit-trail-service.js';
+import { AuditEventType, AuditSeverity } from '../audit/types.js';
+import { createLogger } from '../logger/index.js';
+
+const logger = createLogger('mcp-routes');
+
+const MAX_SESSIONS_PER_TENANT = parseInt(process.env.MCP_MAX_SESSIONS_PER_TENANT || '10');
+const SESSION_IDLE_MS = parseInt(process.env.MCP_SESSION_IDLE_MS || String(30 * 60 * 1000));
+const SESSION_SWEEP_MS = 60 * 1000;
+
+interface McpSession {
+  tenantId: string;
+  tokenId: string; // Tenant token the session was opened with
+  lastActiveAt: number;
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+export interface McpRoutesOptions {
+  revokedTokens?: RevokedTenantTokenStore;
+  maxSessionsPerTenant?: number;
+  sessionIdleMs?: number;
+  now?: () => number;
+}
+
+/**
+ * JSON-RPC error for requests the MCP transports never see
+ */
+function rpcError(res: Response, status: number, message: string) {
+  return res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+}
+
+/**
+ * Create the MCP endpoints of the tenants of a multi-tenant wallet service
+ * @returns The router, expireSessions() to close the idle and revoked sessions
+ * (also done every minute), and close() to end the open MCP sessions on shutdown
+ */
+export function createMcpRoutes(
+  multiTenantService: MultiTenantWalletService,
+  paymentScheduler: PaymentScheduler,
+  verifier: ServiceRequestVerifier = getServiceRequestVerifier(),
+  options: McpRoutesOptions = {}
+): { router: Router; expireSessions: () => Promise<void>; close: () => Promise<void> } {
+  const router: Router = Router();
+  const sessions = new Map<string, McpSession>();
+  const revokedTokens = options.revokedTokens ?? new RevokedTenantTokenDatabase();
+  const maxSessionsPerTenant = options.maxSessionsPerTenant ?? MAX_SESSIONS_PER_TENANT;
+  const sessionIdleMs = options.sessionIdleMs ?? SESSION_IDLE_MS;
+  const now = options.now ?? Date.now;
+
+  // Operations keep the tenant's wallet open until they finish
+  const withTenantWalletService = <T>(tenantId: string, operation: (walletService: WalletServiceMCP) => Promise<T>) =>
+    multiTenantService.withTenantWalletService(tenantId, async walletService => {
+      if (!walletService) {
+        throw new HttpError(404, `Tenant ${tenantId} not found`);
+      }
+      return await operation(walletService);
+    });
+
+  const withTenantRoutes = <T>(tenantId: string, operation: (routes: WalletRoute[]) => Promise<T>) =>
+    withTenantWalletService(tenantId, async walletService =>
+      await operation(tenantWalletRoutes(walletService, paymentScheduler, tenantId)));
+
+  const createTenantServer = (tenantId: string): Server => createMcpServer({
+    log: (message, ...details) => logger.info({ tenantId, details }, String(message)),
+    client: new RouteClient(operation => withTenantRoutes(tenantId, operation), logger),
+    withWalletService: operation => withTenantWalletService(tenantId, operation),
+    changes: () => withTenantWalletService(tenantId, async walletService => walletService.changes())
+  });
+
+  /**
+   * Middleware requiring a tenant token for the tenant in the URL that hasn't been revoked
+   * Rejected calls are recorded as security events
+   */
+  const requireTenantToken = async (req: Request, res: Response, next: NextFunction) => {
+    const { tenantId } = req.params as { tenantId: string };
+    const authorization = req.headers.authorization;
+    try {
+      if (!authorization?.startsWith('Bearer ')) {
+        throw new ServiceAuthError('Missing tenant token');
+      }
+      const { tokenId } = verifier.verifyTenantToken(authorization.slice('Bearer '.length).trim(), tenantId);
+      if ((await revokedTokens.revokedAmong([tokenId])).length > 0) {
+        throw new ServiceAuthError('Tenant token has been revoked');
+      }
+      res.locals.tokenId = tokenId;
+      next();
+    } catch (error) {
+      if (!(error instanceof ServiceAuthError)) {
+        return next(error);
+      }
+
+      logger.warn(`Rejected MCP call to ${req.method} ${req.path}: ${error.message}`);
+      AuditTrailService.getInstance().logEvent(
+        AuditEventType.SECURITY_EVENT,
+        `Rejected MCP call to ${req.method} ${req.path}: ${error.message}`,
+        AuditSeverity.HIGH,
+        { source: 'mcp-routes', agentId: tenantId },
+        {
+          method: req.method,
+          path: req.path,
+          reason: error.message,
+          ip: req.ip
+        }
+      );
+      return res.status(401).json({
+        error: 'Invalid tenant token',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Open a session on the tenant's wallet, if the tenant is registered here
+   * and hasn't used up its sessions
+   */
+  const openSession = async (
+    tenantId: string,
+    res: Response,
+    transport: StreamableHTTPServerTransport | SSEServerTransport
+  ): Promise<McpSession | null> => {
+    if (!await multiTenantService.isTenantRegistered(tenantId)) {
+      rpcError(res, 404, `Tenant ${tenantId} not found`);
+      return null;
+    }
+    const open = [...sessions.values()].filter(session => session.tenantId === tenantId).length;
+    if (open >= maxSessionsPerTenant) {
+      rpcError(res, 429, `Tenant ${tenantId} already has ${open} MCP sessions open; close one first`);
+      return null;
+    }
+
+    const session: McpSession = {
+      tenantId,
+      tokenId: res.locals.tokenId,
+      lastActiveAt: now(),
+      transport,
+      server: createTenantServer(tenantId)
+    };
+    await session.server.connect(transport);
+    return session;
+  };
+
+  /**
+   * Find the session a request belongs to and mark it active; a session only serves its own tenant
+   */
+  const activeSession = (req: Request, sessionId: string, transport: typeof StreamableHTTPServerTransport | typeof SSEServerTransport) => {
+    const session = sessions.get(sessionId);
+    if (session?.tenantId !== req.params.tenantId || !(session.transport instanceof transport)) {
+      return undefined;
+    }
+    session.lastActiveAt = now();
+    return session;
+  };
+
+  const streamableSession = (req: Request): McpSession | undefined =>
+    activeSession(req, req.header('mcp-session-id') ?? '', StreamableHTTPServerTransport);
+
+  /**
+   * Streamable HTTP: JSON-RPC messages from the client, starting with initialize
+   */
+  router.post('/mcp/:tenantId', requireTenantToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenantId } = req.params;
+      if (req.header('mcp-session-id')) {
+        const session = streamableSession(req);
+        if (!session) {
+          return rpcError(res, 404, 'Session not found');
+        }
+        return await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        return rpcError(res, 400, 'No session; send an initialize request first');
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: sessionId => {
+          sessions.set(sessionId, session!);
+          logger.info(`Opened MCP session ${sessionId} for tenant ${tenantId}`);
+        }
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      const session = await openSession(tenantId, res, transport);
+      if (!session) return;
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * Streamable HTTP: stream of server messages (GET) and ending the session (DELETE)
+   */
+  const handleSessionRequest = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = streamableSession(req);
+      if (!session) {
+        return rpcError(res, 404, 'Session not found');
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+  router.get('/mcp/:tenantId', requireTenantToken, handleSessionRequest);
+  router.delete('/mcp/:tenantId', requireTenantToken, handleSessionRequest);
+
+  /**
+   * HTTP+SSE fallback: open the event stream of a session
+   */
+  router.get('/mcp/:tenantId/sse', requireTenantToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenantId } = req.params;
+      const transport = new SSEServerTransport(`/mcp/${tenantId}/messages`, res);
+      const session = await openSession(tenantId, res, transport);
+      if (!session) return;
+
+      sessions.set(transport.sessionId, session);
+      res.on('close', () => sessions.delete(transport.sessionId));
+      logger.info(`Opened MCP SSE session ${transport.sessionId} for tenant ${tenantId}`);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * HTTP+SSE fallback: JSON-RPC messages from the client of a session
+   */
+  router.post('/mcp/:tenantId/messages', requireTenantToken, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = activeSession(req, String(req.query.sessionId ?? ''), SSEServerTransport);
+      if (!session) {
+        return rpcError(res, 404, 'Session not found');
+      }
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * Close the sessions that went without a request for too long or whose token was revoked
+   */
+  const expireSessions = async () => {
+    const open = [...sessions.entries()];
+    const revoked = new Set(await revokedTokens.revokedAmong([...new Set(open.map(([, session]) => session.tokenId))]));
+    const idleSince = now() - sessionIdleMs;
+
+    await Promise.all(open
+      .filter(([, session]) => session.lastActiveAt < idleSince || revoked.has(session.tokenId))
+      .map(async ([sessionId, session]) => {
+        sessions.delete(sessionId);
+        const reason = revoked.has(session.tokenId) ? 'its token was revoked' : 'it was idle';
+        logger.info(`Closing MCP session ${sessionId} of tenant ${session.tenantId}: ${reason}`);
+        await session.server.close();
+      }));
+  };
+
+  const sweep = setInterval(() => {
+    expireSessions().catch(error => logger.error('Failed to expire MCP sessions', error));
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
+
+  const close = async () => {
+    clearInterval(sweep);
+    const open = [...sessions.values()];
+    sessions.clear();
+    await Promise.all(open.map(session => session.server.close()));
+  };
+
+  return { router, expireSessions, close };
+}
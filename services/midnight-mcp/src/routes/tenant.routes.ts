@@ -7,13 +7,79 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { MultiTenantWalletService } from '../wallet/multi-tenant-service.js';
+import { InvalidSpendingPolicyError } from '../wallet/spending-policy.js';
+import { AddressBook } from '../wallet/address-book.js';
+import { PaymentScheduler } from '../wallet/payment-scheduler.js';
+import { IDEMPOTENCY_KEY_HEADER } from '../wallet/idempotency.js';
+import {
+  InvalidHistoryQueryError,
+  historyToCsv,
+  paginateHistory,
+  parseHistoryQuery
+} from '../wallet/transaction-history.js';
+import { ServiceAuthError, SERVICE_KEY_ID_HEADER, getServiceRequestVerifier } from '../utils/service-auth.js';
+import { RevokedTenantTokenDatabase } from '../wallet/db/RevokedTenantTokenDatabase.js';
+import { tenantWalletRoutes, type WalletRoute } from './wallet.routes.js';
+import { dispatchRoute } from '../utils/route-client.js';
+import { AuditTrailService } from '../audit/audit-trail-service.js';
+import { AuditEventType, AuditSeverity } from '../audit/types.js';
 import { createLogger } from '../logger/index.js';
 
 const logger = createLogger('tenant-routes');
 const router: Router = Router();
 
 // Initialize multi-tenant service as a singleton
-const multiTenantService = new MultiTenantWalletService();
+export const multiTenantService = new MultiTenantWalletService();
+const addressBook = new AddressBook();
+
+// Started by the server once it is listening
+export const paymentScheduler = new PaymentScheduler();
+
+// Checked by the MCP endpoints on every call
+export const revokedTenantTokens = new RevokedTenantTokenDatabase();
+
+/**
+ * Middleware requiring the signed service credentials the orchestrator issues
+ * Rejected calls are recorded as security events
+ */
+export function requireServiceCredentials(req: Request, res: Response, next: NextFunction) {
+  const signed = req as Request & { rawBody?: Buffer; serviceKeyId?: string };
+  try {
+    signed.serviceKeyId = getServiceRequestVerifier().verify({
+      method: req.method,
+      path: req.originalUrl,
+      headers: req.headers,
+      body: signed.rawBody
+    });
+    next();
+  } catch (error) {
+    if (!(error instanceof ServiceAuthError)) {
+      return next(error);
+    }
+
+    logger.warn(`Rejected service call to ${req.method} ${req.originalUrl}: ${error.message}`);
+    AuditTrailService.getInstance().logEvent(
+      AuditEventType.SECURITY_EVENT,
+      `Rejected service call to ${req.method} ${req.originalUrl}: ${error.message}`,
+      AuditSeverity.HIGH,
+      { source: 'tenant-routes' },
+      {
+        method: req.method,
+        path: req.originalUrl,
+        reason: error.message,
+        keyId: req.headers[SERVICE_KEY_ID_HEADER],
+        ip: req.ip
+      }
+    );
+    return res.status(401).json({
+      error: 'Invalid service credentials',
+      message: error.message
+    });
+  }
+}
+
+// Every tenant route is called service-to-service
+router.use(['/api/wallet', '/api/tenants'], requireServiceCredentials);
 
 /**
  * Middleware to validate tenant context from headers
@@ -114,7 +180,7 @@ router.get('/api/wallet/:tenantId/status', validateTenantHeader, async (req: Req
   try {
     const { tenantId } = req.params;
 
-    const status = multiTenantService.getTenantWalletStatus(tenantId);
+    const status = await multiTenantService.getTenantWalletStatus(tenantId);
     
     if (!status) {
       return res.status(404).json({
@@ -131,11 +197,12 @@ router.get('/api/wallet/:tenantId/status', validateTenantHeader, async (req: Req
 
 /**
  * Send funds from tenant's wallet
+ * A retry with the same Idempotency-Key header gets the first response instead of a second transfer
  */
 router.post('/api/wallet/:tenantId/send', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { tenantId } = req.params;
-    const { toAddress, amount } = req.body;
+    const { toAddress, amount, dryRun } = req.body;
 
     if (!toAddress || !amount) {
       return res.status(400).json({
@@ -143,7 +210,11 @@ router.post('/api/wallet/:tenantId/send', validateTenantHeader, async (req: Requ
       });
     }
 
-    const result = await multiTenantService.sendFundsForTenant(tenantId, toAddress, amount);
+    // Accepts a contact name in place of the address
+    const recipient = await addressBook.resolve(tenantId, toAddress);
+    const result = dryRun
+      ? await multiTenantService.previewSendFundsForTenant(tenantId, recipient.address, amount)
+      : await multiTenantService.sendFundsForTenant(tenantId, recipient.address, amount, req.header(IDEMPOTENCY_KEY_HEADER));
     res.json(result);
   } catch (error) {
     logger.error('Failed to send funds for tenant:', error);
@@ -166,6 +237,28 @@ router.get('/api/wallet/:tenantId/tokens', validateTenantHeader, async (req: Req
   }
 });
 
+/**
+ * Get the registry records of tenant's tokens
+ * Used by the orchestrator to export a bot
+ */
+router.get('/api/wallet/:tenantId/tokens/registry', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    if (!await multiTenantService.isTenantRegistered(tenantId)) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    const tokens = await multiTenantService.getRegisteredTokensForTenant(tenantId);
+    res.json({ tokens });
+  } catch (error) {
+    logger.error('Failed to get token registry for tenant:', error);
+    next(error);
+  }
+});
+
 /**
  * Register a token for tenant
  */
@@ -203,11 +296,12 @@ router.post('/api/wallet/:tenantId/tokens/register', validateTenantHeader, async
 
 /**
  * Send tokens from tenant's wallet
+ * A retry with the same Idempotency-Key header gets the first response instead of a second transfer
  */
 router.post('/api/wallet/:tenantId/tokens/send', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { tenantId } = req.params;
-    const { tokenName, toAddress, amount } = req.body;
+    const { tokenName, toAddress, amount, dryRun } = req.body;
 
     if (!tokenName || !toAddress || !amount) {
       return res.status(400).json({
@@ -215,12 +309,16 @@ router.post('/api/wallet/:tenantId/tokens/send', validateTenantHeader, async (re
       });
     }
 
-    const result = await multiTenantService.sendTokenForTenant(
-      tenantId,
-      tokenName,
-      toAddress,
-      amount
-    );
+    const recipient = await addressBook.resolve(tenantId, toAddress);
+    const result = dryRun
+      ? await multiTenantService.previewSendTokenForTenant(tenantId, tokenName, recipient.address, amount)
+      : await multiTenantService.sendTokenForTenant(
+        tenantId,
+        tokenName,
+        recipient.address,
+        amount,
+        req.header(IDEMPOTENCY_KEY_HEADER)
+      );
 
     res.json(result);
   } catch (error) {
@@ -230,20 +328,233 @@ router.post('/api/wallet/:tenantId/tokens/send', validateTenantHeader, async (re
 });
 
 /**
- * Get tenant's transactions
+ * Get tenant's transfers that are waiting for approval
+ */
+router.get('/api/wallet/:tenantId/approvals', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    const transfers = await multiTenantService.getPendingApprovalsForTenant(tenantId);
+    
+    if (!transfers) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    res.json({ transfers });
+  } catch (error) {
+    logger.error('Failed to get pending approvals for tenant:', error);
+    next(error);
+  }
+});
+
+/**
+ * Approve a parked transfer; it is sent in the background
+ */
+router.post('/api/wallet/:tenantId/approvals/:transactionId/approve', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, transactionId } = req.params;
+    const { approvedBy } = req.body;
+
+    if (!await multiTenantService.isTenantRegistered(tenantId)) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    const transaction = await multiTenantService.approveTransferForTenant(tenantId, transactionId, approvedBy);
+    
+    if (!transaction) {
+      return res.status(404).json({
+        error: `No transfer awaiting approval with ID ${transactionId}`
+      });
+    }
+
+    res.json({ success: true, transaction });
+  } catch (error) {
+    logger.error('Failed to approve transfer for tenant:', error);
+    next(error);
+  }
+});
+
+/**
+ * Reject a parked transfer
+ */
+router.post('/api/wallet/:tenantId/approvals/:transactionId/reject', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, transactionId } = req.params;
+    const { rejectedBy, reason } = req.body;
+
+    if (!await multiTenantService.isTenantRegistered(tenantId)) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    const transaction = await multiTenantService.rejectTransferForTenant(tenantId, transactionId, rejectedBy, reason);
+    
+    if (!transaction) {
+      return res.status(404).json({
+        error: `No transfer awaiting approval with ID ${transactionId}`
+      });
+    }
+
+    res.json({ success: true, transaction });
+  } catch (error) {
+    logger.error('Failed to reject transfer for tenant:', error);
+    next(error);
+  }
+});
+
+/**
+ * Schedule a one-off (runAt) or recurring (cron) payment from tenant's wallet
+ */
+router.post('/api/wallet/:tenantId/schedules', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const { toAddress } = req.body;
+
+    if (!toAddress) {
+      return res.status(400).json({
+        error: 'Missing required field: toAddress'
+      });
+    }
+
+    // Freeze the contact's current address into the schedule
+    const recipient = await addressBook.resolve(tenantId, toAddress);
+    const schedule = await paymentScheduler.create(tenantId, { ...req.body, toAddress: recipient.address });
+    res.status(201).json({ success: true, schedule });
+  } catch (error) {
+    logger.error('Failed to schedule payment for tenant:', error);
+    next(error);
+  }
+});
+
+/**
+ * Get tenant's payment schedules
+ */
+router.get('/api/wallet/:tenantId/schedules', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    const schedules = await paymentScheduler.list(tenantId);
+    res.json({ schedules });
+  } catch (error) {
+    logger.error('Failed to list payment schedules for tenant:', error);
+    next(error);
+  }
+});
+
+/**
+ * Get a payment schedule with its recent runs
+ */
+router.get('/api/wallet/:tenantId/schedules/:scheduleId', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, scheduleId } = req.params;
+
+    const schedule = await paymentScheduler.get(tenantId, scheduleId);
+    const runs = await paymentScheduler.getRuns(tenantId, scheduleId);
+    res.json({ schedule, runs });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Pause a payment schedule
+ */
+router.post('/api/wallet/:tenantId/schedules/:scheduleId/pause', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, scheduleId } = req.params;
+
+    const schedule = await paymentScheduler.pause(tenantId, scheduleId);
+    res.json({ success: true, schedule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Resume a paused payment schedule
+ */
+router.post('/api/wallet/:tenantId/schedules/:scheduleId/resume', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, scheduleId } = req.params;
+
+    const schedule = await paymentScheduler.resume(tenantId, scheduleId);
+    res.json({ success: true, schedule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Cancel a payment schedule; its run history is kept
+ */
+router.delete('/api/wallet/:tenantId/schedules/:scheduleId', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, scheduleId } = req.params;
+
+    const schedule = await paymentScheduler.cancel(tenantId, scheduleId);
+    res.json({ success: true, schedule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get tenant's transaction history
+ * Query: startDate, endDate, type, state, token, counterparty, limit, offset
  */
 router.get('/api/wallet/:tenantId/transactions', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { tenantId } = req.params;
 
-    const transactions = await multiTenantService.getTransactionsForTenant(tenantId);
-    res.json({ transactions });
+    const query = parseHistoryQuery(req.query);
+    const history = await multiTenantService.getTransactionHistoryForTenant(tenantId, query);
+    res.json(paginateHistory(history, query));
   } catch (error) {
+    if (error instanceof InvalidHistoryQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
     logger.error('Failed to get transactions for tenant:', error);
     next(error);
   }
 });
 
+/**
+ * Export tenant's transaction history for reconciliation
+ * Query: format (csv or json) and the history filters; all matching rows are exported
+ */
+router.get('/api/wallet/:tenantId/transactions/export', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const format = req.query.format || 'csv';
+
+    if (format !== 'csv' && format !== 'json') {
+      return res.status(400).json({ error: 'format must be csv or json' });
+    }
+
+    const query = parseHistoryQuery(req.query);
+    const history = await multiTenantService.getTransactionHistoryForTenant(tenantId, query);
+    const filename = `transactions-${tenantId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'csv') {
+      res.type('text/csv').send(historyToCsv(history));
+    } else {
+      res.json({ transactions: history, total: history.length });
+    }
+  } catch (error) {
+    if (error instanceof InvalidHistoryQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error('Failed to export transactions for tenant:', error);
+    next(error);
+  }
+});
+
 /**
  * Get transaction status for tenant
  */
@@ -303,6 +614,40 @@ router.get('/api/wallet/:tenantId/tokens/:tokenName/balance', validateTenantHead
   }
 });
 
+/**
+ * The wallet routes of a tenant's wallet, under the tenant's URL:
+ * GET /api/wallet/:tenantId/treasury/payout-quorum answers like GET /treasury/payout-quorum
+ * does for this agent's wallet
+ */
+router.all([
+  '/api/wallet/:tenantId/wallet/*path',
+  '/api/wallet/:tenantId/dao/*path',
+  '/api/wallet/:tenantId/treasury/*path',
+  '/api/wallet/:tenantId/marketplace/*path'
+], validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params as { tenantId: string };
+    const path = req.originalUrl.slice(req.originalUrl.indexOf('/', '/api/wallet/'.length));
+
+    const result = await multiTenantService.withTenantWalletService(tenantId, async walletService => walletService && await dispatchRoute(
+      tenantWalletRoutes(walletService, paymentScheduler, tenantId),
+      req.method.toLowerCase() as WalletRoute['method'],
+      path,
+      req.body ?? {},
+      req.headers,
+      logger
+    ));
+
+    if (!result) {
+      return res.status(404).json({ error: `Tenant ${tenantId} not found` });
+    }
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    logger.error('Failed to call wallet route for tenant:', error);
+    next(error);
+  }
+});
+
 /**
  * Unregister a tenant (cleanup)
  */
@@ -328,7 +673,7 @@ router.delete('/api/wallet/:tenantId', validateTenantHeader, async (req: Request
  */
 router.get('/api/tenants', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const tenants = multiTenantService.getRegisteredTenants();
+    const tenants = await multiTenantService.getRegisteredTenants();
     res.json({ tenants });
   } catch (error) {
     logger.error('Failed to get registered tenants:', error);
@@ -343,7 +688,7 @@ router.get('/api/tenants/:tenantId/metadata', validateTenantHeader, async (req:
   try {
     const { tenantId } = req.params;
 
-    const metadata = multiTenantService.getTenantMetadata(tenantId);
+    const metadata = await multiTenantService.getTenantMetadata(tenantId);
     
     if (!metadata) {
       return res.status(404).json({
@@ -358,12 +703,241 @@ router.get('/api/tenants/:tenantId/metadata', validateTenantHeader, async (req:
   }
 });
 
+/**
+ * Revoke a tenant token of the tenant's MCP endpoint
+ * Called by the orchestrator when a bot owner revokes a token
+ */
+router.post('/api/tenants/:tenantId/mcp-tokens/revoked', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const { tokenId, expiresAt } = req.body;
+    const expiry = new Date(expiresAt);
+
+    if (!tokenId || typeof tokenId !== 'string' || isNaN(expiry.getTime())) {
+      return res.status(400).json({
+        error: 'Missing required fields: tokenId and expiresAt'
+      });
+    }
+
+    await revokedTenantTokens.revoke(tokenId, tenantId, expiry);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to revoke tenant token:', error);
+    next(error);
+  }
+});
+
+/**
+ * Apply a bot configuration version to a tenant
+ * Called by the orchestrator on configuration updates and rollbacks
+ */
+router.put('/api/tenants/:tenantId/config', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const { version, tier, features } = req.body;
+
+    const config = await multiTenantService.updateTenantConfig(tenantId, { version, tier, features });
+    
+    if (!config) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    res.json({ success: true, config });
+  } catch (error) {
+    logger.error('Failed to update tenant config:', error);
+    next(error);
+  }
+});
+
+/**
+ * Get tenant's spending policy and current rolling usage
+ */
+router.get('/api/tenants/:tenantId/spending-policy', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    const result = await multiTenantService.getSpendingPolicyForTenant(tenantId);
+    
+    if (!result) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    res.json(result);
+  } catch (error) {
+    logger.error('Failed to get spending policy:', error);
+    next(error);
+  }
+});
+
+/**
+ * Replace tenant's spending policy
+ * Transfers that break it are rejected with a SPENDING_POLICY_VIOLATION error
+ */
+router.put('/api/tenants/:tenantId/spending-policy', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    const policy = await multiTenantService.setSpendingPolicyForTenant(tenantId, req.body);
+    
+    if (!policy) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    res.json({ success: true, policy });
+  } catch (error) {
+    if (error instanceof InvalidSpendingPolicyError) {
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+    logger.error('Failed to update spending policy:', error);
+    next(error);
+  }
+});
+
+/**
+ * Remove tenant's spending policy
+ */
+router.delete('/api/tenants/:tenantId/spending-policy', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    if (!await multiTenantService.clearSpendingPolicyForTenant(tenantId)) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to clear spending policy:', error);
+    next(error);
+  }
+});
+
+/**
+ * Get tenant's address book, optionally filtered by tag
+ */
+router.get('/api/tenants/:tenantId/contacts', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const { tag } = req.query;
+
+    const contacts = await addressBook.list(tenantId, typeof tag === 'string' ? tag : undefined);
+    res.json({ contacts });
+  } catch (error) {
+    logger.error('Failed to list contacts:', error);
+    next(error);
+  }
+});
+
+/**
+ * Resolve a contact name to an address the way transfers do
+ */
+router.get('/api/tenants/:tenantId/contacts/resolve', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const { recipient } = req.query;
+
+    if (typeof recipient !== 'string' || !recipient) {
+      return res.status(400).json({
+        error: 'Missing required query parameter: recipient'
+      });
+    }
+
+    const result = await addressBook.resolve(tenantId, recipient);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a contact of the tenant
+ */
+router.get('/api/tenants/:tenantId/contacts/:contactId', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, contactId } = req.params;
+
+    const contact = await addressBook.get(tenantId, contactId);
+    res.json({ contact });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Add a contact to the tenant's address book
+ */
+router.post('/api/tenants/:tenantId/contacts', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    const contact = await addressBook.create(tenantId, req.body);
+    res.status(201).json({ success: true, contact });
+  } catch (error) {
+    logger.error('Failed to add contact:', error);
+    next(error);
+  }
+});
+
+/**
+ * Update a contact
+ */
+router.put('/api/tenants/:tenantId/contacts/:contactId', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, contactId } = req.params;
+
+    const contact = await addressBook.update(tenantId, contactId, req.body);
+    res.json({ success: true, contact });
+  } catch (error) {
+    logger.error('Failed to update contact:', error);
+    next(error);
+  }
+});
+
+/**
+ * Remove a contact
+ */
+router.delete('/api/tenants/:tenantId/contacts/:contactId', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, contactId } = req.params;
+
+    await addressBook.delete(tenantId, contactId);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to remove contact:', error);
+    next(error);
+  }
+});
+
+/**
+ * Get transfers waiting for approval across all tenants (admin endpoint)
+ * Polled by the orchestrator to notify bot owners
+ */
+router.get('/api/tenants/approvals', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenants = await multiTenantService.getAllPendingApprovals();
+    res.json({ tenants });
+  } catch (error) {
+    logger.error('Failed to get pending approvals:', error);
+    next(error);
+  }
+});
+
 /**
  * Get service statistics (admin endpoint)
+ * Reports registered tenants and how many of their wallets are loaded or dormant
  */
 router.get('/api/tenants/stats', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const stats = multiTenantService.getStatistics();
+    const stats = await multiTenantService.getStatistics();
     res.json(stats);
   } catch (error) {
     logger.error('Failed to get service statistics:', error);
@@ -390,4 +964,48 @@ router.post('/api/tenants/cleanup', async (req: Request, res: Response, next: Ne
   }
 });
 
+/**
+ * Hand a tenant over to another instance (admin endpoint)
+ * Closes the tenant's wallet and returns its bundle for the new instance to import
+ */
+router.post('/api/tenants/:tenantId/drain', validateTenantHeader, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    const bundle = await multiTenantService.drainTenant(tenantId);
+    if (!bundle) {
+      return res.status(404).json({
+        error: `Tenant ${tenantId} not found`
+      });
+    }
+
+    res.json(bundle);
+  } catch (error) {
+    logger.error('Failed to drain tenant:', error);
+    next(error);
+  }
+});
+
+/**
+ * Take over a tenant drained from another instance (admin endpoint)
+ */
+router.post('/api/tenants/import', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tenant } = req.body;
+
+    if (!tenant?.tenantId || !tenant?.sealedSeed) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: tenant.tenantId and tenant.sealedSeed'
+      });
+    }
+
+    const result = await multiTenantService.importTenant(req.body);
+    res.status(result.success ? 201 : 409).json(result);
+  } catch (error) {
+    logger.error('Failed to import tenant:', error);
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
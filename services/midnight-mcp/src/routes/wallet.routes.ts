@@ -0,0 +1,126 @@
+import type { RequestHandler } from 'express';
+import type { Logger } from 'pino';
+import { WalletController } from '../controllers/wallet.controller.js';
+import { TreasuryController } from '../controllers/treasury-controller.js';
+import type { WalletServiceMCP } from '../mcp/index.js';
+import type { PaymentScheduler } from '../wallet/payment-scheduler.js';
+import { SpendingPolicyError } from '../wallet/spending-policy.js';
+import { AddressBookError } from '../wallet/address-book.js';
+import { PaymentScheduleError } from '../wallet/payment-scheduler.js';
+import { IdempotencyError } from '../wallet/idempotency.js';
+
+/**
+ * Routes of a single wallet, served over HTTP for this agent's wallet and
+ * dispatched in-process for a tenant's wallet on its MCP endpoint
+ */
+
+export interface WalletRoute {
+  method: 'get' | 'post' | 'put' | 'delete';
+  path: string;
+  handler: RequestHandler;
+}
+
+/**
+ * The wallet routes with their handlers bound to the controllers
+ */
+export function walletRoutes(walletController: WalletController, treasuryController: TreasuryController): WalletRoute[] {
+  const routes = [
+    { method: 'get', path: '/wallet/status', handler: walletController.getStatus },
+    { method: 'get', path: '/wallet/address', handler: walletController.getAddress },
+    { method: 'get', path: '/wallet/balance', handler: walletController.getBalance },
+    { method: 'post', path: '/wallet/send', handler: walletController.sendFunds },
+    { method: 'post', path: '/wallet/verify-transaction', handler: walletController.verifyTransaction },
+    { method: 'get', path: '/wallet/transaction/:transactionId', handler: walletController.getTransactionStatus },
+    { method: 'get', path: '/wallet/transactions', handler: walletController.getTransactions },
+    { method: 'get', path: '/wallet/pending-transactions', handler: walletController.getPendingTransactions },
+    { method: 'get', path: '/wallet/config', handler: walletController.getWalletConfig },
+    // Scheduled payment routes
+    { method: 'post', path: '/wallet/schedules', handler: walletController.createSchedule },
+    { method: 'get', path: '/wallet/schedules', handler: walletController.listSchedules },
+    { method: 'get', path: '/wallet/schedules/:scheduleId', handler: walletController.getSchedule },
+    { method: 'post', path: '/wallet/schedules/:scheduleId/pause', handler: walletController.pauseSchedule },
+    { method: 'post', path: '/wallet/schedules/:scheduleId/resume', handler: walletController.resumeSchedule },
+    { method: 'delete', path: '/wallet/schedules/:scheduleId', handler: walletController.cancelSchedule },
+    { method: 'get', path: '/health', handler: walletController.healthCheck },
+    // Token routes
+    { method: 'get', path: '/wallet/tokens/balance/:tokenName', handler: walletController.getTokenBalance },
+    { method: 'post', path: '/wallet/tokens/send', handler: walletController.sendToken },
+    { method: 'get', path: '/wallet/tokens/list', handler: walletController.listTokens },
+    { method: 'post', path: '/wallet/tokens/register', handler: walletController.registerToken },
+    { method: 'post', path: '/wallet/tokens/batch', handler: walletController.registerTokensBatch },
+    { method: 'post', path: '/wallet/tokens/register-from-env', handler: walletController.registerTokensFromEnv },
+    { method: 'get', path: '/wallet/tokens/config-template', handler: walletController.getTokenEnvConfigTemplate },
+    { method: 'get', path: '/wallet/tokens/stats', handler: walletController.getTokenRegistryStats },
+    // DAO routes
+    { method: 'post', path: '/dao/open-election', handler: walletController.openDaoElection },
+    { method: 'post', path: '/dao/close-election', handler: walletController.closeDaoElection },
+    { method: 'post', path: '/dao/cast-vote', handler: walletController.castDaoVote },
+    { method: 'post', path: '/dao/fund-treasury', handler: walletController.fundDaoTreasury },
+    { method: 'post', path: '/dao/payout-proposal', handler: walletController.payoutDaoProposal },
+    { method: 'get', path: '/dao/election-status', handler: walletController.getDaoElectionStatus },
+    { method: 'get', path: '/dao/state', handler: walletController.getDaoState },
+    { method: 'get', path: '/dao/election-state', handler: walletController.getDaoElectionState },
+    { method: 'get', path: '/dao/config-template', handler: walletController.getDaoConfigTemplate },
+    // Marketplace routes
+    { method: 'post', path: '/marketplace/register', handler: walletController.registerInMarketplace },
+    { method: 'post', path: '/marketplace/verify', handler: walletController.verifyUserInMarketplace },
+    // Treasury Management routes
+    { method: 'post', path: '/treasury/create-proposal', handler: treasuryController.createProposal },
+    { method: 'get', path: '/treasury/proposals', handler: treasuryController.getProposals },
+    { method: 'get', path: '/treasury/analytics', handler: treasuryController.getAnalytics },
+    { method: 'get', path: '/treasury/balance', handler: treasuryController.getBalance },
+    { method: 'post', path: '/treasury/open-voting', handler: treasuryController.openVoting },
+    { method: 'post', path: '/treasury/payout', handler: treasuryController.executePayout },
+    { method: 'get', path: '/treasury/payout-quorum', handler: treasuryController.getPayoutQuorum },
+    { method: 'put', path: '/treasury/payout-quorum', handler: treasuryController.setPayoutQuorum },
+    { method: 'get', path: '/treasury/proposals/:proposalId/signatures', handler: treasuryController.getPayoutSignatures },
+    { method: 'post', path: '/treasury/proposals/:proposalId/signatures', handler: treasuryController.signPayout }
+  ] as const;
+
+  return routes.map(({ method, path, handler }) => {
+    // Determine which controller to bind to based on path
+    const controller = path.startsWith('/treasury') ? treasuryController : walletController;
+    return { method, path, handler: (handler as RequestHandler).bind(controller) };
+  });
+}
+
+// Controllers keep per-wallet state (the treasury manager), so keep them as long as the wallet is open
+const routesByWallet = new WeakMap<WalletServiceMCP, WalletRoute[]>();
+
+/**
+ * The wallet routes of a tenant's wallet, shared by its MCP endpoint and the tenant routes
+ */
+export function tenantWalletRoutes(walletService: WalletServiceMCP, paymentScheduler: PaymentScheduler, tenantId: string): WalletRoute[] {
+  let routes = routesByWallet.get(walletService);
+  if (!routes) {
+    routes = walletRoutes(
+      new WalletController(walletService, paymentScheduler, tenantId),
+      new TreasuryController(walletService, tenantId)
+    );
+    routesByWallet.set(walletService, routes);
+  }
+  return routes;
+}
+
+/**
+ * Status and body to answer a failed wallet route with
+ */
+export function errorResponse(err: Error, logger: Logger): { status: number; body: unknown } {
+  if (err instanceof SpendingPolicyError) {
+    logger.warn(`Transfer blocked by spending policy (${err.violation.rule}): ${err.message}`);
+    return { status: 403, body: err.toJSON() };
+  }
+
+  if (err instanceof AddressBookError || err instanceof PaymentScheduleError || err instanceof IdempotencyError) {
+    return { status: err.status, body: err.toJSON() };
+  }
+
+  logger.error('Unhandled error:', err);
+  return {
+    status: 500,
+    body: {
+      error: 'Internal server error',
+      message: err.message
+    }
+  };
+}
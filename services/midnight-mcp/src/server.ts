@@ -1,4 +1,4 @@
-import express, { Router, RequestHandler, Express } from 'express';
+import express, { Router, Express } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import pkg from 'body-parser';
@@ -6,9 +6,20 @@ const { json } = pkg;
 import { WalletServiceMCP } from './mcp/index.js';
 import { WalletController } from './controllers/wallet.controller.js';
 import { TreasuryController } from './controllers/treasury-controller.js';
-import tenantRoutes from './routes/tenant.routes.js';
+import tenantRoutes, {
+  multiTenantService,
+  paymentScheduler,
+  requireServiceCredentials,
+  revokedTenantTokens
+} from './routes/tenant.routes.js';
+import { walletRoutes, errorResponse } from './routes/wallet.routes.js';
+import { createMcpRoutes } from './routes/mcp.routes.js';
+import { getServiceRequestVerifier } from './utils/service-auth.js';
 import { config } from './config.js';
 import { SeedManager } from './utils/seed-manager.js';
+import { getSeedEncryption } from './utils/seed-encryption.js';
+import { toScheduledPaymentResult } from './wallet/payment-scheduler.js';
+import { NATIVE_TOKEN_KEY } from './wallet/spending-policy.js';
 import { createLogger } from './logger/index.js';
 
 const app: Express = express();
@@ -19,10 +30,20 @@ const logger = createLogger('server');
 // Middleware
 app.use(helmet());
 app.use(cors());
-app.use(json());
+app.use(json({
+  limit: '25mb', // Tenant imports carry the serialized wallet
+  // Service credentials on the tenant routes sign the body as sent
+  verify: (req, _res, buf) => { (req as any).rawBody = buf; }
+}));
 
 // Initialize services
 
+// Seeds are sealed with the key ring shared with the orchestrator; without it no wallet can be opened
+getSeedEncryption().activeKeyId().catch(error => {
+  logger.error(`Cannot read the seed master key ring: ${error.message}`);
+  process.exit(1);
+});
+
 // Check for seed in environment variable first, then fall back to file
 let seed: string;
 if (process.env.MIDNIGHT_SEED) {
@@ -51,86 +72,51 @@ const walletService = new WalletServiceMCP(
 );
 
 // Initialize controllers
-const walletController = new WalletController(walletService);
+const walletController = new WalletController(walletService, paymentScheduler);
 const treasuryController = new TreasuryController(walletService);
 
+// Only the orchestrator may change who signs off on this wallet's payouts
+router.put('/treasury/payout-quorum', requireServiceCredentials);
+
 // Register routes with bound methods
-const routes = [
-  { method: 'get', path: '/wallet/status', handler: walletController.getStatus },
-  { method: 'get', path: '/wallet/address', handler: walletController.getAddress },
-  { method: 'get', path: '/wallet/balance', handler: walletController.getBalance },
-  { method: 'post', path: '/wallet/send', handler: walletController.sendFunds },
-  { method: 'post', path: '/wallet/verify-transaction', handler: walletController.verifyTransaction },
-  { method: 'get', path: '/wallet/transaction/:transactionId', handler: walletController.getTransactionStatus },
-  { method: 'get', path: '/wallet/transactions', handler: walletController.getTransactions },
-  { method: 'get', path: '/wallet/pending-transactions', handler: walletController.getPendingTransactions },
-  { method: 'get', path: '/wallet/config', handler: walletController.getWalletConfig },
-  { method: 'get', path: '/health', handler: walletController.healthCheck },
-  // Token routes
-  { method: 'get', path: '/wallet/tokens/balance/:tokenName', handler: walletController.getTokenBalance },
-  { method: 'post', path: '/wallet/tokens/send', handler: walletController.sendToken },
-  { method: 'get', path: '/wallet/tokens/list', handler: walletController.listTokens },
-  { method: 'post', path: '/wallet/tokens/register', handler: walletController.registerToken },
-  { method: 'post', path: '/wallet/tokens/batch', handler: walletController.registerTokensBatch },
-  { method: 'post', path: '/wallet/tokens/register-from-env', handler: walletController.registerTokensFromEnv },
-  { method: 'get', path: '/wallet/tokens/config-template', handler: walletController.getTokenEnvConfigTemplate },
-  { method: 'get', path: '/wallet/tokens/stats', handler: walletController.getTokenRegistryStats },
-  // DAO routes
-  { method: 'post', path: '/dao/open-election', handler: walletController.openDaoElection },
-  { method: 'post', path: '/dao/close-election', handler: walletController.closeDaoElection },
-  { method: 'post', path: '/dao/cast-vote', handler: walletController.castDaoVote },
-  { method: 'post', path: '/dao/fund-treasury', handler: walletController.fundDaoTreasury },
-  { method: 'post', path: '/dao/payout-proposal', handler: walletController.payoutDaoProposal },
-  { method: 'get', path: '/dao/election-status', handler: walletController.getDaoElectionStatus },
-  { method: 'get', path: '/dao/state', handler: walletController.getDaoState },
-  { method: 'get', path: '/dao/config-template', handler: walletController.getDaoConfigTemplate },
-  // Marketplace routes
-  { method: 'post', path: '/marketplace/register', handler: walletController.registerInMarketplace },
-  { method: 'post', path: '/marketplace/verify', handler: walletController.verifyUserInMarketplace },
-  // Treasury Management routes
-  { method: 'post', path: '/treasury/create-proposal', handler: treasuryController.createProposal },
-  { method: 'get', path: '/treasury/proposals', handler: treasuryController.getProposals },
-  { method: 'get', path: '/treasury/analytics', handler: treasuryController.getAnalytics },
-  { method: 'get', path: '/treasury/balance', handler: treasuryController.getBalance },
-  { method: 'post', path: '/treasury/open-voting', handler: treasuryController.openVoting },
-  { method: 'post', path: '/treasury/payout', handler: treasuryController.executePayout }
-] as const;
-
-// Register all routes
-routes.forEach(({ method, path, handler }) => {
-  // Determine which controller to bind to based on path
-  const controller = path.startsWith('/treasury') ? treasuryController : walletController;
-  const boundHandler = (handler as RequestHandler).bind(controller);
-  /* istanbul ignore else */
-  if (method === 'get') {
-    router.get(path, boundHandler);
-  } else if (method === 'post') {
-    router.post(path, boundHandler);
-
-  } else if (method === 'put') {
-    router.put(path, boundHandler);
-    
-  } else if (method === 'delete') {
-    router.delete(path, boundHandler);
-  }
-});
+for (const { method, path, handler } of walletRoutes(walletController, treasuryController)) {
+  router[method](path, handler);
+}
 
 // Mount routers
 app.use(router); // Existing single-tenant routes (for backward compatibility)
 app.use(tenantRoutes); // New multi-tenant routes
+const mcpRoutes = createMcpRoutes(multiTenantService, paymentScheduler, getServiceRequestVerifier(), {
+  revokedTokens: revokedTenantTokens
+});
+app.use(mcpRoutes.router); // MCP endpoints of tenant wallets
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  logger.error('Unhandled error:', err);
-  res.status(500).json({
-    error: 'Internal server error',
-    message: err.message
-  });
+  const { status, body } = errorResponse(err, logger);
+  res.status(status).json(body);
 });
 
 // Start server
 const server = app.listen(port, () => {
   logger.info(`Server is running on port ${port}`);
+
+  // Restore registered tenants; their wallets are opened when first used
+  multiTenantService.start().catch(error => logger.error('Failed to restore tenants:', error));
+
+  // Send due scheduled payments of this agent's wallet and of registered tenants
+  paymentScheduler.start({
+    tenants: async () => [config.agentId, ...await multiTenantService.getRegisteredTenants()],
+    send: async schedule => {
+      if (await multiTenantService.isTenantRegistered(schedule.tenantId)) {
+        return await multiTenantService.executeScheduledPayment(schedule);
+      }
+      const result = schedule.token === NATIVE_TOKEN_KEY
+        ? await walletService.sendFunds(schedule.toAddress, schedule.amount)
+        : await walletService.sendToken(schedule.token, schedule.toAddress, schedule.amount);
+      return toScheduledPaymentResult(result);
+    }
+  });
 });
 
 // Graceful shutdown
@@ -141,6 +127,9 @@ process.on('SIGTERM', () => {
     try {
       await walletService.close();
       logger.info('Wallet service closed');
+      await mcpRoutes.close();
+      await multiTenantService.close();
+      logger.info('Tenant wallets closed');
       process.exit(0);
     } catch (error) {
       logger.error('Error during shutdown:', error);
@@ -156,6 +145,9 @@ process.on('SIGINT', () => {
     try {
       await walletService.close();
       logger.info('Wallet service closed');
+      await mcpRoutes.close();
+      await multiTenantService.close();
+      logger.info('Tenant wallets closed');
       process.exit(0);
     } catch (error) {
       logger.error('Error during shutdown:', error);
@@ -1,20 +1,5 @@
-import {
-  Server
-} from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  McpError,
-  ErrorCode,
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  ListResourcesRequestSchema,
-  ReadResourceRequestSchema
-} from "@modelcontextprotocol/sdk/types.js";
-import { 
-  WalletServiceError as MidnightMCPError
-} from './mcp/index.js';
-import { ALL_TOOLS, handleToolCall } from './tools.js';
-import { handleListResources, handleReadResource } from './resources.js';
+import { createMcpServer } from './mcp/server.js';
 
 /**
  * Simple logging function
@@ -24,17 +9,6 @@ function log(...args: any[]) {
   console.error(`[${timestamp}]`, ...args);
 }
 
-/**
- * Format error for logging
- */
-function formatError(error: unknown): string {
-  if (error instanceof Error) {
-    return `${error.name}: ${error.message}`;
-  }
-  /* istanbul ignore next */
-  return String(error);
-}
-
 /**
  * Create and configure MCP server
  */
@@ -47,19 +21,17 @@ export function createServer() {
     throw new Error('AGENT_ID environment variable is required');
   }
 
-  // Create server instance
-  const server = new Server({
-    name: "midnight-mcp-server",
-    version: "1.0.0"
-  }, {
-    capabilities: {
-      resources: {},
-      tools: {}
-    }
+  // Create server instance with its request handlers
+  const server = createMcpServer({ log });
+
+  // Handle global errors
+  process.on("uncaughtException", (error) => {
+    log("Uncaught exception:", error);
   });
 
-  // Set up request handlers
-  setupRequestHandlers(server);
+  process.on("unhandledRejection", (reason) => {
+    log("Unhandled rejection:", reason);
+  });
 
   // Create STDIO transport
   const transport = new StdioServerTransport();
@@ -85,98 +57,6 @@ export function createServer() {
   };
 }
 
-/**
- * Helper function to handle errors uniformly
- */
-function handleError(context: string, error: unknown): never {
-  log(`Error ${context}:`, error);
-
-  if (error instanceof McpError) {
-    throw error;
-  }
-
-  // Handle Midnight MCP errors
-  if (error instanceof MidnightMCPError) {
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Midnight MCP Error (${error.type}): ${error.message}`
-    );
-  }
-
-  throw new McpError(
-    ErrorCode.InternalError,
-    `${context}: ${formatError(error)}`
-  );
-}
-
-/**
- * Set up server request handlers
- */
-function setupRequestHandlers(server: Server) {
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    try {
-      const toolName = request.params.name;
-      const toolArgs = request.params.arguments;
-
-      log(`Tool call received: ${toolName}`);
-      return await handleToolCall(toolName, toolArgs, log);
-    } catch (error) {
-      /* istanbul ignore next */
-      return handleError("handling tool call", error);
-    }
-  });
-
-  // Handle resource listing
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    try {
-      return { resources: handleListResources() };
-    } catch (error) {
-      /* istanbul ignore next */
-      return handleError("listing resources", error);
-    }
-  });
-
-  // Handle resource reading
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    try {
-      const resourceUri = request.params.uri;
-      const resource = handleReadResource(resourceUri);
-      
-      /* istanbul ignore next */
-      return {
-        contents: [{
-          uri: resourceUri,
-          mimeType: resource.mimeType || "application/json",
-          text: JSON.stringify(resource)
-        }]
-      };
-    } catch (error) {
-      /* istanbul ignore next */
-      handleError("reading resource", error);
-    }
-  });
-
-  // Handle tool listing
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    try {
-      return { tools: ALL_TOOLS };
-    } catch (error) {
-      /* istanbul ignore next */
-      return handleError("listing tools", error);
-    }
-  });
-
-  // Handle global errors
-  process.on("uncaughtException", (error) => {
-    log("Uncaught exception:", error);
-  });
-
-  process.on("unhandledRejection", (reason) => {
-    log("Unhandled rejection:", reason);
-  });
-}
-
 /**
  * Set up process exit signal handlers
  */
@@ -1,6 +1,8 @@
 /* istanbul ignore file */
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
-import { httpClient } from './utils/http-client.js';
+import { httpClient, HttpError, type WalletApiClient } from './utils/http-client.js';
+import type { WalletServiceMCP } from './mcp/index.js';
+import { IDEMPOTENCY_KEY_HEADER } from './wallet/idempotency.js';
 
 // Define tools with their schemas
 export const ALL_TOOLS = [
@@ -34,13 +36,15 @@ export const ALL_TOOLS = [
   },
   {
     name: "send",
-    description: "Send funds or tokens to another wallet address. Can send native tokens (tDUST) or shielded tokens by name/symbol",
+    description: "Send funds or tokens to another wallet address. Can send native tokens (tDUST) or shielded tokens by name/symbol. Transfers above the owner's approval threshold come back with state 'pending_approval' and a message to relay to the user instead of being sent",
     inputSchema: {
       type: "object",
       properties: {
-        destinationAddress: { type: "string" },
+        destinationAddress: { type: "string", description: "Recipient address, or the name of a contact in the address book (e.g. 'Alice')" },
         amount: { type: "string" },
-        token: { type: "string", description: "Token name, symbol, or 'native'/'tDUST' for native tokens. If not specified, defaults to native tokens." }
+        token: { type: "string", description: "Token name, symbol, or 'native'/'tDUST' for native tokens. If not specified, defaults to native tokens." },
+        dryRun: { type: "boolean", description: "Build and check the transfer without submitting it and return a preview of what would happen" },
+        idempotencyKey: { type: "string", description: "Unique key for this transfer. Retrying with the same key returns the original transaction instead of sending the funds again" }
       },
       required: ["destinationAddress", "amount"]
     }
@@ -97,6 +101,56 @@ export const ALL_TOOLS = [
       required: ["tokenName"]
     }
   },
+  // Scheduled payment tools
+  {
+    name: "schedulePayment",
+    description: "Schedule a payment for later or on a recurring basis. Give either runAt for a one-off payment or cron for a recurring one (5-field cron in UTC, e.g. '0 9 1 * *' for 09:00 on the 1st of every month). Each run is sent like a normal transfer, so spending policies and approval thresholds still apply",
+    inputSchema: {
+      type: "object",
+      properties: {
+        destinationAddress: { type: "string", description: "Recipient address, or the name of a contact in the address book (e.g. 'Alice')" },
+        amount: { type: "string" },
+        token: { type: "string", description: "Token name, symbol, or 'native'/'tDUST' for native tokens. If not specified, defaults to native tokens." },
+        runAt: { type: "string", description: "ISO date of a one-off payment" },
+        cron: { type: "string", description: "Cron expression of a recurring payment, or @hourly/@daily/@weekly/@monthly/@yearly" },
+        endAt: { type: "string", description: "ISO date after which a recurring payment stops (optional)" },
+        maxRuns: { type: "number", description: "Number of payments after which a recurring payment stops (optional)" },
+        description: { type: "string", description: "What the payment is for (optional)" }
+      },
+      required: ["destinationAddress", "amount"]
+    }
+  },
+  {
+    name: "listScheduledPayments",
+    description: "List the scheduled and recurring payments of the wallet with their status and next run",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: "pauseScheduledPayment",
+    description: "Pause a scheduled payment until it is resumed",
+    inputSchema: {
+      type: "object",
+      properties: {
+        scheduleId: { type: "string" }
+      },
+      required: ["scheduleId"]
+    }
+  },
+  {
+    name: "cancelScheduledPayment",
+    description: "Cancel a scheduled payment so it never runs again",
+    inputSchema: {
+      type: "object",
+      properties: {
+        scheduleId: { type: "string" }
+      },
+      required: ["scheduleId"]
+    }
+  },
   // Marketplace tools
   {
     name: "registerInMarketplace",
@@ -153,7 +207,8 @@ export const ALL_TOOLS = [
           type: "string", 
           enum: ["yes", "no", "absence"], 
           description: "Type of vote to cast. Must be one of: 'yes' (vote for), 'no' (vote against), or 'absence' (abstain/absent). Case-insensitive." 
-        }
+        },
+        dryRun: { type: "boolean", description: "Build and check the vote without submitting it and return a preview of what would happen" }
       },
       required: ["voteType"]
     }
@@ -164,7 +219,8 @@ export const ALL_TOOLS = [
     inputSchema: {
       type: "object",
       properties: {
-        amount: { type: "string", description: "Amount to fund the treasury" }
+        amount: { type: "string", description: "Amount to fund the treasury" },
+        dryRun: { type: "boolean", description: "Build and check the funding without submitting it and return a preview of what would happen" }
       },
       required: ["amount"]
     }
@@ -174,7 +230,9 @@ export const ALL_TOOLS = [
     description: "Payout an approved proposal from the DAO treasury. DAO configuration is set via environment variables.",
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        dryRun: { type: "boolean", description: "Build and check the payout without submitting it and return a preview of what would happen" }
+      },
       required: []
     }
   },
@@ -313,13 +371,31 @@ async function getWalletService() {
   return walletServiceInstance;
 }
 
+async function withAgentWalletService<T>(use: (walletService: WalletServiceMCP) => Promise<T>): Promise<T> {
+  return await use(await getWalletService());
+}
+
+/**
+ * The wallet the tools act on; this agent's wallet server unless given
+ */
+export interface ToolContext {
+  client?: WalletApiClient;
+  // Runs an operation on the wallet service, keeping the wallet open until the operation finishes
+  withWalletService?: <T>(use: (walletService: WalletServiceMCP) => Promise<T>) => Promise<T>;
+}
+
 // Define tool handlers
-export async function handleToolCall(toolName: string, toolArgs: any, log: (...args: any[]) => void) {
+export async function handleToolCall(
+  toolName: string,
+  toolArgs: any,
+  log: (...args: any[]) => void,
+  { client = httpClient, withWalletService = withAgentWalletService }: ToolContext = {}
+) {
   try {
     switch (toolName) {
       // Midnight wallet tool handlers
       case "walletStatus":
-        const status = await httpClient.get('/wallet/status');
+        const status = await client.get('/wallet/status');
         return {
           "content": [
             {
@@ -331,7 +407,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
         
       case "walletAddress":
-        const address = await httpClient.get('/wallet/address');
+        const address = await client.get('/wallet/address');
         return {
           "content": [
             {
@@ -343,7 +419,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
         
       case "walletBalance":
-        const balance = await httpClient.get('/wallet/balance');
+        const balance = await client.get('/wallet/balance');
         return {
           "content": [
             {
@@ -354,8 +430,9 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
           ]
         };
         
-      case "send":
-        const { destinationAddress, amount: sendAmount, token } = toolArgs;
+      case "send": {
+        const { destinationAddress, amount: sendAmount, token, dryRun: sendDryRun, idempotencyKey } = toolArgs;
+        const sendHeaders = idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : undefined;
         if (!destinationAddress || !sendAmount) {
           throw new McpError(
             ErrorCode.InvalidParams,
@@ -371,7 +448,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         
         if (isNativeToken) {
           // Send native tokens
-          const sendResult = await httpClient.post('/wallet/send', { destinationAddress, amount: sendAmount });
+          const sendResult = await client.post('/wallet/send', { destinationAddress, amount: sendAmount, dryRun: sendDryRun }, sendHeaders);
           return {
             "content": [
               {
@@ -383,11 +460,12 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
           };
         } else {
           // Send shielded tokens
-          const sendTokenResult = await httpClient.post('/wallet/tokens/send', { 
+          const sendTokenResult = await client.post('/wallet/tokens/send', { 
             tokenName: token, 
             toAddress: destinationAddress, 
-            amount: sendAmount 
-          });
+            amount: sendAmount,
+            dryRun: sendDryRun
+          }, sendHeaders);
           return {
             "content": [
               {
@@ -398,6 +476,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
             ]
           };
         }
+      }
         
       case "verifyTransaction":
         const { identifier } = toolArgs;
@@ -407,7 +486,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
             "Missing required parameter: identifier"
           );
         }
-        const txVerifyResult = await httpClient.post('/wallet/verify-transaction', { identifier });
+        const txVerifyResult = await client.post('/wallet/verify-transaction', { identifier });
         return {
           "content": [
             {
@@ -426,7 +505,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
             "Missing required parameter: transactionId"
           );
         }
-        const statusResult = await httpClient.get(`/wallet/transaction/${transactionId}`);
+        const statusResult = await client.get(`/wallet/transaction/${transactionId}`);
         return {
           "content": [
             {
@@ -438,7 +517,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
         
       case "getTransactions":
-        const transactions = await httpClient.get('/wallet/transactions');
+        const transactions = await client.get('/wallet/transactions');
         return {
           "content": [
             {
@@ -450,7 +529,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
         
       case "getPendingTransactions":
-        const pendingTransactions = await httpClient.get('/wallet/pending-transactions');
+        const pendingTransactions = await client.get('/wallet/pending-transactions');
         return {
           "content": [
             {
@@ -462,7 +541,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "getWalletConfig":
-        const config = await httpClient.get('/wallet/config');
+        const config = await client.get('/wallet/config');
         return {
           "content": [
             {
@@ -490,7 +569,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         
         if (isNativeTokenBalance) {
           // Get native token balance
-          const nativeBalance = await httpClient.get('/wallet/balance');
+          const nativeBalance = await client.get('/wallet/balance');
           return {
             "content": [
               {
@@ -502,7 +581,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
           };
         } else {
           // Get shielded token balance
-          const tokenBalance = await httpClient.get(`/wallet/tokens/balance/${balanceTokenName}`);
+          const tokenBalance = await client.get(`/wallet/tokens/balance/${balanceTokenName}`);
           return {
             "content": [
               {
@@ -514,6 +593,73 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
           };
         }
       
+      // Scheduled payment tool handlers
+      case "schedulePayment": {
+        const { destinationAddress: scheduleAddress, amount: scheduleAmount, token: scheduleToken, runAt, cron, endAt, maxRuns, description: scheduleDescription } = toolArgs;
+        if (!scheduleAddress || !scheduleAmount) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Missing required parameters: destinationAddress and amount"
+          );
+        }
+        const scheduleResult = await client.post('/wallet/schedules', {
+          toAddress: scheduleAddress,
+          amount: scheduleAmount,
+          token: scheduleToken,
+          runAt,
+          cron,
+          endAt,
+          maxRuns,
+          description: scheduleDescription
+        });
+        return {
+          "content": [
+            {
+              "type": "text",
+              "text": JSON.stringify(scheduleResult, null, 2),
+              "mimeType": "application/json"
+            }
+          ]
+        };
+      }
+
+      case "listScheduledPayments": {
+        const schedules = await client.get('/wallet/schedules');
+        return {
+          "content": [
+            {
+              "type": "text",
+              "text": JSON.stringify(schedules, null, 2),
+              "mimeType": "application/json"
+            }
+          ]
+        };
+      }
+
+      case "pauseScheduledPayment":
+      case "cancelScheduledPayment": {
+        const { scheduleId } = toolArgs;
+        if (!scheduleId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Missing required parameter: scheduleId"
+          );
+        }
+        const schedulePath = `/wallet/schedules/${encodeURIComponent(scheduleId)}`;
+        const updatedSchedule = toolName === "pauseScheduledPayment"
+          ? await client.post(`${schedulePath}/pause`, {})
+          : await client.delete(schedulePath);
+        return {
+          "content": [
+            {
+              "type": "text",
+              "text": JSON.stringify(updatedSchedule, null, 2),
+              "mimeType": "application/json"
+            }
+          ]
+        };
+      }
+
       // Marketplace tool handlers
       case "registerInMarketplace":
         const { userId, userData } = toolArgs;
@@ -523,7 +669,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
             "Missing required parameters: userId and userData"
           );
         }
-        const registerResult = await httpClient.post('/marketplace/register', { userId, userData });
+        const registerResult = await client.post('/marketplace/register', { userId, userData });
         return {
           "content": [
             {
@@ -542,7 +688,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
             "Missing required parameters: userId and verificationData"
           );
         }
-        const verifyUserResult = await httpClient.post('/marketplace/verify', { userId: verifyUserId, verificationData });
+        const verifyUserResult = await client.post('/marketplace/verify', { userId: verifyUserId, verificationData });
         return {
           "content": [
             {
@@ -562,7 +708,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
             "Missing required parameter: electionId"
           );
         }
-        const openElectionResult = await httpClient.post('/dao/open-election', { electionId });
+        const openElectionResult = await client.post('/dao/open-election', { electionId });
         return {
           "content": [
             {
@@ -574,7 +720,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "closeDaoElection":
-        const closeElectionResult = await httpClient.post('/dao/close-election', {});
+        const closeElectionResult = await client.post('/dao/close-election', {});
         return {
           "content": [
             {
@@ -586,14 +732,14 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "castDaoVote":
-        const { voteType } = toolArgs;
+        const { voteType, dryRun: voteDryRun } = toolArgs;
         if (!voteType) {
           throw new McpError(
             ErrorCode.InvalidParams,
             "Missing required parameter: voteType"
           );
         }
-        const castVoteResult = await httpClient.post('/dao/cast-vote', { voteType });
+        const castVoteResult = await client.post('/dao/cast-vote', { voteType, dryRun: voteDryRun });
         return {
           "content": [
             {
@@ -605,14 +751,14 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "fundDaoTreasury":
-        const { amount: fundAmount } = toolArgs;
+        const { amount: fundAmount, dryRun: fundDryRun } = toolArgs;
         if (!fundAmount) {
           throw new McpError(
             ErrorCode.InvalidParams,
             "Missing required parameter: amount"
           );
         }
-        const fundTreasuryResult = await httpClient.post('/dao/fund-treasury', { amount: fundAmount });
+        const fundTreasuryResult = await client.post('/dao/fund-treasury', { amount: fundAmount, dryRun: fundDryRun });
         return {
           "content": [
             {
@@ -624,7 +770,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "payoutDaoProposal":
-        const payoutResult = await httpClient.post('/dao/payout-proposal', {});
+        const payoutResult = await client.post('/dao/payout-proposal', { dryRun: toolArgs.dryRun });
         return {
           "content": [
             {
@@ -636,7 +782,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "getDaoElectionStatus":
-        const electionStatusResult = await httpClient.get('/dao/election-status');
+        const electionStatusResult = await client.get('/dao/election-status');
         return {
           "content": [
             {
@@ -648,7 +794,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "getDaoState":
-        const daoStateResult = await httpClient.get('/dao/state');
+        const daoStateResult = await client.get('/dao/state');
         return {
           "content": [
             {
@@ -668,7 +814,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
             "Missing required parameters: description, amount, recipient"
           );
         }
-        const proposalResult = await httpClient.post('/treasury/create-proposal', {
+        const proposalResult = await client.post('/treasury/create-proposal', {
           description,
           amount: proposalAmount,
           recipient
@@ -685,7 +831,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
       
       case "getTreasuryProposals":
         const { status: proposalStatus } = toolArgs;
-        const proposalsResult = await httpClient.get(
+        const proposalsResult = await client.get(
           proposalStatus ? `/treasury/proposals?status=${proposalStatus}` : '/treasury/proposals'
         );
         return {
@@ -699,7 +845,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "getTreasuryAnalytics":
-        const analyticsResult = await httpClient.get('/treasury/analytics');
+        const analyticsResult = await client.get('/treasury/analytics');
         return {
           "content": [
             {
@@ -711,7 +857,7 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         };
       
       case "getTreasuryBalance":
-        const balanceResult = await httpClient.get('/treasury/balance');
+        const balanceResult = await client.get('/treasury/balance');
         return {
           "content": [
             {
@@ -729,13 +875,12 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         
         // Import and use deployment service
         const { ContractDeploymentToolHandlers } = await import('./integrations/treasury-deployment-tools.js');
-        const walletService = await getWalletService();
-        const deploymentHandler = new ContractDeploymentToolHandlers(walletService);
-        
-        const deployResult = await deploymentHandler.handleDeploymentTool('deployFullTreasuryDAO', {
-          initialFunding,
-          adminPublicKey
-        });
+        const deployResult = await withWalletService(walletService =>
+          new ContractDeploymentToolHandlers(walletService).handleDeploymentTool('deployFullTreasuryDAO', {
+            initialFunding,
+            adminPublicKey
+          })
+        );
         
         return {
           "content": [
@@ -757,14 +902,13 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         }
         
         const { ContractDeploymentToolHandlers: JoinHandlers } = await import('./integrations/treasury-deployment-tools.js');
-        const ws2 = await getWalletService();
-        const joinHandler = new JoinHandlers(ws2);
-        
-        const joinResult = await joinHandler.handleDeploymentTool('joinExistingDAO', {
-          daoAddress,
-          fundingTokenAddress,
-          voteTokenAddress
-        });
+        const joinResult = await withWalletService(walletService =>
+          new JoinHandlers(walletService).handleDeploymentTool('joinExistingDAO', {
+            daoAddress,
+            fundingTokenAddress,
+            voteTokenAddress
+          })
+        );
         
         return {
           "content": [
@@ -786,12 +930,11 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         }
         
         const { ContractDeploymentToolHandlers: VerifyHandlers } = await import('./integrations/treasury-deployment-tools.js');
-        const ws3 = await getWalletService();
-        const verifyHandler = new VerifyHandlers(ws3);
-        
-        const contractVerifyResult = await verifyHandler.handleDeploymentTool('verifyContractDeployment', {
-          contractAddress
-        });
+        const contractVerifyResult = await withWalletService(walletService =>
+          new VerifyHandlers(walletService).handleDeploymentTool('verifyContractDeployment', {
+            contractAddress
+          })
+        );
         
         return {
           "content": [
@@ -816,12 +959,11 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
         // Use the full deployment for new DAOs
         log("Note: Using deployFullTreasuryDAO for complete contract deployment");
         const { ContractDeploymentToolHandlers: LegacyHandlers } = await import('./integrations/treasury-deployment-tools.js');
-        const ws4 = await getWalletService();
-        const legacyHandler = new LegacyHandlers(ws4);
-        
-        const legacyResult = await legacyHandler.handleDeploymentTool('deployFullTreasuryDAO', {
-          initialFunding: "0"
-        });
+        const legacyResult = await withWalletService(walletService =>
+          new LegacyHandlers(walletService).handleDeploymentTool('deployFullTreasuryDAO', {
+            initialFunding: "0"
+          })
+        );
         
         return {
           "content": [
@@ -841,6 +983,20 @@ export async function handleToolCall(toolName: string, toolArgs: any, log: (...a
     }
   } catch (error) {
     log(`Error handling tool call for ${toolName}:`, error);
+    if (error instanceof HttpError && error.data?.code === 'SPENDING_POLICY_VIOLATION') {
+      // Surface the blocking rule to the agent instead of a generic HTTP failure
+      throw new McpError(ErrorCode.InvalidRequest, error.data.message, error.data);
+    }
+    if (error instanceof HttpError && ['AMBIGUOUS_CONTACT', 'CONTACT_NOT_FOUND'].includes(error.data?.code)) {
+      // Let the agent ask the user which contact they meant
+      throw new McpError(ErrorCode.InvalidParams, error.data.message, error.data);
+    }
+    if (error instanceof HttpError && ['INVALID_SCHEDULE', 'SCHEDULE_NOT_FOUND', 'INVALID_SCHEDULE_STATE'].includes(error.data?.code)) {
+      throw new McpError(ErrorCode.InvalidParams, error.data.message, error.data);
+    }
+    if (error instanceof HttpError && ['INVALID_IDEMPOTENCY_KEY', 'IDEMPOTENCY_KEY_CONFLICT', 'IDEMPOTENCY_KEY_IN_PROGRESS'].includes(error.data?.code)) {
+      throw new McpError(ErrorCode.InvalidRequest, error.data.message, error.data);
+    }
     throw error;
   }
 }
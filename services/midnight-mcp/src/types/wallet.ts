@@ -75,6 +75,8 @@ export interface SendFundsResult {
  * Transaction state enum representing the lifecycle of a transaction
  */
 export enum TransactionState {
+  PENDING_APPROVAL = 'pending_approval', // Transfer is above the approval threshold and waits for the bot owner
+  REJECTED = 'rejected',    // Bot owner declined the transfer; nothing was sent
   INITIATED = 'initiated',  // Transaction has been initiated but not yet broadcast
   SENT = 'sent',            // Transaction has been broadcast with txIdentifier
   COMPLETED = 'completed',  // Transaction appears in transaction history
@@ -110,6 +112,23 @@ export interface TransactionRecord {
   updatedAt: number;             // Timestamp of last update
   errorMessage?: string;         // Error message if transaction failed
   metadata?: Record<string, any>; // Optional metadata (contract address, proposal ID, etc.)
+  idempotency?: TransactionIdempotency; // Set when the request carried an Idempotency-Key
+}
+
+/**
+ * Idempotency key of a transfer request
+ */
+export interface IdempotencyRequest {
+  key: string;
+  requestHash: string;           // Hash of the operation and parameters the key was first used with
+}
+
+/**
+ * Idempotency key stored on a transaction
+ */
+export interface TransactionIdempotency extends IdempotencyRequest {
+  expiresAt: number;             // Timestamp after which the key can be reused
+  response?: unknown;            // Response of the first request, replayed on retries
 }
 
 /**
@@ -123,6 +142,57 @@ export interface InitiateTransactionResult {
   createdAt: number;             // Timestamp of creation
 }
 
+/**
+ * Result when a transfer is parked for approval instead of being sent
+ */
+export interface PendingApprovalResult extends InitiateTransactionResult {
+  state: TransactionState.PENDING_APPROVAL;
+  token: string;                 // Token name, or 'native' for tDUST
+  approvalThreshold: string;     // Threshold the amount exceeded
+  message: string;               // Explanation to relay to the user
+}
+
+/**
+ * A condition a dry run checked before the transaction would be submitted
+ */
+export interface PreviewCheck {
+  name: string;                  // e.g. 'sufficient_balance' or 'election_open'
+  passed: boolean;
+  message?: string;              // Why the transaction would fail, when the check failed
+}
+
+/**
+ * Balance of a token a previewed transaction needs
+ */
+export interface PreviewBalance {
+  token: string;                 // Token name, or 'native' for tDUST
+  available: string;
+  required: string;
+}
+
+/**
+ * Wallet coin a previewed transaction would spend
+ */
+export interface PreviewCoin {
+  tokenType: string;
+  value: string;                 // Amount in the token's smallest unit
+  nonce: string;
+}
+
+/**
+ * Result of a dry run: the transaction was built and checked but not submitted
+ */
+export interface TransactionPreview {
+  dryRun: true;
+  operation: 'send' | 'sendToken' | 'castDaoVote' | 'fundDaoTreasury' | 'payoutDaoProposal';
+  wouldSucceed: boolean;         // Whether every check passed
+  checks: PreviewCheck[];
+  balances: PreviewBalance[];
+  estimatedFee?: string;         // Fee in tDUST, when the transaction could be built
+  coins?: PreviewCoin[];         // Wallet coins the transaction would spend
+  approvalThreshold?: string;    // Set when the transfer would wait for the bot owner's approval
+}
+
 /**
  * Result when checking transaction status
  */
@@ -141,6 +211,27 @@ export interface TransactionStatusResult {
   }
 } 
 
+/**
+ * State of the election of the configured DAO voting contract
+ */
+export interface DaoElectionState {
+  isOpen: boolean;
+  electionId: string;            // Hex encoded election ID
+  yesVotes: string;
+  noVotes: string;
+  absentVotes: string;
+  totalVotes: string;
+  treasuryBalance: string;       // Funds held by the DAO treasury, in the smallest unit
+}
+
+/**
+ * A change to a wallet that readers of its status, balances, transactions or DAO state may want to act on
+ */
+export type WalletChange =
+  | { kind: 'balance'; balances: Record<string, string>; pending: Record<string, string> }  // By token type
+  | { kind: 'transaction'; transaction: TransactionRecord }
+  | { kind: 'dao-election'; election: DaoElectionState };
+
 export type MarketplaceUserData = {
   marketplaceAddress: string;
   pubkey: string;
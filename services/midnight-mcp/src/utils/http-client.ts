@@ -12,7 +12,17 @@ export class HttpError extends Error {
   }
 }
 
-export class HttpClient {
+/**
+ * The wallet API the MCP tools call: the wallet server over HTTP, or a
+ * tenant's wallet routes in-process
+ */
+export interface WalletApiClient {
+  get<T>(path: string): Promise<T>;
+  post<T>(path: string, data: unknown, headers?: Record<string, string>): Promise<T>;
+  delete<T>(path: string): Promise<T>;
+}
+
+export class HttpClient implements WalletApiClient {
   private baseUrl: string;
 
   constructor() {
@@ -22,13 +32,15 @@ export class HttpClient {
   private async request<T>(
     method: string,
     path: string,
-    data?: any
+    data?: any,
+    headers: Record<string, string> = {}
   ): Promise<T> {
     try {
       const response = await fetch(`${this.baseUrl}${path}`, {
         method,
         headers: {
           'Content-Type': 'application/json',
+          ...headers,
         },
         body: data ? JSON.stringify(data) : undefined,
       });
@@ -59,8 +71,12 @@ export class HttpClient {
     return this.request<T>('GET', path);
   }
 
-  async post<T>(path: string, data: any): Promise<T> {
-    return this.request<T>('POST', path, data);
+  async post<T>(path: string, data: any, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>('POST', path, data, headers);
+  }
+
+  async delete<T>(path: string): Promise<T> {
+    return this.request<T>('DELETE', path);
   }
 }
 
@@ -0,0 +1,137 @@
+import type { Request, Response } from 'express';
+import type { Logger } from 'pino';
+import { HttpError, type WalletApiClient } from './http-client.js';
+import { errorResponse, type WalletRoute } from '../routes/wallet.routes.js';
+
+/**
+ * Calls wallet routes in-process instead of over HTTP, so the MCP tools can
+ * drive a tenant's wallet with the same requests they send the wallet server.
+ * Errors come back as HttpError with the status and body the server would
+ * have answered with.
+ */
+export class RouteClient implements WalletApiClient {
+  /**
+   * @param withRoutes Runs a request on the routes of the wallet to call, resolved on every request
+   */
+  constructor(
+    private readonly withRoutes: <R>(request: (routes: WalletRoute[]) => Promise<R>) => Promise<R>,
+    private readonly logger: Logger
+  ) {}
+
+  async get<T>(path: string): Promise<T> {
+    return this.request<T>('get', path);
+  }
+
+  async post<T>(path: string, data: unknown, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>('post', path, data, headers);
+  }
+
+  async delete<T>(path: string): Promise<T> {
+    return this.request<T>('delete', path);
+  }
+
+  private async request<T>(
+    method: WalletRoute['method'],
+    pathAndQuery: string,
+    data?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<T> {
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+    return await this.withRoutes(async routes => {
+      const { status, body } = await dispatchRoute(routes, method, pathAndQuery, data ?? {}, lowerCased, this.logger);
+
+      if (status >= 400) {
+        const { message, error } = (body ?? {}) as { message?: string; error?: string };
+        throw new HttpError(status, message || error || 'HTTP request failed', body);
+      }
+      return body as T;
+    });
+  }
+}
+
+/**
+ * Run a request on the first of a wallet's routes that matches it
+ * @param headers Request headers, with lower-case names
+ * @returns The status and body the wallet server would have answered with
+ */
+export async function dispatchRoute(
+  routes: WalletRoute[],
+  method: WalletRoute['method'],
+  pathAndQuery: string,
+  data: unknown,
+  headers: Record<string, string | string[] | undefined>,
+  logger: Logger
+): Promise<{ status: number; body: unknown }> {
+  const url = new URL(pathAndQuery, 'http://wallet');
+
+  for (const route of routes) {
+    const params = route.method === method ? matchPath(route.path, url.pathname) : null;
+    if (!params) continue;
+
+    return await dispatch(route, {
+      method: method.toUpperCase(),
+      path: url.pathname,
+      params,
+      query: Object.fromEntries(url.searchParams),
+      body: data,
+      headers
+    }, logger);
+  }
+
+  return { status: 404, body: { error: `No wallet route for ${method.toUpperCase()} ${url.pathname}` } };
+}
+
+function dispatch(
+  route: WalletRoute,
+  request: Pick<Request, 'method' | 'path' | 'params' | 'query' | 'body' | 'headers'>,
+  logger: Logger
+): Promise<{ status: number; body: unknown }> {
+  return new Promise(resolve => {
+    let status = 200;
+    const fail = (error: unknown) => resolve(errorResponse(error instanceof Error ? error : new Error(String(error)), logger));
+
+    const req = {
+      ...request,
+      header: (name: string) => request.headers[name.toLowerCase()],
+      get: (name: string) => request.headers[name.toLowerCase()]
+    } as unknown as Request;
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(body: unknown) {
+        resolve({ status, body });
+        return res;
+      },
+      send(body: unknown) {
+        resolve({ status, body });
+        return res;
+      }
+    } as unknown as Response;
+
+    Promise.resolve(route.handler(req, res, error => fail(error ?? new HttpError(404, `No wallet route for ${request.path}`))))
+      .catch(fail);
+  });
+}
+
+/**
+ * Match a request path against a route path such as /wallet/schedules/:scheduleId
+ * @returns The route parameters, or null if the path doesn't match
+ */
+export function matchPath(routePath: string, path: string): Record<string, string> | null {
+  const routeSegments = routePath.split('/').filter(Boolean);
+  const segments = path.split('/').filter(Boolean);
+  if (routeSegments.length !== segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    if (routeSegments[i].startsWith(':')) {
+      params[routeSegments[i].slice(1)] = decodeURIComponent(segments[i]);
+    } else if (routeSegments[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
@@ -1,5 +1,6 @@
 /* istanbul ignore file */
 import { FileManager, FileType } from './file-manager.js';
+import { getSeedEncryption } from './seed-encryption.js';
 import path from 'path';
 
 export class SeedManager {
@@ -19,17 +20,19 @@ export class SeedManager {
   }
 
   /**
-   * Initialize the seed storage for an agent
+   * Initialize the seed storage for an agent. The seed is written sealed.
    */
   static async initializeAgentSeed(agentId: string, seed: string): Promise<void> {
     if (!this.fileManager) {
       this.initialize();
     }
-    this.fileManager.writeFile(FileType.SEED, agentId, seed, 'seed');
+    const sealed = await getSeedEncryption().encryptSeed(seed);
+    this.fileManager.writeFile(FileType.SEED, agentId, sealed, 'seed');
   }
 
   /**
-   * Get the seed for an agent
+   * Get the stored (sealed) seed for an agent.
+   * WalletManager decrypts it when building the wallet.
    */
   static getAgentSeed(agentId: string): string {
     if (!this.fileManager) {
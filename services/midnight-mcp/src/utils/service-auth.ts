@@ -0,0 +1,246 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Verification of the signed service credentials the orchestrator puts on its
+ * calls to the tenant routes (platform/orchestrator/src/serviceAuth.ts).
+ *
+ * A request is accepted when it carries an HMAC-SHA256 signature over its
+ * method, path and query, timestamp, nonce and body hash made with a key of
+ * the shared service key ring, its timestamp is within the replay window and
+ * its nonce hasn't been seen within that window.
+ *
+ * The same key ring checks the tenant tokens the orchestrator issues to MCP
+ * clients of a bot's wallet: mcpt.<keyId>.<payload>.<signature>, where the
+ * payload names the tenant, the token's id (jti) and when it expires. The
+ * orchestrator revokes single tokens by their id (RevokedTenantTokenStore).
+ *
+ * Requests and tenant tokens are signed with separate keys derived from each
+ * ring key, so the request signing keys the Eliza service holds can't issue
+ * tenant tokens.
+ */
+
+export const SERVICE_KEY_ID_HEADER = 'x-service-key-id';
+export const SERVICE_TIMESTAMP_HEADER = 'x-service-timestamp';
+export const SERVICE_NONCE_HEADER = 'x-service-nonce';
+export const SERVICE_SIGNATURE_HEADER = 'x-service-signature';
+
+export const DEFAULT_SERVICE_AUTH_WINDOW_MS = 5 * 60 * 1000;
+
+export const TENANT_TOKEN_PREFIX = 'mcpt';
+
+/**
+ * A request's service credentials are missing or not valid
+ */
+export class ServiceAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceAuthError';
+  }
+}
+
+export interface SignedRequest {
+  method: string;
+  path: string; // Path and query as received
+  headers: Record<string, string | string[] | undefined>;
+  body?: Buffer | string; // Raw body as received
+}
+
+export type ServiceKeyPurpose = 'service-request' | 'tenant-token';
+
+export interface TenantTokenClaims {
+  tokenId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Tenant tokens the orchestrator revoked before they expired
+ */
+export interface RevokedTenantTokenStore {
+  revoke(tokenId: string, tenantId: string, expiresAt: Date): Promise<void>;
+  /** The given token ids that are revoked */
+  revokedAmong(tokenIds: string[]): Promise<string[]>;
+}
+
+export interface ServiceKeySource {
+  /** The key with this id, or null if it isn't in the ring */
+  secret(keyId: string): Buffer | null;
+}
+
+/**
+ * The key a ring key signs with for one purpose; the orchestrator derives the same one
+ */
+export function purposeKey(secret: Buffer, purpose: ServiceKeyPurpose): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), `midnightos:${purpose}`, 32));
+}
+
+/**
+ * The service key ring file issued by the orchestrator, re-read when it changes
+ * so rotated keys are picked up without a restart
+ */
+export class ServiceKeyRing implements ServiceKeySource {
+  private keys: Record<string, string> = {};
+  private modifiedAt = -1;
+
+  constructor(private readonly keyFile: string) {}
+
+  secret(keyId: string): Buffer | null {
+    let modifiedAt: number;
+    try {
+      modifiedAt = fs.statSync(this.keyFile).mtimeMs;
+    } catch {
+      throw new ServiceAuthError(`Service key ring ${this.keyFile} not found`);
+    }
+
+    if (modifiedAt !== this.modifiedAt) {
+      this.keys = JSON.parse(fs.readFileSync(this.keyFile, 'utf-8')).keys || {};
+      this.modifiedAt = modifiedAt;
+    }
+    const key = this.keys[keyId];
+    return key ? Buffer.from(key, 'base64') : null;
+  }
+}
+
+/**
+ * The string a request signature covers; the orchestrator builds the same one
+ */
+export function canonicalRequest(
+  method: string,
+  pathAndQuery: string,
+  timestamp: string,
+  nonce: string,
+  body: Buffer | string = ''
+): string {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  return [method.toUpperCase(), pathAndQuery, timestamp, nonce, bodyHash].join('\n');
+}
+
+/**
+ * The string a tenant token signature covers; the orchestrator builds the same one
+ */
+export function tenantTokenMessage(keyId: string, payload: string): string {
+  return [TENANT_TOKEN_PREFIX, keyId, payload].join('\n');
+}
+
+export interface ServiceRequestVerifierOptions {
+  windowMs?: number;
+  now?: () => number;
+}
+
+export class ServiceRequestVerifier {
+  private readonly seen = new Map<string, number>(); // nonce -> when it leaves the window
+  readonly windowMs: number;
+  private readonly now: () => number;
+
+  constructor(private readonly keys: ServiceKeySource, options: ServiceRequestVerifierOptions = {}) {
+    this.windowMs = options.windowMs ?? DEFAULT_SERVICE_AUTH_WINDOW_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Check a request's service credentials
+   * @returns Id of the key the request was signed with
+   * @throws ServiceAuthError if the credentials are missing or not valid
+   */
+  verify(request: SignedRequest): string {
+    const header = (name: string) => {
+      const value = request.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const keyId = header(SERVICE_KEY_ID_HEADER);
+    const timestamp = header(SERVICE_TIMESTAMP_HEADER);
+    const nonce = header(SERVICE_NONCE_HEADER);
+    const signature = header(SERVICE_SIGNATURE_HEADER);
+
+    if (!keyId || !timestamp || !nonce || !signature) {
+      throw new ServiceAuthError('Missing service credentials');
+    }
+
+    const secret = this.keys.secret(keyId);
+    if (!secret) {
+      throw new ServiceAuthError(`Unknown service key ${keyId}`);
+    }
+
+    const now = this.now();
+    const issuedAt = Number(timestamp);
+    if (!Number.isFinite(issuedAt) || Math.abs(now - issuedAt) > this.windowMs) {
+      throw new ServiceAuthError('Service credentials are outside the replay window');
+    }
+
+    const expected = crypto.createHmac('sha256', purposeKey(secret, 'service-request'))
+      .update(canonicalRequest(request.method, request.path, timestamp, nonce, request.body))
+      .digest();
+    const given = Buffer.from(signature, 'hex');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      throw new ServiceAuthError('Invalid service signature');
+    }
+
+    for (const [seenNonce, expiresAt] of this.seen) {
+      if (expiresAt < now) this.seen.delete(seenNonce);
+    }
+    if (this.seen.has(nonce)) {
+      throw new ServiceAuthError('Service request was already used');
+    }
+    this.seen.set(nonce, issuedAt + this.windowMs);
+
+    return keyId;
+  }
+
+  /**
+   * Check a tenant token presented by an MCP client; whether it was revoked is
+   * up to the caller
+   * @returns The token's id and when it expires
+   * @throws ServiceAuthError if the token is malformed, expired, signed with an
+   * unknown key or issued for another tenant
+   */
+  verifyTenantToken(token: string, tenantId: string): TenantTokenClaims {
+    const [prefix, keyId, payload, signature, ...rest] = token.split('.');
+    if (prefix !== TENANT_TOKEN_PREFIX || !keyId || !payload || !signature || rest.length > 0) {
+      throw new ServiceAuthError('Malformed tenant token');
+    }
+
+    const secret = this.keys.secret(keyId);
+    if (!secret) {
+      throw new ServiceAuthError(`Unknown service key ${keyId}`);
+    }
+
+    const expected = crypto.createHmac('sha256', purposeKey(secret, 'tenant-token'))
+      .update(tenantTokenMessage(keyId, payload))
+      .digest();
+    const given = Buffer.from(signature, 'base64url');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      throw new ServiceAuthError('Invalid tenant token signature');
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (claims.tenantId !== tenantId) {
+      throw new ServiceAuthError(`Tenant token is not valid for tenant ${tenantId}`);
+    }
+    if (typeof claims.exp !== 'number' || claims.exp <= this.now()) {
+      throw new ServiceAuthError('Tenant token has expired');
+    }
+    // Tokens issued before they had ids can't be revoked
+    if (typeof claims.jti !== 'string' || !claims.jti) {
+      throw new ServiceAuthError('Tenant token has no id; issue a new one');
+    }
+
+    return { tokenId: claims.jti, expiresAt: new Date(claims.exp) };
+  }
+}
+
+let serviceRequestVerifier: ServiceRequestVerifier | null = null;
+
+/**
+ * Shared verifier using the configured service key ring.
+ * The orchestrator and MCP service must point at the same key ring.
+ */
+export function getServiceRequestVerifier(): ServiceRequestVerifier {
+  if (!serviceRequestVerifier) {
+    const keyFile = process.env.SERVICE_KEY_FILE || path.join(os.homedir(), '.midnightos', 'service-keys.json');
+    const windowMs = parseInt(process.env.SERVICE_AUTH_WINDOW_MS || String(DEFAULT_SERVICE_AUTH_WINDOW_MS));
+    serviceRequestVerifier = new ServiceRequestVerifier(new ServiceKeyRing(keyFile), { windowMs });
+  }
+  return serviceRequestVerifier;
+}
@@ -0,0 +1,217 @@
+/**
+ * Address Book
+ *
+ * Named contacts per tenant so users and agents can send to "Alice" instead
+ * of pasting a full mn_ address. A recipient that is already an address is
+ * passed through untouched; anything else must match exactly one contact's
+ * label, ignoring case. Funds never go to a guess: partial label and tag
+ * matches are only returned as suggestions with the error.
+ */
+
+import { AddressBookDatabase } from './db/AddressBookDatabase.js';
+
+export interface Contact {
+  id: string;
+  tenantId: string;
+  label: string;
+  address: string;
+  notes?: string;
+  tags: string[];
+  trusted: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ContactInput {
+  label: string;
+  address: string;
+  notes?: string;
+  tags?: string[];
+  trusted?: boolean;
+}
+
+export interface ContactStore {
+  list(tenantId: string): Promise<Contact[]>;
+  get(tenantId: string, id: string): Promise<Contact | null>;
+  create(tenantId: string, input: ContactInput): Promise<Contact>;
+  update(tenantId: string, id: string, input: Partial<ContactInput>): Promise<Contact>;
+  delete(tenantId: string, id: string): Promise<void>;
+}
+
+export interface ResolvedRecipient {
+  address: string;
+  contact?: Contact;
+}
+
+export type AddressBookErrorCode = 'INVALID_CONTACT' | 'CONTACT_NOT_FOUND' | 'DUPLICATE_CONTACT' | 'AMBIGUOUS_CONTACT';
+
+const ERROR_STATUS: Record<AddressBookErrorCode, number> = {
+  INVALID_CONTACT: 400,
+  CONTACT_NOT_FOUND: 404,
+  DUPLICATE_CONTACT: 409,
+  AMBIGUOUS_CONTACT: 409
+};
+
+/**
+ * A contact could not be stored or a recipient name could not be resolved
+ */
+export class AddressBookError extends Error {
+  constructor(
+    public readonly code: AddressBookErrorCode,
+    message: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'AddressBookError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { code: this.code, message: this.message, ...this.details };
+  }
+}
+
+/**
+ * Whether a recipient is a wallet address rather than a contact name
+ */
+export function isWalletAddress(value: string): boolean {
+  return /^mn_[a-z0-9_-]+$/i.test(value.trim());
+}
+
+/**
+ * Check contact fields, requiring label and address unless it is a partial update
+ */
+export function validateContactInput(input: unknown, partial = false): Partial<ContactInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new AddressBookError('INVALID_CONTACT', 'Contact must be an object');
+  }
+  const { label, address, notes, tags, trusted } = input as Partial<ContactInput>;
+  const contact: Partial<ContactInput> = {};
+
+  if (label !== undefined || !partial) {
+    if (typeof label !== 'string' || !label.trim()) {
+      throw new AddressBookError('INVALID_CONTACT', 'label is required');
+    }
+    if (isWalletAddress(label)) {
+      throw new AddressBookError('INVALID_CONTACT', 'label must be a name, not an address');
+    }
+    contact.label = label.trim();
+  }
+  if (address !== undefined || !partial) {
+    if (typeof address !== 'string' || !isWalletAddress(address)) {
+      throw new AddressBookError('INVALID_CONTACT', 'address must be a Midnight address starting with mn_');
+    }
+    contact.address = address.trim();
+  }
+  if (notes !== undefined) {
+    if (typeof notes !== 'string') {
+      throw new AddressBookError('INVALID_CONTACT', 'notes must be a string');
+    }
+    contact.notes = notes;
+  }
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      throw new AddressBookError('INVALID_CONTACT', 'tags must be an array of strings');
+    }
+    contact.tags = [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+  }
+  if (trusted !== undefined) {
+    if (typeof trusted !== 'boolean') {
+      throw new AddressBookError('INVALID_CONTACT', 'trusted must be a boolean');
+    }
+    contact.trusted = trusted;
+  }
+
+  return contact;
+}
+
+/**
+ * Contacts of each tenant and recipient-name resolution for transfers
+ */
+export class AddressBook {
+  constructor(private readonly store: ContactStore = new AddressBookDatabase()) {}
+
+  async list(tenantId: string, tag?: string): Promise<Contact[]> {
+    const contacts = await this.store.list(tenantId);
+    return tag ? contacts.filter(contact => contact.tags.includes(tag.toLowerCase())) : contacts;
+  }
+
+  async get(tenantId: string, id: string): Promise<Contact> {
+    const contact = await this.store.get(tenantId, id);
+    if (!contact) {
+      throw new AddressBookError('CONTACT_NOT_FOUND', `Contact ${id} not found`);
+    }
+    return contact;
+  }
+
+  async create(tenantId: string, input: unknown): Promise<Contact> {
+    const contact = validateContactInput(input) as ContactInput;
+    await this.assertLabelAvailable(tenantId, contact.label);
+    return await this.store.create(tenantId, contact);
+  }
+
+  async update(tenantId: string, id: string, input: unknown): Promise<Contact> {
+    const changes = validateContactInput(input, true);
+    await this.get(tenantId, id);
+    if (changes.label) {
+      await this.assertLabelAvailable(tenantId, changes.label, id);
+    }
+    return await this.store.update(tenantId, id, changes);
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    await this.get(tenantId, id);
+    await this.store.delete(tenantId, id);
+  }
+
+  /**
+   * Turn a recipient given by the user or agent into an address
+   * @param recipient A wallet address or a contact name
+   * @throws AddressBookError when no contact is named exactly so, with the contacts the name partially matches as suggestions
+   */
+  async resolve(tenantId: string, recipient: string): Promise<ResolvedRecipient> {
+    const query = recipient.trim();
+    if (isWalletAddress(query)) {
+      return { address: query };
+    }
+
+    const name = query.toLowerCase();
+    const contacts = await this.store.list(tenantId);
+
+    const exact = contacts.filter(contact => contact.label.toLowerCase() === name);
+    if (exact.length === 1) {
+      return { address: exact[0].address, contact: exact[0] };
+    }
+
+    const suggestions = (exact.length > 1
+      ? exact
+      : contacts.filter(contact => contact.label.toLowerCase().includes(name) || contact.tags.includes(name))
+    ).map(({ id, label, address }) => ({ id, label, address }));
+    const labels = suggestions.map(contact => contact.label).join(', ');
+
+    if (suggestions.length > 1) {
+      throw new AddressBookError(
+        'AMBIGUOUS_CONTACT',
+        `'${query}' could be any of ${suggestions.length} contacts (${labels}); use the full name or the address`,
+        { recipient: query, suggestions }
+      );
+    }
+    throw new AddressBookError(
+      'CONTACT_NOT_FOUND',
+      suggestions.length > 0
+        ? `No contact named '${query}' in the address book; did you mean '${labels}'?`
+        : `No contact named '${query}' in the address book`,
+      { recipient: query, suggestions }
+    );
+  }
+
+  private async assertLabelAvailable(tenantId: string, label: string, exceptId?: string): Promise<void> {
+    const contacts = await this.store.list(tenantId);
+    if (contacts.some(contact => contact.id !== exceptId && contact.label.toLowerCase() === label.toLowerCase())) {
+      throw new AddressBookError('DUPLICATE_CONTACT', `A contact named '${label}' already exists`);
+    }
+  }
+}
@@ -10,16 +10,24 @@ import {
   fundTreasury,
   payoutApprovedProposal,
   getElectionStatus,
+  getDaoVotingLedgerState,
+  watchDaoVotingLedgerState,
   displayDaoVotingState,
+  simulateCall,
   VoteType,
   type DaoVotingProviders,
+  type DaoVotingState,
   type DeployedDaoVotingContract,
   type ElectionStatus
 } from '../integrations/dao/index.js';
 import { getDaoConfigFromEnv, type DaoConfig } from './dao-config.js';
-import { tokenType } from '@midnight-ntwrk/compact-runtime';
+import { tokenType, persistentHash, CompactTypeBytes, encodeCoinPublicKey, decodeTokenType } from '@midnight-ntwrk/compact-runtime';
+import { LedgerParameters } from '@midnight-ntwrk/ledger';
 import { randomBytes } from 'crypto';
-import { CoinInfo } from '../types/wallet.js';
+import { distinctUntilChanged, firstValueFrom, from, map, switchMap, type Observable } from 'rxjs';
+import { CoinInfo, type DaoElectionState, type PreviewCheck, type TransactionPreview } from '../types/wallet.js';
+import { attemptCheck, balanceCheck, buildPreview, castVoteChecks, fundTreasuryChecks, payoutChecks, previewCheck } from './transaction-preview.js';
+import { convertBigIntToDecimal } from './utils.js';
 
 const logger = createLogger('dao-service');
 
@@ -96,6 +104,21 @@ function generateFundCoinColor(fundTokenContractAddress: string): string {
   return tokenType(domainSep, fundTokenContractAddress);
 }
 
+/**
+ * Election state of a DAO voting contract's ledger, ready for JSON
+ */
+function toElectionState(state: DaoVotingState): DaoElectionState {
+  return {
+    isOpen: state.election_open,
+    electionId: Buffer.from(state.election_id).toString('hex'),
+    yesVotes: state.yes_votes.toString(),
+    noVotes: state.no_votes.toString(),
+    absentVotes: state.absent_votes.toString(),
+    totalVotes: state.total_votes.toString(),
+    treasuryBalance: state.treasury.value.toString()
+  };
+}
+
 export class DaoService {
   private wallet: Wallet & Resource;
   private providers: DaoVotingProviders | null = null;
@@ -381,6 +404,132 @@ export class DaoService {
     }
   }
 
+  /**
+   * Ledger state of the configured DAO voting contract
+   */
+  private async getDaoLedgerState(): Promise<DaoVotingState> {
+    const config = this.getDaoConfig();
+    const providers = await this.initializeProviders();
+    const state = await getDaoVotingLedgerState(providers, config.contractAddress);
+    if (!state) {
+      throw new Error('Failed to retrieve DAO contract state');
+    }
+    return state;
+  }
+
+  /**
+   * Whether a DAO voting contract is configured
+   */
+  public isConfigured(): boolean {
+    return this.daoConfig !== null;
+  }
+
+  /**
+   * Current state of the DAO election
+   */
+  public async getElectionState(): Promise<DaoElectionState> {
+    return toElectionState(await this.getDaoLedgerState());
+  }
+
+  /**
+   * State of the DAO election, each time a vote, election change or treasury movement changes it
+   */
+  public watchElectionState(): Observable<DaoElectionState> {
+    const config = this.getDaoConfig();
+    return from(this.initializeProviders()).pipe(
+      switchMap(providers => watchDaoVotingLedgerState(providers, config.contractAddress)),
+      map(toElectionState),
+      distinctUntilChanged((previous, current) => JSON.stringify(previous) === JSON.stringify(current))
+    );
+  }
+
+  /**
+   * Once the precondition checks pass, run the circuit locally to catch anything they don't cover
+   * @returns Estimated fee of the call in tDUST, if the circuit ran
+   */
+  private async simulateCircuit(
+    checks: PreviewCheck[],
+    circuitId: 'cast_vote' | 'fund_treasury' | 'payout_approved_proposal',
+    ...args: unknown[]
+  ): Promise<string | undefined> {
+    if (!checks.every(check => check.passed)) {
+      return undefined;
+    }
+
+    let estimatedFee: string | undefined;
+    checks.push(await attemptCheck('circuit', async () => {
+      const config = this.getDaoConfig();
+      const providers = await this.initializeProviders();
+      const { unprovenTx } = await simulateCall(providers, config.contractAddress, circuitId, ...args);
+      estimatedFee = convertBigIntToDecimal(unprovenTx.eraseProofs().fees(LedgerParameters.dummyParameters()));
+    }));
+    return estimatedFee;
+  }
+
+  /**
+   * Check a vote against the contract state without casting it
+   */
+  public async previewCastDaoVote(voteType: string): Promise<TransactionPreview> {
+    const config = this.getDaoConfig();
+    const state = await this.getDaoLedgerState();
+    const walletState = await firstValueFrom(this.wallet.state());
+
+    let convertedVoteType = -1;
+    try {
+      convertedVoteType = this.convertVoteStringToType(voteType);
+    } catch {
+      // Reported by the vote_type check
+    }
+
+    // has_voted is keyed by the hash of the voter's coin public key
+    const voterKeyHash = persistentHash(new CompactTypeBytes(32), encodeCoinPublicKey(walletState.coinPublicKey));
+    const voteCoinValue = BigInt(config.voteCoinValue);
+    const voteTokenBalance = walletState.balances[decodeTokenType(state.dao_vote_coin_color)] ?? 0n;
+    const { check: funds, balance } = balanceCheck('DAO vote token', voteTokenBalance, voteCoinValue, 0);
+
+    const checks = [...castVoteChecks(state, convertedVoteType, voteCoinValue, voterKeyHash), funds];
+    const voteCoin: CoinInfo = { nonce: randomBytes(32), color: state.dao_vote_coin_color, value: voteCoinValue };
+    const estimatedFee = await this.simulateCircuit(checks, 'cast_vote', BigInt(convertedVoteType), voteCoin);
+
+    return buildPreview('castDaoVote', checks, { balances: [balance], estimatedFee });
+  }
+
+  /**
+   * Check a treasury funding against the contract state without sending it
+   */
+  public async previewFundDaoTreasury(amount: string): Promise<TransactionPreview> {
+    const state = await this.getDaoLedgerState();
+    const walletState = await firstValueFrom(this.wallet.state());
+
+    const validAmount = /^\d+$/.test(amount) && BigInt(amount) > 0n;
+    const value = validAmount ? BigInt(amount) : 0n;
+    const fundTokenBalance = walletState.balances[decodeTokenType(state.treasury_coin_color)] ?? 0n;
+    const { check: funds, balance } = balanceCheck('DAO funding token', fundTokenBalance, value, 0);
+
+    // fundDaoTreasury sends a coin of the treasury's current color
+    const checks = [
+      previewCheck('amount', validAmount, 'Amount must be a positive whole number of funding tokens'),
+      ...fundTreasuryChecks(state, state.treasury.color),
+      funds
+    ];
+    const fundCoin: CoinInfo = { nonce: randomBytes(32), color: state.treasury.color, value };
+    const estimatedFee = await this.simulateCircuit(checks, 'fund_treasury', fundCoin);
+
+    return buildPreview('fundDaoTreasury', checks, { balances: [balance], estimatedFee });
+  }
+
+  /**
+   * Check a payout against the contract state without paying it out
+   */
+  public async previewPayoutDaoProposal(): Promise<TransactionPreview> {
+    const state = await this.getDaoLedgerState();
+
+    const checks = payoutChecks(state);
+    const estimatedFee = await this.simulateCircuit(checks, 'payout_approved_proposal');
+
+    return buildPreview('payoutDaoProposal', checks, { estimatedFee });
+  }
+
   /**
    * Get the current status of the DAO election
    */
@@ -0,0 +1,81 @@
+/* istanbul ignore file */
+
+import { PrismaClient } from '@prisma/client';
+import { createLogger } from '../../logger/index.js';
+import type { Contact, ContactInput, ContactStore } from '../address-book.js';
+
+/**
+ * Service for managing address book contacts in PostgreSQL using Prisma
+ */
+export class AddressBookDatabase implements ContactStore {
+  private prisma: PrismaClient;
+  private logger = createLogger('address-book-db');
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  private mapToContact(record: any): Contact {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      label: record.label,
+      address: record.address,
+      notes: record.notes || undefined,
+      tags: record.tags || [],
+      trusted: record.trusted,
+      createdAt: record.createdAt.getTime(),
+      updatedAt: record.updatedAt.getTime()
+    };
+  }
+
+  /**
+   * Contacts of a tenant, ordered by label
+   */
+  public async list(tenantId: string): Promise<Contact[]> {
+    const records = await (this.prisma as any).contact.findMany({
+      where: { tenantId },
+      orderBy: { label: 'asc' }
+    });
+    return records.map((record: any) => this.mapToContact(record));
+  }
+
+  public async get(tenantId: string, id: string): Promise<Contact | null> {
+    const record = await (this.prisma as any).contact.findFirst({
+      where: { id, tenantId }
+    });
+    return record ? this.mapToContact(record) : null;
+  }
+
+  public async create(tenantId: string, input: ContactInput): Promise<Contact> {
+    const record = await (this.prisma as any).contact.create({
+      data: {
+        tenantId,
+        label: input.label,
+        address: input.address,
+        notes: input.notes,
+        tags: input.tags || [],
+        trusted: input.trusted || false
+      }
+    });
+
+    this.logger.info(`Added contact ${record.label} for tenant ${tenantId}`);
+    return this.mapToContact(record);
+  }
+
+  public async update(tenantId: string, id: string, input: Partial<ContactInput>): Promise<Contact> {
+    // Scope the write to the tenant so a contact id from another tenant is never touched
+    await (this.prisma as any).contact.updateMany({
+      where: { id, tenantId },
+      data: input
+    });
+    return (await this.get(tenantId, id))!;
+  }
+
+  public async delete(tenantId: string, id: string): Promise<void> {
+    await (this.prisma as any).contact.deleteMany({
+      where: { id, tenantId }
+    });
+    this.logger.info(`Removed contact ${id} for tenant ${tenantId}`);
+  }
+}
@@ -0,0 +1,123 @@
+/* istanbul ignore file */
+
+import { PrismaClient } from '@prisma/client';
+import type { PaymentRun, PaymentSchedule, PaymentScheduleStore } from '../payment-scheduler.js';
+
+const toDate = (timestamp: number | null | undefined) =>
+  timestamp === undefined ? undefined : timestamp === null ? null : new Date(timestamp);
+
+/**
+ * Service for managing payment schedules and their runs in PostgreSQL using Prisma
+ */
+export class PaymentScheduleDatabase implements PaymentScheduleStore {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  private mapToSchedule(record: any): PaymentSchedule {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      toAddress: record.toAddress,
+      amount: record.amount,
+      token: record.token,
+      runAt: record.runAt?.getTime(),
+      cron: record.cron || undefined,
+      endAt: record.endAt?.getTime(),
+      maxRuns: record.maxRuns ?? undefined,
+      runCount: record.runCount,
+      nextRunAt: record.nextRunAt ? record.nextRunAt.getTime() : null,
+      status: record.status,
+      description: record.description || undefined,
+      createdAt: record.createdAt.getTime(),
+      updatedAt: record.updatedAt.getTime()
+    };
+  }
+
+  private mapToRun(record: any): PaymentRun {
+    return {
+      id: record.id,
+      scheduleId: record.scheduleId,
+      tenantId: record.tenantId,
+      scheduledFor: record.scheduledFor.getTime(),
+      executedAt: record.executedAt.getTime(),
+      state: record.state,
+      transactionId: record.transactionId || undefined,
+      error: record.error || undefined
+    };
+  }
+
+  private toData(changes: Partial<PaymentSchedule>): Record<string, unknown> {
+    const { runAt, endAt, nextRunAt, ...rest } = changes;
+    return { ...rest, runAt: toDate(runAt), endAt: toDate(endAt), nextRunAt: toDate(nextRunAt) };
+  }
+
+  public async create(schedule: Omit<PaymentSchedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<PaymentSchedule> {
+    const record = await (this.prisma as any).paymentSchedule.create({
+      data: this.toData(schedule)
+    });
+    return this.mapToSchedule(record);
+  }
+
+  public async get(tenantId: string, id: string): Promise<PaymentSchedule | null> {
+    const record = await (this.prisma as any).paymentSchedule.findFirst({
+      where: { id, tenantId }
+    });
+    return record ? this.mapToSchedule(record) : null;
+  }
+
+  public async list(tenantId: string): Promise<PaymentSchedule[]> {
+    const records = await (this.prisma as any).paymentSchedule.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return records.map((record: any) => this.mapToSchedule(record));
+  }
+
+  public async listDue(tenantIds: string[], now: number): Promise<PaymentSchedule[]> {
+    const records = await (this.prisma as any).paymentSchedule.findMany({
+      where: { tenantId: { in: tenantIds }, status: 'active', nextRunAt: { lte: new Date(now) } },
+      orderBy: { nextRunAt: 'asc' }
+    });
+    return records.map((record: any) => this.mapToSchedule(record));
+  }
+
+  public async update(tenantId: string, id: string, changes: Partial<PaymentSchedule>): Promise<PaymentSchedule> {
+    await (this.prisma as any).paymentSchedule.updateMany({
+      where: { id, tenantId },
+      data: this.toData(changes)
+    });
+    return (await this.get(tenantId, id))!;
+  }
+
+  public async claim(id: string, expectedNextRunAt: number, changes: Partial<PaymentSchedule>): Promise<boolean> {
+    // Only one instance can move nextRunAt on from the occurrence it is about to send
+    const { count } = await (this.prisma as any).paymentSchedule.updateMany({
+      where: { id, status: 'active', nextRunAt: new Date(expectedNextRunAt) },
+      data: this.toData(changes)
+    });
+    return count > 0;
+  }
+
+  public async recordRun(run: Omit<PaymentRun, 'id'>): Promise<PaymentRun> {
+    const record = await (this.prisma as any).paymentRun.create({
+      data: {
+        ...run,
+        scheduledFor: new Date(run.scheduledFor),
+        executedAt: new Date(run.executedAt)
+      }
+    });
+    return this.mapToRun(record);
+  }
+
+  public async listRuns(tenantId: string, scheduleId: string, limit: number): Promise<PaymentRun[]> {
+    const records = await (this.prisma as any).paymentRun.findMany({
+      where: { tenantId, scheduleId },
+      orderBy: { executedAt: 'desc' },
+      take: limit
+    });
+    return records.map((record: any) => this.mapToRun(record));
+  }
+}
@@ -0,0 +1,64 @@
+/* istanbul ignore file */
+
+import { PrismaClient } from '@prisma/client';
+import { createLogger } from '../../logger/index.js';
+import type {
+  PayoutQuorumConfig,
+  PayoutQuorumState,
+  PayoutQuorumStore,
+  PayoutSignature
+} from '../../integrations/payout-quorum.js';
+
+/**
+ * Service for managing treasury payout quorums and co-signer signatures in PostgreSQL using Prisma
+ */
+export class PayoutQuorumDatabase implements PayoutQuorumStore {
+  private prisma: PrismaClient;
+  private logger = createLogger('payout-quorum-db');
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  public async load(walletId: string): Promise<PayoutQuorumState> {
+    const [quorum, signatures] = await Promise.all([
+      (this.prisma as any).payoutQuorum.findUnique({ where: { walletId } }),
+      (this.prisma as any).payoutSignature.findMany({
+        where: { walletId },
+        orderBy: { signedAt: 'asc' }
+      })
+    ]);
+
+    return {
+      config: quorum ? { threshold: quorum.threshold, cosigners: quorum.cosigners } : null,
+      signatures: signatures.map((record: any) => ({
+        proposalId: record.proposalId,
+        amount: record.amount,
+        signerId: record.signerId,
+        signature: record.signature,
+        signedAt: record.signedAt
+      }))
+    };
+  }
+
+  public async saveConfig(walletId: string, config: PayoutQuorumConfig | null): Promise<void> {
+    if (!config) {
+      await (this.prisma as any).payoutQuorum.deleteMany({ where: { walletId } });
+      this.logger.info(`Removed payout quorum of wallet ${walletId}`);
+      return;
+    }
+
+    await (this.prisma as any).payoutQuorum.upsert({
+      where: { walletId },
+      create: { walletId, threshold: config.threshold, cosigners: config.cosigners },
+      update: { threshold: config.threshold, cosigners: config.cosigners }
+    });
+    this.logger.info(`Saved payout quorum of wallet ${walletId}`);
+  }
+
+  public async addSignature(walletId: string, signature: PayoutSignature): Promise<void> {
+    await (this.prisma as any).payoutSignature.create({
+      data: { walletId, ...signature }
+    });
+  }
+}
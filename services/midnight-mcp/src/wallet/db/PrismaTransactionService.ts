@@ -1,13 +1,60 @@
 import { PrismaClient } from '@prisma/client';
+import { Subject } from 'rxjs';
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '../../logger/index.js';
-import { TransactionRecord, TransactionState, TransactionType } from '../../types/wallet.js';
+import { IdempotencyRequest, TransactionRecord, TransactionState, TransactionType } from '../../types/wallet.js';
+import { IdempotencyError, IDEMPOTENCY_KEY_HEADER, IDEMPOTENCY_KEY_TTL_MS } from '../idempotency.js';
 
-const prisma = new PrismaClient();
+const defaultPrisma = new PrismaClient();
 
+/**
+ * Transaction records of one wallet.
+ *
+ * Every query is scoped to the tenant the service was created for, so a
+ * tenant's wallet never reads or changes another tenant's transactions. The
+ * single-tenant wallet has no tenant and only sees rows without one.
+ */
 export class PrismaTransactionService {
   private logger = createLogger('transaction-service');
 
+  /**
+   * Transactions this service created or changed the state of, as they were written
+   */
+  readonly changes = new Subject<TransactionRecord>();
+
+  /**
+   * @param tenantId Tenant whose transactions to read and write; omitted for the single-tenant wallet
+   */
+  constructor(
+    private readonly tenantId?: string,
+    private readonly prisma: PrismaClient = defaultPrisma
+  ) {}
+
+  private get scope(): { tenantId: string | null } {
+    return { tenantId: this.tenantId ?? null };
+  }
+
+  /**
+   * Update a transaction of this tenant and read it back
+   * @returns The updated transaction, or null if the tenant has no such transaction
+   */
+  private async updateScoped(where: Record<string, any>, data: Record<string, any>): Promise<TransactionRecord | null> {
+    const { count } = await (this.prisma as any).transaction.updateMany({
+      where: { ...where, ...this.scope },
+      data,
+    });
+    if (count === 0) return null;
+
+    const transaction = await (this.prisma as any).transaction.findFirst({
+      where: { ...where, ...this.scope },
+    });
+    if (!transaction) return null;
+
+    const record = this.mapToTransactionRecord(transaction);
+    this.changes.next(record);
+    return record;
+  }
+
   /**
    * Map database transaction to TransactionRecord
    * Handles field name differences between orchestrator schema (status, from, to, hash) 
@@ -24,6 +71,12 @@ export class PrismaTransactionService {
       txIdentifier: tx.hash, // DB uses 'hash', interface uses 'txIdentifier'
       errorMessage: tx.errorMessage,
       metadata: tx.metadata ? JSON.parse(tx.metadata) : undefined,
+      idempotency: tx.idempotencyKey ? {
+        key: tx.idempotencyKey,
+        requestHash: tx.requestHash,
+        expiresAt: tx.idempotencyExpiresAt.getTime(),
+        response: tx.idempotentResponse ? JSON.parse(tx.idempotentResponse) : undefined
+      } : undefined,
       createdAt: tx.createdAt.getTime(),
       updatedAt: tx.updatedAt.getTime()
     };
@@ -34,42 +87,102 @@ export class PrismaTransactionService {
     toAddress: string,
     amount: string,
     type: TransactionType = TransactionType.TRANSFER,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    state: TransactionState = TransactionState.INITIATED,
+    idempotency?: IdempotencyRequest
   ): Promise<TransactionRecord> {
     try {
-      const transaction = await (prisma as any).transaction.create({
+      const transaction = await (this.prisma as any).transaction.create({
         data: {
           id: uuidv4(),
-          status: TransactionState.INITIATED,  // Use 'status' not 'state' to match schema
+          tenantId: this.tenantId ?? null,
+          status: state,  // Use 'status' not 'state' to match schema
           type,
           from: fromAddress,  // Use 'from' not 'fromAddress' to match schema
           to: toAddress,      // Use 'to' not 'toAddress' to match schema
           amount,
           metadata: metadata ? JSON.stringify(metadata) : null,
+          idempotencyKey: idempotency?.key,
+          requestHash: idempotency?.requestHash,
+          idempotencyExpiresAt: idempotency ? new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS) : null,
         },
       });
 
-      this.logger.info(`Created transaction record: ${transaction.id} (type: ${type})`);
-      return this.mapToTransactionRecord(transaction);
+      this.logger.info(`Created transaction record: ${transaction.id} (type: ${type}, state: ${state})`);
+      const record = this.mapToTransactionRecord(transaction);
+      this.changes.next(record);
+      return record;
     } catch (error) {
+      // A concurrent request with the same key created its transaction first
+      if (idempotency && (error as any)?.code === 'P2002') {
+        throw new IdempotencyError(
+          'IDEMPOTENCY_KEY_IN_PROGRESS',
+          `A request with ${IDEMPOTENCY_KEY_HEADER} '${idempotency.key}' is still being processed`
+        );
+      }
       this.logger.error('Failed to create transaction record', error);
       throw error;
     }
   }
 
+  /**
+   * Find the transaction a wallet created for an idempotency key
+   */
+  async getTransactionByIdempotencyKey(fromAddress: string, key: string): Promise<TransactionRecord | null> {
+    try {
+      const transaction = await (this.prisma as any).transaction.findFirst({
+        where: { from: fromAddress, idempotencyKey: key, ...this.scope },
+      });
+      return transaction ? this.mapToTransactionRecord(transaction) : null;
+    } catch (error) {
+      this.logger.error(`Failed to get transaction for idempotency key: ${key}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the response retries with the transaction's idempotency key get
+   */
+  async saveIdempotentResponse(id: string, response: unknown): Promise<void> {
+    try {
+      await (this.prisma as any).transaction.updateMany({
+        where: { id, ...this.scope },
+        data: { idempotentResponse: JSON.stringify(response) },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to store idempotent response for transaction ${id}`, error);
+    }
+  }
+
+  /**
+   * Free an expired or failed transaction's idempotency key for a new request
+   */
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    try {
+      await (this.prisma as any).transaction.updateMany({
+        where: { id, ...this.scope },
+        data: { idempotencyKey: null, requestHash: null, idempotencyExpiresAt: null, idempotentResponse: null },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to release idempotency key of transaction ${id}`, error);
+      throw error;
+    }
+  }
+
   async markTransactionAsSent(id: string, txIdentifier: string): Promise<TransactionRecord | null> {
     try {
-      const transaction = await (prisma as any).transaction.update({
-        where: { id },
-        data: {
-          status: TransactionState.SENT,  // Use 'status' not 'state'
-          hash: txIdentifier,              // Use 'hash' not 'txIdentifier'
-          updatedAt: new Date(),
-        },
+      const transaction = await this.updateScoped({ id }, {
+        status: TransactionState.SENT,  // Use 'status' not 'state'
+        hash: txIdentifier,              // Use 'hash' not 'txIdentifier'
+        updatedAt: new Date(),
       });
+      if (!transaction) {
+        this.logger.warn(`No transaction ${id} to mark as SENT`);
+        return null;
+      }
 
       this.logger.info(`Updated transaction ${id} to SENT with txIdentifier ${txIdentifier}`);
-      return this.mapToTransactionRecord(transaction);
+      return transaction;
     } catch (error) {
       this.logger.error(`Failed to update transaction ${id} to SENT`, error);
       return null;
@@ -78,16 +191,17 @@ export class PrismaTransactionService {
 
   async markTransactionAsCompleted(txIdentifier: string): Promise<TransactionRecord | null> {
     try {
-      const transaction = await (prisma as any).transaction.update({
-        where: { hash: txIdentifier },  // Use 'hash' not 'txIdentifier'
-        data: {
-          status: TransactionState.COMPLETED,  // Use 'status' not 'state'
-          updatedAt: new Date(),
-        },
+      const transaction = await this.updateScoped({ hash: txIdentifier }, {  // Use 'hash' not 'txIdentifier'
+        status: TransactionState.COMPLETED,  // Use 'status' not 'state'
+        updatedAt: new Date(),
       });
+      if (!transaction) {
+        this.logger.warn(`No transaction with txIdentifier ${txIdentifier} to mark as COMPLETED`);
+        return null;
+      }
 
       this.logger.info(`Marked transaction with txIdentifier ${txIdentifier} as COMPLETED`);
-      return this.mapToTransactionRecord(transaction);
+      return transaction;
     } catch (error) {
       this.logger.error(`Failed to mark transaction ${txIdentifier} as COMPLETED`, error);
       return null;
@@ -96,27 +210,61 @@ export class PrismaTransactionService {
 
   async markTransactionAsFailed(id: string, errorMessage: string): Promise<TransactionRecord | null> {
     try {
-      const transaction = await (prisma as any).transaction.update({
-        where: { id },
-        data: {
-          status: TransactionState.FAILED,  // Use 'status' not 'state'
-          errorMessage,
-          updatedAt: new Date(),
-        },
+      const transaction = await this.updateScoped({ id }, {
+        status: TransactionState.FAILED,  // Use 'status' not 'state'
+        errorMessage,
+        updatedAt: new Date(),
       });
+      if (!transaction) {
+        this.logger.warn(`No transaction ${id} to mark as FAILED`);
+        return null;
+      }
 
       this.logger.info(`Marked transaction ${id} as FAILED: ${errorMessage}`);
-      return this.mapToTransactionRecord(transaction);
+      return transaction;
     } catch (error) {
       this.logger.error(`Failed to mark transaction ${id} as FAILED`, error);
       return null;
     }
   }
 
+  /**
+   * Resolve a transfer that was waiting for approval
+   * @param id Transaction ID
+   * @param state INITIATED when approved, REJECTED when declined
+   * @param metadata Metadata including the decision
+   */
+  async resolvePendingApproval(
+    id: string,
+    state: TransactionState.INITIATED | TransactionState.REJECTED,
+    metadata: Record<string, any>
+  ): Promise<TransactionRecord | null> {
+    try {
+      // Only a transfer that is still parked can be resolved, so concurrent decisions can't both win
+      const { count } = await (this.prisma as any).transaction.updateMany({
+        where: { id, status: TransactionState.PENDING_APPROVAL, ...this.scope },
+        data: {
+          status: state,
+          metadata: JSON.stringify(metadata),
+          updatedAt: new Date(),
+        },
+      });
+      if (count === 0) return null;
+
+      this.logger.info(`Transaction ${id} ${state === TransactionState.REJECTED ? 'rejected' : 'approved'}`);
+      const transaction = await this.getTransactionById(id);
+      if (transaction) this.changes.next(transaction);
+      return transaction;
+    } catch (error) {
+      this.logger.error(`Failed to resolve pending approval for transaction ${id}`, error);
+      throw error;
+    }
+  }
+
   async getTransactionById(id: string): Promise<TransactionRecord | null> {
     try {
-      const transaction = await (prisma as any).transaction.findUnique({
-        where: { id },
+      const transaction = await (this.prisma as any).transaction.findFirst({
+        where: { id, ...this.scope },
       });
       return transaction ? this.mapToTransactionRecord(transaction) : null;
     } catch (error) {
@@ -127,8 +275,8 @@ export class PrismaTransactionService {
 
   async getTransactionByTxIdentifier(txIdentifier: string): Promise<TransactionRecord | null> {
     try {
-      const transaction = await (prisma as any).transaction.findUnique({
-        where: { hash: txIdentifier },  // Use 'hash' not 'txIdentifier'
+      const transaction = await (this.prisma as any).transaction.findFirst({
+        where: { hash: txIdentifier, ...this.scope },  // Use 'hash' not 'txIdentifier'
       });
       return transaction ? this.mapToTransactionRecord(transaction) : null;
     } catch (error) {
@@ -139,8 +287,8 @@ export class PrismaTransactionService {
 
   async getTransactionsByState(state: TransactionState): Promise<TransactionRecord[]> {
     try {
-      const transactions = await (prisma as any).transaction.findMany({
-        where: { status: state },  // Use 'status' not 'state'
+      const transactions = await (this.prisma as any).transaction.findMany({
+        where: { status: state, ...this.scope },  // Use 'status' not 'state'
         orderBy: { updatedAt: 'desc' },
       });
       return transactions.map((tx: any) => this.mapToTransactionRecord(tx));
@@ -150,9 +298,23 @@ export class PrismaTransactionService {
     }
   }
 
+  async getTransactionsAwaitingApproval(fromAddress: string): Promise<TransactionRecord[]> {
+    try {
+      const transactions = await (this.prisma as any).transaction.findMany({
+        where: { status: TransactionState.PENDING_APPROVAL, from: fromAddress, ...this.scope },
+        orderBy: { createdAt: 'asc' },
+      });
+      return transactions.map((tx: any) => this.mapToTransactionRecord(tx));
+    } catch (error) {
+      this.logger.error(`Failed to get transactions awaiting approval for ${fromAddress}`, error);
+      throw error;
+    }
+  }
+
   async getAllTransactions(): Promise<TransactionRecord[]> {
     try {
-      const transactions = await (prisma as any).transaction.findMany({
+      const transactions = await (this.prisma as any).transaction.findMany({
+        where: this.scope,
         orderBy: { updatedAt: 'desc' },
       });
       return transactions.map((tx: any) => this.mapToTransactionRecord(tx));
@@ -162,10 +324,32 @@ export class PrismaTransactionService {
     }
   }
 
+  /**
+   * Transactions sent from or to an address, oldest first
+   * @param until Leave out transactions created after this date
+   */
+  async getTransactionsForAddress(address: string, until?: Date): Promise<TransactionRecord[]> {
+    try {
+      const transactions = await (this.prisma as any).transaction.findMany({
+        where: {
+          ...this.scope,
+          OR: [{ from: address }, { to: address }],
+          ...(until ? { createdAt: { lte: until } } : {}),
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+      return transactions.map((tx: any) => this.mapToTransactionRecord(tx));
+    } catch (error) {
+      this.logger.error(`Failed to get transactions for address: ${address}`, error);
+      throw error;
+    }
+  }
+
   async getPendingTransactions(): Promise<TransactionRecord[]> {
     try {
-      const transactions = await (prisma as any).transaction.findMany({
+      const transactions = await (this.prisma as any).transaction.findMany({
         where: {
+          ...this.scope,
           OR: [
             { status: TransactionState.INITIATED },  // Use 'status' not 'state'
             { status: TransactionState.SENT },
@@ -179,6 +363,29 @@ export class PrismaTransactionService {
       throw error;
     }
   }
+
+  /**
+   * Assign this tenant the transactions its wallet sent before they were recorded per tenant
+   * @param address The tenant's wallet address
+   * @returns Number of transactions assigned
+   */
+  async claimUnscopedTransactions(address: string): Promise<number> {
+    if (!this.tenantId) return 0;
+
+    try {
+      const { count } = await (this.prisma as any).transaction.updateMany({
+        where: { from: address, tenantId: null },
+        data: { tenantId: this.tenantId },
+      });
+      if (count > 0) {
+        this.logger.info(`Assigned ${count} earlier transactions of ${address} to tenant ${this.tenantId}`);
+      }
+      return count;
+    } catch (error) {
+      this.logger.error(`Failed to assign earlier transactions of ${address} to tenant ${this.tenantId}`, error);
+      throw error;
+    }
+  }
 }
 
 export default PrismaTransactionService;
\ No newline at end of file
@@ -0,0 +1,42 @@
+/* istanbul ignore file */
+
+import { PrismaClient } from '@prisma/client';
+import { createLogger } from '../../logger/index.js';
+import type { RevokedTenantTokenStore } from '../../utils/service-auth.js';
+
+/**
+ * Service for managing revoked tenant tokens in PostgreSQL using Prisma
+ * Shared by the instances using the database, so a revocation applies to all of them
+ */
+export class RevokedTenantTokenDatabase implements RevokedTenantTokenStore {
+  private prisma: PrismaClient;
+  private logger = createLogger('revoked-tenant-token-db');
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  public async revoke(tokenId: string, tenantId: string, expiresAt: Date): Promise<void> {
+    await (this.prisma as any).revokedTenantToken.upsert({
+      where: { tokenId },
+      create: { tokenId, tenantId, expiresAt },
+      update: {}
+    });
+    this.logger.info(`Revoked tenant token ${tokenId} of tenant ${tenantId}`);
+
+    // Expired tokens are refused anyway
+    await (this.prisma as any).revokedTenantToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    });
+  }
+
+  public async revokedAmong(tokenIds: string[]): Promise<string[]> {
+    if (tokenIds.length === 0) return [];
+
+    const records = await (this.prisma as any).revokedTenantToken.findMany({
+      where: { tokenId: { in: tokenIds } },
+      select: { tokenId: true }
+    });
+    return records.map((record: any) => record.tokenId);
+  }
+}
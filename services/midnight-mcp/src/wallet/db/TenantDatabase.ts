@@ -0,0 +1,71 @@
+/* istanbul ignore file */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { TenantConfig, TenantRecord, TenantStore } from '../tenant-registry.js';
+
+/**
+ * Service for managing registered tenants in PostgreSQL using Prisma
+ * Instances sharing the database only see the tenants placed on them
+ */
+export class TenantDatabase implements TenantStore {
+  private prisma: PrismaClient;
+
+  constructor(private readonly instanceId: string = process.env.MCP_INSTANCE_ID || 'default') {
+    this.prisma = new PrismaClient();
+  }
+
+  private mapToRecord(record: any): TenantRecord {
+    return {
+      tenantId: record.tenantId,
+      name: record.name || undefined,
+      sealedSeed: record.sealedSeed,
+      config: record.config
+        ? { ...record.config, updatedAt: new Date(record.config.updatedAt) } as TenantConfig
+        : undefined,
+      spendingPolicy: record.spendingPolicy ?? null,
+      spendLedger: record.spendLedger ?? [],
+      createdAt: record.createdAt,
+      lastAccessedAt: record.lastAccessedAt,
+      isActive: record.isActive
+    };
+  }
+
+  public async list(): Promise<TenantRecord[]> {
+    const records = await (this.prisma as any).tenant.findMany({
+      where: { instanceId: this.instanceId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return records.map((record: any) => this.mapToRecord(record));
+  }
+
+  public async create(record: TenantRecord): Promise<void> {
+    await (this.prisma as any).tenant.create({
+      data: { ...record, spendingPolicy: record.spendingPolicy ?? undefined, instanceId: this.instanceId }
+    });
+  }
+
+  public async claim(record: TenantRecord): Promise<void> {
+    const { tenantId, createdAt, ...rest } = record;
+    const fields = { ...rest, spendingPolicy: record.spendingPolicy ?? Prisma.DbNull, instanceId: this.instanceId };
+    await (this.prisma as any).tenant.upsert({
+      where: { tenantId },
+      create: { tenantId, createdAt, ...fields },
+      update: fields
+    });
+  }
+
+  public async update(tenantId: string, changes: Partial<Omit<TenantRecord, 'tenantId' | 'createdAt'>>): Promise<void> {
+    const { spendingPolicy, ...rest } = changes;
+    await (this.prisma as any).tenant.update({
+      where: { tenantId },
+      // Prisma clears a Json column with DbNull rather than null
+      data: spendingPolicy === null ? { ...rest, spendingPolicy: Prisma.DbNull } : changes
+    });
+  }
+
+  public async delete(tenantId: string): Promise<void> {
+    await (this.prisma as any).tenant.deleteMany({
+      where: { tenantId }
+    });
+  }
+}
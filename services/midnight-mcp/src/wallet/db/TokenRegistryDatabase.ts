@@ -6,6 +6,7 @@ import { TokenInfo } from '../../types/wallet.js';
 
 /**
  * Service for managing token registry records in PostgreSQL using Prisma
+ * Each tenant has its own registry; the single-tenant wallet uses the tokens without a tenant
  */
 export class TokenRegistryDatabase {
   private prisma: PrismaClient;
@@ -13,11 +14,28 @@ export class TokenRegistryDatabase {
 
   /**
    * Constructor initializes the Prisma client
+   * @param tenantId Tenant whose tokens to manage; omitted for the single-tenant wallet
    */
-  constructor() {
-    this.prisma = new PrismaClient();
+  constructor(private readonly tenantId?: string, prisma?: PrismaClient) {
+    this.prisma = prisma ?? new PrismaClient();
     this.logger.info('Token registry database initialized successfully');
   }
+
+  private get scope(): { tenantId: string | null } {
+    return { tenantId: this.tenantId ?? null };
+  }
+
+  private mapToTokenInfo(token: any): TokenInfo {
+    return {
+      name: token.name,
+      symbol: token.symbol,
+      contractAddress: token.contractAddress,
+      domainSeparator: token.domainSeparator,
+      tokenTypeHex: token.tokenTypeHex || undefined,
+      description: token.description || undefined,
+      decimals: token.decimals,
+    };
+  }
   
   /**
    * Register a new token
@@ -25,9 +43,15 @@ export class TokenRegistryDatabase {
    * @returns The created token record
    */
   public async registerToken(tokenInfo: TokenInfo): Promise<TokenInfo> {
+    // Tokens without a tenant aren't covered by the unique index, so check first
+    if (await this.isTokenRegistered(tokenInfo.name)) {
+      throw new Error(`Token with name '${tokenInfo.name}' is already registered`);
+    }
+
     try {
       await (this.prisma as any).token.create({
         data: {
+          ...this.scope,
           name: tokenInfo.name,
           symbol: tokenInfo.symbol,
           contractAddress: tokenInfo.contractAddress,
@@ -56,23 +80,15 @@ export class TokenRegistryDatabase {
    */
   public async getTokenByName(name: string): Promise<TokenInfo | null> {
     try {
-      const token = await (this.prisma as any).token.findUnique({
-        where: { name },
+      const token = await (this.prisma as any).token.findFirst({
+        where: { name, ...this.scope },
       });
       
       if (!token) {
         return null;
       }
       
-      return {
-        name: token.name,
-        symbol: token.symbol,
-        contractAddress: token.contractAddress,
-        domainSeparator: token.domainSeparator,
-        tokenTypeHex: token.tokenTypeHex || undefined,
-        description: token.description || undefined,
-        decimals: token.decimals,
-      };
+      return this.mapToTokenInfo(token);
     } catch (error) {
       this.logger.error(`Failed to get token with name: ${name}`, error);
       throw error;
@@ -87,22 +103,14 @@ export class TokenRegistryDatabase {
   public async getTokenBySymbol(symbol: string): Promise<TokenInfo | null> {
     try {
       const token = await (this.prisma as any).token.findFirst({
-        where: { symbol },
+        where: { symbol, ...this.scope },
       });
       
       if (!token) {
         return null;
       }
       
-      return {
-        name: token.name,
-        symbol: token.symbol,
-        contractAddress: token.contractAddress,
-        domainSeparator: token.domainSeparator,
-        tokenTypeHex: token.tokenTypeHex || undefined,
-        description: token.description || undefined,
-        decimals: token.decimals,
-      };
+      return this.mapToTokenInfo(token);
     } catch (error) {
       this.logger.error(`Failed to get token with symbol: ${symbol}`, error);
       throw error;
@@ -117,22 +125,14 @@ export class TokenRegistryDatabase {
   public async getTokenByContractAddress(contractAddress: string): Promise<TokenInfo | null> {
     try {
       const token = await (this.prisma as any).token.findFirst({
-        where: { contractAddress },
+        where: { contractAddress, ...this.scope },
       });
       
       if (!token) {
         return null;
       }
       
-      return {
-        name: token.name,
-        symbol: token.symbol,
-        contractAddress: token.contractAddress,
-        domainSeparator: token.domainSeparator,
-        tokenTypeHex: token.tokenTypeHex || undefined,
-        description: token.description || undefined,
-        decimals: token.decimals,
-      };
+      return this.mapToTokenInfo(token);
     } catch (error) {
       this.logger.error(`Failed to get token with contract address: ${contractAddress}`, error);
       throw error;
@@ -147,22 +147,14 @@ export class TokenRegistryDatabase {
   public async getTokenByTokenTypeHex(tokenTypeHex: string): Promise<TokenInfo | null> {
     try {
       const token = await (this.prisma as any).token.findFirst({
-        where: { tokenTypeHex },
+        where: { tokenTypeHex, ...this.scope },
       });
       
       if (!token) {
         return null;
       }
       
-      return {
-        name: token.name,
-        symbol: token.symbol,
-        contractAddress: token.contractAddress,
-        domainSeparator: token.domainSeparator,
-        tokenTypeHex: token.tokenTypeHex || undefined,
-        description: token.description || undefined,
-        decimals: token.decimals,
-      };
+      return this.mapToTokenInfo(token);
     } catch (error) {
       this.logger.error(`Failed to get token with token type hex: ${tokenTypeHex}`, error);
       throw error;
@@ -176,18 +168,11 @@ export class TokenRegistryDatabase {
   public async getAllTokens(): Promise<TokenInfo[]> {
     try {
       const tokens = await (this.prisma as any).token.findMany({
+        where: this.scope,
         orderBy: { createdAt: 'desc' },
       });
       
-      return tokens.map((token: any) => ({
-        name: token.name,
-        symbol: token.symbol,
-        contractAddress: token.contractAddress,
-        domainSeparator: token.domainSeparator,
-        tokenTypeHex: token.tokenTypeHex || undefined,
-        description: token.description || undefined,
-        decimals: token.decimals,
-      }));
+      return tokens.map((token: any) => this.mapToTokenInfo(token));
     } catch (error) {
       this.logger.error('Failed to get all tokens', error);
       throw error;
@@ -202,7 +187,7 @@ export class TokenRegistryDatabase {
   public async isTokenRegistered(name: string): Promise<boolean> {
     try {
       const count = await (this.prisma as any).token.count({
-        where: { name },
+        where: { name, ...this.scope },
       });
       return count > 0;
     } catch (error) {
@@ -219,8 +204,8 @@ export class TokenRegistryDatabase {
    */
   public async updateToken(name: string, updates: Partial<Omit<TokenInfo, 'name'>>): Promise<TokenInfo | null> {
     try {
-      const token = await (this.prisma as any).token.update({
-        where: { name },
+      const { count } = await (this.prisma as any).token.updateMany({
+        where: { name, ...this.scope },
         data: {
           symbol: updates.symbol,
           contractAddress: updates.contractAddress,
@@ -231,21 +216,14 @@ export class TokenRegistryDatabase {
         },
       });
       
-      this.logger.info(`Updated token: ${name}`);
-      return {
-        name: token.name,
-        symbol: token.symbol,
-        contractAddress: token.contractAddress,
-        domainSeparator: token.domainSeparator,
-        tokenTypeHex: token.tokenTypeHex || undefined,
-        description: token.description || undefined,
-        decimals: token.decimals,
-      };
-    } catch (error: any) {
-      if (error?.code === 'P2025') {
+      if (count === 0) {
         this.logger.warn(`No token found with name: ${name}`);
         return null;
       }
+      
+      this.logger.info(`Updated token: ${name}`);
+      return await this.getTokenByName(name);
+    } catch (error: any) {
       this.logger.error(`Failed to update token: ${name}`, error);
       throw error;
     }
@@ -258,17 +236,17 @@ export class TokenRegistryDatabase {
    */
   public async unregisterToken(name: string): Promise<boolean> {
     try {
-      await (this.prisma as any).token.delete({
-        where: { name },
+      const { count } = await (this.prisma as any).token.deleteMany({
+        where: { name, ...this.scope },
       });
+      if (count === 0) {
+        this.logger.warn(`No token found with name: ${name}`);
+        return false;
+      }
       
       this.logger.info(`Unregistered token: ${name}`);
       return true;
     } catch (error: any) {
-      if (error?.code === 'P2025') {
-        this.logger.warn(`No token found with name: ${name}`);
-        return false;
-      }
       this.logger.error(`Failed to unregister token: ${name}`, error);
       throw error;
     }
@@ -280,10 +258,13 @@ export class TokenRegistryDatabase {
    */
   public async getRegistryStats(): Promise<{ totalTokens: number; tokensBySymbol: Record<string, number> }> {
     try {
-      const totalTokens = await (this.prisma as any).token.count();
+      const totalTokens = await (this.prisma as any).token.count({
+        where: this.scope,
+      });
       
       const tokens = await (this.prisma as any).token.groupBy({
         by: ['symbol'],
+        where: this.scope,
         _count: {
           symbol: true,
         },
@@ -304,6 +285,36 @@ export class TokenRegistryDatabase {
     }
   }
   
+  /**
+   * Copy the tokens registered before registrations were kept per tenant into
+   * this tenant's registry. Tokens the tenant already registered under the same
+   * name are kept, and the unscoped tokens stay with the single-tenant wallet.
+   * @returns Number of tokens copied
+   */
+  public async adoptUnscopedTokens(): Promise<number> {
+    if (!this.tenantId) return 0;
+
+    try {
+      const tokens = await (this.prisma as any).token.findMany({
+        where: { tenantId: null },
+      });
+      const { count } = await (this.prisma as any).token.createMany({
+        data: tokens.map(({ id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...token }: any) => ({
+          ...token,
+          ...this.scope,
+        })),
+        skipDuplicates: true,
+      });
+      if (count > 0) {
+        this.logger.info(`Copied ${count} earlier tokens to tenant ${this.tenantId}`);
+      }
+      return count;
+    } catch (error) {
+      this.logger.error(`Failed to copy earlier tokens to tenant ${this.tenantId}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Close the database connection
    */
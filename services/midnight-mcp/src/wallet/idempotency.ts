@@ -0,0 +1,98 @@
+/**
+ * Idempotency Keys
+ *
+ * A client that retries a transfer sends the same Idempotency-Key again. The
+ * key is stored on the Transaction row of the first request together with a
+ * hash of its parameters and the response it got, so the retry is answered
+ * with that response instead of moving the funds a second time. Keys are
+ * scoped to the sending wallet and can be reused once they expire.
+ */
+
+import { createHash } from 'crypto';
+import { TransactionState, type IdempotencyRequest, type TransactionRecord } from '../types/wallet.js';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;  // Printable ASCII without spaces
+
+export type IdempotencyErrorCode = 'INVALID_IDEMPOTENCY_KEY' | 'IDEMPOTENCY_KEY_CONFLICT' | 'IDEMPOTENCY_KEY_IN_PROGRESS';
+
+const ERROR_STATUS: Record<IdempotencyErrorCode, number> = {
+  INVALID_IDEMPOTENCY_KEY: 400,
+  IDEMPOTENCY_KEY_CONFLICT: 422,
+  IDEMPOTENCY_KEY_IN_PROGRESS: 409
+};
+
+/**
+ * An idempotency key is malformed or can't be used for this request
+ */
+export class IdempotencyError extends Error {
+  constructor(
+    public readonly code: IdempotencyErrorCode,
+    message: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'IdempotencyError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { code: this.code, message: this.message, ...this.details };
+  }
+}
+
+/**
+ * Tie an idempotency key to the request it is sent with
+ * @param key Header or tool argument value; no key means the request is not idempotent
+ * @param operation Wallet operation, so a key can't be replayed across endpoints
+ * @param params Parameters that must match when the key is reused
+ */
+export function idempotencyRequest(
+  key: unknown,
+  operation: string,
+  params: Record<string, string>
+): IdempotencyRequest | undefined {
+  if (key === undefined || key === null || key === '') return undefined;
+  if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+    throw new IdempotencyError(
+      'INVALID_IDEMPOTENCY_KEY',
+      `${IDEMPOTENCY_KEY_HEADER} must be 1-255 printable ASCII characters without spaces`
+    );
+  }
+
+  const canonical = JSON.stringify([operation, ...Object.keys(params).sort().map(name => [name, params[name]])]);
+  return { key, requestHash: createHash('sha256').update(canonical).digest('hex') };
+}
+
+/**
+ * Decide how to answer a request whose key is already stored on a transaction
+ * @returns The response to replay, or null when the key can be used again because it
+ *          expired or the first request failed without sending anything
+ * @throws IdempotencyError when the key was used with other parameters or its first request is still running
+ */
+export function replayFor(transaction: TransactionRecord, request: IdempotencyRequest, now: number): unknown | null {
+  const stored = transaction.idempotency;
+  if (!stored || stored.expiresAt <= now) return null;
+
+  if (stored.requestHash !== request.requestHash) {
+    throw new IdempotencyError(
+      'IDEMPOTENCY_KEY_CONFLICT',
+      `${IDEMPOTENCY_KEY_HEADER} '${request.key}' was already used for a different request`,
+      { transactionId: transaction.id }
+    );
+  }
+  if (transaction.state === TransactionState.FAILED) return null;
+  if (stored.response === undefined) {
+    throw new IdempotencyError(
+      'IDEMPOTENCY_KEY_IN_PROGRESS',
+      `A request with ${IDEMPOTENCY_KEY_HEADER} '${request.key}' is still being processed`,
+      { transactionId: transaction.id }
+    );
+  }
+  return stored.response;
+}
@@ -22,8 +22,10 @@ import {
   SendFundsResult, 
   TransactionVerificationResult,
   TransactionState,
+  TransactionType,
   TransactionRecord,
   InitiateTransactionResult, 
+  PendingApprovalResult,
   TransactionStatusResult,
   MarketplaceUserData,
   RegistrationResult,
@@ -31,10 +33,15 @@ import {
   TokenInfo,
   TokenBalance,
   TokenOperationResult,
-  CoinInfo
+  CoinInfo,
+  TransactionPreview,
+  IdempotencyRequest,
+  DaoElectionState,
+  WalletChange
 } from '../types/wallet.js';
 import { PrismaTransactionService } from './db/PrismaTransactionService.js';
 import { FileManager, FileType } from '../utils/file-manager.js';
+import { getSeedEncryption } from '../utils/seed-encryption.js';
 // Import audit trail components
 import { 
   TransactionTraceLogger, 
@@ -47,6 +54,10 @@ import { isPublicKeyRegistered, verifyTextPure, joinContract, register, marketpl
 
 // Import shielded token manager
 import { ShieldedTokenManager } from './shielded-tokens.js';
+import { SpendingPolicyEngine, NATIVE_TOKEN_KEY } from './spending-policy.js';
+import { attemptCheck, balanceCheck, buildPreview, summarizeTransfer } from './transaction-preview.js';
+import { idempotencyRequest, replayFor } from './idempotency.js';
+import { buildTransactionHistory, type TransactionHistoryQuery, type TransactionHistoryRow } from './transaction-history.js';
 
 // Import DAO service
 import { DaoService } from './dao.js';
@@ -181,6 +192,7 @@ export class WalletManager {
   private sourceGap: bigint = 0n;
   private walletState: any = null;
   private agentId: string;
+  private readonly tenantId?: string;
   
   // Transaction tracking
   private transactionDb: PrismaTransactionService;
@@ -195,8 +207,19 @@ export class WalletManager {
   // Shielded token manager
   private shieldedTokenManager: ShieldedTokenManager;
   
+  // Spending policy applied to every outgoing transfer
+  private spendingPolicy = new SpendingPolicyEngine();
+  
   // DAO service
   private daoService: DaoService;
+  private daoElectionSubscription?: Rx.Subscription;
+  
+  // Balance, transaction and DAO election changes, for whoever follows the wallet
+  private readonly walletChanges = new Rx.Subject<WalletChange>();
+  private lastBalances = '';
+
+  // Transfers still being proved and submitted after the call that started them returned
+  private readonly pendingWork = new Set<Promise<void>>();
   
   // Track different balance types for the wallet (using bigint internally)
   private walletBalances: InternalWalletBalances = {
@@ -210,9 +233,11 @@ export class WalletManager {
    * @param seed Optional hex seed for the wallet
    * @param walletFilename Optional filename to restore wallet from
    * @param externalConfig Optional external configuration for connecting to a proof server
+   * @param tenantId Tenant that owns the wallet; its transactions and tokens are kept apart from other tenants'
    */
-  constructor(networkId: NetworkId, seed: string, walletFilename: string, externalConfig?: WalletConfig) {
+  constructor(networkId: NetworkId, seed: string, walletFilename: string, externalConfig?: WalletConfig, tenantId?: string) {
     this.agentId = config.agentId;
+    this.tenantId = tenantId;
     this.logger = createLogger('wallet-manager');
     
     // Initialize audit trail components
@@ -221,7 +246,7 @@ export class WalletManager {
     this.agentLogger = new AgentDecisionLogger(this.auditService);
     
     // Initialize shielded token manager
-    this.shieldedTokenManager = new ShieldedTokenManager(this);
+    this.shieldedTokenManager = new ShieldedTokenManager(this, tenantId);
     
     // DAO service will be initialized after wallet is ready
     this.daoService = null as any;
@@ -246,7 +271,8 @@ export class WalletManager {
     this.walletSeed = seed;
     
     // Initialize the transaction database service
-    this.transactionDb = new PrismaTransactionService();
+    this.transactionDb = new PrismaTransactionService(tenantId);
+    this.transactionDb.changes.subscribe(transaction => this.walletChanges.next({ kind: 'transaction', transaction }));
     this.logger.info('Transaction database service initialized');
     
     // Initialize wallet asynchronously to not block MCP server startup
@@ -395,6 +421,7 @@ export class WalletManager {
         if (this.wallet) {
           // Initialize DAO service now that wallet is ready
           this.daoService = new DaoService(this.wallet);
+          this.watchDaoElection();
           
           // Subscribe to wallet state changes with error recovery
           this.setupWalletSubscription();
@@ -411,6 +438,39 @@ export class WalletManager {
     }
   }
   
+  /**
+   * Tell followers of the wallet about its balances, when they differ from the last state it synced
+   */
+  private emitBalanceChange(balances: Record<string, bigint>, pendingCoins: { type: string; value: bigint }[]): void {
+    const pending: Record<string, bigint> = {};
+    for (const coin of pendingCoins) {
+      pending[coin.type] = (pending[coin.type] ?? 0n) + coin.value;
+    }
+
+    const toStrings = (amounts: Record<string, bigint>) =>
+      Object.fromEntries(Object.entries(amounts).map(([type, value]) => [type, value.toString()]));
+    const change: WalletChange = { kind: 'balance', balances: toStrings(balances), pending: toStrings(pending) };
+
+    const key = JSON.stringify(change);
+    if (key === this.lastBalances) return;
+    this.lastBalances = key;
+    this.walletChanges.next(change);
+  }
+
+  /**
+   * Follow the election of the configured DAO voting contract, if there is one
+   */
+  private watchDaoElection(): void {
+    this.daoElectionSubscription?.unsubscribe();
+    this.daoElectionSubscription = undefined;
+    if (!this.daoService.isConfigured()) return;
+
+    this.daoElectionSubscription = this.daoService.watchElectionState().subscribe({
+      next: election => this.walletChanges.next({ kind: 'dao-election', election }),
+      error: (error) => this.logger.warn('Stopped following the DAO election', error)
+    });
+  }
+
   /**
    * Sets up the wallet subscription with error handling and recovery
    */
@@ -445,6 +505,7 @@ export class WalletManager {
             balance: nativeBalance,
             pendingBalance: pendingBalance
           };
+          this.emitBalanceChange(state.balances, state.pendingCoins);
 
           // this.logger.info(`Native balance: ${convertBigIntToDecimal(nativeBalance)}`);
           // this.logger.info(`Pending balance: ${convertBigIntToDecimal(pendingBalance)}`);
@@ -466,6 +527,7 @@ export class WalletManager {
               this.logger.info(`Wallet balance: ${convertBigIntToDecimal(this.walletBalances.balance)}`);
               this.logger.info(`Sync status - isSynced: ${isSynced}, applyGap: ${applyGap}, sourceGap: ${sourceGap}`);
               await this.saveWalletToFile(this.walletFilename);
+              await this.claimEarlierTransactions();
             }
           } else if (!isSynced) {
             this.logger.info(`Wallet syncing: applyGap=${applyGap}, sourceGap=${sourceGap}`);
@@ -558,6 +620,7 @@ export class WalletManager {
         if (this.wallet) {
           // Re-initialize DAO service after wallet recovery
           this.daoService = new DaoService(this.wallet);
+          this.watchDaoElection();
           this.setupWalletSubscription();
           this.logger.info('Wallet recovered successfully');
         } else {
@@ -589,6 +652,9 @@ export class WalletManager {
     const { indexer, indexerWS, node, proofServer } = this.config;
     let wallet: Wallet & Resource;
 
+    // Seeds are stored sealed; only open the envelope for the wallet builder
+    const walletSeed = await getSeedEncryption().decryptSeed(seed);
+
     // Store the filename for future saves
     if (filename) {
       this.walletFilename = filename;
@@ -607,13 +673,13 @@ export class WalletManager {
           : serialized;
         
         // Restore wallet from serialized state
-        this.logger.info(`Restoring wallet with seed: ${seed}`);
+        this.logger.info('Restoring wallet from serialized state');
         wallet = await WalletBuilder.restore(
           indexer, 
           indexerWS, 
           proofServer, 
           node, 
-          seed, 
+          walletSeed, 
           cleanSerialized, 
           'info'
         );
@@ -627,7 +693,7 @@ export class WalletManager {
           indexerWS,
           proofServer,
           node,
-          seed,
+          walletSeed,
           getZswapNetworkId(),
           'info'
         );
@@ -641,7 +707,7 @@ export class WalletManager {
         indexerWS,
         proofServer,
         node,
-        seed,
+        walletSeed,
         getZswapNetworkId(),
         'info'
       );
@@ -705,13 +771,26 @@ export class WalletManager {
    * Send funds to the specified destination address
    * @param to Address to send the funds to
    * @param amount Amount of funds to send (as a string with decimal value in dust)
-   * @returns Transaction result with hash, sync status, and the amount as a dust string
+   * @param idempotencyKey Optional key; a retry with the same key gets the first response back
+   * @returns Transaction result with hash, sync status, and the amount as a dust string,
+   *          or the parked transfer when the amount needs the bot owner's approval
    * @throws Error if wallet is not ready or if there are insufficient funds
+   * @throws IdempotencyError if the key was used for another request or its first request is still running
    */
-  public async sendFunds(to: string, amount: string): Promise<SendFundsResult> {
+  public async sendFunds(to: string, amount: string, idempotencyKey?: string): Promise<SendFundsResult | PendingApprovalResult> {
     if (!this.ready) throw new Error('Wallet not ready');
     if (!this.wallet) throw new Error('Wallet instance not available');
     
+    const idempotency = idempotencyRequest(idempotencyKey, 'sendFunds', { to, amount });
+    const replay = await this.findIdempotentReplay(idempotency);
+    if (replay) return replay as SendFundsResult | PendingApprovalResult;
+    
+    // Large transfers wait for the bot owner instead of being sent
+    const approvalThreshold = this.spendingPolicy.approvalRequired(NATIVE_TOKEN_KEY, convertDecimalToBigInt(amount), 6);
+    if (approvalThreshold) {
+      return await this.requestApproval(NATIVE_TOKEN_KEY, to, amount, 6, approvalThreshold, idempotency);
+    }
+    
     // Generate correlation ID for audit trail
     const correlationId = this.auditService.generateCorrelationId();
     const transactionId = `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -735,9 +814,15 @@ export class WalletManager {
       correlationId
     );
     
+    let reservationId: string | undefined;
+    let transaction: TransactionRecord | undefined;
+    
     try {
       const amountBigInt = convertDecimalToBigInt(amount);
       
+      // Enforce the spending policy before touching the wallet
+      reservationId = await this.spendingPolicy.reserve(NATIVE_TOKEN_KEY, to, amountBigInt, 6);
+      
       // Add validation step
       const validationStepId = this.transactionLogger.addStep(
         transactionId,
@@ -779,6 +864,17 @@ export class WalletManager {
         requiredAmount: amount
       });
       
+      // Record the transfer before it is submitted, so a retry with the same idempotency key finds it
+      transaction = await this.transactionDb.createTransaction(
+        this.walletAddress,
+        to,
+        amount,
+        TransactionType.TRANSFER,
+        undefined,
+        TransactionState.INITIATED,
+        idempotency
+      );
+      
       // Add transaction creation step
       const creationStepId = this.transactionLogger.addStep(
         transactionId,
@@ -840,12 +936,6 @@ export class WalletManager {
       
       const isFullySynced = this.walletState?.syncProgress?.synced ?? false;
       
-      const transaction = await this.transactionDb.createTransaction(
-        this.walletAddress,
-        to,
-        amount
-      );
-      
       await this.transactionDb.markTransactionAsSent(transaction.id, submittedTransaction);
       
       // Complete transaction trace successfully
@@ -855,7 +945,7 @@ export class WalletManager {
         syncStatus: isFullySynced
       });
       
-      return {
+      const result: SendFundsResult = {
         txIdentifier: submittedTransaction,
         syncStatus: {
           syncedIndices: this.syncedIndices.toString(),
@@ -867,9 +957,20 @@ export class WalletManager {
         },
         amount
       };
+      if (idempotency) await this.transactionDb.saveIdempotentResponse(transaction.id, result);
+      
+      return result;
     } catch (error) {
       this.logger.error('Failed to send funds', error);
       
+      if (reservationId) {
+        this.spendingPolicy.release(reservationId);
+      }
+      
+      if (transaction) {
+        await this.transactionDb.markTransactionAsFailed(transaction.id, error instanceof Error ? error.message : 'Unknown error sending funds');
+      }
+      
       // Log transaction failure
       this.transactionLogger.logTransactionFailure(transactionId, error as Error, {
         amount,
@@ -881,6 +982,46 @@ export class WalletManager {
     }
   }
   
+  /**
+   * Build a native transfer and check it without proving or submitting it
+   * @param to Address to send the funds to
+   * @param amount Amount of funds to send (as a string with decimal value in dust)
+   * @returns The checks a send would pass or fail, with the fee and coins it would spend
+   * @throws Error if wallet is not ready
+   */
+  public async previewSendFunds(to: string, amount: string): Promise<TransactionPreview> {
+    if (!this.ready) throw new Error('Wallet not ready');
+    if (!this.wallet) throw new Error('Wallet instance not available');
+    
+    const amountBigInt = convertDecimalToBigInt(amount);
+    const { check: funds, balance } = balanceCheck(NATIVE_TOKEN_KEY, this.walletBalances.balance, amountBigInt);
+    const checks = [
+      await attemptCheck('spending_policy', () => this.spendingPolicy.check(NATIVE_TOKEN_KEY, to, amountBigInt, 6)),
+      funds
+    ];
+    
+    // Building the transfer selects the coins and budgets the fee; only worth it with enough funds
+    let summary = {};
+    if (funds.passed) {
+      checks.push(await attemptCheck('build_transaction', async () => {
+        const transferRecipe = await this.wallet!.transferTransaction([
+          {
+            amount: amountBigInt,
+            type: nativeToken(),
+            receiverAddress: to
+          }
+        ]);
+        summary = summarizeTransfer(transferRecipe.transaction, this.walletState);
+      }));
+    }
+    
+    return buildPreview('send', checks, {
+      balances: [balance],
+      approvalThreshold: this.spendingPolicy.approvalRequired(NATIVE_TOKEN_KEY, amountBigInt, 6) ?? undefined,
+      ...summary
+    });
+  }
+  
   /**
    * Save wallet state to file
    * @param filename Optional filename to save to
@@ -911,6 +1052,39 @@ export class WalletManager {
     }
   }
   
+  /**
+   * Take over the transactions this tenant's wallet recorded before they were
+   * kept per tenant, recognised by the wallet address they were sent from
+   */
+  private async claimEarlierTransactions(): Promise<void> {
+    if (!this.tenantId) return;
+    try {
+      const claimed = await this.transactionDb.claimUnscopedTransactions(this.walletAddress);
+      if (claimed > 0) {
+        this.logger.info(`Assigned ${claimed} earlier transactions to tenant ${this.tenantId}`);
+      }
+    } catch (error) {
+      this.logger.warn(`Could not assign earlier transactions to tenant ${this.tenantId}`, error);
+    }
+  }
+  
+  /**
+   * Settles once the transfers running in the background have; null if there are none
+   */
+  public backgroundWork(): Promise<void> | null {
+    if (this.pendingWork.size === 0) return null;
+    return Promise.all(this.pendingWork).then(() => undefined);
+  }
+
+  private runInBackground(work: Promise<unknown>): void {
+    // Failures are recorded on the transaction; the tracked promise only marks when the work is done
+    const tracked: Promise<void> = work.then(
+      () => { this.pendingWork.delete(tracked); },
+      () => { this.pendingWork.delete(tracked); }
+    );
+    this.pendingWork.add(tracked);
+  }
+
   /**
    * Close the wallet manager, shutting down wallet and Docker
    */
@@ -944,6 +1118,8 @@ export class WalletManager {
         this.walletSyncSubscription.unsubscribe();
         this.logger.info('Wallet sync subscription unsubscribed');
       }
+      this.daoElectionSubscription?.unsubscribe();
+      this.walletChanges.complete();
       
       // Close wallet
       if (this.wallet) {
@@ -1159,19 +1335,36 @@ export class WalletManager {
    * Initiate a transaction to send funds, but don't wait for completion
    * @param to Address to send the funds to
    * @param amount Amount of funds to send (as a string with decimal value in dust)
-   * @returns Object containing the initiated transaction details
+   * @param idempotencyKey Optional key; a retry with the same key gets the first response back
+   * @returns Object containing the initiated transaction details; its state is PENDING_APPROVAL
+   *          when the amount needs the bot owner's approval
    * @throws Error if wallet is not ready or if there are insufficient funds
+   * @throws IdempotencyError if the key was used for another request or its first request is still running
    */
-  public async initiateSendFunds(to: string, amount: string): Promise<InitiateTransactionResult> {
+  public async initiateSendFunds(to: string, amount: string, idempotencyKey?: string): Promise<InitiateTransactionResult> {
     if (!this.ready) throw new Error('Wallet not ready');
     if (!this.wallet) throw new Error('Wallet instance not available');
 
+    const idempotency = idempotencyRequest(idempotencyKey, 'initiateSendFunds', { to, amount });
+    const replay = await this.findIdempotentReplay(idempotency);
+    if (replay) return replay as InitiateTransactionResult;
+
     // Generate correlation ID for audit trail
     const correlationId = this.auditService.generateCorrelationId();
+    let reservationId: string | undefined;
 
     try {
       const amountBigInt = convertDecimalToBigInt(amount);
       
+      // Large transfers wait for the bot owner instead of being sent
+      const approvalThreshold = this.spendingPolicy.approvalRequired(NATIVE_TOKEN_KEY, amountBigInt, 6);
+      if (approvalThreshold) {
+        return await this.requestApproval(NATIVE_TOKEN_KEY, to, amount, 6, approvalThreshold, idempotency);
+      }
+      
+      // Enforce the spending policy before creating the transaction
+      reservationId = await this.spendingPolicy.reserve(NATIVE_TOKEN_KEY, to, amountBigInt, 6);
+      
       // Log agent decision for transaction initiation
       this.agentLogger.logTransactionDecision(
         this.agentId,
@@ -1219,7 +1412,11 @@ export class WalletManager {
       const transaction = await this.transactionDb.createTransaction(
         this.walletAddress,
         to,
-        amount
+        amount,
+        TransactionType.TRANSFER,
+        undefined,
+        TransactionState.INITIATED,
+        idempotency
       );
 
       this.logger.info(`Initiated transaction ${transaction.id} to ${to} for ${amount}`);
@@ -1233,18 +1430,24 @@ export class WalletManager {
         transactionId: transaction.id
       });
 
-      // Start the async process to send funds, but don't await it
-      this.processSendFundsAsync(transaction.id, to, amount, correlationId);
-
-      return {
+      const result: InitiateTransactionResult = {
         id: transaction.id,
         state: TransactionState.INITIATED,
         toAddress: to,
         amount,
         createdAt: transaction.createdAt
       };
+      if (idempotency) await this.transactionDb.saveIdempotentResponse(transaction.id, result);
+
+      // Start the async process to send funds, but don't await it
+      this.runInBackground(this.processSendFundsAsync(transaction.id, to, amount, correlationId, reservationId));
+
+      return result;
     } catch (error) {
       this.logger.error('Failed to initiate funds transfer', error);
+      if (reservationId) {
+        this.spendingPolicy.release(reservationId);
+      }
       throw error;
     }
   }
@@ -1255,8 +1458,9 @@ export class WalletManager {
    * @param to Recipient address
    * @param amount Amount to send in dust string format
    * @param correlationId Optional correlation ID for audit trail
+   * @param reservationId Spending policy reservation to release if the transfer fails
    */
-  private async processSendFundsAsync(transactionId: string, to: string, amount: string, correlationId?: string): Promise<void> {
+  private async processSendFundsAsync(transactionId: string, to: string, amount: string, correlationId?: string, reservationId?: string): Promise<void> {
     if (!this.wallet) throw new Error('Wallet instance not available');
 
     try {
@@ -1334,6 +1538,10 @@ export class WalletManager {
     } catch (error) {
       this.logger.error(`Failed to process send funds for transaction ${transactionId}`, error);
       
+      if (reservationId) {
+        this.spendingPolicy.release(reservationId);
+      }
+      
       // Log transaction failure
       this.transactionLogger.logTransactionFailure(transactionId, error as Error, {
         amount,
@@ -1404,6 +1612,25 @@ export class WalletManager {
     }
   }
 
+  /**
+   * Get this wallet's transaction history with token symbols and net recorded amounts
+   * @param query History filters; pagination is left to the caller
+   * @returns Matching history rows, newest first
+   */
+  public async getTransactionHistory(
+    query: Omit<TransactionHistoryQuery, 'limit' | 'offset'>
+  ): Promise<TransactionHistoryRow[]> {
+    try {
+      const until = query.endDate !== undefined ? new Date(query.endDate) : undefined;
+      const records = await this.transactionDb.getTransactionsForAddress(this.walletAddress, until);
+      const tokens = await this.getRegisteredTokens();
+      return buildTransactionHistory(records, this.walletAddress, tokens, query);
+    } catch (error) {
+      this.logger.error('Failed to get transaction history', error);
+      throw error;
+    }
+  }
+
   /**
    * Get pending transactions (INITIATED or SENT)
    * @returns Array of pending transaction records
@@ -1537,6 +1764,214 @@ export class WalletManager {
     }
   }
 
+  // ==================== SPENDING POLICY ====================
+
+  /**
+   * Get the spending policy engine guarding this wallet's transfers
+   * @returns Spending policy engine
+   */
+  public getSpendingPolicy(): SpendingPolicyEngine {
+    return this.spendingPolicy;
+  }
+
+  /**
+   * Guard transfers with an existing engine, keeping its policy and rolling usage
+   * @param engine Spending policy engine that outlives this wallet manager
+   */
+  public useSpendingPolicy(engine: SpendingPolicyEngine): void {
+    this.spendingPolicy = engine;
+  }
+
+  // ==================== TRANSFER APPROVALS ====================
+
+  /**
+   * Park a transfer until the bot owner approves or rejects it
+   * @param token Token name, or 'native' for tDUST
+   * @param to Recipient address
+   * @param amount Amount as a decimal string
+   * @param decimals Decimal places of the token
+   * @param approvalThreshold Threshold the amount exceeded
+   * @param idempotency Idempotency key of the request, stored on the parked transfer
+   * @returns The parked transfer
+   * @throws SpendingPolicyError if the rest of the spending policy blocks the transfer,
+   * so the owner is never asked to approve one that couldn't be sent
+   */
+  public async requestApproval(
+    token: string,
+    to: string,
+    amount: string,
+    decimals: number,
+    approvalThreshold: string,
+    idempotency?: IdempotencyRequest
+  ): Promise<PendingApprovalResult> {
+    this.spendingPolicy.check(token, to, convertDecimalToBigInt(amount, decimals), decimals);
+
+    const transaction = await this.transactionDb.createTransaction(
+      this.walletAddress,
+      to,
+      amount,
+      TransactionType.TRANSFER,
+      { token, approvalThreshold },
+      TransactionState.PENDING_APPROVAL,
+      idempotency
+    );
+
+    const unit = token === NATIVE_TOKEN_KEY ? 'tDUST' : token;
+    this.logger.info(`Transfer ${transaction.id} of ${amount} ${unit} to ${to} is awaiting approval`);
+
+    const result: PendingApprovalResult = {
+      id: transaction.id,
+      state: TransactionState.PENDING_APPROVAL,
+      toAddress: to,
+      amount,
+      createdAt: transaction.createdAt,
+      token,
+      approvalThreshold,
+      message: `The transfer of ${amount} ${unit} to ${to} is above the approval threshold of ${approvalThreshold} ${unit} ` +
+        'and is awaiting approval from the bot owner.'
+    };
+    if (idempotency) await this.transactionDb.saveIdempotentResponse(transaction.id, result);
+
+    return result;
+  }
+
+  /**
+   * Response of an earlier request with the same idempotency key
+   * @returns The response to replay, or null when the request should go ahead
+   * @throws IdempotencyError if the key was used for another request or its first request is still running
+   */
+  private async findIdempotentReplay(idempotency?: IdempotencyRequest): Promise<unknown | null> {
+    if (!idempotency) return null;
+
+    const earlier = await this.transactionDb.getTransactionByIdempotencyKey(this.walletAddress, idempotency.key);
+    if (!earlier) return null;
+
+    const replay = replayFor(earlier, idempotency, Date.now());
+    if (replay === null) {
+      // Expired, or the first attempt failed: the key moves to the new transaction
+      await this.transactionDb.releaseIdempotencyKey(earlier.id);
+    } else {
+      this.logger.info(`Replaying response of transaction ${earlier.id} for idempotency key ${idempotency.key}`);
+    }
+    return replay;
+  }
+
+  /**
+   * Get transfers of this wallet that are waiting for approval
+   * @returns Parked transfers, oldest first
+   */
+  public async getTransfersAwaitingApproval(): Promise<TransactionRecord[]> {
+    return await this.transactionDb.getTransactionsAwaitingApproval(this.walletAddress);
+  }
+
+  /**
+   * Approve a parked transfer and send it in the background
+   * @param id Transaction ID
+   * @param approvedBy Who approved the transfer
+   * @returns The transaction in INITIATED state, or null if no transfer of this wallet is awaiting approval under that ID
+   * @throws SpendingPolicyError if sending now would break the spending policy
+   */
+  public async approvePendingTransfer(id: string, approvedBy?: string): Promise<TransactionRecord | null> {
+    if (!this.ready) throw new Error('Wallet not ready');
+
+    const pending = await this.transactionDb.getTransactionById(id);
+    if (!pending || pending.state !== TransactionState.PENDING_APPROVAL || pending.fromAddress !== this.walletAddress) {
+      return null;
+    }
+
+    const token: string = pending.metadata?.token || NATIVE_TOKEN_KEY;
+
+    // Approval skips the threshold, not the rest of the spending policy
+    const reservationId = token === NATIVE_TOKEN_KEY
+      ? await this.spendingPolicy.reserve(NATIVE_TOKEN_KEY, pending.toAddress, convertDecimalToBigInt(pending.amount), 6)
+      : undefined;
+
+    const approved = await this.transactionDb.resolvePendingApproval(id, TransactionState.INITIATED, {
+      ...pending.metadata,
+      approvedBy,
+      approvedAt: new Date().toISOString()
+    });
+    if (!approved) {
+      if (reservationId) this.spendingPolicy.release(reservationId);
+      return null;
+    }
+
+    // Failures are recorded on the transaction, which the caller can poll
+    if (token === NATIVE_TOKEN_KEY) {
+      this.runInBackground(this.processSendFundsAsync(id, pending.toAddress, pending.amount, undefined, reservationId));
+    } else {
+      this.runInBackground(this.processApprovedTokenTransfer(id, token, pending.toAddress, pending.amount));
+    }
+
+    return approved;
+  }
+
+  /**
+   * Reject a parked transfer; nothing is sent
+   * @param id Transaction ID
+   * @param rejectedBy Who rejected the transfer
+   * @param reason Optional reason shown with the transaction
+   * @returns The rejected transaction, or null if no transfer of this wallet is awaiting approval under that ID
+   */
+  public async rejectPendingTransfer(id: string, rejectedBy?: string, reason?: string): Promise<TransactionRecord | null> {
+    const pending = await this.transactionDb.getTransactionById(id);
+    if (!pending || pending.state !== TransactionState.PENDING_APPROVAL || pending.fromAddress !== this.walletAddress) {
+      return null;
+    }
+
+    return await this.transactionDb.resolvePendingApproval(id, TransactionState.REJECTED, {
+      ...pending.metadata,
+      rejectedBy,
+      rejectionReason: reason,
+      rejectedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Send a token transfer under an idempotency key
+   * The transaction carrying the key is recorded before the transfer is submitted
+   * @returns Transaction result
+   */
+  public async transferTokenOnce(
+    tokenName: string,
+    to: string,
+    amount: string,
+    idempotency: IdempotencyRequest
+  ): Promise<SendFundsResult> {
+    const transaction = await this.transactionDb.createTransaction(
+      this.walletAddress,
+      to,
+      amount,
+      TransactionType.TRANSFER,
+      { token: tokenName },
+      TransactionState.INITIATED,
+      idempotency
+    );
+
+    try {
+      const result = await this.shieldedTokenManager.transferToken(tokenName, to, amount);
+      await this.transactionDb.markTransactionAsSent(transaction.id, result.txIdentifier);
+      await this.transactionDb.saveIdempotentResponse(transaction.id, result);
+      return result;
+    } catch (error) {
+      await this.transactionDb.markTransactionAsFailed(transaction.id, error instanceof Error ? error.message : 'Unknown error sending tokens');
+      throw error;
+    }
+  }
+
+  /**
+   * Send an approved token transfer and record the outcome on its transaction
+   */
+  private async processApprovedTokenTransfer(transactionId: string, tokenName: string, to: string, amount: string): Promise<void> {
+    try {
+      const result = await this.shieldedTokenManager.transferToken(tokenName, to, amount);
+      await this.transactionDb.markTransactionAsSent(transactionId, result.txIdentifier);
+    } catch (error) {
+      this.logger.error(`Failed to send approved token transfer ${transactionId}`, error);
+      await this.transactionDb.markTransactionAsFailed(transactionId, error instanceof Error ? error.message : 'Unknown error sending tokens');
+    }
+  }
+
   // ==================== SHIELDED TOKEN OPERATIONS ====================
 
   /**
@@ -1583,14 +2018,37 @@ export class WalletManager {
    * @param tokenName Token name
    * @param toAddress Recipient address
    * @param amount Amount to send
-   * @returns Transaction result
+   * @param idempotencyKey Optional key; a retry with the same key gets the first response back
+   * @returns Transaction result, or the parked transfer when the amount needs the bot owner's approval
+   * @throws IdempotencyError if the key was used for another request or its first request is still running
    */
   public async sendToken(
+    tokenName: string, 
+    toAddress: string, 
+    amount: string,
+    idempotencyKey?: string
+  ): Promise<SendFundsResult | PendingApprovalResult> {
+    const idempotency = idempotencyRequest(idempotencyKey, 'sendToken', { tokenName, toAddress, amount });
+    const replay = await this.findIdempotentReplay(idempotency);
+    if (replay) return replay as SendFundsResult | PendingApprovalResult;
+    
+    return this.shieldedTokenManager.sendToken(tokenName, toAddress, amount, idempotency);
+  }
+
+  /**
+   * Build a token transfer and check it without proving or submitting it
+   * @param tokenName Token name
+   * @param toAddress Recipient address
+   * @param amount Amount to send
+   * @returns The checks a token send would pass or fail, with the fee and coins it would spend
+   */
+  public async previewSendToken(
     tokenName: string, 
     toAddress: string, 
     amount: string
-  ): Promise<SendFundsResult> {
-    return this.shieldedTokenManager.sendToken(tokenName, toAddress, amount);
+  ): Promise<TransactionPreview> {
+    if (!this.ready) throw new Error('Wallet not ready');
+    return await this.shieldedTokenManager.previewTransfer(tokenName, toAddress, amount);
   }
 
   /**
@@ -1647,6 +2105,14 @@ export class WalletManager {
     return await this.shieldedTokenManager.unregisterToken(tokenName);
   }
 
+  /**
+   * Get every registered token with its full registry record
+   * @returns Array of token information
+   */
+  public async getRegisteredTokens(): Promise<TokenInfo[]> {
+    return await this.shieldedTokenManager.getRegisteredTokens();
+  }
+
   /**
    * Get token registry statistics
    * @returns Registry statistics
@@ -1798,6 +2264,62 @@ export class WalletManager {
     return 'DAO functionality temporarily disabled';
   }
 
+  /**
+   * Get the state of the DAO election; reading it submits nothing, so it stays available while DAO transactions are disabled
+   * @returns Election state, votes and treasury balance
+   */
+  public async getDaoElectionState(): Promise<DaoElectionState> {
+    if (!this.ready || !this.daoService) {
+      throw new Error('Wallet not ready or DAO service not initialized');
+    }
+    return await this.daoService.getElectionState();
+  }
+
+  /**
+   * Changes to the wallet's balances, its transactions and the DAO election, as they happen
+   * Completes when the wallet is closed
+   */
+  public changes(): Rx.Observable<WalletChange> {
+    return this.walletChanges.asObservable();
+  }
+
+  // DAO PREVIEWS - nothing is submitted, so these stay available while DAO transactions are disabled
+
+  /**
+   * Check a DAO vote against the contract state without casting it
+   * @param voteType Type of vote (yes, no, absence)
+   * @returns Preview of the vote
+   */
+  public async previewCastDaoVote(voteType: string): Promise<TransactionPreview> {
+    if (!this.ready || !this.daoService) {
+      throw new Error('Wallet not ready or DAO service not initialized');
+    }
+    return await this.daoService.previewCastDaoVote(voteType);
+  }
+
+  /**
+   * Check a DAO treasury funding against the contract state without sending it
+   * @param amount Amount to fund the treasury
+   * @returns Preview of the funding
+   */
+  public async previewFundDaoTreasury(amount: string): Promise<TransactionPreview> {
+    if (!this.ready || !this.daoService) {
+      throw new Error('Wallet not ready or DAO service not initialized');
+    }
+    return await this.daoService.previewFundDaoTreasury(amount);
+  }
+
+  /**
+   * Check a DAO payout against the contract state without paying it out
+   * @returns Preview of the payout
+   */
+  public async previewPayoutDaoProposal(): Promise<TransactionPreview> {
+    if (!this.ready || !this.daoService) {
+      throw new Error('Wallet not ready or DAO service not initialized');
+    }
+    return await this.daoService.previewPayoutDaoProposal();
+  }
+
   /**
    * Get wallet for provider configuration
    * Used for creating providers for contract interactions
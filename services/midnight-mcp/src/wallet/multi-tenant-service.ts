@@ -5,44 +5,161 @@
  * Each tenant gets their own isolated wallet with their own seed.
  */
 
-import { WalletManager } from './index.js';
+import { WalletManager, type WalletConfig } from './index.js';
+import { WalletServiceMCP } from '../mcp/index.js';
 import { createLogger } from '../logger/index.js';
+import { config } from '../config.js';
+import { FileManager, FileType } from '../utils/file-manager.js';
+import { getSeedEncryption } from '../utils/seed-encryption.js';
 import type { Logger } from 'pino';
 import { NetworkId } from '@midnight-ntwrk/midnight-js-network-id';
+import {
+  NATIVE_TOKEN_KEY,
+  SpendingPolicyEngine,
+  validateSpendingPolicy,
+  type SpendLedgerEntry,
+  type SpendingPolicy
+} from './spending-policy.js';
+import { toScheduledPaymentResult, type PaymentSchedule, type ScheduledPaymentResult } from './payment-scheduler.js';
+import type { TransactionHistoryRow, TransactionHistoryQuery } from './transaction-history.js';
+import {
+  TenantRegistry,
+  type TenantConfig,
+  type TenantRecord,
+  type TenantRegistryOptions,
+  type TenantRegistryStats,
+  type TenantStore
+} from './tenant-registry.js';
 import type { 
   WalletStatus, 
   SendFundsResult, 
+  PendingApprovalResult,
   TokenBalance,
   TokenInfo,
   TokenOperationResult,
   TransactionRecord,
-  TransactionStatusResult
+  TransactionStatusResult,
+  TransactionPreview
 } from '../types/wallet.js';
 
+export type { TenantConfig } from './tenant-registry.js';
+
 interface TenantMetadata {
   tenantId: string;
   name?: string;
   createdAt: Date;
   lastAccessedAt: Date;
   isActive: boolean;
+  loaded: boolean;
+  config?: TenantConfig;
 }
 
-interface TenantWallet {
-  walletManager: WalletManager;
-  metadata: TenantMetadata;
-  seed: string;
+/**
+ * Everything another instance needs to take over a tenant
+ */
+export interface TenantBundle {
+  tenant: TenantRecord;
+  walletState: string | null; // Serialized wallet, so the new instance does not resync from scratch
+  spendLedger: SpendLedgerEntry[];
 }
 
+const envNumber = (name: string): number | undefined =>
+  process.env[name] ? parseInt(process.env[name]!, 10) : undefined;
+
+const walletFilenameOf = (tenantId: string): string => `wallet_${tenantId}.dat`;
+
+const walletConfigOf = (tenantId: string): WalletConfig => ({
+  indexer: process.env.MIDNIGHT_INDEXER_URL || 'https://indexer.testnet-02.midnight.network/api/v1/graphql',
+  indexerWS: process.env.MIDNIGHT_INDEXER_WS_URL || 'wss://indexer.testnet-02.midnight.network/api/v1/graphql/ws',
+  node: process.env.MIDNIGHT_NODE_URL || 'https://rpc.testnet-02.midnight.network',
+  proofServer: process.env.MIDNIGHT_PROOF_SERVER_URL || 'https://proof.testnet-02.midnight.network',
+  logDir: `./logs/${tenantId}`,
+  useExternalProofServer: process.env.USE_EXTERNAL_PROOF_SERVER === 'true'
+} as any);
+
 export class MultiTenantWalletService {
   private readonly logger: Logger;
-  private readonly tenantWallets: Map<string, TenantWallet> = new Map();
-  private readonly maxTenantsPerInstance: number = 100; // Configurable limit
+  private readonly registry: TenantRegistry<WalletManager>;
+  // Outlive their wallet managers; the rolling usage is also saved with the tenant
+  private readonly spendingPolicies: Map<string, SpendingPolicyEngine> = new Map();
+  // Dropped along with the wallet manager when an idle wallet is closed
+  private readonly walletServices = new WeakMap<WalletManager, WalletServiceMCP>();
 
-  constructor() {
+  constructor(store?: TenantStore, options: TenantRegistryOptions = {}) {
     this.logger = createLogger('multi-tenant-wallet');
+    this.registry = new TenantRegistry(record => this.openTenantWallet(record), store, {
+      idleTtlMs: envNumber('TENANT_WALLET_IDLE_TTL_MS'),
+      maxLoadedWallets: envNumber('MAX_LOADED_TENANT_WALLETS'),
+      ...options
+    });
     this.logger.info('Multi-tenant wallet service initialized');
   }
 
+  /**
+   * Restore registered tenants and start closing idle wallets
+   */
+  async start(): Promise<void> {
+    this.registry.start();
+    await this.registry.restore();
+  }
+
+  /**
+   * Close every open tenant wallet, saving its state
+   */
+  async close(): Promise<void> {
+    await this.registry.stop();
+  }
+
+  /**
+   * Open a tenant's wallet, restoring it from its saved state file if there is one
+   */
+  private async openTenantWallet(record: TenantRecord): Promise<WalletManager> {
+    const { tenantId } = record;
+
+    // Create wallet manager for this tenant with proper configuration
+    const walletManager = new WalletManager(
+      NetworkId.TestNet, 
+      record.sealedSeed,
+      walletFilenameOf(tenantId),
+      walletConfigOf(tenantId),
+      tenantId
+    );
+    walletManager.useSpendingPolicy(this.spendingPolicyOf(record));
+    
+    // Wait for wallet to be ready
+    let retries = 30; // 30 seconds timeout
+    while (!walletManager.isReady() && retries > 0) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      retries--;
+    }
+    
+    if (!walletManager.isReady()) {
+      await walletManager.close();
+      throw new Error(`Failed to initialize wallet for tenant ${tenantId} within timeout`);
+    }
+
+    return walletManager;
+  }
+
+  /**
+   * Get the spending policy engine of a tenant, set up from its saved policy and spends
+   */
+  private spendingPolicyOf(record: TenantRecord): SpendingPolicyEngine {
+    let engine = this.spendingPolicies.get(record.tenantId);
+    if (!engine) {
+      engine = new SpendingPolicyEngine();
+      if (record.spendingPolicy) {
+        engine.setPolicy(record.spendingPolicy);
+      }
+      engine.importLedger(record.spendLedger || []);
+      engine.persistTo(async spendLedger => {
+        await this.registry.update(record.tenantId, { spendLedger });
+      });
+      this.spendingPolicies.set(record.tenantId, engine);
+    }
+    return engine;
+  }
+
   /**
    * Register a new tenant with their seed
    */
@@ -53,7 +170,7 @@ export class MultiTenantWalletService {
   ): Promise<{ success: boolean; tenantId: string; error?: string }> {
     try {
       // Check if tenant already exists
-      if (this.tenantWallets.has(tenantId)) {
+      if (await this.registry.has(tenantId)) {
         this.logger.warn(`Tenant ${tenantId} already registered`);
         return { 
           success: false, 
@@ -62,56 +179,27 @@ export class MultiTenantWalletService {
         };
       }
 
-      // Check tenant limit
-      if (this.tenantWallets.size >= this.maxTenantsPerInstance) {
-        this.logger.error('Maximum tenant limit reached');
-        return { 
-          success: false, 
-          tenantId, 
-          error: 'Maximum tenant limit reached' 
-        };
-      }
-
-      // Create wallet manager for this tenant with proper configuration
-      const walletManager = new WalletManager(
-        NetworkId.TestNet, 
-        seed,
-        `wallet_${tenantId}.dat`,
-        {
-          indexer: process.env.MIDNIGHT_INDEXER_URL || 'https://indexer.testnet-02.midnight.network/api/v1/graphql',
-          indexerWS: process.env.MIDNIGHT_INDEXER_WS_URL || 'wss://indexer.testnet-02.midnight.network/api/v1/graphql/ws',
-          node: process.env.MIDNIGHT_NODE_URL || 'https://rpc.testnet-02.midnight.network',
-          proofServer: process.env.MIDNIGHT_PROOF_SERVER_URL || 'https://proof.testnet-02.midnight.network',
-          logDir: `./logs/${tenantId}`,
-          useExternalProofServer: process.env.USE_EXTERNAL_PROOF_SERVER === 'true'
-        } as any
-      );
-      
-      // Wait for wallet to be ready
-      let retries = 30; // 30 seconds timeout
-      while (!walletManager.isReady() && retries > 0) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        retries--;
-      }
-      
-      if (!walletManager.isReady()) {
-        throw new Error(`Failed to initialize wallet for tenant ${tenantId} within timeout`);
-      }
-
-      // Store tenant wallet
-      const tenantWallet: TenantWallet = {
-        walletManager,
-        metadata: {
-          tenantId,
-          name: metadata?.name,
-          createdAt: new Date(),
-          lastAccessedAt: new Date(),
-          isActive: true
-        },
-        seed
+      // Keep only the sealed seed in memory and storage; the orchestrator normally sends it sealed already
+      const sealedSeed = await getSeedEncryption().encryptSeed(seed);
+
+      const now = new Date();
+      const record: TenantRecord = {
+        tenantId,
+        name: metadata?.name,
+        sealedSeed,
+        createdAt: now,
+        lastAccessedAt: now,
+        isActive: true
       };
 
-      this.tenantWallets.set(tenantId, tenantWallet);
+      const walletManager = await this.openTenantWallet(record);
+      try {
+        await this.registry.register(record, walletManager);
+      } catch (error) {
+        this.spendingPolicies.delete(tenantId);
+        await walletManager.close();
+        throw error;
+      }
       
       this.logger.info(`Registered new tenant: ${tenantId}`);
       
@@ -130,85 +218,154 @@ export class MultiTenantWalletService {
   }
 
   /**
-   * Get tenant's wallet manager
+   * Run an operation on tenant's wallet manager, opening the wallet if the tenant is dormant
+   * The wallet isn't closed for being idle or to make room until the operation finishes
+   * @param operation Called with the wallet manager, or null if the tenant is not found
    */
-  private getTenantWallet(tenantId: string): WalletManager | null {
-    const tenantWallet = this.tenantWallets.get(tenantId);
-    if (!tenantWallet) {
+  private async withTenantWallet<T>(
+    tenantId: string,
+    operation: (wallet: WalletManager | null) => Promise<T>
+  ): Promise<T> {
+    const walletManager = await this.registry.acquire(tenantId);
+    if (!walletManager) {
       this.logger.warn(`Tenant ${tenantId} not found`);
-      return null;
+      return await operation(null);
     }
 
-    // Update last accessed time
-    tenantWallet.metadata.lastAccessedAt = new Date();
-    
-    return tenantWallet.walletManager;
+    try {
+      return await operation(walletManager);
+    } finally {
+      this.registry.release(tenantId);
+    }
+  }
+
+  /**
+   * Run an operation on a wallet service over tenant's wallet, for serving the
+   * tenant over MCP, opening the wallet if the tenant is dormant
+   * @param operation Called with the wallet service, or null if the tenant is not found
+   */
+  async withTenantWalletService<T>(
+    tenantId: string,
+    operation: (walletService: WalletServiceMCP | null) => Promise<T>
+  ): Promise<T> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) return await operation(null);
+
+      let walletService = this.walletServices.get(wallet);
+      if (!walletService) {
+        const record = await this.registry.get(tenantId);
+        walletService = new WalletServiceMCP(
+          NetworkId.TestNet,
+          record?.sealedSeed ?? '',
+          walletFilenameOf(tenantId),
+          walletConfigOf(tenantId),
+          wallet
+        );
+        this.walletServices.set(wallet, walletService);
+      }
+      return await operation(walletService);
+    });
   }
 
   /**
    * Check if tenant is registered
    */
-  isTenantRegistered(tenantId: string): boolean {
-    return this.tenantWallets.has(tenantId);
+  async isTenantRegistered(tenantId: string): Promise<boolean> {
+    return await this.registry.has(tenantId);
   }
 
   /**
    * Get tenant's wallet address
    */
   async getTenantAddress(tenantId: string): Promise<string | null> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) return null;
-
-    try {
-      const status = wallet.getWalletStatus();
-      return status.address || null;
-    } catch (error) {
-      this.logger.error(`Failed to get address for tenant ${tenantId}:`, error);
-      return null;
-    }
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) return null;
+
+      try {
+        const status = wallet.getWalletStatus();
+        return status.address || null;
+      } catch (error) {
+        this.logger.error(`Failed to get address for tenant ${tenantId}:`, error);
+        return null;
+      }
+    });
   }
 
   /**
    * Get tenant's wallet status
    */
-  getTenantWalletStatus(tenantId: string): WalletStatus | null {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) return null;
-
-    try {
-      return wallet.getWalletStatus();
-    } catch (error) {
-      this.logger.error(`Failed to get status for tenant ${tenantId}:`, error);
-      return null;
-    }
+  async getTenantWalletStatus(tenantId: string): Promise<WalletStatus | null> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) return null;
+
+      try {
+        return wallet.getWalletStatus();
+      } catch (error) {
+        this.logger.error(`Failed to get status for tenant ${tenantId}:`, error);
+        return null;
+      }
+    });
   }
 
   /**
    * Send funds from tenant's wallet
    */
   async sendFundsForTenant(
+    tenantId: string,
+    toAddress: string,
+    amount: string,
+    idempotencyKey?: string
+  ): Promise<SendFundsResult | PendingApprovalResult> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        throw new Error(`Tenant ${tenantId} not found`);
+      }
+
+      return await wallet.sendFunds(toAddress, amount, idempotencyKey);
+    });
+  }
+
+  /**
+   * Check a transfer from tenant's wallet without submitting it
+   */
+  async previewSendFundsForTenant(
     tenantId: string,
     toAddress: string,
     amount: string
-  ): Promise<SendFundsResult> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      throw new Error(`Tenant ${tenantId} not found`);
-    }
+  ): Promise<TransactionPreview> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        throw new Error(`Tenant ${tenantId} not found`);
+      }
 
-    return await wallet.sendFunds(toAddress, amount);
+      return await wallet.previewSendFunds(toAddress, amount);
+    });
   }
 
   /**
    * Get tenant's token balances
    */
   async getTokenBalancesForTenant(tenantId: string): Promise<TokenBalance[]> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      return [];
-    }
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return [];
+      }
+
+      return await wallet.listWalletTokens();
+    });
+  }
+
+  /**
+   * Get the registry records of a tenant's tokens
+   */
+  async getRegisteredTokensForTenant(tenantId: string): Promise<TokenInfo[]> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return [];
+      }
 
-    return await wallet.listWalletTokens();
+      return await wallet.getRegisteredTokens();
+    });
   }
 
   /**
@@ -223,35 +380,53 @@ export class MultiTenantWalletService {
     description?: string,
     decimals?: number
   ): Promise<TokenOperationResult> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      return {
-        success: false,
-        tokenName: name,
-        error: `Tenant ${tenantId} not found`
-      };
-    }
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return {
+          success: false,
+          tokenName: name,
+          error: `Tenant ${tenantId} not found`
+        };
+      }
 
-    return await wallet.registerToken(
-      name,
-      symbol,
-      contractAddress,
-      domainSeparator || 'custom_token',
-      description,
-      decimals
-    );
+      return await wallet.registerToken(
+        name,
+        symbol,
+        contractAddress,
+        domainSeparator || 'custom_token',
+        description,
+        decimals
+      );
+    });
   }
 
   /**
    * Get tenant's transactions
    */
   async getTransactionsForTenant(tenantId: string): Promise<TransactionRecord[]> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      return [];
-    }
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return [];
+      }
+
+      return await wallet.getTransactions();
+    });
+  }
+
+  /**
+   * Get tenant's filtered transaction history
+   */
+  async getTransactionHistoryForTenant(
+    tenantId: string,
+    query: Omit<TransactionHistoryQuery, 'limit' | 'offset'>
+  ): Promise<TransactionHistoryRow[]> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return [];
+      }
 
-    return await wallet.getTransactions();
+      return await wallet.getTransactionHistory(query);
+    });
   }
 
   /**
@@ -261,29 +436,136 @@ export class MultiTenantWalletService {
     tenantId: string,
     transactionId: string
   ): Promise<TransactionStatusResult | null> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      return null;
-    }
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return null;
+      }
 
-    return await wallet.getTransactionStatus(transactionId);
+      return await wallet.getTransactionStatus(transactionId);
+    });
   }
 
   /**
    * Send token from tenant's wallet
    */
   async sendTokenForTenant(
+    tenantId: string,
+    tokenName: string,
+    toAddress: string,
+    amount: string,
+    idempotencyKey?: string
+  ): Promise<SendFundsResult | PendingApprovalResult> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        throw new Error(`Tenant ${tenantId} not found`);
+      }
+
+      return await wallet.sendToken(tokenName, toAddress, amount, idempotencyKey);
+    });
+  }
+
+  /**
+   * Check a token transfer from tenant's wallet without submitting it
+   */
+  async previewSendTokenForTenant(
     tenantId: string,
     tokenName: string,
     toAddress: string,
     amount: string
-  ): Promise<SendFundsResult> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      throw new Error(`Tenant ${tenantId} not found`);
+  ): Promise<TransactionPreview> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        throw new Error(`Tenant ${tenantId} not found`);
+      }
+
+      return await wallet.previewSendToken(tokenName, toAddress, amount);
+    });
+  }
+
+  /**
+   * Send a due scheduled payment from the tenant's wallet
+   * Native payments are only initiated; the transaction poller follows them
+   */
+  async executeScheduledPayment(schedule: PaymentSchedule): Promise<ScheduledPaymentResult> {
+    return await this.withTenantWallet(schedule.tenantId, async wallet => {
+      if (!wallet) {
+        throw new Error(`Tenant ${schedule.tenantId} not found`);
+      }
+
+      const result = schedule.token === NATIVE_TOKEN_KEY
+        ? await wallet.initiateSendFunds(schedule.toAddress, schedule.amount)
+        : await wallet.sendToken(schedule.token, schedule.toAddress, schedule.amount);
+      return toScheduledPaymentResult(result);
+    });
+  }
+
+  /**
+   * Get tenant's transfers that are waiting for approval
+   */
+  async getPendingApprovalsForTenant(tenantId: string): Promise<TransactionRecord[] | null> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return null;
+      }
+
+      return await wallet.getTransfersAwaitingApproval();
+    });
+  }
+
+  /**
+   * Get transfers waiting for approval across tenants with an open wallet
+   * A transfer is parked while its wallet is in use, so it is reported well before the wallet goes idle
+   */
+  async getAllPendingApprovals(): Promise<Array<{ tenantId: string; transfers: TransactionRecord[] }>> {
+    const results: Array<{ tenantId: string; transfers: TransactionRecord[] }> = [];
+
+    for (const [tenantId, walletManager] of this.registry.loadedWallets()) {
+      try {
+        const transfers = await walletManager.getTransfersAwaitingApproval();
+        if (transfers.length > 0) {
+          results.push({ tenantId, transfers });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to get pending approvals for tenant ${tenantId}:`, error);
+      }
     }
 
-    return await wallet.sendToken(tokenName, toAddress, amount);
+    return results;
+  }
+
+  /**
+   * Approve a parked transfer of a tenant
+   */
+  async approveTransferForTenant(
+    tenantId: string,
+    transactionId: string,
+    approvedBy?: string
+  ): Promise<TransactionRecord | null> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        throw new Error(`Tenant ${tenantId} not found`);
+      }
+
+      return await wallet.approvePendingTransfer(transactionId, approvedBy);
+    });
+  }
+
+  /**
+   * Reject a parked transfer of a tenant
+   */
+  async rejectTransferForTenant(
+    tenantId: string,
+    transactionId: string,
+    rejectedBy?: string,
+    reason?: string
+  ): Promise<TransactionRecord | null> {
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        throw new Error(`Tenant ${tenantId} not found`);
+      }
+
+      return await wallet.rejectPendingTransfer(transactionId, rejectedBy, reason);
+    });
   }
 
   /**
@@ -293,12 +575,13 @@ export class MultiTenantWalletService {
     tenantId: string,
     tokenName: string
   ): Promise<TokenInfo | null> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      return null;
-    }
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return null;
+      }
 
-    return await wallet.getTokenInfo(tokenName);
+      return await wallet.getTokenInfo(tokenName);
+    });
   }
 
   /**
@@ -308,12 +591,13 @@ export class MultiTenantWalletService {
     tenantId: string,
     tokenName: string
   ): Promise<string> {
-    const wallet = this.getTenantWallet(tenantId);
-    if (!wallet) {
-      return '0';
-    }
+    return await this.withTenantWallet(tenantId, async wallet => {
+      if (!wallet) {
+        return '0';
+      }
 
-    return await wallet.getTokenBalance(tokenName);
+      return await wallet.getTokenBalance(tokenName);
+    });
   }
 
   /**
@@ -321,16 +605,11 @@ export class MultiTenantWalletService {
    */
   async unregisterTenant(tenantId: string): Promise<boolean> {
     try {
-      const tenantWallet = this.tenantWallets.get(tenantId);
-      if (!tenantWallet) {
+      // Closes the wallet, saving its state, and removes the stored tenant
+      if (!await this.registry.unregister(tenantId)) {
         return false;
       }
-
-      // Stop wallet if it has a stop method
-      // await tenantWallet.walletManager.stop();
-
-      // Remove from registry
-      this.tenantWallets.delete(tenantId);
+      this.spendingPolicies.delete(tenantId);
       
       this.logger.info(`Unregistered tenant: ${tenantId}`);
       return true;
@@ -341,35 +620,152 @@ export class MultiTenantWalletService {
   }
 
   /**
-   * Get all registered tenant IDs
+   * Close a tenant's wallet and hand the tenant over for another instance to import
+   * @returns The tenant's bundle, or null if the tenant is not on this instance
+   */
+  async drainTenant(tenantId: string): Promise<TenantBundle | null> {
+    const record = await this.registry.handOver(tenantId);
+    if (!record) return null;
+
+    const engine = this.spendingPolicies.get(tenantId);
+    this.spendingPolicies.delete(tenantId);
+
+    const fileManager = FileManager.getInstance();
+    const stateFile = `${walletFilenameOf(tenantId)}.json`;
+    const walletState = fileManager.fileExists(FileType.WALLET_BACKUP, config.agentId, stateFile)
+      ? fileManager.readFile(FileType.WALLET_BACKUP, config.agentId, stateFile)
+      : null;
+
+    this.logger.info(`Drained tenant ${tenantId}`);
+    return { tenant: record, walletState, spendLedger: engine?.exportLedger() || record.spendLedger || [] };
+  }
+
+  /**
+   * Take over a tenant drained from another instance
+   * The wallet is opened from the imported state on first access
+   */
+  async importTenant(bundle: TenantBundle): Promise<{ success: boolean; tenantId: string; error?: string }> {
+    const { tenant } = bundle;
+
+    if (await this.registry.has(tenant.tenantId)) {
+      return { success: false, tenantId: tenant.tenantId, error: 'Tenant already registered' };
+    }
+
+    // Dates arrive as JSON strings
+    const record: TenantRecord = {
+      ...tenant,
+      config: tenant.config ? { ...tenant.config, updatedAt: new Date(tenant.config.updatedAt) } : undefined,
+      spendingPolicy: tenant.spendingPolicy ? validateSpendingPolicy(tenant.spendingPolicy) : null,
+      spendLedger: bundle.spendLedger || [],
+      createdAt: new Date(tenant.createdAt),
+      lastAccessedAt: new Date(tenant.lastAccessedAt)
+    };
+
+    if (bundle.walletState) {
+      FileManager.getInstance().writeFile(
+        FileType.WALLET_BACKUP,
+        config.agentId,
+        bundle.walletState,
+        `${walletFilenameOf(record.tenantId)}.json`
+      );
+    }
+
+    await this.registry.adopt(record);
+    this.spendingPolicies.delete(record.tenantId);
+
+    this.logger.info(`Imported tenant ${record.tenantId}`);
+    return { success: true, tenantId: record.tenantId };
+  }
+
+  /**
+   * Get all registered tenant IDs, whether their wallet is open or dormant
    */
-  getRegisteredTenants(): string[] {
-    return Array.from(this.tenantWallets.keys());
+  async getRegisteredTenants(): Promise<string[]> {
+    return (await this.registry.list()).map(record => record.tenantId);
   }
 
   /**
    * Get tenant metadata
    */
-  getTenantMetadata(tenantId: string): TenantMetadata | null {
-    const tenantWallet = this.tenantWallets.get(tenantId);
-    return tenantWallet?.metadata || null;
+  async getTenantMetadata(tenantId: string): Promise<TenantMetadata | null> {
+    const record = await this.registry.get(tenantId);
+    if (!record) return null;
+
+    return {
+      tenantId: record.tenantId,
+      name: record.name,
+      createdAt: record.createdAt,
+      lastAccessedAt: record.lastAccessedAt,
+      isActive: record.isActive,
+      loaded: this.registry.isLoaded(tenantId),
+      config: record.config
+    };
+  }
+
+  /**
+   * Replace the bot configuration applied to a tenant
+   */
+  async updateTenantConfig(tenantId: string, config: Omit<TenantConfig, 'updatedAt'>): Promise<TenantConfig | null> {
+    const record = await this.registry.update(tenantId, { config: { ...config, updatedAt: new Date() } });
+    if (!record) {
+      return null;
+    }
+
+    this.logger.info(`Applied configuration version ${config.version ?? 'unversioned'} to tenant ${tenantId}`);
+    return record.config!;
+  }
+
+  /**
+   * Get tenant's spending policy and what has been spent against it
+   */
+  async getSpendingPolicyForTenant(tenantId: string): Promise<{
+    policy: SpendingPolicy | null;
+    usage: Record<string, { daily: string; weekly: string }>;
+  } | null> {
+    const record = await this.registry.get(tenantId);
+    if (!record) return null;
+
+    const engine = this.spendingPolicyOf(record);
+    return { policy: engine.getPolicy(), usage: engine.getUsage() };
+  }
+
+  /**
+   * Replace tenant's spending policy
+   * @throws InvalidSpendingPolicyError if the policy is malformed
+   */
+  async setSpendingPolicyForTenant(tenantId: string, policy: unknown): Promise<SpendingPolicy | null> {
+    const record = await this.registry.get(tenantId);
+    if (!record) return null;
+
+    const validated = validateSpendingPolicy(policy);
+    await this.registry.update(tenantId, { spendingPolicy: validated });
+    const applied = this.spendingPolicyOf(record).setPolicy(validated);
+    this.logger.info(`Updated spending policy for tenant ${tenantId}`);
+    return applied;
+  }
+
+  /**
+   * Remove tenant's spending policy, leaving transfers unrestricted
+   */
+  async clearSpendingPolicyForTenant(tenantId: string): Promise<boolean> {
+    const record = await this.registry.get(tenantId);
+    if (!record) return false;
+
+    await this.registry.update(tenantId, { spendingPolicy: null });
+    this.spendingPolicyOf(record).clearPolicy();
+    this.logger.info(`Cleared spending policy for tenant ${tenantId}`);
+    return true;
   }
 
   /**
-   * Get service statistics
+   * Get service statistics: registered tenants and how many of their wallets are open
    */
-  getStatistics(): {
-    totalTenants: number;
-    maxTenants: number;
-    activeTenants: number;
-  } {
-    const activeTenants = Array.from(this.tenantWallets.values())
-      .filter(tw => tw.metadata.isActive).length;
+  async getStatistics(): Promise<TenantRegistryStats & { activeTenants: number }> {
+    const records = await this.registry.list();
 
     return {
-      totalTenants: this.tenantWallets.size,
-      maxTenants: this.maxTenantsPerInstance,
-      activeTenants
+      ...await this.registry.stats(),
+      activeTenants: records.filter(record => record.isActive).length
     };
   }
 
@@ -381,9 +777,9 @@ export class MultiTenantWalletService {
     const cutoffTime = new Date(now.getTime() - (inactiveDays * 24 * 60 * 60 * 1000));
     let cleaned = 0;
 
-    for (const [tenantId, tenantWallet] of this.tenantWallets.entries()) {
-      if (tenantWallet.metadata.lastAccessedAt < cutoffTime) {
-        if (await this.unregisterTenant(tenantId)) {
+    for (const record of await this.registry.list()) {
+      if (record.lastAccessedAt < cutoffTime) {
+        if (await this.unregisterTenant(record.tenantId)) {
           cleaned++;
         }
       }
@@ -394,4 +790,4 @@ export class MultiTenantWalletService {
   }
 }
 
-export default MultiTenantWalletService;
\ No newline at end of file
+export default MultiTenantWalletService;
@@ -0,0 +1,448 @@
+/**
+ * Scheduled Payments
+ *
+ * Stores one-off and recurring payments per tenant and sends them when they
+ * fall due. Recurring schedules use five-field cron expressions evaluated in
+ * UTC and can be bounded by an end date and a maximum number of runs. Each
+ * run is recorded with the transaction it started; the transaction itself
+ * is followed by the wallet's transaction poller like any other send.
+ */
+
+import { createLogger } from '../logger/index.js';
+import { PaymentScheduleDatabase } from './db/PaymentScheduleDatabase.js';
+import { TransactionState, type InitiateTransactionResult, type SendFundsResult } from '../types/wallet.js';
+
+export type PaymentScheduleStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export interface PaymentSchedule {
+  id: string;
+  tenantId: string;
+  toAddress: string;
+  amount: string;
+  token: string;          // Token name, or 'native' for tDUST
+  runAt?: number;         // One-off payments
+  cron?: string;          // Recurring payments
+  endAt?: number;
+  maxRuns?: number;
+  runCount: number;
+  nextRunAt: number | null;
+  status: PaymentScheduleStatus;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PaymentScheduleInput {
+  toAddress: string;
+  amount: string;
+  token?: string;
+  runAt?: string | number;
+  cron?: string;
+  endAt?: string | number;
+  maxRuns?: number;
+  description?: string;
+}
+
+export interface PaymentRun {
+  id: string;
+  scheduleId: string;
+  tenantId: string;
+  scheduledFor: number;
+  executedAt: number;
+  state: string;          // Transaction state after submission, or 'failed'
+  transactionId?: string;
+  error?: string;
+}
+
+export interface ScheduledPaymentResult {
+  state: string;
+  transactionId?: string;
+}
+
+/**
+ * Wallets the scheduler can send from
+ */
+export interface ScheduledPaymentWallets {
+  tenants(): string[] | Promise<string[]>;
+  send(schedule: PaymentSchedule): Promise<ScheduledPaymentResult>;
+}
+
+export interface PaymentScheduleStore {
+  create(schedule: Omit<PaymentSchedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<PaymentSchedule>;
+  get(tenantId: string, id: string): Promise<PaymentSchedule | null>;
+  list(tenantId: string): Promise<PaymentSchedule[]>;
+  listDue(tenantIds: string[], now: number): Promise<PaymentSchedule[]>;
+  update(tenantId: string, id: string, changes: Partial<PaymentSchedule>): Promise<PaymentSchedule>;
+  /** Apply changes only if the schedule is still due at expectedNextRunAt; false when another instance claimed it */
+  claim(id: string, expectedNextRunAt: number, changes: Partial<PaymentSchedule>): Promise<boolean>;
+  recordRun(run: Omit<PaymentRun, 'id'>): Promise<PaymentRun>;
+  listRuns(tenantId: string, scheduleId: string, limit: number): Promise<PaymentRun[]>;
+}
+
+export type PaymentScheduleErrorCode = 'INVALID_SCHEDULE' | 'SCHEDULE_NOT_FOUND' | 'INVALID_SCHEDULE_STATE';
+
+const ERROR_STATUS: Record<PaymentScheduleErrorCode, number> = {
+  INVALID_SCHEDULE: 400,
+  SCHEDULE_NOT_FOUND: 404,
+  INVALID_SCHEDULE_STATE: 409
+};
+
+/**
+ * A schedule is malformed, missing, or can't make the requested transition
+ */
+export class PaymentScheduleError extends Error {
+  constructor(public readonly code: PaymentScheduleErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentScheduleError';
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { code: this.code, message: this.message };
+  }
+}
+
+const TICK_INTERVAL_MS = parseInt(process.env.PAYMENT_SCHEDULER_INTERVAL_MS || '30000');
+const MINUTE_MS = 60 * 1000;
+const CRON_SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const NATIVE_TOKEN_NAMES = ['native', 'tdust', 'dust'];
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *'
+};
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }  // 0 and 7 are both Sunday
+] as const;
+
+interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      [start, end] = [min, max];
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(step) || step < 1 || !Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new PaymentScheduleError('INVALID_SCHEDULE', `Invalid ${name} '${part}' in cron expression`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week) or an @alias
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = (CRON_ALIASES[expression.trim()] || expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new PaymentScheduleError('INVALID_SCHEDULE', `Cron expression must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseCronField(field, CRON_FIELDS[index]));
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === '*', anyWeekday: fields[4] === '*' };
+}
+
+function cronDayMatches(cron: CronExpression, date: Date): boolean {
+  const dayMatches = cron.days.has(date.getUTCDate());
+  const weekdayMatches = cron.weekdays.has(date.getUTCDay());
+
+  // Like cron: when both day fields are restricted, either one may match
+  if (cron.anyDay) return weekdayMatches;
+  if (cron.anyWeekday) return dayMatches;
+  return dayMatches || weekdayMatches;
+}
+
+/**
+ * First time strictly after `after` that matches the expression, in UTC
+ * @returns Timestamp in ms, or null if the expression never matches (e.g. 31 February)
+ */
+export function nextCronOccurrence(expression: string, after: number): number | null {
+  const cron = parseCron(expression);
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after + CRON_SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cronDayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run outcome of a native send (initiated or parked for approval) or a token send
+ */
+export function toScheduledPaymentResult(result: InitiateTransactionResult | SendFundsResult): ScheduledPaymentResult {
+  return 'txIdentifier' in result
+    ? { state: TransactionState.SENT, transactionId: result.txIdentifier }
+    : { state: result.state, transactionId: result.id };
+}
+
+function toTimestamp(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const timestamp = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!Number.isFinite(timestamp)) {
+    throw new PaymentScheduleError('INVALID_SCHEDULE', `${field} must be an ISO date or a timestamp in ms`);
+  }
+  return timestamp;
+}
+
+/**
+ * Stores payment schedules and, once started, sends the ones that fall due
+ */
+export class PaymentScheduler {
+  private readonly logger = createLogger('payment-scheduler');
+  private wallets?: ScheduledPaymentWallets;
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private readonly store: PaymentScheduleStore = new PaymentScheduleDatabase(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Create a schedule; recipients must already be resolved to an address
+   */
+  async create(tenantId: string, input: unknown): Promise<PaymentSchedule> {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new PaymentScheduleError('INVALID_SCHEDULE', 'Schedule must be an object');
+    }
+    const { toAddress, amount, token, cron, maxRuns, description } = input as PaymentScheduleInput;
+    const runAt = toTimestamp((input as PaymentScheduleInput).runAt, 'runAt');
+    const endAt = toTimestamp((input as PaymentScheduleInput).endAt, 'endAt');
+    const now = this.now();
+
+    if (typeof toAddress !== 'string' || !toAddress.trim()) {
+      throw new PaymentScheduleError('INVALID_SCHEDULE', 'toAddress is required');
+    }
+    if (typeof amount !== 'string' || !AMOUNT_PATTERN.test(amount) || Number(amount) <= 0) {
+      throw new PaymentScheduleError('INVALID_SCHEDULE', 'amount must be a positive decimal string');
+    }
+    if ((runAt === undefined) === (cron === undefined)) {
+      throw new PaymentScheduleError('INVALID_SCHEDULE', 'Provide either runAt for a one-off payment or cron for a recurring one');
+    }
+    if (maxRuns !== undefined && (!Number.isInteger(maxRuns) || maxRuns < 1)) {
+      throw new PaymentScheduleError('INVALID_SCHEDULE', 'maxRuns must be a positive integer');
+    }
+    if (endAt !== undefined && endAt <= now) {
+      throw new PaymentScheduleError('INVALID_SCHEDULE', 'endAt must be in the future');
+    }
+
+    let nextRunAt: number | null;
+    if (cron !== undefined) {
+      if (typeof cron !== 'string') {
+        throw new PaymentScheduleError('INVALID_SCHEDULE', 'cron must be a string');
+      }
+      nextRunAt = nextCronOccurrence(cron, now);
+      if (nextRunAt === null || (endAt !== undefined && nextRunAt > endAt)) {
+        throw new PaymentScheduleError('INVALID_SCHEDULE', 'The cron expression has no run before the end date');
+      }
+    } else {
+      if (runAt! <= now) {
+        throw new PaymentScheduleError('INVALID_SCHEDULE', 'runAt must be in the future');
+      }
+      nextRunAt = runAt!;
+    }
+
+    const schedule = await this.store.create({
+      tenantId,
+      toAddress: toAddress.trim(),
+      amount,
+      token: !token || NATIVE_TOKEN_NAMES.includes(token.toLowerCase()) ? 'native' : token,
+      runAt,
+      cron: cron?.trim(),
+      endAt,
+      maxRuns,
+      runCount: 0,
+      nextRunAt,
+      status: 'active',
+      description: typeof description === 'string' ? description : undefined
+    });
+
+    this.logger.info(`Scheduled payment ${schedule.id} for tenant ${tenantId}, first run at ${new Date(nextRunAt).toISOString()}`);
+    return schedule;
+  }
+
+  async list(tenantId: string): Promise<PaymentSchedule[]> {
+    return await this.store.list(tenantId);
+  }
+
+  async get(tenantId: string, id: string): Promise<PaymentSchedule> {
+    const schedule = await this.store.get(tenantId, id);
+    if (!schedule) {
+      throw new PaymentScheduleError('SCHEDULE_NOT_FOUND', `Payment schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Most recent runs of a schedule, newest first
+   */
+  async getRuns(tenantId: string, id: string, limit = 50): Promise<PaymentRun[]> {
+    await this.get(tenantId, id);
+    return await this.store.listRuns(tenantId, id, limit);
+  }
+
+  async pause(tenantId: string, id: string): Promise<PaymentSchedule> {
+    const schedule = await this.get(tenantId, id);
+    if (schedule.status !== 'active') {
+      throw new PaymentScheduleError('INVALID_SCHEDULE_STATE', `Payment schedule ${id} is ${schedule.status}`);
+    }
+    return await this.store.update(tenantId, id, { status: 'paused' });
+  }
+
+  /**
+   * Resume a paused schedule; runs missed while paused are skipped, except
+   * that an overdue one-off payment is sent on the next tick
+   */
+  async resume(tenantId: string, id: string): Promise<PaymentSchedule> {
+    const schedule = await this.get(tenantId, id);
+    if (schedule.status !== 'paused') {
+      throw new PaymentScheduleError('INVALID_SCHEDULE_STATE', `Payment schedule ${id} is ${schedule.status}`);
+    }
+
+    const now = this.now();
+    const nextRunAt = schedule.cron ? nextCronOccurrence(schedule.cron, now) : Math.max(schedule.runAt!, now);
+    if (nextRunAt === null || (schedule.endAt !== undefined && nextRunAt > schedule.endAt)) {
+      return await this.store.update(tenantId, id, { status: 'completed', nextRunAt: null });
+    }
+    return await this.store.update(tenantId, id, { status: 'active', nextRunAt });
+  }
+
+  async cancel(tenantId: string, id: string): Promise<PaymentSchedule> {
+    const schedule = await this.get(tenantId, id);
+    if (schedule.status === 'completed' || schedule.status === 'cancelled') {
+      throw new PaymentScheduleError('INVALID_SCHEDULE_STATE', `Payment schedule ${id} is already ${schedule.status}`);
+    }
+    return await this.store.update(tenantId, id, { status: 'cancelled', nextRunAt: null });
+  }
+
+  /**
+   * Start sending due payments from the given wallets
+   */
+  start(wallets: ScheduledPaymentWallets): void {
+    this.wallets = wallets;
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.timer.unref();
+    this.logger.info(`Payment scheduler started (every ${TICK_INTERVAL_MS / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Send every payment that is due
+   * @returns Number of runs this instance executed
+   */
+  async tick(): Promise<number> {
+    if (!this.wallets || this.ticking) return 0;
+    this.ticking = true;
+    let executed = 0;
+
+    try {
+      const tenants = await this.wallets.tenants();
+      if (tenants.length === 0) return 0;
+
+      for (const schedule of await this.store.listDue(tenants, this.now())) {
+        if (await this.run(schedule)) executed++;
+      }
+    } catch (error) {
+      this.logger.error('Payment scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+
+    return executed;
+  }
+
+  private async run(schedule: PaymentSchedule): Promise<boolean> {
+    const scheduledFor = schedule.nextRunAt!;
+    const runCount = schedule.runCount + 1;
+
+    // Missed occurrences (e.g. while the service was down) are not made up
+    const next = schedule.cron ? nextCronOccurrence(schedule.cron, Math.max(this.now(), scheduledFor)) : null;
+    const finished = next === null
+      || (schedule.maxRuns !== undefined && runCount >= schedule.maxRuns)
+      || (schedule.endAt !== undefined && next > schedule.endAt);
+
+    // Advance the schedule before sending so a payment is never sent twice
+    const claimed = await this.store.claim(schedule.id, scheduledFor, {
+      runCount,
+      nextRunAt: finished ? null : next,
+      status: finished ? 'completed' : 'active'
+    });
+    if (!claimed) return false;
+
+    let outcome: Pick<PaymentRun, 'state' | 'transactionId' | 'error'>;
+    try {
+      outcome = await this.wallets!.send(schedule);
+      this.logger.info(`Scheduled payment ${schedule.id} run ${runCount}: ${outcome.state}`);
+    } catch (error) {
+      outcome = { state: 'failed', error: error instanceof Error ? error.message : String(error) };
+      this.logger.warn(`Scheduled payment ${schedule.id} run ${runCount} failed: ${outcome.error}`);
+    }
+
+    await this.store.recordRun({
+      scheduleId: schedule.id,
+      tenantId: schedule.tenantId,
+      scheduledFor,
+      executedAt: this.now(),
+      ...outcome
+    });
+    return true;
+  }
+}
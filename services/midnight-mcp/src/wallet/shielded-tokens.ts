@@ -11,7 +11,8 @@ import { nativeToken } from '@midnight-ntwrk/ledger';
 import { tokenType } from '@midnight-ntwrk/compact-runtime';
 import { convertBigIntToDecimal, convertDecimalToBigInt } from './utils.js';
 import type { WalletManager } from './index.js';
-import type { SendFundsResult, TokenInfo, TokenBalance, TokenOperationResult, CoinInfo } from '../types/wallet.js';
+import type { SendFundsResult, PendingApprovalResult, TokenInfo, TokenBalance, TokenOperationResult, CoinInfo, TransactionPreview, IdempotencyRequest } from '../types/wallet.js';
+import { attemptCheck, balanceCheck, buildPreview, previewCheck, summarizeTransfer } from './transaction-preview.js';
 import { TokenRegistryDatabase } from './db/TokenRegistryDatabase.js';
 import { randomBytes } from 'crypto';
 import { 
@@ -46,10 +47,10 @@ export class ShieldedTokenManager {
   private readonly walletManager: WalletManager;
   private readonly tokenRegistryDb: TokenRegistryDatabase;
   
-  constructor(walletManager: WalletManager) {
+  constructor(walletManager: WalletManager, tenantId?: string) {
     this.logger = createLogger('shielded-token-manager');
     this.walletManager = walletManager;
-    this.tokenRegistryDb = new TokenRegistryDatabase();
+    this.tokenRegistryDb = new TokenRegistryDatabase(tenantId);
     
     // Auto-register tokens from environment variables
     this.registerTokensFromEnv().catch(error => {
@@ -185,17 +186,49 @@ export class ShieldedTokenManager {
   }
   
   /**
-   * Send tokens to another address
+   * Send tokens to another address, parking the transfer when it needs approval
    * @param tokenName Token name
    * @param toAddress Recipient address
    * @param amount Amount to send
-   * @returns Transaction result
+   * @param idempotency Idempotency key of the request, stored on the transaction it creates
+   * @returns Transaction result, or the parked transfer when the amount needs the bot owner's approval
    */
   public async sendToken(
+    tokenName: string, 
+    toAddress: string, 
+    amount: string,
+    idempotency?: IdempotencyRequest
+  ): Promise<SendFundsResult | PendingApprovalResult> {
+    const tokenInfo = await this.getTokenInfo(tokenName);
+    if (tokenInfo) {
+      const decimals = tokenInfo.decimals || 6;
+      const approvalThreshold = this.walletManager.getSpendingPolicy()
+        .approvalRequired(tokenName, convertDecimalToBigInt(amount, decimals), decimals);
+      if (approvalThreshold) {
+        return await this.walletManager.requestApproval(tokenName, toAddress, amount, decimals, approvalThreshold, idempotency);
+      }
+    }
+    
+    if (idempotency) {
+      return await this.walletManager.transferTokenOnce(tokenName, toAddress, amount, idempotency);
+    }
+    return await this.transferToken(tokenName, toAddress, amount);
+  }
+  
+  /**
+   * Transfer tokens to another address right away
+   * @param tokenName Token name
+   * @param toAddress Recipient address
+   * @param amount Amount to send
+   * @returns Transaction result
+   */
+  public async transferToken(
     tokenName: string, 
     toAddress: string, 
     amount: string
   ): Promise<SendFundsResult> {
+    let reservationId: string | undefined;
+    
     try {
       const tokenInfo = await this.getTokenInfo(tokenName);
       if (!tokenInfo) {
@@ -209,6 +242,9 @@ export class ShieldedTokenManager {
         throw new Error('Amount must be greater than 0');
       }
       
+      // Enforce the spending policy before building the transfer
+      reservationId = await this.walletManager.getSpendingPolicy().reserve(tokenName, toAddress, amountBigInt, decimals);
+      
       // Check if wallet is ready
       if (!this.walletManager.isReady()) {
         throw new Error('Wallet not ready');
@@ -260,10 +296,65 @@ export class ShieldedTokenManager {
       };
     } catch (error) {
       this.logger.error(`Failed to send ${tokenName} tokens:`, error);
+      if (reservationId) {
+        this.walletManager.getSpendingPolicy().release(reservationId);
+      }
       throw error;
     }
   }
   
+  /**
+   * Build a token transfer and check it without proving or submitting it
+   * @param tokenName Token name
+   * @param toAddress Recipient address
+   * @param amount Amount to send
+   * @returns The checks sendToken would pass or fail, with the fee and coins it would spend
+   */
+  public async previewTransfer(
+    tokenName: string,
+    toAddress: string,
+    amount: string
+  ): Promise<TransactionPreview> {
+    const tokenInfo = await this.getTokenInfo(tokenName);
+    if (!tokenInfo) {
+      return buildPreview('sendToken', [
+        previewCheck('token_registered', false, `Token '${tokenName}' not found in registry`)
+      ]);
+    }
+    
+    const decimals = tokenInfo.decimals || 6;
+    const amountBigInt = convertDecimalToBigInt(amount, decimals);
+    const tokenTypeHex = tokenInfo.tokenTypeHex || this.generateTokenType(tokenInfo.domainSeparator, tokenInfo.contractAddress);
+    const walletState = this.walletManager['walletState'];
+    const spendingPolicy = this.walletManager.getSpendingPolicy();
+    
+    const { check: funds, balance } = balanceCheck(tokenName, walletState?.balances?.[tokenTypeHex] ?? 0n, amountBigInt, decimals);
+    const checks = [
+      previewCheck('token_registered', true, ''),
+      await attemptCheck('spending_policy', () => spendingPolicy.check(tokenName, toAddress, amountBigInt, decimals)),
+      funds
+    ];
+    
+    // Building the transfer selects the coins and budgets the fee; only worth it with enough funds
+    let summary = {};
+    if (funds.passed) {
+      checks.push(await attemptCheck('build_transaction', async () => {
+        const wallet = this.walletManager['wallet'];
+        if (!wallet) throw new Error('Wallet instance not available');
+        const recipe = await wallet.transferTransaction([
+          { amount: amountBigInt, type: tokenTypeHex, receiverAddress: toAddress }
+        ]);
+        summary = summarizeTransfer(recipe.transaction, walletState);
+      }));
+    }
+    
+    return buildPreview('sendToken', checks, {
+      balances: [balance],
+      approvalThreshold: spendingPolicy.approvalRequired(tokenName, amountBigInt, decimals) ?? undefined,
+      ...summary
+    });
+  }
+  
   /**
    * List all registered tokens with their balances
    * @returns Array of token balances
@@ -378,6 +469,14 @@ export class ShieldedTokenManager {
     return allTokens.map(token => token.name);
   }
   
+  /**
+   * Get every registered token with its full registry record
+   * @returns Array of token information
+   */
+  public async getRegisteredTokens(): Promise<TokenInfo[]> {
+    return await this.tokenRegistryDb.getAllTokens();
+  }
+  
   /**
    * Check if a token is registered
    * @param tokenName Token name
@@ -0,0 +1,378 @@
+/**
+ * Spending Policy Engine
+ *
+ * Guards outgoing transfers of a wallet with per-transaction caps, rolling
+ * daily/weekly limits per token, destination allow/deny lists and a cooldown
+ * between transfers. Transfers above a token's approval threshold are parked
+ * for the bot owner instead of being sent. Limits are decimal strings in the
+ * unit of the token they apply to; tDUST is keyed as 'native'.
+ */
+
+export const NATIVE_TOKEN_KEY = 'native';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+export interface TokenSpendingLimits {
+  perTransaction?: string;
+  daily?: string;       // Rolling 24 hours
+  weekly?: string;      // Rolling 7 days
+  approvalThreshold?: string;  // Larger transfers wait for the bot owner's approval
+}
+
+export interface SpendingPolicy {
+  limits?: Record<string, TokenSpendingLimits>;  // Keyed by token name or 'native'
+  allowedDestinations?: string[];                // When non-empty, only these addresses can receive
+  deniedDestinations?: string[];
+  cooldownSeconds?: number;                      // Minimum time between two transfers of any token
+}
+
+export type SpendingPolicyRule =
+  | 'destination_denied'
+  | 'destination_not_allowed'
+  | 'cooldown'
+  | 'per_transaction_cap'
+  | 'daily_limit'
+  | 'weekly_limit';
+
+export interface SpendingPolicyViolation {
+  code: 'SPENDING_POLICY_VIOLATION';
+  rule: SpendingPolicyRule;
+  message: string;
+  token: string;
+  destination: string;
+  amount: string;
+  limit?: string;
+  used?: string;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * A transfer was blocked by the tenant's spending policy
+ */
+export class SpendingPolicyError extends Error {
+  public readonly code = 'SPENDING_POLICY_VIOLATION';
+
+  constructor(public readonly violation: Omit<SpendingPolicyViolation, 'code' | 'message'>, message: string) {
+    super(message);
+    this.name = 'SpendingPolicyError';
+  }
+
+  toJSON(): SpendingPolicyViolation {
+    return { code: this.code, message: this.message, ...this.violation };
+  }
+}
+
+/**
+ * The policy document is malformed
+ */
+export class InvalidSpendingPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSpendingPolicyError';
+  }
+}
+
+interface SpendRecord {
+  id: string;
+  token: string;
+  amount: bigint;
+  decimals: number;
+  at: number;
+}
+
+/**
+ * A spend within the rolling windows, in a form that survives JSON
+ */
+export interface SpendLedgerEntry {
+  token: string;
+  amount: string; // Base units
+  decimals: number;
+  at: number;
+}
+
+/**
+ * Persists the ledger, so the rolling windows survive a restart
+ */
+export type SpendLedgerSaver = (entries: SpendLedgerEntry[]) => Promise<void>;
+
+/**
+ * Parse a decimal string into base units, ignoring digits beyond the token's precision
+ */
+function toBaseUnits(value: string, decimals: number): bigint {
+  const [whole, fraction = ''] = value.split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0').substring(0, decimals));
+}
+
+function fromBaseUnits(value: bigint, decimals: number): string {
+  if (decimals === 0) return value.toString();
+  const digits = value.toString().padStart(decimals + 1, '0');
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+  return fraction ? `${digits.slice(0, -decimals)}.${fraction}` : digits.slice(0, -decimals);
+}
+
+/**
+ * Check a policy document and return it in normalized form
+ */
+export function validateSpendingPolicy(input: unknown): SpendingPolicy {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new InvalidSpendingPolicyError('Policy must be an object');
+  }
+  const policy = input as SpendingPolicy;
+
+  const limits: Record<string, TokenSpendingLimits> = {};
+  for (const [token, tokenLimits] of Object.entries(policy.limits || {})) {
+    if (!tokenLimits || typeof tokenLimits !== 'object') {
+      throw new InvalidSpendingPolicyError(`Limits for '${token}' must be an object`);
+    }
+    for (const field of ['perTransaction', 'daily', 'weekly', 'approvalThreshold'] as const) {
+      const value: unknown = (tokenLimits as TokenSpendingLimits)[field];
+      if (value !== undefined && (typeof value !== 'string' || !AMOUNT_PATTERN.test(value))) {
+        throw new InvalidSpendingPolicyError(`limits.${token}.${field} must be a decimal string`);
+      }
+    }
+    const { perTransaction, daily, weekly, approvalThreshold } = tokenLimits as TokenSpendingLimits;
+    limits[token] = { perTransaction, daily, weekly, approvalThreshold };
+  }
+
+  for (const field of ['allowedDestinations', 'deniedDestinations'] as const) {
+    const value: unknown = policy[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some(address => typeof address !== 'string'))) {
+      throw new InvalidSpendingPolicyError(`${field} must be an array of addresses`);
+    }
+  }
+
+  if (policy.cooldownSeconds !== undefined && (!Number.isInteger(policy.cooldownSeconds) || policy.cooldownSeconds < 0)) {
+    throw new InvalidSpendingPolicyError('cooldownSeconds must be a non-negative integer');
+  }
+
+  return {
+    limits,
+    allowedDestinations: policy.allowedDestinations?.map(address => address.trim()),
+    deniedDestinations: policy.deniedDestinations?.map(address => address.trim()),
+    cooldownSeconds: policy.cooldownSeconds
+  };
+}
+
+/**
+ * Per-wallet policy and spend ledger.
+ *
+ * authorize() checks a transfer and reserves its amount in the rolling windows
+ * before anything is submitted, so concurrent sends can't overshoot a limit;
+ * the reservation is released again if the transfer fails. With a saver set,
+ * every change to the ledger is saved in order; reserve() waits for the save.
+ */
+export class SpendingPolicyEngine {
+  private policy: SpendingPolicy | null = null;
+  private ledger: SpendRecord[] = [];
+  private sequence = 0;
+  private save?: SpendLedgerSaver;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  getPolicy(): SpendingPolicy | null {
+    return this.policy;
+  }
+
+  setPolicy(policy: unknown): SpendingPolicy {
+    this.policy = validateSpendingPolicy(policy);
+    return this.policy;
+  }
+
+  clearPolicy(): void {
+    this.policy = null;
+  }
+
+  /**
+   * Amounts spent per token within the rolling windows
+   */
+  getUsage(): Record<string, { daily: string; weekly: string }> {
+    this.prune();
+    const usage: Record<string, { daily: string; weekly: string }> = {};
+    const tokens = new Set(this.ledger.map(record => record.token));
+
+    for (const token of tokens) {
+      const decimals = this.ledger.find(record => record.token === token)!.decimals;
+      usage[token] = {
+        daily: fromBaseUnits(this.spentSince(token, this.now() - DAY_MS), decimals),
+        weekly: fromBaseUnits(this.spentSince(token, this.now() - WEEK_MS), decimals)
+      };
+    }
+
+    return usage;
+  }
+
+  /**
+   * Spends still counting against the rolling windows, to carry them to another instance
+   */
+  exportLedger(): SpendLedgerEntry[] {
+    this.prune();
+    return this.ledger.map(({ token, amount, decimals, at }) => ({ token, amount: amount.toString(), decimals, at }));
+  }
+
+  /**
+   * Save the ledger with this saver whenever it changes
+   */
+  persistTo(save: SpendLedgerSaver): void {
+    this.save = save;
+  }
+
+  /**
+   * Count spends recorded earlier or by another instance against the rolling windows
+   */
+  importLedger(entries: SpendLedgerEntry[]): void {
+    for (const entry of entries) {
+      this.ledger.push({ id: `spend_${++this.sequence}`, token: entry.token, amount: BigInt(entry.amount), decimals: entry.decimals, at: entry.at });
+    }
+    this.ledger.sort((a, b) => a.at - b.at);
+    this.prune();
+  }
+
+  /**
+   * Approval threshold a transfer exceeds, if any
+   * @param token Token name, or 'native' for tDUST
+   * @param amount Amount in base units of the token
+   * @param decimals Decimal places of the token
+   * @returns The exceeded threshold, or null when the transfer can go ahead
+   */
+  approvalRequired(token: string, amount: bigint, decimals: number): string | null {
+    const threshold = this.policy?.limits?.[token]?.approvalThreshold;
+    if (threshold === undefined) return null;
+    return amount > toBaseUnits(threshold, decimals) ? threshold : null;
+  }
+
+  /**
+   * Check a transfer against the policy and reserve it
+   * @param token Token name, or 'native' for tDUST
+   * @param destination Recipient address
+   * @param amount Amount in base units of the token
+   * @param decimals Decimal places of the token
+   * @returns Reservation id to release if the transfer fails
+   * @throws SpendingPolicyError naming the rule that blocked the transfer
+   */
+  authorize(token: string, destination: string, amount: bigint, decimals: number): string {
+    const at = this.now();
+    this.evaluate(token, destination, amount, decimals, at);
+
+    const id = `spend_${++this.sequence}`;
+    this.ledger.push({ id, token, amount, decimals, at });
+    this.changed();
+    return id;
+  }
+
+  /**
+   * Reserve a transfer like authorize() and wait until the reservation is saved
+   * @throws SpendingPolicyError naming the rule that blocked the transfer, or
+   * the save error if the reservation could not be saved
+   */
+  async reserve(token: string, destination: string, amount: bigint, decimals: number): Promise<string> {
+    const id = this.authorize(token, destination, amount, decimals);
+    try {
+      await this.saving;
+    } catch (error) {
+      this.release(id);
+      throw error;
+    }
+    return id;
+  }
+
+  /**
+   * Check a transfer against the policy without reserving it, for dry runs
+   * @throws SpendingPolicyError naming the rule that would block the transfer
+   */
+  check(token: string, destination: string, amount: bigint, decimals: number): void {
+    this.evaluate(token, destination, amount, decimals, this.now());
+  }
+
+  private evaluate(token: string, destination: string, amount: bigint, decimals: number, at: number): void {
+    this.prune();
+    const policy = this.policy;
+
+    if (policy) {
+      const attempted = fromBaseUnits(amount, decimals);
+      const address = destination.trim();
+      const block = (rule: SpendingPolicyRule, message: string, details: Partial<SpendingPolicyViolation> = {}) => {
+        throw new SpendingPolicyError({ rule, token, destination: address, amount: attempted, ...details }, message);
+      };
+
+      if (policy.deniedDestinations?.includes(address)) {
+        block('destination_denied', `Transfers to ${address} are denied by the spending policy`);
+      }
+      if (policy.allowedDestinations?.length && !policy.allowedDestinations.includes(address)) {
+        block('destination_not_allowed', `${address} is not on the spending policy's allowed destinations`);
+      }
+
+      if (policy.cooldownSeconds) {
+        const last = this.ledger.reduce((latest, record) => Math.max(latest, record.at), 0);
+        const readyAt = last + policy.cooldownSeconds * 1000;
+        if (last && readyAt > at) {
+          const retryAfterSeconds = Math.ceil((readyAt - at) / 1000);
+          block('cooldown', `Spending policy requires ${policy.cooldownSeconds}s between transfers; retry in ${retryAfterSeconds}s`, { retryAfterSeconds });
+        }
+      }
+
+      const limits = policy.limits?.[token];
+      if (limits?.perTransaction !== undefined) {
+        const cap = toBaseUnits(limits.perTransaction, decimals);
+        if (amount > cap) {
+          block('per_transaction_cap', `${attempted} ${token} exceeds the per-transaction cap of ${limits.perTransaction}`, { limit: limits.perTransaction });
+        }
+      }
+
+      for (const [rule, field, windowMs, label] of [
+        ['daily_limit', 'daily', DAY_MS, 'daily'],
+        ['weekly_limit', 'weekly', WEEK_MS, 'weekly']
+      ] as const) {
+        const limit = limits?.[field];
+        if (limit === undefined) continue;
+
+        const spent = this.spentSince(token, at - windowMs);
+        if (spent + amount > toBaseUnits(limit, decimals)) {
+          const used = fromBaseUnits(spent, decimals);
+          const oldest = this.ledger.find(record => record.token === token && record.at > at - windowMs);
+          block(rule, `${attempted} ${token} would exceed the ${label} limit of ${limit} (${used} already spent)`, {
+            limit,
+            used,
+            retryAfterSeconds: oldest ? Math.ceil((oldest.at + windowMs - at) / 1000) : undefined
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop a reservation for a transfer that did not go through
+   */
+  release(reservationId: string): void {
+    const before = this.ledger.length;
+    this.ledger = this.ledger.filter(record => record.id !== reservationId);
+    if (this.ledger.length !== before) {
+      this.changed();
+    }
+  }
+
+  private spentSince(token: string, since: number): bigint {
+    return this.ledger
+      .filter(record => record.token === token && record.at > since)
+      .reduce((total, record) => total + record.amount, 0n);
+  }
+
+  /**
+   * Queue a save of the ledger as it is when the save runs
+   */
+  private changed(): void {
+    const save = this.save;
+    if (!save) return;
+
+    this.saving = this.saving.catch(() => undefined).then(() => save(this.exportLedger()));
+    // Failures surface through reserve(); don't report them as unhandled
+    this.saving.catch(() => undefined);
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - WEEK_MS;
+    this.ledger = this.ledger.filter(record => record.at > cutoff);
+  }
+}
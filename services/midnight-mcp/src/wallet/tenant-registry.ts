@@ -0,0 +1,407 @@
+/**
+ * Tenant Registry
+ *
+ * Every registered tenant is kept in the database so the service remembers
+ * them across restarts, but only the wallets in use are kept open. A tenant's
+ * wallet is opened from its saved state the first time it is accessed and
+ * closed again once it has been idle for the configured TTL; when the
+ * instance is at its limit of open wallets the least recently used one is
+ * closed to make room. A wallet is never closed under an operation: every
+ * acquire is paired with a release, and wallets with operations in flight are
+ * skipped by both evictions, so the limit can be exceeded while they run.
+ * Work an operation leaves running in the background, such as a transfer
+ * still being proved and submitted, keeps the wallet in use until it settles.
+ *
+ * Tenants can move between MCP instances: an instance hands a tenant over
+ * after saving its wallet, and the instance it moves to adopts the stored
+ * record.
+ */
+
+import { createLogger } from '../logger/index.js';
+import { TenantDatabase } from './db/TenantDatabase.js';
+import type { SpendLedgerEntry, SpendingPolicy } from './spending-policy.js';
+
+export const DEFAULT_IDLE_TTL_MS = 30 * 60 * 1000;
+export const DEFAULT_MAX_LOADED_WALLETS = 100;
+
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface TenantConfig {
+  version?: number; // Bot configuration version on the orchestrator
+  tier?: string;
+  features?: Record<string, boolean>;
+  updatedAt: Date;
+}
+
+export interface TenantRecord {
+  tenantId: string;
+  name?: string;
+  sealedSeed: string; // Sealed envelope (enc:v1:...)
+  config?: TenantConfig;
+  spendingPolicy?: SpendingPolicy | null;
+  spendLedger?: SpendLedgerEntry[]; // Spends still counting against the policy's rolling windows
+  createdAt: Date;
+  lastAccessedAt: Date;
+  isActive: boolean;
+}
+
+export interface TenantStore {
+  list(): Promise<TenantRecord[]>;
+  create(record: TenantRecord): Promise<void>;
+  /** Store a tenant moved here from another instance, taking over its record if there is one */
+  claim(record: TenantRecord): Promise<void>;
+  update(tenantId: string, changes: Partial<Omit<TenantRecord, 'tenantId' | 'createdAt'>>): Promise<void>;
+  delete(tenantId: string): Promise<void>;
+}
+
+/**
+ * What the registry needs from an open wallet
+ */
+export interface TenantWalletHandle {
+  close(): Promise<void>;
+  /** Settles once the work running in the background has; null if there is none */
+  backgroundWork?(): Promise<void> | null;
+}
+
+export interface TenantRegistryOptions {
+  idleTtlMs?: number;
+  maxLoadedWallets?: number;
+  now?: () => number;
+}
+
+export interface TenantRegistryStats {
+  totalTenants: number;
+  loadedTenants: number;
+  dormantTenants: number;
+  maxLoadedWallets: number;
+  idleTtlMs: number;
+}
+
+/**
+ * Persistent tenant records with their wallets opened on demand
+ */
+export class TenantRegistry<W extends TenantWalletHandle> {
+  private readonly logger = createLogger('tenant-registry');
+  private readonly records = new Map<string, TenantRecord>();
+  private readonly loaded = new Map<string, W>(); // Least recently used first
+  private readonly loading = new Map<string, Promise<W>>();
+  private readonly inUse = new Map<string, number>(); // Operations in flight per tenant
+  private readonly idleWaiters = new Map<string, Array<() => void>>();
+  private restoring?: Promise<void>;
+  private sweeper?: NodeJS.Timeout;
+
+  readonly idleTtlMs: number;
+  readonly maxLoadedWallets: number;
+  private readonly now: () => number;
+
+  /**
+   * @param open Opens a tenant's wallet from its saved state
+   */
+  constructor(
+    private readonly open: (record: TenantRecord) => Promise<W>,
+    private readonly store: TenantStore = new TenantDatabase(),
+    options: TenantRegistryOptions = {}
+  ) {
+    this.idleTtlMs = options.idleTtlMs ?? DEFAULT_IDLE_TTL_MS;
+    this.maxLoadedWallets = options.maxLoadedWallets ?? DEFAULT_MAX_LOADED_WALLETS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Load the tenant records from the store; later calls wait for the first load
+   */
+  async restore(): Promise<void> {
+    if (!this.restoring) {
+      this.restoring = this.store.list().then(records => {
+        for (const record of records) {
+          this.records.set(record.tenantId, record);
+        }
+        this.logger.info(`Restored ${records.length} tenants`);
+      });
+      // Let the next caller retry if the store was unavailable
+      this.restoring.catch(() => { this.restoring = undefined; });
+    }
+    await this.restoring;
+  }
+
+  async has(tenantId: string): Promise<boolean> {
+    await this.restore();
+    return this.records.has(tenantId);
+  }
+
+  async get(tenantId: string): Promise<TenantRecord | null> {
+    await this.restore();
+    return this.records.get(tenantId) || null;
+  }
+
+  async list(): Promise<TenantRecord[]> {
+    await this.restore();
+    return Array.from(this.records.values());
+  }
+
+  isLoaded(tenantId: string): boolean {
+    return this.loaded.has(tenantId);
+  }
+
+  /**
+   * Wallets that are currently open, least recently used first
+   */
+  loadedWallets(): Array<[string, W]> {
+    return Array.from(this.loaded.entries());
+  }
+
+  /**
+   * Store a new tenant together with the wallet opened for it
+   */
+  async register(record: TenantRecord, wallet: W): Promise<void> {
+    await this.restore();
+    await this.store.create(record);
+    this.records.set(record.tenantId, record);
+    this.loaded.set(record.tenantId, wallet);
+    await this.evictOverflow();
+  }
+
+  /**
+   * Persist changes to a tenant's record
+   * @returns The updated record, or null if the tenant is unknown
+   */
+  async update(
+    tenantId: string,
+    changes: Partial<Omit<TenantRecord, 'tenantId' | 'createdAt'>>
+  ): Promise<TenantRecord | null> {
+    const record = await this.get(tenantId);
+    if (!record) return null;
+
+    await this.store.update(tenantId, changes);
+    Object.assign(record, changes);
+    return record;
+  }
+
+  /**
+   * Close a tenant's wallet, once the operations on it have finished, and forget the tenant
+   */
+  async unregister(tenantId: string): Promise<boolean> {
+    if (!await this.has(tenantId)) return false;
+
+    await this.loading.get(tenantId)?.catch(() => undefined);
+    await this.whenIdle(tenantId);
+
+    await this.store.delete(tenantId);
+    this.records.delete(tenantId);
+    const wallet = this.loaded.get(tenantId);
+    this.loaded.delete(tenantId);
+    if (wallet) await this.closeWallet(tenantId, wallet);
+    return true;
+  }
+
+  /**
+   * Take over a tenant moved here from another instance; its wallet stays closed until first access
+   */
+  async adopt(record: TenantRecord): Promise<void> {
+    await this.restore();
+    await this.store.claim(record);
+    this.records.set(record.tenantId, record);
+  }
+
+  /**
+   * Close a tenant's wallet, saving its state once the operations on it have
+   * finished, and forget the tenant without removing it from the store so
+   * another instance can adopt it
+   * @returns The handed over record, or null if the tenant is unknown
+   */
+  async handOver(tenantId: string): Promise<TenantRecord | null> {
+    const record = await this.get(tenantId);
+    if (!record) return null;
+
+    // Let a wallet that is being opened finish so it can be closed cleanly
+    await this.loading.get(tenantId)?.catch(() => undefined);
+    await this.whenIdle(tenantId);
+    await this.evict(tenantId);
+    this.records.delete(tenantId);
+    return record;
+  }
+
+  /**
+   * Get a tenant's wallet for an operation, opening it if it is dormant.
+   * The wallet stays open until the operation gives it back with release().
+   * @returns The wallet, or null if the tenant is unknown
+   */
+  async acquire(tenantId: string): Promise<W | null> {
+    const record = await this.get(tenantId);
+    if (!record) return null;
+    record.lastAccessedAt = new Date(this.now());
+
+    // Count the operation before opening so the wallet can't be evicted while it is being opened
+    this.inUse.set(tenantId, (this.inUse.get(tenantId) ?? 0) + 1);
+    try {
+      const wallet = this.loaded.get(tenantId);
+      if (wallet) {
+        // Move to the most recently used end
+        this.loaded.delete(tenantId);
+        this.loaded.set(tenantId, wallet);
+        return wallet;
+      }
+
+      let loading = this.loading.get(tenantId);
+      if (!loading) {
+        loading = this.load(record).finally(() => this.loading.delete(tenantId));
+        this.loading.set(tenantId, loading);
+      }
+      return await loading;
+    } catch (error) {
+      this.release(tenantId);
+      throw error;
+    }
+  }
+
+  /**
+   * Give back a wallet acquired for an operation that has finished
+   */
+  release(tenantId: string): void {
+    const background = this.loaded.get(tenantId)?.backgroundWork?.();
+    if (background) {
+      void background.finally(() => this.release(tenantId));
+      return;
+    }
+
+    const count = (this.inUse.get(tenantId) ?? 0) - 1;
+    if (count > 0) {
+      this.inUse.set(tenantId, count);
+      return;
+    }
+
+    this.inUse.delete(tenantId);
+    // An operation that ran past the idle TTL still counts as an access
+    const record = this.records.get(tenantId);
+    if (record) record.lastAccessedAt = new Date(this.now());
+
+    const waiters = this.idleWaiters.get(tenantId) ?? [];
+    this.idleWaiters.delete(tenantId);
+    waiters.forEach(resolve => resolve());
+
+    // Make the room that couldn't be made while every wallet was in use
+    if (this.loaded.size > this.maxLoadedWallets) {
+      this.evictOverflow().catch(error => this.logger.error('Failed to close wallets over the limit:', error));
+    }
+  }
+
+  /**
+   * Whether operations are running on a tenant's wallet
+   */
+  isInUse(tenantId: string): boolean {
+    return this.inUse.has(tenantId);
+  }
+
+  private whenIdle(tenantId: string): Promise<void> {
+    if (!this.isInUse(tenantId)) return Promise.resolve();
+    return new Promise(resolve => {
+      this.idleWaiters.set(tenantId, [...(this.idleWaiters.get(tenantId) ?? []), resolve]);
+    });
+  }
+
+  private async load(record: TenantRecord): Promise<W> {
+    this.logger.info(`Opening wallet of dormant tenant ${record.tenantId}`);
+    const wallet = await this.open(record);
+    this.loaded.set(record.tenantId, wallet);
+    await this.evictOverflow();
+    return wallet;
+  }
+
+  /**
+   * Close least recently used wallets until the limit is met, skipping those in use
+   */
+  private async evictOverflow(): Promise<void> {
+    while (this.loaded.size > this.maxLoadedWallets) {
+      const tenantId = Array.from(this.loaded.keys()).find(id => !this.isInUse(id));
+      if (!tenantId) {
+        this.logger.warn(`${this.loaded.size} wallets are open, over the limit of ${this.maxLoadedWallets}, as all are in use`);
+        return;
+      }
+      await this.evict(tenantId);
+    }
+  }
+
+  private async evict(tenantId: string): Promise<void> {
+    const wallet = this.loaded.get(tenantId);
+    if (!wallet) return;
+
+    this.loaded.delete(tenantId);
+    await this.closeWallet(tenantId, wallet);
+
+    const record = this.records.get(tenantId);
+    if (record) {
+      try {
+        await this.store.update(tenantId, { lastAccessedAt: record.lastAccessedAt });
+      } catch (error) {
+        this.logger.warn(`Failed to save last access of tenant ${tenantId}:`, error);
+      }
+    }
+  }
+
+  private async closeWallet(tenantId: string, wallet: W): Promise<void> {
+    try {
+      await wallet.close();
+      this.logger.info(`Closed wallet of tenant ${tenantId}`);
+    } catch (error) {
+      this.logger.error(`Failed to close wallet of tenant ${tenantId}:`, error);
+    }
+  }
+
+  /**
+   * Close the wallets that have not been accessed within the idle TTL and have no operations in flight
+   * @returns Number of wallets closed
+   */
+  async evictIdle(): Promise<number> {
+    const cutoff = this.now() - this.idleTtlMs;
+    let evicted = 0;
+
+    for (const tenantId of Array.from(this.loaded.keys())) {
+      const lastAccessedAt = this.records.get(tenantId)?.lastAccessedAt.getTime() ?? 0;
+      if (lastAccessedAt <= cutoff && !this.isInUse(tenantId)) {
+        await this.evict(tenantId);
+        evicted++;
+      }
+    }
+
+    if (evicted > 0) {
+      this.logger.info(`Closed ${evicted} idle tenant wallets`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Start closing idle wallets in the background
+   */
+  start(): void {
+    if (this.sweeper) return;
+    const interval = Math.min(this.idleTtlMs, MAX_SWEEP_INTERVAL_MS);
+    this.sweeper = setInterval(() => {
+      this.evictIdle().catch(error => this.logger.error('Idle wallet sweep failed:', error));
+    }, interval);
+    this.sweeper.unref();
+    this.logger.info(`Tenant registry started (idle TTL ${this.idleTtlMs / 1000}s, at most ${this.maxLoadedWallets} open wallets)`);
+  }
+
+  /**
+   * Stop the idle sweep and close every open wallet
+   */
+  async stop(): Promise<void> {
+    if (this.sweeper) clearInterval(this.sweeper);
+    this.sweeper = undefined;
+
+    for (const tenantId of Array.from(this.loaded.keys())) {
+      await this.evict(tenantId);
+    }
+  }
+
+  async stats(): Promise<TenantRegistryStats> {
+    await this.restore();
+    return {
+      totalTenants: this.records.size,
+      loadedTenants: this.loaded.size,
+      dormantTenants: this.records.size - this.loaded.size,
+      maxLoadedWallets: this.maxLoadedWallets,
+      idleTtlMs: this.idleTtlMs
+    };
+  }
+}
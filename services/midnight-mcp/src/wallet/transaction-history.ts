@@ -0,0 +1,243 @@
+/**
+ * Transaction History
+ *
+ * Filtered, paginated history of a wallet and its CSV/JSON export for
+ * reconciliation. Amounts carry the symbol and decimals of their token from
+ * the registry and DAO operations are labelled.
+ *
+ * netRecorded is the net of the wallet's recorded transactions in the row's
+ * token up to and including it; only sent and completed ones move it. It is
+ * not the wallet balance: it starts at zero, and funds received before the
+ * wallet was tracked or from transfers it never recorded, and fees, don't show
+ * in it. Compare the change in netRecorded over a period with the change in
+ * balance to spot unrecorded movements.
+ */
+
+import { TransactionState, TransactionType, type TokenInfo, type TransactionRecord } from '../types/wallet.js';
+import { NATIVE_TOKEN_KEY } from './spending-policy.js';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 500;
+
+const NATIVE_TOKEN_SYMBOL = 'tDUST';
+const DEFAULT_DECIMALS = 6;
+const SETTLED_STATES = [TransactionState.SENT, TransactionState.COMPLETED];
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  [TransactionType.TRANSFER]: 'Transfer',
+  [TransactionType.CONTRACT_DEPLOY]: 'Contract deployment',
+  [TransactionType.CONTRACT_CALL]: 'Contract call',
+  [TransactionType.DAO_VOTE]: 'DAO vote',
+  [TransactionType.DAO_PROPOSAL]: 'DAO proposal',
+  [TransactionType.TOKEN_MINT]: 'Token mint',
+  [TransactionType.TOKEN_BURN]: 'Token burn',
+  [TransactionType.MARKETPLACE]: 'Marketplace'
+};
+
+export interface TransactionHistoryQuery {
+  startDate?: number;
+  endDate?: number;
+  type?: TransactionType;
+  state?: TransactionState;
+  token?: string;          // Token name, symbol, or 'native'
+  counterparty?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface TransactionHistoryRow {
+  id: string;
+  txIdentifier?: string;
+  date: string;            // ISO 8601, UTC
+  type: TransactionType;
+  label: string;
+  dao: boolean;
+  state: TransactionState;
+  direction: 'outgoing' | 'incoming';
+  counterparty: string;
+  token: string;
+  symbol: string;
+  decimals: number;
+  amount: string;
+  netRecorded: string;     // Net of the recorded transactions in this token so far, not the wallet balance
+  errorMessage?: string;
+}
+
+export interface TransactionHistoryPage {
+  transactions: TransactionHistoryRow[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * The history query string is malformed
+ */
+export class InvalidHistoryQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidHistoryQueryError';
+  }
+}
+
+function parseDate(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value);
+  const timestamp = /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+  if (Number.isNaN(timestamp)) {
+    throw new InvalidHistoryQueryError(`${name} must be an ISO date or a timestamp in milliseconds`);
+  }
+  return timestamp;
+}
+
+function parseCount(name: string, value: unknown, fallback: number, max = Number.MAX_SAFE_INTEGER): number {
+  if (value === undefined || value === '') return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0 || count > max) {
+    throw new InvalidHistoryQueryError(`${name} must be an integer between 0 and ${max}`);
+  }
+  return count;
+}
+
+function parseEnum<T extends string>(name: string, value: unknown, values: T[]): T | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (!values.includes(value as T)) {
+    throw new InvalidHistoryQueryError(`${name} must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Read history filters and pagination from a query string
+ */
+export function parseHistoryQuery(query: Record<string, unknown>): TransactionHistoryQuery {
+  const startDate = parseDate('startDate', query.startDate);
+  const endDate = parseDate('endDate', query.endDate);
+  if (startDate !== undefined && endDate !== undefined && startDate > endDate) {
+    throw new InvalidHistoryQueryError('startDate must not be after endDate');
+  }
+
+  return {
+    startDate,
+    endDate,
+    type: parseEnum('type', query.type, Object.values(TransactionType)),
+    state: parseEnum('state', query.state, Object.values(TransactionState)),
+    token: query.token ? String(query.token) : undefined,
+    counterparty: query.counterparty ? String(query.counterparty).trim() : undefined,
+    limit: parseCount('limit', query.limit, DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT),
+    offset: parseCount('offset', query.offset, 0)
+  };
+}
+
+function toBaseUnits(value: string, decimals: number): bigint {
+  const [whole, fraction = ''] = value.split('.');
+  return BigInt((whole || '0') + fraction.padEnd(decimals, '0').substring(0, decimals));
+}
+
+function fromBaseUnits(value: bigint, decimals: number): string {
+  const sign = value < 0n ? '-' : '';
+  const digits = (value < 0n ? -value : value).toString().padStart(decimals + 1, '0');
+  if (decimals === 0) return sign + digits;
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+  return sign + (fraction ? `${digits.slice(0, -decimals)}.${fraction}` : digits.slice(0, -decimals));
+}
+
+/**
+ * Turn a wallet's transactions into labelled history rows with their net recorded amounts
+ * @param records Transactions sent from or to the wallet, in any order
+ * @param walletAddress Address of the wallet the history is for
+ * @param tokens Registered tokens, to resolve symbols and decimals
+ * @returns Matching rows, newest first
+ */
+export function buildTransactionHistory(
+  records: TransactionRecord[],
+  walletAddress: string,
+  tokens: TokenInfo[],
+  query: Omit<TransactionHistoryQuery, 'limit' | 'offset'>
+): TransactionHistoryRow[] {
+  const nets = new Map<string, bigint>();
+  const entries: TransactionHistoryRow[] = [];
+
+  // The net has to run over everything before the range, so filtering comes after
+  for (const record of [...records].sort((a, b) => a.createdAt - b.createdAt)) {
+    const tokenName: string = record.metadata?.token || NATIVE_TOKEN_KEY;
+    const tokenInfo = tokenName === NATIVE_TOKEN_KEY ? undefined : tokens.find(token => token.name === tokenName);
+    const symbol = tokenName === NATIVE_TOKEN_KEY ? NATIVE_TOKEN_SYMBOL : tokenInfo?.symbol || tokenName;
+    const decimals = tokenInfo?.decimals ?? DEFAULT_DECIMALS;
+    const outgoing = record.fromAddress === walletAddress;
+
+    let net = nets.get(tokenName) ?? 0n;
+    if (SETTLED_STATES.includes(record.state) && /^\d+(\.\d+)?$/.test(record.amount)) {
+      const amount = toBaseUnits(record.amount, decimals);
+      net += outgoing ? -amount : amount;
+      nets.set(tokenName, net);
+    }
+
+    entries.push({
+      id: record.id,
+      txIdentifier: record.txIdentifier,
+      date: new Date(record.createdAt).toISOString(),
+      type: record.type,
+      label: TYPE_LABELS[record.type] || record.type,
+      dao: record.type === TransactionType.DAO_VOTE || record.type === TransactionType.DAO_PROPOSAL,
+      state: record.state,
+      direction: outgoing ? 'outgoing' : 'incoming',
+      counterparty: outgoing ? record.toAddress : record.fromAddress,
+      token: tokenName,
+      symbol,
+      decimals,
+      amount: record.amount,
+      netRecorded: fromBaseUnits(net, decimals),
+      errorMessage: record.errorMessage || undefined
+    });
+  }
+
+  const token = query.token?.toLowerCase();
+  return entries
+    .filter(entry =>
+      (query.startDate === undefined || Date.parse(entry.date) >= query.startDate) &&
+      (query.endDate === undefined || Date.parse(entry.date) <= query.endDate) &&
+      (!query.type || entry.type === query.type) &&
+      (!query.state || entry.state === query.state) &&
+      (!token || entry.token.toLowerCase() === token || entry.symbol.toLowerCase() === token) &&
+      (!query.counterparty || entry.counterparty === query.counterparty)
+    )
+    .reverse();
+}
+
+/**
+ * One page of history rows
+ */
+export function paginateHistory(entries: TransactionHistoryRow[], query: TransactionHistoryQuery): TransactionHistoryPage {
+  return {
+    transactions: entries.slice(query.offset, query.offset + query.limit),
+    total: entries.length,
+    limit: query.limit,
+    offset: query.offset
+  };
+}
+
+const CSV_COLUMNS: Array<keyof TransactionHistoryRow> = [
+  'date', 'id', 'txIdentifier', 'label', 'type', 'state', 'direction', 'counterparty',
+  'symbol', 'token', 'decimals', 'amount', 'netRecorded', 'errorMessage'
+];
+
+function csvField(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  // Keep spreadsheets from evaluating a counterparty or error message as a formula
+  if (/^[=+@\t]/.test(text) || (text.startsWith('-') && !/^-\d+(\.\d+)?$/.test(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render history rows as CSV with a header line
+ */
+export function historyToCsv(entries: TransactionHistoryRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map(column => csvField(entry[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
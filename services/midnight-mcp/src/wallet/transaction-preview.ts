@@ -0,0 +1,152 @@
+/**
+ * Transaction Previews
+ *
+ * A dry run builds a transaction and checks it against the wallet and the
+ * contract state without proving or submitting it. The DAO checks mirror
+ * the assertions in dao-voting.compact, so an agent learns which one would
+ * fail before a proof is generated and fees are paid.
+ */
+
+import { nativeToken } from '@midnight-ntwrk/ledger';
+import type { Nullifier, QualifiedCoinInfo, UnprovenTransaction } from '@midnight-ntwrk/zswap';
+import type { DaoVotingState } from '../integrations/dao/common-types.js';
+import type { PreviewBalance, PreviewCheck, PreviewCoin, TransactionPreview } from '../types/wallet.js';
+import { convertBigIntToDecimal } from './utils.js';
+
+/**
+ * Value of the coin cast_vote receives (assert(c.value == 500, "500 token required"))
+ */
+export const DAO_VOTE_COIN_VALUE = 500n;
+
+/**
+ * Wallet state needed to tell which coins a transaction spends
+ */
+export interface WalletCoins {
+  coins: QualifiedCoinInfo[];
+  nullifiers: Nullifier[];
+}
+
+export function previewCheck(name: string, passed: boolean, message: string): PreviewCheck {
+  return passed ? { name, passed } : { name, passed, message };
+}
+
+/**
+ * Run a step of the dry run, turning the error it throws into a failed check
+ */
+export async function attemptCheck(name: string, step: () => unknown): Promise<PreviewCheck> {
+  try {
+    await step();
+    return { name, passed: true };
+  } catch (error) {
+    return { name, passed: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Compare a balance with what the transaction needs
+ * @param available Balance in the token's smallest unit
+ * @param required Amount in the token's smallest unit
+ */
+export function balanceCheck(
+  token: string,
+  available: bigint,
+  required: bigint,
+  decimals = 6
+): { check: PreviewCheck; balance: PreviewBalance } {
+  const balance = {
+    token,
+    available: convertBigIntToDecimal(available, decimals),
+    required: convertBigIntToDecimal(required, decimals)
+  };
+  return {
+    check: previewCheck(
+      'sufficient_balance',
+      available >= required,
+      `Insufficient ${token} balance: ${balance.available} available, ${balance.required} required`
+    ),
+    balance
+  };
+}
+
+/**
+ * Fee and coins of a transfer built by the wallet
+ *
+ * The wallet balances a transfer by adding tDUST inputs for the fee, so the
+ * guaranteed tDUST surplus (inputs minus recipient and change outputs) is the
+ * fee it budgeted. Spent coins are found by matching input nullifiers.
+ */
+export function summarizeTransfer(
+  transaction: UnprovenTransaction,
+  wallet: WalletCoins
+): { estimatedFee: string; coins: PreviewCoin[] } {
+  const fee = transaction.eraseProofs().imbalances(true).get(nativeToken()) ?? 0n;
+  const spent = new Set((transaction.guaranteedCoins?.inputs ?? []).map(input => input.nullifier));
+
+  const coins = wallet.coins
+    .filter((_, index) => spent.has(wallet.nullifiers[index]))
+    .map(coin => ({ tokenType: coin.type, value: coin.value.toString(), nonce: coin.nonce }));
+
+  return { estimatedFee: convertBigIntToDecimal(fee > 0n ? fee : 0n), coins };
+}
+
+function circuitCheck(circuit: string, name: string, passed: boolean, assertion: string): PreviewCheck {
+  return previewCheck(name, passed, `${circuit} would fail: "${assertion}"`);
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+/**
+ * Preconditions of cast_vote
+ * @param voteType 0 = yes, 1 = no, 2 = absent
+ * @param voterKeyHash persistentHash of the wallet's coin public key, the key of has_voted
+ */
+export function castVoteChecks(
+  state: DaoVotingState,
+  voteType: number,
+  voteCoinValue: bigint,
+  voterKeyHash: Uint8Array
+): PreviewCheck[] {
+  return [
+    circuitCheck('cast_vote', 'election_open', state.election_open, 'election closed'),
+    circuitCheck('cast_vote', 'vote_type', voteType >= 0 && voteType <= 2, 'invalid vote type'),
+    circuitCheck('cast_vote', 'vote_coin_value', voteCoinValue === DAO_VOTE_COIN_VALUE, '500 token required'),
+    circuitCheck('cast_vote', 'not_voted', !state.has_voted.member(voterKeyHash), 'User already voted')
+  ];
+}
+
+/**
+ * Preconditions of fund_treasury
+ * @param fundCoinColor Color of the coin that would be sent to the treasury
+ */
+export function fundTreasuryChecks(state: DaoVotingState, fundCoinColor: Uint8Array): PreviewCheck[] {
+  return [
+    circuitCheck('fund_treasury', 'fund_asset', sameBytes(fundCoinColor, state.treasury_coin_color), 'wrong fund asset')
+  ];
+}
+
+/**
+ * Preconditions of payout_approved_proposal
+ */
+export function payoutChecks(state: DaoVotingState): PreviewCheck[] {
+  return [
+    circuitCheck('payout_approved_proposal', 'election_closed', !state.election_open, 'close first'),
+    circuitCheck('payout_approved_proposal', 'proposal_approved', state.no_votes < state.yes_votes, 'proposal not approved')
+  ];
+}
+
+export function buildPreview(
+  operation: TransactionPreview['operation'],
+  checks: PreviewCheck[],
+  details: Partial<Pick<TransactionPreview, 'balances' | 'estimatedFee' | 'coins' | 'approvalThreshold'>> = {}
+): TransactionPreview {
+  return {
+    dryRun: true,
+    operation,
+    wouldSucceed: checks.every(check => check.passed),
+    checks,
+    balances: [],
+    ...details
+  };
+}
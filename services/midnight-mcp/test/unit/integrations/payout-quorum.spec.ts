@@ -0,0 +1,150 @@
+/**
+ * Tests for the treasury payout co-signer quorum
+ */
+
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import {
+  PayoutQuorum,
+  PayoutQuorumError,
+  payoutMessage,
+  type PayoutQuorumState,
+  type PayoutQuorumStore
+} from '../../../src/integrations/payout-quorum.js';
+
+const cosigner = (id: string) => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  return {
+    id,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey
+  };
+};
+
+const signPayout = (privateKey: KeyObject, proposalId: string, amount: bigint) =>
+  sign(null, Buffer.from(payoutMessage(proposalId, amount)), privateKey).toString('base64');
+
+/**
+ * Store keeping the state of one wallet in memory, as the database would across restarts
+ */
+class MemoryQuorumStore implements PayoutQuorumStore {
+  state: PayoutQuorumState = { config: null, signatures: [] };
+  failLoads = 0;
+
+  async load(): Promise<PayoutQuorumState> {
+    if (this.failLoads > 0) {
+      this.failLoads--;
+      throw new Error('database unreachable');
+    }
+    return { config: this.state.config, signatures: [...this.state.signatures] };
+  }
+
+  async saveConfig(_walletId: string, config: PayoutQuorumState['config']): Promise<void> {
+    this.state.config = config;
+  }
+
+  async addSignature(_walletId: string, signature: PayoutQuorumState['signatures'][number]): Promise<void> {
+    this.state.signatures.push(signature);
+  }
+}
+
+describe('PayoutQuorum', () => {
+  const alice = cosigner('user_alice');
+  const bob = cosigner('user_bob');
+  const carol = cosigner('user_carol');
+  const cosigners = [alice, bob, carol].map(({ id, publicKey }) => ({ id, publicKey }));
+  let store: MemoryQuorumStore;
+  let quorum: PayoutQuorum;
+
+  const codeOf = async (fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PayoutQuorumError);
+      return (error as PayoutQuorumError).code;
+    }
+    throw new Error('Expected a PayoutQuorumError');
+  };
+
+  beforeEach(async () => {
+    store = new MemoryQuorumStore();
+    quorum = new PayoutQuorum('tenant_1', undefined, store);
+    await quorum.configure({ threshold: 2, cosigners });
+  });
+
+  it('should allow payouts when no quorum is configured', async () => {
+    await quorum.clear();
+    await expect(quorum.assertSatisfied('proposal_1', 500n)).resolves.toBeUndefined();
+  });
+
+  it('should require M of N valid signatures before a payout', async () => {
+    expect(await codeOf(() => quorum.assertSatisfied('proposal_1', 500n))).toBe('QUORUM_NOT_MET');
+    expect(await codeOf(() => quorum.assertSatisfied(undefined, 0n))).toBe('QUORUM_NOT_MET');
+
+    await quorum.sign('proposal_1', 500n, alice.id, signPayout(alice.privateKey, 'proposal_1', 500n));
+    expect(await codeOf(() => quorum.assertSatisfied('proposal_1', 500n))).toBe('QUORUM_NOT_MET');
+
+    await quorum.sign('proposal_1', 500n, bob.id, signPayout(bob.privateKey, 'proposal_1', 500n));
+    expect(await quorum.getStatus('proposal_1', 500n)).toMatchObject({ threshold: 2, satisfied: true });
+    await expect(quorum.assertSatisfied('proposal_1', 500n)).resolves.toBeUndefined();
+  });
+
+  it('should bind signatures to the proposal id and amount', async () => {
+    const signature = signPayout(alice.privateKey, 'proposal_1', 500n);
+
+    expect(await codeOf(() => quorum.sign('proposal_1', 900n, alice.id, signature))).toBe('INVALID_SIGNATURE');
+    expect(await codeOf(() => quorum.sign('proposal_2', 500n, alice.id, signature))).toBe('INVALID_SIGNATURE');
+    expect(await codeOf(() => quorum.sign('proposal_1', 500n, bob.id, signature))).toBe('INVALID_SIGNATURE');
+  });
+
+  it('should refuse outsiders and duplicate signatures', async () => {
+    const mallory = cosigner('user_mallory');
+    const signature = signPayout(alice.privateKey, 'proposal_1', 500n);
+
+    expect(await codeOf(() => quorum.sign('proposal_1', 500n, mallory.id, signPayout(mallory.privateKey, 'proposal_1', 500n)))).toBe('UNKNOWN_COSIGNER');
+    await quorum.sign('proposal_1', 500n, alice.id, signature);
+    expect(await codeOf(() => quorum.sign('proposal_1', 500n, alice.id, signature))).toBe('ALREADY_SIGNED');
+  });
+
+  it('should stop counting signatures of removed co-signers', async () => {
+    await quorum.sign('proposal_1', 500n, alice.id, signPayout(alice.privateKey, 'proposal_1', 500n));
+    await quorum.sign('proposal_1', 500n, bob.id, signPayout(bob.privateKey, 'proposal_1', 500n));
+
+    await quorum.configure({ threshold: 2, cosigners: [alice, carol].map(({ id, publicKey }) => ({ id, publicKey })) });
+    expect((await quorum.getStatus('proposal_1', 500n)).signatures.map(record => record.signerId)).toEqual([alice.id]);
+  });
+
+  it('should reject malformed configurations', async () => {
+    expect(await codeOf(() => quorum.configure({ threshold: 3, cosigners: [{ id: alice.id, publicKey: alice.publicKey }] }))).toBe('INVALID_QUORUM_CONFIG');
+    expect(await codeOf(() => quorum.configure({ threshold: 1, cosigners: [{ id: alice.id, publicKey: 'not-a-key' }] }))).toBe('INVALID_QUORUM_CONFIG');
+    expect((await quorum.getConfig())?.cosigners).toHaveLength(3);
+    expect(store.state.config?.cosigners).toHaveLength(3);
+  });
+
+  it('should keep the co-signers and signatures across restarts', async () => {
+    await quorum.sign('proposal_1', 500n, alice.id, signPayout(alice.privateKey, 'proposal_1', 500n));
+
+    const restarted = new PayoutQuorum('tenant_1', { threshold: 1, cosigners: [cosigners[2]] }, store);
+
+    expect(await restarted.getConfig()).toEqual({ threshold: 2, cosigners });
+    expect(await codeOf(() => restarted.assertSatisfied('proposal_1', 500n))).toBe('QUORUM_NOT_MET');
+    expect(await codeOf(() => restarted.sign('proposal_1', 500n, alice.id, signPayout(alice.privateKey, 'proposal_1', 500n)))).toBe('ALREADY_SIGNED');
+    await restarted.sign('proposal_1', 500n, bob.id, signPayout(bob.privateKey, 'proposal_1', 500n));
+    await expect(restarted.assertSatisfied('proposal_1', 500n)).resolves.toBeUndefined();
+  });
+
+  it('should store the initial configuration when none is stored yet', async () => {
+    const fresh = new MemoryQuorumStore();
+    const initial = new PayoutQuorum('tenant_2', { threshold: 1, cosigners: [cosigners[0]] }, fresh);
+
+    expect(await codeOf(() => initial.assertSatisfied('proposal_1', 500n))).toBe('QUORUM_NOT_MET');
+    expect(fresh.state.config).toEqual({ threshold: 1, cosigners: [cosigners[0]] });
+  });
+
+  it('should refuse payouts until the stored quorum can be loaded', async () => {
+    store.failLoads = 1;
+    const restarted = new PayoutQuorum('tenant_1', undefined, store);
+
+    expect(await codeOf(() => restarted.assertSatisfied('proposal_1', 500n))).toBe('QUORUM_UNAVAILABLE');
+    expect(await codeOf(() => restarted.assertSatisfied('proposal_1', 500n))).toBe('QUORUM_NOT_MET');
+  });
+});
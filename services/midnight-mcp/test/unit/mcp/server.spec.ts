@@ -0,0 +1,204 @@
+/**
+ * Tests for the resources and prompts of the MCP server, and subscriptions to resources
+ */
+
+// The wallet and contract modules aren't needed; the wallet API is faked
+jest.mock('../../../src/mcp/index.js', () => ({
+  WalletServiceError: class WalletServiceError extends Error {},
+  formatError: (error: unknown) => String(error)
+}));
+jest.mock('../../../src/integrations/dao-treasury-manager.js', () => ({}));
+
+import { jest } from '@jest/globals';
+import { Subject } from 'rxjs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer, type McpServerOptions } from '../../../src/mcp/server.js';
+import { TransactionState, TransactionType, type WalletChange } from '../../../src/types/wallet.js';
+
+const balanceChange: WalletChange = { kind: 'balance', balances: { '02000': '150' }, pending: {} };
+
+const transactionChange: WalletChange = {
+  kind: 'transaction',
+  transaction: {
+    id: 'tx-1',
+    state: TransactionState.SENT,
+    type: TransactionType.TRANSFER,
+    fromAddress: 'mn_addr_from',
+    toAddress: 'mn_addr_to',
+    amount: '25',
+    createdAt: 0,
+    updatedAt: 0
+  }
+};
+
+/**
+ * Let the notifications sent over the in-memory transport arrive
+ */
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('MCP server', () => {
+  let client: Client;
+  let walletApi: { get: jest.Mock; post: jest.Mock; delete: jest.Mock };
+  let walletChanges: Subject<WalletChange>;
+  let changes: jest.Mock<() => Promise<Subject<WalletChange>>>;
+  let updated: string[];
+
+  const connect = async (options: Partial<McpServerOptions> = {}) => {
+    const server = createMcpServer({ log: () => undefined, client: walletApi, changes, ...options });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      updated.push(notification.params.uri);
+    });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  };
+
+  beforeEach(() => {
+    walletApi = {
+      get: jest.fn(async (path: string) => ({ path })),
+      post: jest.fn(),
+      delete: jest.fn()
+    };
+    walletChanges = new Subject<WalletChange>();
+    changes = jest.fn(async () => walletChanges);
+    updated = [];
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should only advertise subscriptions when it can follow the wallet\'s changes', async () => {
+    await connect();
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+    await client.close();
+
+    await connect({ changes: undefined });
+    expect(client.getServerCapabilities()?.resources).toEqual({});
+  });
+
+  it('should notify subscribers of the resources a change alters', async () => {
+    await connect();
+    await client.subscribeResource({ uri: 'midnight://wallet-balance' });
+    await client.subscribeResource({ uri: 'midnight://token-balance/DEGA' });
+    await client.subscribeResource({ uri: 'midnight://pending-transactions' });
+
+    walletChanges.next(balanceChange);
+    await settle();
+    expect(updated).toEqual(['midnight://wallet-balance', 'midnight://token-balance/DEGA']);
+
+    updated = [];
+    walletChanges.next(transactionChange);
+    walletChanges.next({
+      kind: 'dao-election',
+      election: {
+        isOpen: true,
+        electionId: 'ab',
+        yesVotes: '1',
+        noVotes: '0',
+        absentVotes: '0',
+        totalVotes: '1',
+        treasuryBalance: '500'
+      }
+    });
+    await settle();
+    expect(updated).toEqual(['midnight://pending-transactions']);
+    expect(changes).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop notifying once unsubscribed', async () => {
+    await connect();
+    await client.subscribeResource({ uri: 'midnight://wallet-balance' });
+    await client.unsubscribeResource({ uri: 'midnight://wallet-balance' });
+
+    walletChanges.next(balanceChange);
+    await settle();
+
+    expect(updated).toEqual([]);
+    expect(walletChanges.observed).toBe(false);
+  });
+
+  it('should reject subscriptions to unknown resources', async () => {
+    await connect();
+
+    await expect(client.subscribeResource({ uri: 'midnight://unknown' })).rejects.toThrow('Resource not found');
+  });
+
+  it('should follow the wallet again when a read reopens it', async () => {
+    await connect();
+    await client.subscribeResource({ uri: 'midnight://transactions' });
+
+    // The wallet was closed, so its changes ended
+    walletChanges.complete();
+    walletChanges = new Subject<WalletChange>();
+    await client.readResource({ uri: 'midnight://transactions' });
+    await settle();
+
+    walletChanges.next(transactionChange);
+    await settle();
+    expect(updated).toEqual(['midnight://transactions']);
+    expect(changes).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read per-token balances and the DAO state from the wallet', async () => {
+    await connect();
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const token = await client.readResource({ uri: 'midnight://token-balance/DEGA' });
+    const dao = await client.readResource({ uri: 'midnight://dao-state' });
+
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual(['midnight://token-balance/{tokenName}']);
+    expect(JSON.parse(token.contents[0].text as string)).toEqual({ path: '/wallet/tokens/balance/DEGA' });
+    expect(JSON.parse(dao.contents[0].text as string)).toEqual({ path: '/dao/election-state' });
+  });
+
+  describe('prompts', () => {
+    it('should list the treasury and governance prompts', async () => {
+      await connect();
+
+      const { prompts } = await client.listPrompts();
+
+      expect(client.getServerCapabilities()?.prompts).toEqual({});
+      expect(prompts.map(prompt => prompt.name)).toEqual([
+        'weekly-treasury-report',
+        'draft-funding-proposal',
+        'explain-election-result',
+        'reconcile-pending-transactions'
+      ]);
+    });
+
+    it('should render a prompt with the wallet\'s current data', async () => {
+      walletApi.get.mockImplementation(async (path: string) => {
+        if (path === '/treasury/analytics') return { success: true, analytics: { totalValue: '9000' } };
+        if (path === '/dao/election-state') throw new Error('Wallet is not ready');
+        return { success: true, count: 0, proposals: [] };
+      });
+      await connect();
+
+      const result = await client.getPrompt({
+        name: 'draft-funding-proposal',
+        arguments: { purpose: 'an indexer upgrade', amount: '1500' }
+      });
+      const text = (result.messages[0].content as { text: string }).text;
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('user');
+      expect(text).toContain('requesting 1500 for: an indexer upgrade');
+      expect(text).toContain('"totalValue": "9000"');
+      expect(text).toContain('## DAO election state\nUnavailable: Wallet is not ready');
+      expect(walletApi.get.mock.calls.map(([path]) => path).sort())
+        .toEqual(['/dao/election-state', '/treasury/analytics', '/treasury/proposals']);
+    });
+
+    it('should reject prompts that are unknown or missing required arguments', async () => {
+      await connect();
+
+      await expect(client.getPrompt({ name: 'draft-funding-proposal', arguments: { purpose: 'audit' } }))
+        .rejects.toThrow('Missing required argument for draft-funding-proposal: amount');
+      await expect(client.getPrompt({ name: 'monthly-report' })).rejects.toThrow('Prompt not found: monthly-report');
+      expect(walletApi.get).not.toHaveBeenCalled();
+    });
+  });
+});
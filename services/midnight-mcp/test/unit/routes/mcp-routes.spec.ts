@@ -0,0 +1,215 @@
+/**
+ * Tests for the MCP endpoints of tenant wallets
+ */
+
+// The wallet and contract modules aren't needed; the tenant wallet service is faked
+jest.mock('../../../src/mcp/index.js', () => ({
+  WalletServiceError: class WalletServiceError extends Error {},
+  formatError: (error: unknown) => String(error)
+}));
+jest.mock('../../../src/integrations/dao-treasury-manager.js', () => ({}));
+
+import { jest } from '@jest/globals';
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import { createMcpRoutes } from '../../../src/routes/mcp.routes.js';
+import { ServiceRequestVerifier, purposeKey, tenantTokenMessage } from '../../../src/utils/service-auth.js';
+import { AuditTrailService } from '../../../src/audit/audit-trail-service.js';
+
+const NOW = Date.parse('2026-03-02T08:30:00Z');
+const KEY = crypto.randomBytes(32).toString('base64');
+
+const tenantToken = (tenantId: string, exp = NOW + 60000, jti = `tok_${tenantId}`) => {
+  const payload = Buffer.from(JSON.stringify({ tenantId, jti, exp })).toString('base64url');
+  const signature = crypto.createHmac('sha256', purposeKey(Buffer.from(KEY, 'base64'), 'tenant-token'))
+    .update(tenantTokenMessage('sk_test', payload))
+    .digest('base64url');
+  return `mcpt.sk_test.${payload}.${signature}`;
+};
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+/**
+ * The JSON-RPC messages of a Streamable HTTP response sent as an event stream
+ */
+const messagesOf = (text: string) => text
+  .split('\n')
+  .filter(line => line.startsWith('data: '))
+  .map(line => JSON.parse(line.slice('data: '.length)));
+
+describe('Tenant MCP endpoint', () => {
+  let app: express.Express;
+  let close: () => Promise<void>;
+  let expireSessions: () => Promise<void>;
+  let walletService: Record<string, jest.Mock>;
+  let revoked: Set<string>;
+  let now: number;
+
+  const post = (tenantId: string, body: object, sessionId?: string, token = tenantToken(tenantId)) => {
+    const call = request(app)
+      .post(`/mcp/${tenantId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('Accept', 'application/json, text/event-stream')
+      .send(body);
+    return sessionId ? call.set('mcp-session-id', sessionId) : call;
+  };
+
+  const openSession = async (tenantId = 'tenant_a') => {
+    const response = await post(tenantId, initialize);
+    expect(response.status).toBe(200);
+    const sessionId = response.headers['mcp-session-id'];
+    await post(tenantId, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    return sessionId;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(AuditTrailService, 'getInstance').mockReturnValue({ logEvent: jest.fn() } as any);
+
+    walletService = {
+      getWalletStatus: jest.fn(() => ({ ready: true, address: 'mn_addr_tenant_a' })),
+      getBalance: jest.fn(() => ({ balance: '125', pendingBalance: '0' }))
+    };
+    const multiTenantService = {
+      isTenantRegistered: jest.fn(async (tenantId: string) => tenantId === 'tenant_a'),
+      withTenantWalletService: jest.fn(async (tenantId: string, operation: (service: unknown) => Promise<unknown>) =>
+        operation(tenantId === 'tenant_a' ? walletService : null))
+    };
+    const keys = { secret: (keyId: string) => keyId === 'sk_test' ? Buffer.from(KEY, 'base64') : null };
+    revoked = new Set();
+    now = NOW;
+    const routes = createMcpRoutes(
+      multiTenantService as any,
+      {} as any,
+      new ServiceRequestVerifier(keys, { now: () => NOW }),
+      {
+        revokedTokens: {
+          revoke: async (tokenId: string) => { revoked.add(tokenId); },
+          revokedAmong: async (tokenIds: string[]) => tokenIds.filter(tokenId => revoked.has(tokenId))
+        },
+        maxSessionsPerTenant: 2,
+        sessionIdleMs: 60000,
+        now: () => now
+      }
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use(routes.router);
+    close = routes.close;
+    expireSessions = routes.expireSessions;
+  });
+
+  afterEach(async () => {
+    await close();
+    jest.restoreAllMocks();
+  });
+
+  it('should reject calls without a token for the tenant', async () => {
+    const missing = await request(app).post('/mcp/tenant_a').send(initialize);
+    const otherTenant = await post('tenant_a', initialize, undefined, tenantToken('tenant_b'));
+    const expired = await post('tenant_a', initialize, undefined, tenantToken('tenant_a', NOW - 1));
+
+    expect(missing.status).toBe(401);
+    expect(otherTenant.status).toBe(401);
+    expect(otherTenant.body.message).toContain('not valid for tenant tenant_a');
+    expect(expired.status).toBe(401);
+    expect(AuditTrailService.getInstance().logEvent).toHaveBeenCalledTimes(3);
+  });
+
+  it('should call the tools on the tenant\'s wallet', async () => {
+    const sessionId = await openSession();
+
+    const tools = messagesOf((await post('tenant_a', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId)).text);
+    expect(tools[0].result.tools.map((tool: { name: string }) => tool.name)).toContain('walletStatus');
+
+    const status = messagesOf((await post('tenant_a', {
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'walletStatus', arguments: {} }
+    }, sessionId)).text);
+    expect(JSON.parse(status[0].result.content[0].text)).toEqual({ ready: true, address: 'mn_addr_tenant_a' });
+    expect(walletService.getWalletStatus).toHaveBeenCalled();
+  });
+
+  it('should read the resources from the tenant\'s wallet', async () => {
+    const sessionId = await openSession();
+
+    const balance = messagesOf((await post('tenant_a', {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'resources/read',
+      params: { uri: 'midnight://wallet-balance' }
+    }, sessionId)).text);
+
+    expect(JSON.parse(balance[0].result.contents[0].text)).toEqual({ balance: '125', pendingBalance: '0' });
+  });
+
+  it('should keep a session to the tenant it was opened for', async () => {
+    const sessionId = await openSession();
+
+    const response = await post('tenant_b', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId);
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.message).toBe('Session not found');
+  });
+
+  it('should refuse revoked tokens and close the sessions opened with them', async () => {
+    const sessionId = await openSession();
+    const otherToken = tenantToken('tenant_a', NOW + 60000, 'tok_other');
+    const otherSession = (await post('tenant_a', initialize, undefined, otherToken)).headers['mcp-session-id'];
+
+    revoked.add('tok_tenant_a');
+    const refused = await post('tenant_a', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId);
+    await expireSessions();
+
+    expect(refused.status).toBe(401);
+    expect(refused.body.message).toBe('Tenant token has been revoked');
+    const closed = await post('tenant_a', { jsonrpc: '2.0', id: 3, method: 'tools/list' }, sessionId, otherToken);
+    expect(closed.status).toBe(404);
+    const kept = await post('tenant_a', { jsonrpc: '2.0', id: 4, method: 'tools/list' }, otherSession, otherToken);
+    expect(kept.status).toBe(200);
+  });
+
+  it('should limit the sessions a tenant has open', async () => {
+    await openSession();
+    await openSession();
+
+    const response = await post('tenant_a', initialize);
+
+    expect(response.status).toBe(429);
+    expect(response.body.error.message).toContain('already has 2 MCP sessions open');
+  });
+
+  it('should close sessions that go without requests for too long', async () => {
+    const idle = await openSession();
+    const busy = await openSession();
+
+    now = NOW + 45000;
+    await post('tenant_a', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, busy);
+    now = NOW + 75000;
+    await expireSessions();
+
+    expect((await post('tenant_a', { jsonrpc: '2.0', id: 3, method: 'tools/list' }, idle)).status).toBe(404);
+    expect((await post('tenant_a', { jsonrpc: '2.0', id: 4, method: 'tools/list' }, busy)).status).toBe(200);
+    // The closed session no longer counts against the limit
+    expect((await post('tenant_a', initialize)).status).toBe(200);
+  });
+
+  it('should not open sessions for tenants that are not registered', async () => {
+    const response = await post('tenant_b', initialize);
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.message).toBe('Tenant tenant_b not found');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for verifying the orchestrator's signed service credentials
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  ServiceAuthError,
+  ServiceKeyRing,
+  ServiceRequestVerifier,
+  type ServiceKeyPurpose,
+  canonicalRequest,
+  purposeKey,
+  tenantTokenMessage
+} from '../../../src/utils/service-auth.js';
+
+const NOW = Date.parse('2026-03-02T08:30:00Z');
+const OLD_KEY = crypto.randomBytes(32).toString('base64');
+const NEW_KEY = crypto.randomBytes(32).toString('base64');
+
+describe('Service request verification', () => {
+  let keyDir: string;
+  let keyFile: string;
+  let now: number;
+  let verifier: ServiceRequestVerifier;
+
+  const writeRing = (activeKeyId: string, keys: Record<string, string>, modifiedAt: number) => {
+    fs.writeFileSync(keyFile, JSON.stringify({ activeKeyId, keys }));
+    fs.utimesSync(keyFile, modifiedAt / 1000, modifiedAt / 1000);
+  };
+
+  const signed = (options: { keyId?: string; key?: string; method?: string; path?: string; body?: string; at?: number; nonce?: string } = {}) => {
+    const { keyId = 'sk_old', key = OLD_KEY, method = 'POST', path: pathAndQuery = '/api/wallet/tenant_a/send', body = '{"amount":"5"}' } = options;
+    const timestamp = String(options.at ?? now);
+    const nonce = options.nonce ?? crypto.randomBytes(16).toString('hex');
+    const signature = crypto.createHmac('sha256', purposeKey(Buffer.from(key, 'base64'), 'service-request'))
+      .update(canonicalRequest(method, pathAndQuery, timestamp, nonce, body))
+      .digest('hex');
+
+    return {
+      method,
+      path: pathAndQuery,
+      body: Buffer.from(body),
+      headers: {
+        'x-service-key-id': keyId,
+        'x-service-timestamp': timestamp,
+        'x-service-nonce': nonce,
+        'x-service-signature': signature
+      } as Record<string, string>
+    };
+  };
+
+  beforeEach(() => {
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'service-keys-'));
+    keyFile = path.join(keyDir, 'service-keys.json');
+    writeRing('sk_old', { sk_old: OLD_KEY }, NOW - 60000);
+    now = NOW;
+    verifier = new ServiceRequestVerifier(new ServiceKeyRing(keyFile), { windowMs: 5 * 60 * 1000, now: () => now });
+  });
+
+  afterEach(() => {
+    fs.rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  it('should accept a request signed with a key of the ring', () => {
+    expect(verifier.verify(signed())).toBe('sk_old');
+    expect(verifier.verify({ ...signed({ method: 'GET', body: '' }), body: undefined })).toBe('sk_old');
+  });
+
+  it('should reject a request without credentials', () => {
+    const { headers, ...request } = signed();
+
+    expect(() => verifier.verify({ ...request, headers: {} })).toThrow('Missing service credentials');
+    expect(() => verifier.verify({ ...request, headers: { ...headers, 'x-service-signature': '' } })).toThrow(ServiceAuthError);
+  });
+
+  it('should reject a request whose path or body was changed', () => {
+    expect(() => verifier.verify({ ...signed(), path: '/api/wallet/tenant_b/send' })).toThrow('Invalid service signature');
+    expect(() => verifier.verify({ ...signed(), body: Buffer.from('{"amount":"500"}') })).toThrow('Invalid service signature');
+    expect(() => verifier.verify(signed({ key: NEW_KEY }))).toThrow('Invalid service signature');
+  });
+
+  it('should reject a request outside the replay window', () => {
+    expect(() => verifier.verify(signed({ at: now - 6 * 60 * 1000 }))).toThrow('outside the replay window');
+    expect(() => verifier.verify(signed({ at: now + 6 * 60 * 1000 }))).toThrow('outside the replay window');
+  });
+
+  it('should reject a request that was already used', () => {
+    const request = signed();
+
+    verifier.verify(request);
+    expect(() => verifier.verify(request)).toThrow('already used');
+  });
+
+  it('should accept the previous key after a rotation until it is pruned', () => {
+    writeRing('sk_new', { sk_old: OLD_KEY, sk_new: NEW_KEY }, NOW - 30000);
+    expect(verifier.verify(signed({ keyId: 'sk_new', key: NEW_KEY }))).toBe('sk_new');
+    expect(verifier.verify(signed())).toBe('sk_old');
+
+    writeRing('sk_new', { sk_new: NEW_KEY }, NOW);
+    expect(() => verifier.verify(signed())).toThrow('Unknown service key sk_old');
+  });
+
+  it('should reject every request when there is no key ring', () => {
+    fs.rmSync(keyFile);
+
+    expect(() => verifier.verify(signed())).toThrow('not found');
+  });
+
+  describe('Tenant tokens', () => {
+    const tenantToken = (claims: object, options: { keyId?: string; key?: string; purpose?: ServiceKeyPurpose } = {}) => {
+      const { keyId = 'sk_old', key = OLD_KEY, purpose = 'tenant-token' } = options;
+      const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+      const signature = crypto.createHmac('sha256', purposeKey(Buffer.from(key, 'base64'), purpose))
+        .update(tenantTokenMessage(keyId, payload))
+        .digest('base64url');
+      return ['mcpt', keyId, payload, signature].join('.');
+    };
+
+    it('should accept a token for the tenant until it expires', () => {
+      const token = tenantToken({ tenantId: 'tenant_a', jti: 'tok_1', exp: NOW + 60000 });
+
+      expect(verifier.verifyTenantToken(token, 'tenant_a')).toEqual({ tokenId: 'tok_1', expiresAt: new Date(NOW + 60000) });
+      now = NOW + 60000;
+      expect(() => verifier.verifyTenantToken(token, 'tenant_a')).toThrow('expired');
+    });
+
+    it('should reject a token issued for another tenant', () => {
+      const token = tenantToken({ tenantId: 'tenant_a', jti: 'tok_1', exp: NOW + 60000 });
+
+      expect(() => verifier.verifyTenantToken(token, 'tenant_b')).toThrow('not valid for tenant tenant_b');
+    });
+
+    it('should reject a token that was changed or not signed with the ring', () => {
+      const [prefix, keyId, , signature] = tenantToken({ tenantId: 'tenant_a', jti: 'tok_1', exp: NOW + 60000 }).split('.');
+      const forged = Buffer.from(JSON.stringify({ tenantId: 'tenant_b', exp: NOW + 60000 })).toString('base64url');
+
+      expect(() => verifier.verifyTenantToken([prefix, keyId, forged, signature].join('.'), 'tenant_b')).toThrow('Invalid tenant token signature');
+      expect(() => verifier.verifyTenantToken(tenantToken({ tenantId: 'tenant_a', jti: 'tok_1', exp: NOW + 60000 }, { key: NEW_KEY }), 'tenant_a'))
+        .toThrow('Invalid tenant token signature');
+      expect(() => verifier.verifyTenantToken('not-a-token', 'tenant_a')).toThrow('Malformed tenant token');
+    });
+
+    it('should reject a token without an id, which couldn\'t be revoked', () => {
+      const token = tenantToken({ tenantId: 'tenant_a', exp: NOW + 60000 });
+
+      expect(() => verifier.verifyTenantToken(token, 'tenant_a')).toThrow('Tenant token has no id');
+    });
+
+    it('should reject a token signed with a request signing key', () => {
+      const token = tenantToken({ tenantId: 'tenant_a', jti: 'tok_1', exp: NOW + 60000 }, { purpose: 'service-request' });
+
+      expect(() => verifier.verifyTenantToken(token, 'tenant_a')).toThrow('Invalid tenant token signature');
+    });
+
+    it('should reject tokens signed with a pruned key', () => {
+      const token = tenantToken({ tenantId: 'tenant_a', jti: 'tok_1', exp: NOW + 60000 });
+      writeRing('sk_new', { sk_new: NEW_KEY }, NOW);
+
+      expect(() => verifier.verifyTenantToken(token, 'tenant_a')).toThrow('Unknown service key sk_old');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for the tenant address book
+ */
+
+import {
+  AddressBook,
+  AddressBookError,
+  type Contact,
+  type ContactInput,
+  type ContactStore
+} from '../../../src/wallet/address-book.js';
+
+const ALICE_SMITH = 'mn_shield-addr_test1alicesmith';
+const ALICE_JONES = 'mn_shield-addr_test1alicejones';
+const BOB = 'mn_shield-addr_test1bob';
+
+class MemoryContactStore implements ContactStore {
+  private contacts: Contact[] = [];
+  private sequence = 0;
+
+  async list(tenantId: string) {
+    return this.contacts.filter(contact => contact.tenantId === tenantId);
+  }
+
+  async get(tenantId: string, id: string) {
+    return this.contacts.find(contact => contact.tenantId === tenantId && contact.id === id) || null;
+  }
+
+  async create(tenantId: string, input: ContactInput) {
+    const contact: Contact = { id: `contact_${++this.sequence}`, tenantId, tags: [], trusted: false, createdAt: 0, updatedAt: 0, ...input };
+    this.contacts.push(contact);
+    return contact;
+  }
+
+  async update(tenantId: string, id: string, input: Partial<ContactInput>) {
+    const contact = (await this.get(tenantId, id))!;
+    Object.assign(contact, input);
+    return contact;
+  }
+
+  async delete(tenantId: string, id: string) {
+    this.contacts = this.contacts.filter(contact => !(contact.tenantId === tenantId && contact.id === id));
+  }
+}
+
+describe('AddressBook', () => {
+  let book: AddressBook;
+
+  const errorOf = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(AddressBookError);
+      return (error as AddressBookError).toJSON();
+    }
+    throw new Error('Expected an AddressBookError');
+  };
+
+  beforeEach(async () => {
+    book = new AddressBook(new MemoryContactStore());
+    await book.create('tenant_a', { label: 'Alice Smith', address: ALICE_SMITH, tags: ['Team'] });
+    await book.create('tenant_a', { label: 'Alice Jones', address: ALICE_JONES });
+    await book.create('tenant_a', { label: 'Bob', address: BOB, trusted: true });
+  });
+
+  it('should pass addresses through untouched', async () => {
+    expect(await book.resolve('tenant_a', ` ${BOB} `)).toEqual({ address: BOB });
+  });
+
+  it('should resolve a contact by its exact label, ignoring case', async () => {
+    expect((await book.resolve('tenant_a', 'bob')).address).toBe(BOB);
+    expect((await book.resolve('tenant_a', ' alice SMITH ')).contact?.label).toBe('Alice Smith');
+  });
+
+  it('should only suggest contacts matching part of the label or a tag', async () => {
+    expect(await errorOf(book.resolve('tenant_a', 'Smith'))).toMatchObject({
+      code: 'CONTACT_NOT_FOUND',
+      suggestions: [expect.objectContaining({ label: 'Alice Smith', address: ALICE_SMITH })]
+    });
+    expect(await errorOf(book.resolve('tenant_a', 'team'))).toMatchObject({
+      code: 'CONTACT_NOT_FOUND',
+      suggestions: [expect.objectContaining({ label: 'Alice Smith' })]
+    });
+    expect(await errorOf(book.resolve('tenant_a', 'Carol'))).toMatchObject({ code: 'CONTACT_NOT_FOUND', suggestions: [] });
+  });
+
+  it('should refuse to guess when several contacts match', async () => {
+    expect(await errorOf(book.resolve('tenant_a', 'Alice'))).toMatchObject({
+      code: 'AMBIGUOUS_CONTACT',
+      suggestions: [
+        expect.objectContaining({ label: 'Alice Smith' }),
+        expect.objectContaining({ label: 'Alice Jones' })
+      ]
+    });
+  });
+
+  it('should keep tenants apart', async () => {
+    expect((await errorOf(book.resolve('tenant_b', 'Bob'))).code).toBe('CONTACT_NOT_FOUND');
+    const [bob] = await book.list('tenant_a').then(contacts => contacts.filter(contact => contact.label === 'Bob'));
+    expect((await errorOf(book.delete('tenant_b', bob.id))).code).toBe('CONTACT_NOT_FOUND');
+  });
+
+  it('should validate contacts and keep labels unique', async () => {
+    expect((await errorOf(book.create('tenant_a', { label: 'bob', address: BOB }))).code).toBe('DUPLICATE_CONTACT');
+    expect((await errorOf(book.create('tenant_a', { label: 'Carol', address: '0xcarol' }))).code).toBe('INVALID_CONTACT');
+    expect((await errorOf(book.create('tenant_a', { label: BOB, address: BOB }))).code).toBe('INVALID_CONTACT');
+    expect(await book.list('tenant_a', 'team')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for idempotency keys on transfers
+ */
+
+import {
+  IdempotencyError,
+  IDEMPOTENCY_KEY_TTL_MS,
+  idempotencyRequest,
+  replayFor
+} from '../../../src/wallet/idempotency.js';
+import { TransactionState, TransactionType, type TransactionRecord } from '../../../src/types/wallet.js';
+
+const ALICE = 'mn_shield-addr_test1alice';
+const NOW = Date.parse('2026-03-02T08:30:00Z');
+
+describe('idempotencyRequest', () => {
+  it('should ignore requests without a key', () => {
+    expect(idempotencyRequest(undefined, 'sendFunds', { to: ALICE, amount: '5' })).toBeUndefined();
+    expect(idempotencyRequest('', 'sendFunds', { to: ALICE, amount: '5' })).toBeUndefined();
+  });
+
+  it('should hash the operation and parameters regardless of their order', () => {
+    const request = idempotencyRequest('retry-1', 'sendFunds', { to: ALICE, amount: '5' });
+    expect(request).toEqual({ key: 'retry-1', requestHash: expect.stringMatching(/^[0-9a-f]{64}$/) });
+
+    expect(idempotencyRequest('retry-1', 'sendFunds', { amount: '5', to: ALICE })).toEqual(request);
+    expect(idempotencyRequest('retry-1', 'sendFunds', { to: ALICE, amount: '6' })!.requestHash).not.toBe(request!.requestHash);
+    expect(idempotencyRequest('retry-1', 'initiateSendFunds', { to: ALICE, amount: '5' })!.requestHash).not.toBe(request!.requestHash);
+  });
+
+  it('should reject malformed keys', () => {
+    expect(() => idempotencyRequest('has spaces', 'sendFunds', {})).toThrow(IdempotencyError);
+    expect(() => idempotencyRequest('x'.repeat(256), 'sendFunds', {})).toThrow(IdempotencyError);
+    expect(() => idempotencyRequest(42, 'sendFunds', {})).toThrow(IdempotencyError);
+  });
+});
+
+describe('replayFor', () => {
+  const request = idempotencyRequest('retry-1', 'sendFunds', { to: ALICE, amount: '5' })!;
+  const response = { txIdentifier: 'tx_1', amount: '5' };
+
+  const transaction = (overrides: Partial<TransactionRecord> = {}): TransactionRecord => ({
+    id: 'transaction_1',
+    state: TransactionState.SENT,
+    type: TransactionType.TRANSFER,
+    fromAddress: 'mn_shield-addr_test1wallet',
+    toAddress: ALICE,
+    amount: '5',
+    createdAt: NOW,
+    updatedAt: NOW,
+    idempotency: { ...request, expiresAt: NOW + IDEMPOTENCY_KEY_TTL_MS, response },
+    ...overrides
+  });
+
+  const errorCodeOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(IdempotencyError);
+      return (error as IdempotencyError).code;
+    }
+    throw new Error('Expected an IdempotencyError');
+  };
+
+  it('should replay the response of the first request', () => {
+    expect(replayFor(transaction(), request, NOW + 1000)).toEqual(response);
+  });
+
+  it('should let the key be used again once it expired or the first attempt failed', () => {
+    expect(replayFor(transaction(), request, NOW + IDEMPOTENCY_KEY_TTL_MS)).toBeNull();
+    expect(replayFor(transaction({ state: TransactionState.FAILED }), request, NOW)).toBeNull();
+  });
+
+  it('should reject a key reused with different parameters', () => {
+    const other = idempotencyRequest('retry-1', 'sendFunds', { to: ALICE, amount: '50' })!;
+    expect(errorCodeOf(() => replayFor(transaction(), other, NOW))).toBe('IDEMPOTENCY_KEY_CONFLICT');
+    expect(new IdempotencyError('IDEMPOTENCY_KEY_CONFLICT', 'conflict').status).toBe(422);
+  });
+
+  it('should turn away retries while the first request is still running', () => {
+    const running = transaction({
+      state: TransactionState.INITIATED,
+      idempotency: { ...request, expiresAt: NOW + IDEMPOTENCY_KEY_TTL_MS }
+    });
+    expect(errorCodeOf(() => replayFor(running, request, NOW))).toBe('IDEMPOTENCY_KEY_IN_PROGRESS');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for scheduled and recurring payments
+ */
+
+import {
+  PaymentScheduler,
+  PaymentScheduleError,
+  nextCronOccurrence,
+  type PaymentRun,
+  type PaymentSchedule,
+  type PaymentScheduleStore,
+  type ScheduledPaymentWallets
+} from '../../../src/wallet/payment-scheduler.js';
+
+const ALICE = 'mn_shield-addr_test1alice';
+const START = Date.parse('2026-03-02T08:30:00Z'); // a Monday
+
+class MemoryPaymentScheduleStore implements PaymentScheduleStore {
+  schedules: PaymentSchedule[] = [];
+  runs: PaymentRun[] = [];
+
+  async create(schedule: Omit<PaymentSchedule, 'id' | 'createdAt' | 'updatedAt'>) {
+    const created: PaymentSchedule = { ...schedule, id: `schedule_${this.schedules.length + 1}`, createdAt: 0, updatedAt: 0 };
+    this.schedules.push(created);
+    return created;
+  }
+
+  async get(tenantId: string, id: string) {
+    return this.schedules.find(schedule => schedule.tenantId === tenantId && schedule.id === id) || null;
+  }
+
+  async list(tenantId: string) {
+    return this.schedules.filter(schedule => schedule.tenantId === tenantId);
+  }
+
+  async listDue(tenantIds: string[], now: number) {
+    return this.schedules.filter(schedule =>
+      tenantIds.includes(schedule.tenantId) && schedule.status === 'active' && schedule.nextRunAt !== null && schedule.nextRunAt <= now
+    );
+  }
+
+  async update(tenantId: string, id: string, changes: Partial<PaymentSchedule>) {
+    return Object.assign((await this.get(tenantId, id))!, changes);
+  }
+
+  async claim(id: string, expectedNextRunAt: number, changes: Partial<PaymentSchedule>) {
+    const schedule = this.schedules.find(candidate => candidate.id === id);
+    if (!schedule || schedule.status !== 'active' || schedule.nextRunAt !== expectedNextRunAt) return false;
+    Object.assign(schedule, changes);
+    return true;
+  }
+
+  async recordRun(run: Omit<PaymentRun, 'id'>) {
+    const recorded = { ...run, id: `run_${this.runs.length + 1}` };
+    this.runs.push(recorded);
+    return recorded;
+  }
+
+  async listRuns(tenantId: string, scheduleId: string, limit: number) {
+    return this.runs.filter(run => run.tenantId === tenantId && run.scheduleId === scheduleId).reverse().slice(0, limit);
+  }
+}
+
+describe('nextCronOccurrence', () => {
+  it('should find the next matching minute in UTC', () => {
+    expect(nextCronOccurrence('0 9 * * *', START)).toBe(Date.parse('2026-03-02T09:00:00Z'));
+    expect(nextCronOccurrence('*/15 * * * *', START)).toBe(Date.parse('2026-03-02T08:45:00Z'));
+    expect(nextCronOccurrence('@monthly', START)).toBe(Date.parse('2026-04-01T00:00:00Z'));
+    expect(nextCronOccurrence('0 12 * * 5', START)).toBe(Date.parse('2026-03-06T12:00:00Z'));
+  });
+
+  it('should return null for dates that never occur and reject malformed expressions', () => {
+    expect(nextCronOccurrence('0 0 31 2 *', START)).toBeNull();
+    expect(() => nextCronOccurrence('0 25 * * *', START)).toThrow(PaymentScheduleError);
+    expect(() => nextCronOccurrence('0 9 * *', START)).toThrow(PaymentScheduleError);
+  });
+});
+
+describe('PaymentScheduler', () => {
+  let store: MemoryPaymentScheduleStore;
+  let scheduler: PaymentScheduler;
+  let now: number;
+  let send: jest.Mock;
+
+  const errorCodeOf = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(PaymentScheduleError);
+      return (error as PaymentScheduleError).code;
+    }
+    throw new Error('Expected a PaymentScheduleError');
+  };
+
+  beforeEach(() => {
+    store = new MemoryPaymentScheduleStore();
+    now = START;
+    scheduler = new PaymentScheduler(store, () => now);
+    send = jest.fn().mockResolvedValue({ state: 'sent', transactionId: 'tx_1' });
+    const wallets: ScheduledPaymentWallets = { tenants: () => ['tenant_a'], send };
+    scheduler.start(wallets);
+    scheduler.stop();
+  });
+
+  it('should validate schedules', async () => {
+    expect(await errorCodeOf(scheduler.create('tenant_a', { toAddress: ALICE, amount: '-1', cron: '@daily' }))).toBe('INVALID_SCHEDULE');
+    expect(await errorCodeOf(scheduler.create('tenant_a', { toAddress: ALICE, amount: '5' }))).toBe('INVALID_SCHEDULE');
+    expect(await errorCodeOf(scheduler.create('tenant_a', { toAddress: ALICE, amount: '5', runAt: START - 1 }))).toBe('INVALID_SCHEDULE');
+    expect(await errorCodeOf(scheduler.create('tenant_a', {
+      toAddress: ALICE, amount: '5', cron: '@monthly', endAt: '2026-03-20T00:00:00Z'
+    }))).toBe('INVALID_SCHEDULE');
+  });
+
+  it('should send a one-off payment once and complete it', async () => {
+    const schedule = await scheduler.create('tenant_a', { toAddress: ALICE, amount: '5', runAt: '2026-03-02T09:00:00Z' });
+    expect(schedule).toMatchObject({ token: 'native', status: 'active', nextRunAt: Date.parse('2026-03-02T09:00:00Z') });
+
+    expect(await scheduler.tick()).toBe(0);
+    now = Date.parse('2026-03-02T09:00:30Z');
+    expect(await scheduler.tick()).toBe(1);
+    expect(await scheduler.tick()).toBe(0);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await scheduler.get('tenant_a', schedule.id)).toMatchObject({ status: 'completed', runCount: 1, nextRunAt: null });
+    expect(await scheduler.getRuns('tenant_a', schedule.id)).toEqual([
+      expect.objectContaining({ state: 'sent', transactionId: 'tx_1', scheduledFor: Date.parse('2026-03-02T09:00:00Z') })
+    ]);
+  });
+
+  it('should stop a recurring payment after maxRuns and skip missed occurrences', async () => {
+    const schedule = await scheduler.create('tenant_a', { toAddress: ALICE, amount: '5', token: 'tDUST', cron: '0 9 * * *', maxRuns: 2 });
+
+    // The service was down for three days: only one payment is sent
+    now = Date.parse('2026-03-05T10:00:00Z');
+    expect(await scheduler.tick()).toBe(1);
+    expect(await scheduler.get('tenant_a', schedule.id)).toMatchObject({ runCount: 1, nextRunAt: Date.parse('2026-03-06T09:00:00Z') });
+
+    now = Date.parse('2026-03-06T09:00:00Z');
+    expect(await scheduler.tick()).toBe(1);
+    expect(await scheduler.get('tenant_a', schedule.id)).toMatchObject({ status: 'completed', runCount: 2, nextRunAt: null });
+  });
+
+  it('should record failed sends and keep the schedule going', async () => {
+    send.mockRejectedValueOnce(new Error('Insufficient balance'));
+    const schedule = await scheduler.create('tenant_a', { toAddress: ALICE, amount: '5', cron: '@hourly' });
+
+    now = Date.parse('2026-03-02T09:00:00Z');
+    await scheduler.tick();
+
+    expect(store.runs).toEqual([expect.objectContaining({ state: 'failed', error: 'Insufficient balance' })]);
+    expect(await scheduler.get('tenant_a', schedule.id)).toMatchObject({ status: 'active', nextRunAt: Date.parse('2026-03-02T10:00:00Z') });
+  });
+
+  it('should pause, resume and cancel schedules of the owning tenant only', async () => {
+    const schedule = await scheduler.create('tenant_a', { toAddress: ALICE, amount: '5', cron: '@hourly' });
+    expect(await errorCodeOf(scheduler.pause('tenant_b', schedule.id))).toBe('SCHEDULE_NOT_FOUND');
+
+    await scheduler.pause('tenant_a', schedule.id);
+    now = Date.parse('2026-03-02T11:30:00Z');
+    expect(await scheduler.tick()).toBe(0);
+
+    expect(await scheduler.resume('tenant_a', schedule.id)).toMatchObject({ status: 'active', nextRunAt: Date.parse('2026-03-02T12:00:00Z') });
+    await scheduler.cancel('tenant_a', schedule.id);
+    expect(await errorCodeOf(scheduler.cancel('tenant_a', schedule.id))).toBe('INVALID_SCHEDULE_STATE');
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for the Spending Policy Engine
+ */
+
+import {
+  SpendingPolicyEngine,
+  SpendingPolicyError,
+  InvalidSpendingPolicyError
+} from '../../../src/wallet/spending-policy.js';
+
+const HOUR = 60 * 60 * 1000;
+const ALICE = 'mn_shield-addr_test1alice';
+const MALLORY = 'mn_shield-addr_test1mallory';
+
+// Amounts in base units of a 6-decimal token
+const units = (amount: number): bigint => BigInt(Math.round(amount * 1_000_000));
+
+describe('SpendingPolicyEngine', () => {
+  let now: number;
+  let engine: SpendingPolicyEngine;
+
+  const violationOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SpendingPolicyError);
+      return (error as SpendingPolicyError).toJSON();
+    }
+    throw new Error('Expected the transfer to be blocked');
+  };
+
+  beforeEach(() => {
+    now = Date.parse('2025-01-01T00:00:00Z');
+    engine = new SpendingPolicyEngine(() => now);
+  });
+
+  it('should allow any transfer when no policy is set', () => {
+    expect(engine.authorize('native', MALLORY, units(1_000_000), 6)).toMatch(/^spend_/);
+  });
+
+  it('should enforce the per-transaction cap per token', () => {
+    engine.setPolicy({ limits: { native: { perTransaction: '10' } } });
+
+    expect(violationOf(() => engine.authorize('native', ALICE, units(10.5), 6))).toMatchObject({
+      code: 'SPENDING_POLICY_VIOLATION',
+      rule: 'per_transaction_cap',
+      token: 'native',
+      amount: '10.5',
+      limit: '10'
+    });
+    expect(() => engine.authorize('native', ALICE, units(10), 6)).not.toThrow();
+    expect(() => engine.authorize('DAO_VOTING', ALICE, units(500), 6)).not.toThrow();
+  });
+
+  it('should enforce rolling daily and weekly limits', () => {
+    engine.setPolicy({ limits: { native: { daily: '100', weekly: '150' } } });
+
+    engine.authorize('native', ALICE, units(60), 6);
+    expect(violationOf(() => engine.authorize('native', ALICE, units(50), 6))).toMatchObject({
+      rule: 'daily_limit',
+      used: '60',
+      retryAfterSeconds: 24 * 60 * 60
+    });
+
+    now += 25 * HOUR;
+    engine.authorize('native', ALICE, units(80), 6);
+    expect(violationOf(() => engine.authorize('native', ALICE, units(20), 6))).toMatchObject({
+      rule: 'weekly_limit',
+      used: '140'
+    });
+    expect(engine.getUsage()).toEqual({ native: { daily: '80', weekly: '140' } });
+  });
+
+  it('should release a reservation when the transfer fails', () => {
+    engine.setPolicy({ limits: { native: { daily: '100' } } });
+
+    const reservation = engine.authorize('native', ALICE, units(100), 6);
+    engine.release(reservation);
+
+    expect(() => engine.authorize('native', ALICE, units(100), 6)).not.toThrow();
+  });
+
+  it('should check a dry run without reserving it', () => {
+    engine.setPolicy({ limits: { native: { daily: '100' } } });
+
+    engine.check('native', ALICE, units(100), 6);
+    engine.check('native', ALICE, units(100), 6);
+    expect(violationOf(() => engine.check('native', ALICE, units(101), 6)).rule).toBe('daily_limit');
+    expect(engine.getUsage()).toEqual({});
+  });
+
+  it('should carry spends over to another engine', () => {
+    engine.setPolicy({ limits: { native: { daily: '100' } } });
+    engine.authorize('native', ALICE, units(70), 6);
+    now += 2 * HOUR;
+
+    const moved = new SpendingPolicyEngine(() => now);
+    moved.setPolicy(engine.getPolicy());
+    moved.importLedger(JSON.parse(JSON.stringify(engine.exportLedger())));
+
+    expect(moved.getUsage()).toEqual({ native: { daily: '70', weekly: '70' } });
+    expect(violationOf(() => moved.authorize('native', ALICE, units(40), 6))).toMatchObject({
+      rule: 'daily_limit',
+      retryAfterSeconds: 22 * 60 * 60
+    });
+  });
+
+  it('should save every reservation and release, and refuse a reservation it cannot save', async () => {
+    const saved: string[][] = [];
+    engine.persistTo(async entries => {
+      saved.push(entries.map(entry => entry.amount));
+    });
+
+    const id = await engine.reserve('native', ALICE, units(5), 6);
+    engine.check('native', ALICE, units(1), 6);
+    engine.release(id);
+    await engine.reserve('native', ALICE, units(7), 6);
+
+    // Each save writes the ledger as it is when the save runs
+    expect(saved).toEqual([['5000000'], ['7000000'], ['7000000']]);
+
+    engine.persistTo(async () => {
+      throw new Error('database unavailable');
+    });
+    await expect(engine.reserve('native', ALICE, units(3), 6)).rejects.toThrow('database unavailable');
+    expect(engine.getUsage()).toEqual({ native: { daily: '7', weekly: '7' } });
+  });
+
+  it('should apply destination lists and cooldowns', () => {
+    engine.setPolicy({ allowedDestinations: [ALICE], deniedDestinations: [MALLORY], cooldownSeconds: 60 });
+
+    expect(violationOf(() => engine.authorize('native', MALLORY, units(1), 6)).rule).toBe('destination_denied');
+    expect(violationOf(() => engine.authorize('native', 'mn_shield-addr_test1bob', units(1), 6)).rule).toBe('destination_not_allowed');
+
+    engine.authorize('native', ALICE, units(1), 6);
+    now += 15 * 1000;
+    expect(violationOf(() => engine.authorize('DAO_VOTING', ALICE, units(1), 6))).toMatchObject({
+      rule: 'cooldown',
+      retryAfterSeconds: 45
+    });
+  });
+
+  it('should report transfers above the approval threshold', () => {
+    engine.setPolicy({ limits: { native: { approvalThreshold: '50' } } });
+
+    expect(engine.approvalRequired('native', units(50), 6)).toBeNull();
+    expect(engine.approvalRequired('native', units(50.000001), 6)).toBe('50');
+    expect(engine.approvalRequired('DAO_VOTING', units(1000), 6)).toBeNull();
+  });
+
+  it('should reject malformed policies', () => {
+    expect(() => engine.setPolicy({ limits: { native: { daily: 100 } } })).toThrow(InvalidSpendingPolicyError);
+    expect(() => engine.setPolicy({ allowedDestinations: 'mn_shield-addr_test1alice' })).toThrow(InvalidSpendingPolicyError);
+    expect(() => engine.setPolicy({ cooldownSeconds: -1 })).toThrow('cooldownSeconds must be a non-negative integer');
+    expect(engine.getPolicy()).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests that tenants only see their own transactions and tokens
+ */
+
+import { PrismaTransactionService } from '../../../src/wallet/db/PrismaTransactionService.js';
+import { TokenRegistryDatabase } from '../../../src/wallet/db/TokenRegistryDatabase.js';
+import { TransactionState, TransactionType } from '../../../src/types/wallet.js';
+
+const ALICE = 'mn_shield-addr_test1alice';
+const BOB = 'mn_shield-addr_test1bob';
+const LEGACY = 'mn_shield-addr_test1legacy';
+const SHOP = 'mn_shield-addr_test1shop';
+
+function matches(row: Record<string, any>, where: Record<string, any> = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') return condition.some((option: Record<string, any>) => matches(row, option));
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      return condition.lte === undefined || row[field] <= condition.lte;
+    }
+    return (row[field] ?? null) === condition;
+  });
+}
+
+/**
+ * In-memory stand-in for the Prisma model delegates the services use
+ */
+class MemoryTable {
+  rows: Array<Record<string, any>> = [];
+
+  async create({ data }: { data: Record<string, any> }) {
+    const row = { id: `row_${this.rows.length + 1}`, ...data, createdAt: new Date(), updatedAt: new Date() };
+    this.rows.push(row);
+    return { ...row };
+  }
+
+  async findFirst({ where }: { where?: Record<string, any> }) {
+    const row = this.rows.find(candidate => matches(candidate, where));
+    return row ? { ...row } : null;
+  }
+
+  async findMany({ where }: { where?: Record<string, any> }) {
+    return this.rows.filter(row => matches(row, where)).map(row => ({ ...row }));
+  }
+
+  async count({ where }: { where?: Record<string, any> }) {
+    return this.rows.filter(row => matches(row, where)).length;
+  }
+
+  async updateMany({ where, data }: { where?: Record<string, any>; data: Record<string, any> }) {
+    const found = this.rows.filter(row => matches(row, where));
+    found.forEach(row => Object.assign(row, data, { updatedAt: new Date() }));
+    return { count: found.length };
+  }
+
+  async deleteMany({ where }: { where?: Record<string, any> }) {
+    const before = this.rows.length;
+    this.rows = this.rows.filter(row => !matches(row, where));
+    return { count: before - this.rows.length };
+  }
+}
+
+describe('Tenant isolation', () => {
+  let prisma: { transaction: MemoryTable; token: MemoryTable };
+
+  beforeEach(() => {
+    prisma = { transaction: new MemoryTable(), token: new MemoryTable() };
+  });
+
+  describe('transactions', () => {
+    let alice: PrismaTransactionService;
+    let bob: PrismaTransactionService;
+    let legacy: PrismaTransactionService;
+
+    beforeEach(() => {
+      alice = new PrismaTransactionService('tenant_alice', prisma as any);
+      bob = new PrismaTransactionService('tenant_bob', prisma as any);
+      legacy = new PrismaTransactionService(undefined, prisma as any);
+    });
+
+    it('should only list the transactions of the same tenant', async () => {
+      await alice.createTransaction(ALICE, SHOP, '5');
+      await bob.createTransaction(BOB, SHOP, '7');
+      await legacy.createTransaction(LEGACY, SHOP, '9');
+
+      expect((await alice.getAllTransactions()).map(tx => tx.amount)).toEqual(['5']);
+      expect((await bob.getAllTransactions()).map(tx => tx.amount)).toEqual(['7']);
+      expect((await legacy.getAllTransactions()).map(tx => tx.amount)).toEqual(['9']);
+      expect(await alice.getTransactionsForAddress(SHOP)).toHaveLength(1);
+      expect(await bob.getPendingTransactions()).toHaveLength(1);
+    });
+
+    it('should not read or change another tenant\'s transaction', async () => {
+      const transaction = await bob.createTransaction(BOB, SHOP, '7');
+
+      expect(await alice.getTransactionById(transaction.id)).toBeNull();
+      expect(await alice.markTransactionAsSent(transaction.id, 'tx_forged')).toBeNull();
+      expect(await alice.markTransactionAsFailed(transaction.id, 'cancelled')).toBeNull();
+
+      const stored = await bob.getTransactionById(transaction.id);
+      expect(stored).toMatchObject({ state: TransactionState.INITIATED, type: TransactionType.TRANSFER });
+      expect(stored!.txIdentifier).toBeUndefined();
+    });
+
+    it('should only complete a sent transaction for the tenant that sent it', async () => {
+      const transaction = await bob.createTransaction(BOB, SHOP, '7');
+      await bob.markTransactionAsSent(transaction.id, 'tx_bob');
+
+      expect(await alice.getTransactionByTxIdentifier('tx_bob')).toBeNull();
+      expect(await alice.markTransactionAsCompleted('tx_bob')).toBeNull();
+      expect(await bob.markTransactionAsCompleted('tx_bob')).toMatchObject({ state: TransactionState.COMPLETED });
+    });
+
+    it('should only report changes to the tenant\'s own transactions', async () => {
+      const aliceChanges: TransactionState[] = [];
+      const bobChanges: TransactionState[] = [];
+      alice.changes.subscribe(tx => aliceChanges.push(tx.state));
+      bob.changes.subscribe(tx => bobChanges.push(tx.state));
+
+      const transaction = await bob.createTransaction(BOB, SHOP, '7');
+      await alice.markTransactionAsSent(transaction.id, 'tx_forged');
+      await bob.markTransactionAsSent(transaction.id, 'tx_bob');
+      await bob.markTransactionAsCompleted('tx_bob');
+
+      expect(aliceChanges).toEqual([]);
+      expect(bobChanges).toEqual([TransactionState.INITIATED, TransactionState.SENT, TransactionState.COMPLETED]);
+    });
+
+    it('should assign earlier transactions to the tenant whose wallet sent them', async () => {
+      await legacy.createTransaction(ALICE, SHOP, '1');
+      await legacy.createTransaction(ALICE, SHOP, '2');
+      await legacy.createTransaction(BOB, SHOP, '3');
+      await legacy.createTransaction(SHOP, ALICE, '4');
+
+      expect(await alice.claimUnscopedTransactions(ALICE)).toBe(2);
+      expect(await alice.claimUnscopedTransactions(ALICE)).toBe(0);
+      expect(await legacy.claimUnscopedTransactions(BOB)).toBe(0);
+
+      expect((await alice.getAllTransactions()).map(tx => tx.amount).sort()).toEqual(['1', '2']);
+      expect((await legacy.getAllTransactions()).map(tx => tx.amount).sort()).toEqual(['3', '4']);
+    });
+  });
+
+  describe('tokens', () => {
+    const token = { name: 'DAO_VOTING', symbol: 'DVT', contractAddress: '0200aa', domainSeparator: 'dega_dao_vote', decimals: 2 };
+    let alice: TokenRegistryDatabase;
+    let bob: TokenRegistryDatabase;
+
+    beforeEach(() => {
+      alice = new TokenRegistryDatabase('tenant_alice', prisma as any);
+      bob = new TokenRegistryDatabase('tenant_bob', prisma as any);
+    });
+
+    it('should let each tenant register a token under the same name', async () => {
+      await alice.registerToken(token);
+      await bob.registerToken({ ...token, contractAddress: '0200bb' });
+
+      expect(await alice.getTokenByName('DAO_VOTING')).toMatchObject({ contractAddress: '0200aa' });
+      expect(await bob.getTokenByName('DAO_VOTING')).toMatchObject({ contractAddress: '0200bb' });
+      await expect(alice.registerToken(token)).rejects.toThrow('already registered');
+    });
+
+    it('should not read, change or remove another tenant\'s token', async () => {
+      await alice.registerToken(token);
+
+      expect(await bob.getAllTokens()).toEqual([]);
+      expect(await bob.getTokenByContractAddress('0200aa')).toBeNull();
+      expect(await bob.updateToken('DAO_VOTING', { symbol: 'BAD' })).toBeNull();
+      expect(await bob.unregisterToken('DAO_VOTING')).toBe(false);
+
+      expect(await alice.getAllTokens()).toEqual([expect.objectContaining({ symbol: 'DVT' })]);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Tests for the persistent tenant registry
+ */
+
+import { TenantRegistry, type TenantRecord, type TenantStore } from '../../../src/wallet/tenant-registry.js';
+
+const MINUTE = 60 * 1000;
+const START = Date.parse('2026-03-02T08:30:00Z');
+
+class MemoryTenantStore implements TenantStore {
+  records = new Map<string, TenantRecord>();
+
+  async list() {
+    return Array.from(this.records.values()).map(record => ({ ...record }));
+  }
+
+  async create(record: TenantRecord) {
+    this.records.set(record.tenantId, { ...record });
+  }
+
+  async claim(record: TenantRecord) {
+    this.records.set(record.tenantId, { ...record });
+  }
+
+  async update(tenantId: string, changes: Partial<TenantRecord>) {
+    Object.assign(this.records.get(tenantId)!, changes);
+  }
+
+  async delete(tenantId: string) {
+    this.records.delete(tenantId);
+  }
+}
+
+class FakeWallet {
+  closed = false;
+  sending: Promise<void> | null = null;
+  constructor(public readonly tenantId: string) {}
+  async close() {
+    this.closed = true;
+  }
+  backgroundWork() {
+    return this.sending;
+  }
+}
+
+const record = (tenantId: string): TenantRecord => ({
+  tenantId,
+  sealedSeed: `enc:v1:${tenantId}`,
+  createdAt: new Date(START),
+  lastAccessedAt: new Date(START),
+  isActive: true
+});
+
+describe('TenantRegistry', () => {
+  let now: number;
+  let store: MemoryTenantStore;
+  let opened: string[];
+  let registry: TenantRegistry<FakeWallet>;
+
+  // A completed operation on a tenant's wallet
+  const access = async (tenantId: string) => {
+    const wallet = await registry.acquire(tenantId);
+    if (wallet) registry.release(tenantId);
+    return wallet;
+  };
+
+  beforeEach(async () => {
+    now = START;
+    store = new MemoryTenantStore();
+    opened = [];
+    for (const tenantId of ['alpha', 'beta', 'gamma']) {
+      await store.create(record(tenantId));
+    }
+    registry = new TenantRegistry(async ({ tenantId }) => {
+      opened.push(tenantId);
+      return new FakeWallet(tenantId);
+    }, store, { idleTtlMs: 10 * MINUTE, maxLoadedWallets: 2, now: () => now });
+  });
+
+  it('should restore tenants from the store without opening their wallets', async () => {
+    expect(await registry.has('alpha')).toBe(true);
+    expect(await registry.has('delta')).toBe(false);
+    expect(await registry.stats()).toEqual({
+      totalTenants: 3,
+      loadedTenants: 0,
+      dormantTenants: 3,
+      maxLoadedWallets: 2,
+      idleTtlMs: 10 * MINUTE
+    });
+    expect(opened).toEqual([]);
+  });
+
+  it('should open a dormant wallet once on first access', async () => {
+    const [first, second] = await Promise.all([registry.acquire('alpha'), registry.acquire('alpha')]);
+
+    expect(first).toBe(second);
+    expect(opened).toEqual(['alpha']);
+    expect(registry.isLoaded('alpha')).toBe(true);
+    expect(await registry.acquire('delta')).toBeNull();
+  });
+
+  it('should close the least recently used wallet beyond the limit', async () => {
+    const alpha = await access('alpha');
+    const beta = await access('beta');
+    now += MINUTE;
+    await access('alpha');
+    await access('gamma');
+
+    expect(beta!.closed).toBe(true);
+    expect(alpha!.closed).toBe(false);
+    expect(registry.loadedWallets().map(([tenantId]) => tenantId)).toEqual(['alpha', 'gamma']);
+    expect(await registry.stats()).toMatchObject({ loadedTenants: 2, dormantTenants: 1 });
+  });
+
+  it('should close idle wallets and reopen them from saved state', async () => {
+    const alpha = await access('alpha');
+    now += 5 * MINUTE;
+    await access('beta');
+
+    now += 6 * MINUTE;
+    expect(await registry.evictIdle()).toBe(1);
+    expect(alpha!.closed).toBe(true);
+    expect(registry.isLoaded('beta')).toBe(true);
+    expect(store.records.get('alpha')!.lastAccessedAt).toEqual(new Date(START));
+
+    await access('alpha');
+    expect(opened).toEqual(['alpha', 'beta', 'alpha']);
+  });
+
+  it('should not close wallets with operations in flight', async () => {
+    const alpha = await registry.acquire('alpha');
+    await access('beta');
+    await access('gamma');
+
+    expect(alpha!.closed).toBe(false);
+    expect(registry.loadedWallets().map(([tenantId]) => tenantId)).toEqual(['alpha', 'gamma']);
+
+    now += 11 * MINUTE;
+    expect(await registry.evictIdle()).toBe(1);
+    expect(registry.isLoaded('alpha')).toBe(true);
+
+    // The operation counts as an access when it finishes
+    registry.release('alpha');
+    expect(await registry.evictIdle()).toBe(0);
+    now += 11 * MINUTE;
+    expect(await registry.evictIdle()).toBe(1);
+    expect(alpha!.closed).toBe(true);
+  });
+
+  it('should keep a wallet open until the send it started in the background settles', async () => {
+    const alpha = await registry.acquire('alpha');
+    let settle!: () => void;
+    alpha!.sending = new Promise<void>(resolve => { settle = resolve; }).then(() => { alpha!.sending = null; });
+    registry.release('alpha');
+
+    now += 11 * MINUTE;
+    await access('beta');
+    await access('gamma');
+    expect(await registry.evictIdle()).toBe(0);
+    expect(alpha!.closed).toBe(false);
+    expect(registry.isInUse('alpha')).toBe(true);
+
+    settle();
+    await alpha!.sending;
+    await new Promise(resolve => setImmediate(resolve));
+    expect(registry.isInUse('alpha')).toBe(false);
+    now += 11 * MINUTE;
+    expect(await registry.evictIdle()).toBe(2);
+    expect(alpha!.closed).toBe(true);
+  });
+
+  it('should let the limit be exceeded while every open wallet is in use', async () => {
+    await registry.acquire('alpha');
+    await registry.acquire('beta');
+    await registry.acquire('gamma');
+    expect(registry.loadedWallets()).toHaveLength(3);
+
+    const alpha = registry.loadedWallets()[0][1];
+    registry.release('alpha');
+    await access('beta');
+    expect(registry.loadedWallets().map(([tenantId]) => tenantId)).toEqual(['gamma', 'beta']);
+    expect(alpha.closed).toBe(true);
+  });
+
+  it('should wait for operations in flight before handing a tenant over', async () => {
+    const alpha = await registry.acquire('alpha');
+    const handedOver = registry.handOver('alpha');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(alpha!.closed).toBe(false);
+
+    registry.release('alpha');
+    expect(await handedOver).toMatchObject({ tenantId: 'alpha' });
+    expect(alpha!.closed).toBe(true);
+  });
+
+  it('should persist new tenants and changes to them', async () => {
+    await registry.register(record('delta'), new FakeWallet('delta'));
+    await registry.update('delta', { name: 'Delta bot' });
+
+    expect(store.records.get('delta')).toMatchObject({ name: 'Delta bot', sealedSeed: 'enc:v1:delta' });
+    expect(registry.isLoaded('delta')).toBe(true);
+    expect(await registry.update('epsilon', { name: 'Unknown' })).toBeNull();
+  });
+
+  it('should close the wallet of an unregistered tenant', async () => {
+    const alpha = await access('alpha');
+
+    expect(await registry.unregister('alpha')).toBe(true);
+    expect(alpha!.closed).toBe(true);
+    expect(store.records.has('alpha')).toBe(false);
+    expect(await registry.unregister('alpha')).toBe(false);
+  });
+
+  it('should hand over a tenant without removing it from the store', async () => {
+    const alpha = await access('alpha');
+
+    expect(await registry.handOver('alpha')).toMatchObject({ tenantId: 'alpha', sealedSeed: 'enc:v1:alpha' });
+    expect(alpha!.closed).toBe(true);
+    expect(await registry.has('alpha')).toBe(false);
+    expect(store.records.has('alpha')).toBe(true);
+    expect(await registry.handOver('alpha')).toBeNull();
+  });
+
+  it('should adopt a tenant and open its wallet on first access', async () => {
+    await registry.adopt(record('delta'));
+
+    expect(store.records.has('delta')).toBe(true);
+    expect(registry.isLoaded('delta')).toBe(false);
+    expect(await access('delta')).toBeInstanceOf(FakeWallet);
+    expect(opened).toEqual(['delta']);
+  });
+
+  it('should close every open wallet when stopped', async () => {
+    const alpha = await access('alpha');
+    const beta = await access('beta');
+
+    await registry.stop();
+
+    expect([alpha!.closed, beta!.closed]).toEqual([true, true]);
+    expect(await registry.stats()).toMatchObject({ loadedTenants: 0, dormantTenants: 3 });
+  });
+});
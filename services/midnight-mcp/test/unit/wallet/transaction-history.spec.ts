@@ -0,0 +1,142 @@
+/**
+ * Tests for transaction history and export
+ */
+
+import {
+  buildTransactionHistory,
+  historyToCsv,
+  paginateHistory,
+  parseHistoryQuery,
+  InvalidHistoryQueryError,
+  DEFAULT_HISTORY_LIMIT
+} from '../../../src/wallet/transaction-history.js';
+import {
+  TransactionState,
+  TransactionType,
+  type TokenInfo,
+  type TransactionRecord
+} from '../../../src/types/wallet.js';
+
+const WALLET = 'mn_shield-addr_test1wallet';
+const ALICE = 'mn_shield-addr_test1alice';
+const BOB = 'mn_shield-addr_test1bob';
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse('2026-03-01T00:00:00Z');
+
+const TOKENS: TokenInfo[] = [
+  { name: 'DAO_VOTING', symbol: 'DVT', contractAddress: '0200aa', domainSeparator: 'dega_dao_vote', decimals: 2 }
+];
+
+let sequence = 0;
+function transaction(overrides: Partial<TransactionRecord> = {}): TransactionRecord {
+  sequence += 1;
+  return {
+    id: `transaction_${sequence}`,
+    state: TransactionState.COMPLETED,
+    type: TransactionType.TRANSFER,
+    fromAddress: WALLET,
+    toAddress: ALICE,
+    amount: '1',
+    createdAt: START + sequence * DAY,
+    updatedAt: START + sequence * DAY,
+    ...overrides
+  };
+}
+
+describe('parseHistoryQuery', () => {
+  it('should default the page and leave filters unset', () => {
+    expect(parseHistoryQuery({})).toEqual({
+      startDate: undefined,
+      endDate: undefined,
+      type: undefined,
+      state: undefined,
+      token: undefined,
+      counterparty: undefined,
+      limit: DEFAULT_HISTORY_LIMIT,
+      offset: 0
+    });
+  });
+
+  it('should accept ISO dates and timestamps', () => {
+    const query = parseHistoryQuery({ startDate: '2026-03-01', endDate: String(START + DAY), limit: '10', offset: '20' });
+    expect(query).toMatchObject({ startDate: START, endDate: START + DAY, limit: 10, offset: 20 });
+  });
+
+  it('should reject malformed filters', () => {
+    expect(() => parseHistoryQuery({ startDate: 'last month' })).toThrow(InvalidHistoryQueryError);
+    expect(() => parseHistoryQuery({ startDate: '2026-04-01', endDate: '2026-03-01' })).toThrow('startDate must not be after endDate');
+    expect(() => parseHistoryQuery({ type: 'REFUND' })).toThrow('type must be one of');
+    expect(() => parseHistoryQuery({ limit: '501' })).toThrow(InvalidHistoryQueryError);
+    expect(() => parseHistoryQuery({ offset: '-1' })).toThrow(InvalidHistoryQueryError);
+  });
+});
+
+describe('buildTransactionHistory', () => {
+  const records = [
+    transaction({ fromAddress: BOB, toAddress: WALLET, amount: '10' }),
+    transaction({ amount: '2.5' }),
+    transaction({ amount: '100', state: TransactionState.FAILED }),
+    transaction({ amount: '4.25', toAddress: BOB, metadata: { token: 'DAO_VOTING' } }),
+    transaction({ amount: '500', type: TransactionType.DAO_VOTE, metadata: { token: 'DAO_VOTING' } })
+  ];
+
+  it('should list rows newest first with the net recorded per token', () => {
+    const history = buildTransactionHistory(records, WALLET, TOKENS, {});
+
+    expect(history.map(entry => [entry.symbol, entry.amount, entry.netRecorded])).toEqual([
+      ['DVT', '500', '-504.25'],
+      ['DVT', '4.25', '-4.25'],
+      ['tDUST', '100', '7.5'],
+      ['tDUST', '2.5', '7.5'],
+      ['tDUST', '10', '10']
+    ]);
+    expect(history[4]).toMatchObject({ direction: 'incoming', counterparty: BOB, token: 'native', decimals: 6 });
+    expect(history[1]).toMatchObject({ direction: 'outgoing', counterparty: BOB, token: 'DAO_VOTING', decimals: 2 });
+  });
+
+  it('should label DAO operations', () => {
+    const [vote, transfer] = buildTransactionHistory(records, WALLET, TOKENS, {});
+    expect(vote).toMatchObject({ label: 'DAO vote', dao: true });
+    expect(transfer).toMatchObject({ label: 'Transfer', dao: false });
+  });
+
+  it('should filter without losing the net carried into the range', () => {
+    const history = buildTransactionHistory(records, WALLET, TOKENS, {
+      startDate: records[1].createdAt,
+      state: TransactionState.COMPLETED,
+      token: 'tdust'
+    });
+
+    expect(history.map(entry => entry.id)).toEqual([records[1].id]);
+    expect(history[0].netRecorded).toBe('7.5');
+    expect(buildTransactionHistory(records, WALLET, TOKENS, { counterparty: BOB }).map(entry => entry.id))
+      .toEqual([records[3].id, records[0].id]);
+    expect(buildTransactionHistory(records, WALLET, TOKENS, { type: TransactionType.DAO_VOTE })).toHaveLength(1);
+  });
+});
+
+describe('paginateHistory', () => {
+  it('should slice a page and report the total', () => {
+    const history = buildTransactionHistory([transaction(), transaction(), transaction()], WALLET, TOKENS, {});
+    const page = paginateHistory(history, parseHistoryQuery({ limit: '2', offset: '1' }));
+
+    expect(page.transactions.map(entry => entry.id)).toEqual([history[1].id, history[2].id]);
+    expect(page).toMatchObject({ total: 3, limit: 2, offset: 1 });
+  });
+});
+
+describe('historyToCsv', () => {
+  it('should write a header and escape fields for spreadsheets', () => {
+    const history = buildTransactionHistory([
+      transaction({ state: TransactionState.FAILED, errorMessage: 'Rejected, "insufficient" funds' }),
+      transaction({ toAddress: '=HYPERLINK("http://evil")' })
+    ], WALLET, TOKENS, {});
+    const lines = historyToCsv(history).split('\r\n');
+
+    expect(lines[0]).toBe('date,id,txIdentifier,label,type,state,direction,counterparty,symbol,token,decimals,amount,netRecorded,errorMessage');
+    expect(lines[1]).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(lines[1]).toContain(',-1,');
+    expect(lines[2]).toMatch(/,"Rejected, ""insufficient"" funds"$/);
+    expect(lines[3]).toBe('');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for dry-run transaction previews
+ */
+
+import {
+  attemptCheck,
+  balanceCheck,
+  buildPreview,
+  castVoteChecks,
+  fundTreasuryChecks,
+  payoutChecks,
+  DAO_VOTE_COIN_VALUE
+} from '../../../src/wallet/transaction-preview.js';
+import type { DaoVotingState } from '../../../src/integrations/dao/common-types.js';
+
+const VOTER = new Uint8Array([1, 2, 3]);
+const TREASURY_COLOR = new Uint8Array(32).fill(7);
+
+function daoState(overrides: Partial<DaoVotingState> = {}, voted: Uint8Array[] = []): DaoVotingState {
+  return {
+    election_open: true,
+    yes_votes: 0n,
+    no_votes: 0n,
+    treasury_coin_color: TREASURY_COLOR,
+    has_voted: { member: (key: Uint8Array) => voted.some(voter => voter.every((byte, index) => byte === key[index])) },
+    ...overrides
+  } as DaoVotingState;
+}
+
+const failed = (checks: { name: string; passed: boolean }[]) =>
+  checks.filter(check => !check.passed).map(check => check.name);
+
+describe('balanceCheck', () => {
+  it('should compare balances in the token unit', () => {
+    const { check, balance } = balanceCheck('native', 5_000_000n, 2_500_000n);
+    expect(check).toEqual({ name: 'sufficient_balance', passed: true });
+    expect(balance).toEqual({ token: 'native', available: '5', required: '2.5' });
+  });
+
+  it('should explain a shortfall', () => {
+    const { check } = balanceCheck('native', 1_000_000n, 2_000_000n);
+    expect(check).toEqual({
+      name: 'sufficient_balance',
+      passed: false,
+      message: 'Insufficient native balance: 1 available, 2 required'
+    });
+  });
+});
+
+describe('attemptCheck', () => {
+  it('should turn a thrown error into a failed check', async () => {
+    expect(await attemptCheck('spending_policy', () => undefined)).toEqual({ name: 'spending_policy', passed: true });
+    expect(await attemptCheck('build_transaction', async () => { throw new Error('Not enough coins'); }))
+      .toEqual({ name: 'build_transaction', passed: false, message: 'Not enough coins' });
+  });
+});
+
+describe('DAO circuit preconditions', () => {
+  it('should pass a first vote with a 500 token coin in an open election', () => {
+    expect(failed(castVoteChecks(daoState(), 0, DAO_VOTE_COIN_VALUE, VOTER))).toEqual([]);
+  });
+
+  it('should name the assertions cast_vote would fail', () => {
+    const checks = castVoteChecks(daoState({ election_open: false }, [VOTER]), 0, 499n, VOTER);
+    expect(failed(checks)).toEqual(['election_open', 'vote_coin_value', 'not_voted']);
+    expect(checks.find(check => check.name === 'not_voted')?.message).toBe('cast_vote would fail: "User already voted"');
+  });
+
+  it('should reject funding the treasury with another token', () => {
+    expect(failed(fundTreasuryChecks(daoState(), TREASURY_COLOR))).toEqual([]);
+    expect(failed(fundTreasuryChecks(daoState(), new Uint8Array(32)))).toEqual(['fund_asset']);
+  });
+
+  it('should only pay out an approved proposal after the election closed', () => {
+    expect(failed(payoutChecks(daoState({ election_open: false, yes_votes: 3n, no_votes: 1n })))).toEqual([]);
+    expect(failed(payoutChecks(daoState({ yes_votes: 1n, no_votes: 1n })))).toEqual(['election_closed', 'proposal_approved']);
+  });
+});
+
+describe('buildPreview', () => {
+  it('should succeed only when every check passes', () => {
+    expect(buildPreview('send', [{ name: 'a', passed: true }])).toEqual({
+      dryRun: true,
+      operation: 'send',
+      wouldSucceed: true,
+      checks: [{ name: 'a', passed: true }],
+      balances: []
+    });
+    expect(buildPreview('payoutDaoProposal', [{ name: 'a', passed: true }, { name: 'b', passed: false }]).wouldSucceed).toBe(false);
+  });
+});